@@ -3,7 +3,13 @@ pragma solidity ^0.8.0;
 
 /**
  * @title SimpleBDAGTransfer
- * @dev A minimal contract for transferring BDAG tokens from buyers to authors
+ * @dev A minimal contract for transferring BDAG tokens from buyers to authors.
+ * Each purchase is split between the author, the story's impact beneficiary and
+ * the platform treasury, in basis points.
+ *
+ * Story and chapter IDs are the database UUIDs read as 128-bit unsigned
+ * integers: the 32 hex digits of the UUID, without dashes, are the big-endian
+ * value. IDs are never hashed or truncated, so event IDs decode back to UUIDs.
  */
 contract SimpleBDAGTransfer {
     
@@ -13,17 +19,51 @@ contract SimpleBDAGTransfer {
         address indexed author,
         uint256 storyId,
         uint256 chapterId,
-        uint256 amount
+        uint256 amount,
+        uint256 authorAmount,
+        address impactRecipient,
+        uint256 impactAmount,
+        uint256 platformFee
     );
     
+    event StoryPurchased(
+        address indexed buyer,
+        address indexed author,
+        uint256 storyId,
+        uint256 chapterCount,
+        uint256 amount,
+        uint256 authorAmount,
+        address impactRecipient,
+        uint256 impactAmount,
+        uint256 platformFee
+    );
+    
+    event SplitConfigUpdated(uint256 platformFeeBps, uint256 maxImpactBps);
+    event TreasuriesUpdated(address platformTreasury, address impactTreasury);
+    
+    // Split configuration
+    uint256 public constant BPS_DENOMINATOR = 10000;
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1000; // 10%
+    uint256 public constant MAX_BUNDLE_CHAPTERS = 200;
+    
+    uint256 public platformFeeBps;
+    uint256 public maxImpactBps = 5000; // stories can give at most 50% to impact
+    
+    // Platform fees go here; impact shares without a beneficiary wallet go to the impact treasury
+    address public platformTreasury;
+    address public impactTreasury;
+    
     // State variables
     mapping(bytes32 => bool) public purchaseHistory; // storyId + chapterId + buyer
+    mapping(bytes32 => bool) public storyPurchaseHistory; // storyId + buyer
     
     // Owner for admin functions
     address public owner;
     
     constructor() {
         owner = msg.sender;
+        platformTreasury = msg.sender;
+        impactTreasury = msg.sender;
     }
     
     modifier onlyOwner() {
@@ -31,19 +71,73 @@ contract SimpleBDAGTransfer {
         _;
     }
     
+    /**
+     * @dev Set the platform fee and the largest impact share a story may use
+     * @param _platformFeeBps Platform fee in basis points
+     * @param _maxImpactBps Maximum impact share in basis points
+     */
+    function setSplitConfig(uint256 _platformFeeBps, uint256 _maxImpactBps) external onlyOwner {
+        require(_platformFeeBps <= MAX_PLATFORM_FEE_BPS, "Platform fee too high");
+        require(_platformFeeBps + _maxImpactBps <= BPS_DENOMINATOR, "Split exceeds 100%");
+        
+        platformFeeBps = _platformFeeBps;
+        maxImpactBps = _maxImpactBps;
+        
+        emit SplitConfigUpdated(_platformFeeBps, _maxImpactBps);
+    }
+    
+    /**
+     * @dev Set where platform fees and unassigned impact shares are sent
+     * @param _platformTreasury Platform treasury address
+     * @param _impactTreasury Impact pool address
+     */
+    function setTreasuries(address _platformTreasury, address _impactTreasury) external onlyOwner {
+        require(_platformTreasury != address(0), "Invalid platform treasury");
+        require(_impactTreasury != address(0), "Invalid impact treasury");
+        
+        platformTreasury = _platformTreasury;
+        impactTreasury = _impactTreasury;
+        
+        emit TreasuriesUpdated(_platformTreasury, _impactTreasury);
+    }
+    
+    /**
+     * @dev Work out how a payment is split
+     * @param _amount The payment amount in wei
+     * @param _impactBps The story's impact share in basis points
+     * @return authorAmount Amount sent to the author
+     * @return impactAmount Amount sent to the impact beneficiary
+     * @return platformFee Amount sent to the platform treasury
+     */
+    function previewSplit(
+        uint256 _amount,
+        uint256 _impactBps
+    ) public view returns (uint256 authorAmount, uint256 impactAmount, uint256 platformFee) {
+        require(_impactBps <= maxImpactBps, "Impact share too high");
+        
+        impactAmount = (_amount * _impactBps) / BPS_DENOMINATOR;
+        platformFee = (_amount * platformFeeBps) / BPS_DENOMINATOR;
+        authorAmount = _amount - impactAmount - platformFee;
+    }
+    
     /**
      * @dev Purchase a chapter with BDAG tokens
      * @param _storyId The story ID
      * @param _chapterId The chapter ID
      * @param _author The author's wallet address
+     * @param _beneficiary The impact beneficiary's wallet, or address(0) for the impact treasury
+     * @param _impactBps The story's impact share in basis points
      */
     function purchaseChapter(
         uint256 _storyId,
         uint256 _chapterId,
-        address _author
+        address _author,
+        address _beneficiary,
+        uint256 _impactBps
     ) external payable {
         require(msg.value > 0, "Must send BDAG tokens");
         require(_author != address(0), "Invalid author address");
+        require(_isUuid(_storyId) && _isUuid(_chapterId), "Invalid ID encoding");
         require(_author != msg.sender, "Cannot purchase from yourself");
         
         // Create unique purchase identifier
@@ -53,9 +147,12 @@ contract SimpleBDAGTransfer {
         // Mark as purchased
         purchaseHistory[purchaseId] = true;
         
-        // Transfer BDAG directly to author (no platform fee for now)
-        (bool success, ) = _author.call{value: msg.value}("");
-        require(success, "Failed to transfer BDAG to author");
+        (
+            uint256 authorAmount,
+            address impactRecipient,
+            uint256 impactAmount,
+            uint256 platformFee
+        ) = _distribute(msg.value, _author, _beneficiary, _impactBps);
         
         // Emit event
         emit ChapterPurchased(
@@ -63,10 +160,121 @@ contract SimpleBDAGTransfer {
             _author,
             _storyId,
             _chapterId,
-            msg.value
+            msg.value,
+            authorAmount,
+            impactRecipient,
+            impactAmount,
+            platformFee
+        );
+    }
+    
+    /**
+     * @dev Purchase every listed chapter of a story in one transaction.
+     * The bundle price (including any author discount) is worked out off-chain
+     * and sent as msg.value. The contract cannot check it, so the purchase
+     * indexer only grants the story when msg.value is the buyer's bundle price.
+     * @param _storyId The story ID
+     * @param _chapterIds The chapters the buyer is getting access to
+     * @param _author The author's wallet address
+     * @param _beneficiary The impact beneficiary's wallet, or address(0) for the impact treasury
+     * @param _impactBps The story's impact share in basis points
+     */
+    function purchaseStory(
+        uint256 _storyId,
+        uint256[] calldata _chapterIds,
+        address _author,
+        address _beneficiary,
+        uint256 _impactBps
+    ) external payable {
+        require(msg.value > 0, "Must send BDAG tokens");
+        require(_author != address(0), "Invalid author address");
+        require(_author != msg.sender, "Cannot purchase from yourself");
+        require(_chapterIds.length > 0, "No chapters to purchase");
+        require(_chapterIds.length <= MAX_BUNDLE_CHAPTERS, "Too many chapters");
+        require(_isUuid(_storyId), "Invalid ID encoding");
+        
+        bytes32 storyPurchaseId = keccak256(abi.encodePacked(_storyId, msg.sender));
+        require(!storyPurchaseHistory[storyPurchaseId], "Story already purchased by this user");
+        
+        storyPurchaseHistory[storyPurchaseId] = true;
+        _markChaptersPurchased(_storyId, _chapterIds);
+        
+        (
+            uint256 authorAmount,
+            address impactRecipient,
+            uint256 impactAmount,
+            uint256 platformFee
+        ) = _distribute(msg.value, _author, _beneficiary, _impactBps);
+        
+        emit StoryPurchased(
+            msg.sender,
+            _author,
+            _storyId,
+            _chapterIds.length,
+            msg.value,
+            authorAmount,
+            impactRecipient,
+            impactAmount,
+            platformFee
         );
     }
     
+    /**
+     * @dev Check if a whole story was purchased by a specific user
+     * @param _storyId The story ID
+     * @param _buyer The buyer's address
+     * @return True if purchased
+     */
+    function isStoryPurchased(uint256 _storyId, address _buyer) external view returns (bool) {
+        return storyPurchaseHistory[keccak256(abi.encodePacked(_storyId, _buyer))];
+    }
+    
+    /**
+     * @dev Record chapter access for a bundle; chapters bought earlier are left as they are
+     */
+    function _markChaptersPurchased(uint256 _storyId, uint256[] calldata _chapterIds) private {
+        for (uint256 i = 0; i < _chapterIds.length; i++) {
+            require(_isUuid(_chapterIds[i]), "Invalid ID encoding");
+            purchaseHistory[keccak256(abi.encodePacked(_storyId, _chapterIds[i], msg.sender))] = true;
+        }
+    }
+    
+    /**
+     * @dev A UUID-encoded ID is non-zero and fits in 128 bits
+     */
+    function _isUuid(uint256 _id) private pure returns (bool) {
+        return _id != 0 && _id >> 128 == 0;
+    }
+    
+    /**
+     * @dev Split a payment and send each share to its recipient
+     */
+    function _distribute(
+        uint256 _amount,
+        address _author,
+        address _beneficiary,
+        uint256 _impactBps
+    ) private returns (uint256 authorAmount, address impactRecipient, uint256 impactAmount, uint256 platformFee) {
+        (authorAmount, impactAmount, platformFee) = previewSplit(_amount, _impactBps);
+        impactRecipient = _beneficiary != address(0) ? _beneficiary : impactTreasury;
+        
+        _send(_author, authorAmount, "Failed to transfer BDAG to author");
+        _send(impactRecipient, impactAmount, "Failed to transfer BDAG to impact beneficiary");
+        _send(platformTreasury, platformFee, "Failed to transfer platform fee");
+    }
+    
+    /**
+     * @dev Send BDAG to an address, skipping zero amounts
+     */
+    function _send(address _to, uint256 _amount, string memory _error) private {
+        if (_amount == 0) {
+            return;
+        }
+        
+        (bool success, ) = _to.call{value: _amount}("");
+        require(success, _error);
+    }
+    
     /**
      * @dev Check if a chapter was purchased by a specific user
      * @param _storyId The story ID
@@ -0,0 +1,29 @@
+import fs from 'fs';
+import path from 'path';
+import { HardhatUserConfig, subtask } from 'hardhat/config';
+import { TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS } from 'hardhat/builtin-tasks/task-names';
+import '@nomicfoundation/hardhat-toolbox';
+// Tests import the app's indexer, which uses the '@/' alias
+import 'tsconfig-paths/register';
+
+// The contracts sit next to this file, so only compile the .sol files here
+// rather than everything under node_modules
+subtask(TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS).setAction(async (_, { config }) =>
+  fs.readdirSync(config.paths.root)
+    .filter((file) => file.endsWith('.sol'))
+    .map((file) => path.join(config.paths.root, file))
+);
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: '0.8.19',
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+    },
+  },
+  paths: {
+    sources: './',
+  },
+};
+
+export default config;
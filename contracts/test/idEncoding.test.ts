@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { uuidToUint256, uint256ToUuid } from '@/integrations/web3/contracts';
+
+const UUIDS = [
+  '00000000-0000-4000-8000-000000000001',
+  '7f3c9a2e-41b6-4d0f-9e8a-2c5b1d7e6f40',
+  'ffffffff-ffff-4fff-bfff-ffffffffffff',
+];
+
+describe('Story and chapter ID encoding', () => {
+  const deployFixture = async () => {
+    const [, buyer, author] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory('SimpleBDAGTransfer');
+    const contract = await factory.deploy();
+    await contract.deployed();
+
+    return { contract, buyer, author };
+  };
+
+  it('round-trips UUIDs through uint256', () => {
+    for (const uuid of UUIDS) {
+      expect(uint256ToUuid(uuidToUint256(uuid))).to.equal(uuid);
+    }
+  });
+
+  it('reads the UUID digits as one big-endian number', () => {
+    expect(uuidToUint256(UUIDS[0]).eq('0x40008000000000000001')).to.equal(true);
+    expect(uuidToUint256(UUIDS[2]).eq('0xffffffffffff4fffbfffffffffffffff')).to.equal(true);
+  });
+
+  it('decodes upper-case UUIDs to their lower-case form', () => {
+    expect(uint256ToUuid(uuidToUint256(UUIDS[1].toUpperCase()))).to.equal(UUIDS[1]);
+  });
+
+  it('rejects values that are not UUIDs', () => {
+    expect(() => uuidToUint256('not-a-uuid')).to.throw('Invalid UUID');
+    expect(() => uint256ToUuid(0)).to.throw('Not a UUID-encoded ID');
+    expect(() => uint256ToUuid(ethers.BigNumber.from(2).pow(128))).to.throw('Not a UUID-encoded ID');
+  });
+
+  it('gets the same IDs back from purchase events', async () => {
+    const { contract, buyer, author } = await loadFixture(deployFixture);
+    const [storyId, chapterId] = UUIDS;
+
+    const tx = await contract.connect(buyer).purchaseChapter(
+      uuidToUint256(storyId),
+      uuidToUint256(chapterId),
+      author.address,
+      ethers.constants.AddressZero,
+      0,
+      { value: ethers.utils.parseEther('1') }
+    );
+    const receipt = await tx.wait();
+    const event = receipt.events?.find((e) => e.event === 'ChapterPurchased');
+
+    expect(uint256ToUuid(event?.args?.storyId)).to.equal(storyId);
+    expect(uint256ToUuid(event?.args?.chapterId)).to.equal(chapterId);
+  });
+
+  it('refuses IDs wider than a UUID on-chain', async () => {
+    const { contract, buyer, author } = await loadFixture(deployFixture);
+
+    await expect(
+      contract.connect(buyer).purchaseChapter(
+        ethers.BigNumber.from(2).pow(128),
+        uuidToUint256(UUIDS[1]),
+        author.address,
+        ethers.constants.AddressZero,
+        0,
+        { value: ethers.utils.parseEther('1') }
+      )
+    ).to.be.revertedWith('Invalid ID encoding');
+  });
+});
@@ -0,0 +1,164 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { uuidToUint256 } from '@/integrations/web3/contracts';
+import { indexPurchaseEvents, PurchaseIndexerOptions } from '@/services/purchaseIndexer';
+
+const STORY_ID = '7f3c9a2e-41b6-4d0f-9e8a-2c5b1d7e6f40';
+const CHAPTER_IDS = [
+  '0b6e2d4a-9c31-4f7e-8a15-3d2c6b9e1f01',
+  '0b6e2d4a-9c31-4f7e-8a15-3d2c6b9e1f02',
+];
+
+type RpcArgs = Record<string, unknown>;
+
+/**
+ * Stand-in for the service-role client: records index_bdag_purchase calls,
+ * refuses events paid to `wrongAuthor` the way the database does, and keeps
+ * the indexer cursor in memory
+ */
+const createSupabaseStub = (wrongAuthor: string) => {
+  const calls: RpcArgs[] = [];
+  const cursors = new Map<string, number>();
+
+  const stub = {
+    rpc: async (fn: string, args: RpcArgs) => {
+      expect(fn).to.equal('index_bdag_purchase');
+      calls.push(args);
+
+      if (args.p_author_address === wrongAuthor) {
+        return { data: null, error: { code: '22023', message: 'Purchase was not paid to the story author' } };
+      }
+      return { data: 'transaction-id', error: null };
+    },
+    from: (table: string) => {
+      expect(table).to.equal('blockchain_sync_state');
+      let contractAddress = '';
+
+      const query = {
+        upsert: async (row: { contract_address: string; last_indexed_block: number }) => {
+          cursors.set(row.contract_address, row.last_indexed_block);
+          return { error: null };
+        },
+        select: () => query,
+        eq: (_column: string, value: string) => {
+          contractAddress = value;
+          return query;
+        },
+        maybeSingle: async () => {
+          const block = cursors.get(contractAddress);
+          return { data: block === undefined ? null : { last_indexed_block: block }, error: null };
+        },
+      };
+      return query;
+    },
+  };
+
+  return { calls, cursors, client: stub as unknown as PurchaseIndexerOptions['supabase'] };
+};
+
+describe('Purchase indexer', () => {
+  const deployFixture = async () => {
+    const [owner, buyer, author, beneficiary, stranger] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory('SimpleBDAGTransfer');
+    const contract = await factory.deploy();
+    await contract.deployed();
+    await contract.setSplitConfig(500, 5000);
+
+    return { contract, owner, buyer, author, beneficiary, stranger };
+  };
+
+  it('records chapter and story purchases and skips ones the database refuses', async () => {
+    const { contract, owner, buyer, author, beneficiary, stranger } = await loadFixture(deployFixture);
+    const supabase = createSupabaseStub(stranger.address);
+
+    const chapterTx = await contract.connect(buyer).purchaseChapter(
+      uuidToUint256(STORY_ID),
+      uuidToUint256(CHAPTER_IDS[0]),
+      author.address,
+      beneficiary.address,
+      1000,
+      { value: ethers.utils.parseEther('5') }
+    );
+    const wrongAuthorTx = await contract.connect(buyer).purchaseChapter(
+      uuidToUint256(STORY_ID),
+      uuidToUint256(CHAPTER_IDS[1]),
+      stranger.address,
+      ethers.constants.AddressZero,
+      0,
+      { value: ethers.utils.parseEther('1') }
+    );
+    const storyTx = await contract.connect(buyer).purchaseStory(
+      uuidToUint256(STORY_ID),
+      CHAPTER_IDS.map(uuidToUint256),
+      author.address,
+      ethers.constants.AddressZero,
+      1000,
+      { value: ethers.utils.parseEther('2.5') }
+    );
+
+    const result = await indexPurchaseEvents({
+      provider: ethers.provider,
+      supabase: supabase.client,
+      contractAddress: contract.address,
+      fromBlock: 0,
+    });
+
+    expect(result.indexed.map((p) => p.txHash)).to.deep.equal([chapterTx.hash, storyTx.hash]);
+    expect(result.skipped.map((p) => p.txHash)).to.deep.equal([wrongAuthorTx.hash]);
+    expect(supabase.calls).to.have.length(3);
+
+    const [chapterCall, , storyCall] = supabase.calls;
+    expect(chapterCall).to.include({
+      p_blockchain_tx_hash: chapterTx.hash,
+      p_buyer_address: buyer.address,
+      p_author_address: author.address,
+      p_impact_recipient: beneficiary.address,
+      p_impact_treasury: owner.address,
+      p_story_id: STORY_ID,
+      p_chapter_id: CHAPTER_IDS[0],
+      p_amount: 5,
+      p_impact_amount: 0.5,
+      p_platform_fee: 0.25,
+    });
+    expect(storyCall).to.include({
+      p_blockchain_tx_hash: storyTx.hash,
+      p_impact_recipient: owner.address,
+      p_story_id: STORY_ID,
+      p_chapter_id: null,
+      p_amount: 2.5,
+    });
+
+    const latestBlock = await ethers.provider.getBlockNumber();
+    expect(result.toBlock).to.equal(latestBlock);
+    expect(supabase.cursors.get(contract.address.toLowerCase())).to.equal(latestBlock);
+  });
+
+  it('resumes from the saved cursor', async () => {
+    const { contract, buyer, author, stranger } = await loadFixture(deployFixture);
+    const supabase = createSupabaseStub(stranger.address);
+
+    await contract.connect(buyer).purchaseChapter(
+      uuidToUint256(STORY_ID),
+      uuidToUint256(CHAPTER_IDS[0]),
+      author.address,
+      ethers.constants.AddressZero,
+      0,
+      { value: ethers.utils.parseEther('1') }
+    );
+    await indexPurchaseEvents({ provider: ethers.provider, supabase: supabase.client, contractAddress: contract.address });
+
+    const laterTx = await contract.connect(buyer).purchaseChapter(
+      uuidToUint256(STORY_ID),
+      uuidToUint256(CHAPTER_IDS[1]),
+      author.address,
+      ethers.constants.AddressZero,
+      0,
+      { value: ethers.utils.parseEther('1') }
+    );
+    const result = await indexPurchaseEvents({ provider: ethers.provider, supabase: supabase.client, contractAddress: contract.address });
+
+    expect(result.indexed.map((p) => p.txHash)).to.deep.equal([laterTx.hash]);
+    expect(supabase.calls).to.have.length(2);
+  });
+});
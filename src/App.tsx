@@ -20,6 +20,10 @@ import Wallet from "./pages/Wallet";
 import ImpactPage from "./pages/Impact";
 import Profile from "./pages/Profile";
 import AuthorProfile from "./pages/AuthorProfile";
+import AdminBeneficiaries from "./pages/AdminBeneficiaries";
+import Tags from "./pages/Tags";
+import TagStories from "./pages/TagStories";
+import AdminTags from "./pages/AdminTags";
 import NotFound from "./pages/NotFound";
 import { useEffect } from "react";
 
@@ -67,7 +71,11 @@ const AppRoutes = () => (
       <Route path="/wallet" element={<Wallet />} />
       <Route path="/impact" element={<ImpactPage />} />
       <Route path="/profile" element={<Profile />} />
-      <Route path="/author/:userId" element={<AuthorProfile />} />
+      <Route path="/author/:handle" element={<AuthorProfile />} />
+      <Route path="/tags" element={<Tags />} />
+      <Route path="/tags/:slug" element={<TagStories />} />
+      <Route path="/admin/beneficiaries" element={<AdminBeneficiaries />} />
+      <Route path="/admin/tags" element={<AdminTags />} />
       {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -0,0 +1,73 @@
+import { Fragment } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChapterBlock, parseChapter, parseInline } from '@/lib/chapterDocument';
+
+interface ChapterContentProps {
+  /** Chapter text in the chapter document format */
+  content: string;
+  className?: string;
+}
+
+const InlineText = ({ text }: { text: string }) => (
+  <>
+    {text.split('\n').map((line, lineIndex) => (
+      <Fragment key={lineIndex}>
+        {lineIndex > 0 && <br />}
+        {parseInline(line).map((span, index) => {
+          let node: React.ReactNode = span.text;
+          if (span.italic) node = <em>{node}</em>;
+          if (span.bold) node = <strong>{node}</strong>;
+          return <Fragment key={index}>{node}</Fragment>;
+        })}
+      </Fragment>
+    ))}
+  </>
+);
+
+const Block = ({ block }: { block: ChapterBlock }) => {
+  switch (block.type) {
+    case 'heading':
+      return block.level === 2 ? (
+        <h2 className="text-2xl font-semibold mt-8 mb-4"><InlineText text={block.text} /></h2>
+      ) : (
+        <h3 className="text-xl font-semibold mt-6 mb-3"><InlineText text={block.text} /></h3>
+      );
+    case 'quote':
+      return (
+        <blockquote className="border-l-4 border-primary/40 pl-4 italic text-muted-foreground mb-4">
+          <InlineText text={block.text} />
+        </blockquote>
+      );
+    case 'content_warning':
+      return (
+        <aside className="flex items-start gap-3 rounded-md border border-amber-300 bg-amber-50 p-4 mb-4 text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100">
+          <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+          <div>
+            <p className="font-semibold">Content warning</p>
+            {block.text && <p><InlineText text={block.text} /></p>}
+          </div>
+        </aside>
+      );
+    case 'scene_break':
+      return (
+        <div role="separator" className="text-center tracking-[0.5em] text-muted-foreground my-8">
+          * * *
+        </div>
+      );
+    default:
+      return <p className="mb-4"><InlineText text={block.text} /></p>;
+  }
+};
+
+/**
+ * Renders chapter text. The text is parsed into blocks and rendered as React
+ * elements, never as HTML, so nothing an author writes can inject markup.
+ */
+export const ChapterContent = ({ content, className }: ChapterContentProps) => (
+  <div className={cn('leading-relaxed', className)}>
+    {parseChapter(content).map((block, index) => (
+      <Block key={index} block={block} />
+    ))}
+  </div>
+);
@@ -0,0 +1,237 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, Bold, Heading2, Heading3, Italic, Minus, Pilcrow, Quote, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChapterBlock, ChapterBlockType, parseChapter, serializeChapter } from '@/lib/chapterDocument';
+
+type EditorBlock = ChapterBlock & { id: number };
+
+interface ChapterEditorProps {
+  /** Content to start from. Give the editor a new key to load different content. */
+  initialContent: string;
+  /** Called with the serialized chapter after every change */
+  onChange: (content: string) => void;
+}
+
+let nextBlockId = 0;
+
+const withId = (block: ChapterBlock): EditorBlock => ({ ...block, id: nextBlockId++ });
+
+const emptyParagraph = (): EditorBlock => withId({ type: 'paragraph', text: '' });
+
+const convertBlock = (block: EditorBlock, type: ChapterBlockType, level: 2 | 3 = 2): EditorBlock => {
+  const text = block.type === 'scene_break' ? '' : block.text;
+  switch (type) {
+    case 'scene_break':
+      return { id: block.id, type };
+    case 'heading':
+      return { id: block.id, type, level, text };
+    default:
+      return { id: block.id, type, text };
+  }
+};
+
+const BLOCK_STYLES: Record<Exclude<ChapterBlockType, 'scene_break'>, string> = {
+  paragraph: '',
+  heading: 'font-semibold',
+  quote: 'border-l-4 border-primary/40 italic',
+  content_warning: 'border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-950'
+};
+
+const PLACEHOLDERS: Record<Exclude<ChapterBlockType, 'scene_break'>, string> = {
+  paragraph: 'Write here...',
+  heading: 'Heading',
+  quote: 'Quote',
+  content_warning: 'What readers should know before reading on'
+};
+
+/**
+ * Block editor for chapter text: paragraphs, headings, quotes, content
+ * warnings and scene breaks, with bold and italic inside them.
+ */
+export const ChapterEditor = ({ initialContent, onChange }: ChapterEditorProps) => {
+  const [blocks, setBlocks] = useState<EditorBlock[]>(() => {
+    const parsed = parseChapter(initialContent).map(withId);
+    return parsed.length > 0 ? parsed : [emptyParagraph()];
+  });
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const inputs = useRef(new Map<number, HTMLTextAreaElement>());
+
+  const update = (next: EditorBlock[]) => {
+    const kept = next.length > 0 ? next : [emptyParagraph()];
+    setBlocks(kept);
+    onChange(serializeChapter(kept));
+  };
+
+  const focusBlock = (id: number, atEnd = true) => {
+    requestAnimationFrame(() => {
+      const input = inputs.current.get(id);
+      if (!input) return;
+      input.focus();
+      if (atEnd) input.setSelectionRange(input.value.length, input.value.length);
+    });
+  };
+
+  const focusedIndex = blocks.findIndex((block) => block.id === focusedId);
+
+  const setText = (id: number, text: string) =>
+    update(blocks.map((block) => (block.id === id && block.type !== 'scene_break' ? { ...block, text } : block)));
+
+  const insertAfter = (index: number, block: EditorBlock) => {
+    const next = [...blocks];
+    next.splice(index + 1, 0, block);
+    update(next);
+    return block;
+  };
+
+  const removeBlock = (id: number) => update(blocks.filter((block) => block.id !== id));
+
+  const applyBlockType = (type: ChapterBlockType, level?: 2 | 3) => {
+    if (type === 'scene_break') {
+      // A scene break is its own block, followed by somewhere to keep writing
+      const at = focusedIndex >= 0 ? focusedIndex : blocks.length - 1;
+      const next = [...blocks];
+      const paragraph = emptyParagraph();
+      next.splice(at + 1, 0, withId({ type: 'scene_break' }), paragraph);
+      update(next);
+      focusBlock(paragraph.id);
+      return;
+    }
+
+    if (focusedIndex < 0) {
+      const block = insertAfter(blocks.length - 1, convertBlock(emptyParagraph(), type, level));
+      focusBlock(block.id);
+      return;
+    }
+
+    const current = blocks[focusedIndex];
+    update(blocks.map((block) => (block.id === current.id ? convertBlock(block, type, level) : block)));
+    focusBlock(current.id, false);
+  };
+
+  const wrapSelection = (marker: string) => {
+    const block = blocks[focusedIndex];
+    const input = block && inputs.current.get(block.id);
+    if (!block || block.type === 'scene_break' || !input) return;
+
+    const { selectionStart, selectionEnd, value } = input;
+    const selected = value.slice(selectionStart, selectionEnd);
+    setText(block.id, `${value.slice(0, selectionStart)}${marker}${selected}${marker}${value.slice(selectionEnd)}`);
+
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(selectionStart + marker.length, selectionEnd + marker.length);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>, block: EditorBlock, index: number) => {
+    if (block.type === 'scene_break') return;
+
+    if ((event.metaKey || event.ctrlKey) && (event.key === 'b' || event.key === 'i')) {
+      event.preventDefault();
+      wrapSelection(event.key === 'b' ? '**' : '*');
+      return;
+    }
+
+    const input = event.currentTarget;
+    const atEnd = input.selectionStart === input.value.length && input.selectionEnd === input.value.length;
+
+    // Headings are one line, and a blank line ends any other block, as it
+    // does in the stored format
+    if (event.key === 'Enter' && !event.shiftKey && atEnd && (block.type === 'heading' || block.text.endsWith('\n'))) {
+      event.preventDefault();
+      const next = blocks.map((b) => (b.id === block.id ? { ...block, text: block.text.replace(/\n+$/, '') } : b));
+      const paragraph = emptyParagraph();
+      next.splice(index + 1, 0, paragraph);
+      update(next);
+      focusBlock(paragraph.id);
+      return;
+    }
+
+    if (event.key === 'Backspace' && block.text === '' && blocks.length > 1) {
+      event.preventDefault();
+      const previous = blocks[index - 1] ?? blocks[index + 1];
+      removeBlock(block.id);
+      if (previous) focusBlock(previous.id);
+    }
+  };
+
+  const focused = blocks[focusedIndex];
+  const isActive = (type: ChapterBlockType, level?: 2 | 3) =>
+    focused?.type === type && (type !== 'heading' || (focused.type === 'heading' && focused.level === level));
+
+  const toolbar: { label: string; icon: typeof Bold; active?: boolean; onClick: () => void }[] = [
+    { label: 'Paragraph', icon: Pilcrow, active: isActive('paragraph'), onClick: () => applyBlockType('paragraph') },
+    { label: 'Heading', icon: Heading2, active: isActive('heading', 2), onClick: () => applyBlockType('heading', 2) },
+    { label: 'Subheading', icon: Heading3, active: isActive('heading', 3), onClick: () => applyBlockType('heading', 3) },
+    { label: 'Quote', icon: Quote, active: isActive('quote'), onClick: () => applyBlockType('quote') },
+    { label: 'Content warning', icon: AlertTriangle, active: isActive('content_warning'), onClick: () => applyBlockType('content_warning') },
+    { label: 'Scene break', icon: Minus, onClick: () => applyBlockType('scene_break') },
+    { label: 'Bold', icon: Bold, onClick: () => wrapSelection('**') },
+    { label: 'Italic', icon: Italic, onClick: () => wrapSelection('*') }
+  ];
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex flex-wrap gap-1 border-b p-1" role="toolbar" aria-label="Formatting">
+        {toolbar.map(({ label, icon: Icon, active, onClick }) => (
+          <Button
+            key={label}
+            type="button"
+            variant={active ? 'secondary' : 'ghost'}
+            size="sm"
+            title={label}
+            aria-label={label}
+            aria-pressed={active}
+            // Keep the focus (and selection) in the block being edited
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onClick}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2 p-3">
+        {blocks.map((block, index) =>
+          block.type === 'scene_break' ? (
+            <div key={block.id} className="group flex items-center justify-center gap-2 py-2 text-muted-foreground">
+              <span className="tracking-[0.5em]">* * *</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                aria-label="Remove scene break"
+                onClick={() => removeBlock(block.id)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ) : (
+            <Textarea
+              key={block.id}
+              ref={(el) => {
+                if (el) inputs.current.set(block.id, el);
+                else inputs.current.delete(block.id);
+              }}
+              value={block.text}
+              onChange={(e) => setText(block.id, e.target.value)}
+              onFocus={() => setFocusedId(block.id)}
+              onKeyDown={(e) => handleKeyDown(e, block, index)}
+              placeholder={PLACEHOLDERS[block.type]}
+              aria-label={block.type === 'content_warning' ? 'Content warning' : block.type}
+              rows={block.type === 'heading' ? 1 : Math.max(2, block.text.split('\n').length)}
+              className={cn(
+                'min-h-0 resize-none',
+                BLOCK_STYLES[block.type],
+                block.type === 'heading' && (block.level === 2 ? 'text-xl' : 'text-lg')
+              )}
+            />
+          )
+        )}
+      </div>
+    </div>
+  );
+};
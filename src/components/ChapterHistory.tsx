@@ -0,0 +1,187 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { History, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { diffText } from '@/lib/textDiff';
+import { ChapterRevision, listChapterRevisions, restoreChapterRevision } from '@/repositories/revisions';
+import { useToast } from '@/hooks/use-toast';
+
+interface ChapterHistoryProps {
+  chapter: { id: string; title: string } | null;
+  onClose: () => void;
+  /** Called after a revision has been restored */
+  onRestored: () => void;
+}
+
+const formatWordDelta = (revision: ChapterRevision, previous: ChapterRevision | undefined) => {
+  if (!previous) return null;
+  const delta = revision.word_count - previous.word_count;
+  if (delta === 0) return null;
+  return delta > 0 ? `+${delta}` : `${delta}`;
+};
+
+/**
+ * Every saved version of a chapter, what changed in each, and a way back to
+ * any of them
+ */
+export const ChapterHistory = ({ chapter, onClose, onRestored }: ChapterHistoryProps) => {
+  const [revisions, setRevisions] = useState<ChapterRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (chapter) {
+      fetchRevisions(chapter.id);
+    } else {
+      setRevisions([]);
+      setSelectedId(null);
+    }
+  }, [chapter?.id]);
+
+  const fetchRevisions = async (chapterId: string) => {
+    setLoading(true);
+    try {
+      const data = await listChapterRevisions(chapterId);
+      setRevisions(data);
+      setSelectedId(data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching chapter revisions:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load revision history",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId);
+  const selected = revisions[selectedIndex];
+  // Revisions are newest first, so the one before is the next in the list
+  const previous = revisions[selectedIndex + 1];
+
+  const diff = useMemo(
+    () => (selected ? diffText(previous?.content ?? '', selected.content) : []),
+    [selected, previous]
+  );
+
+  const handleRestore = async () => {
+    if (!chapter || !selected) return;
+    if (!confirm('Restore this version? Your current text is kept in the history.')) return;
+
+    setRestoring(true);
+    try {
+      await restoreChapterRevision(selected.id);
+
+      toast({
+        title: "Revision Restored",
+        description: `"${selected.title}" is back to the version from ${new Date(selected.created_at).toLocaleString()}`,
+      });
+
+      onRestored();
+      fetchRevisions(chapter.id);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restore this revision",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!chapter} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            History: {chapter?.title}
+          </DialogTitle>
+          <DialogDescription>
+            Every save is kept. Pick a version to see what changed in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-[14rem_1fr] gap-4 min-h-0 flex-1">
+            <ul className="space-y-1 overflow-y-auto pr-1">
+              {revisions.map((revision, index) => {
+                const delta = formatWordDelta(revision, revisions[index + 1]);
+                return (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        'w-full rounded-md border p-2 text-left text-sm hover:bg-muted',
+                        revision.id === selectedId && 'border-primary bg-muted'
+                      )}
+                    >
+                      <div className="font-medium">{new Date(revision.created_at).toLocaleString()}</div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>{revision.word_count} words</span>
+                        {delta && <span>({delta})</span>}
+                      </div>
+                      <div className="mt-1 flex gap-1">
+                        {index === 0 && <Badge variant="secondary">Current</Badge>}
+                        {revision.restored_from && <Badge variant="outline">Restored</Badge>}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex min-h-0 flex-col">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-muted-foreground">
+                      {previous ? 'Changes from the version before' : 'First version'}
+                      {previous && previous.title !== selected.title && (
+                        <> · title changed from “{previous.title}”</>
+                      )}
+                    </p>
+                    <Button
+                      size="sm"
+                      onClick={handleRestore}
+                      disabled={selectedIndex === 0 || restoring}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {restoring ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  </div>
+                  <div className="flex-1 overflow-y-auto rounded-md border p-3 text-sm whitespace-pre-wrap leading-relaxed">
+                    {diff.map((part, index) => (
+                      <span
+                        key={index}
+                        className={cn(
+                          part.type === 'added' && 'bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-100',
+                          part.type === 'removed' && 'bg-red-100 text-red-900 line-through dark:bg-red-950 dark:text-red-100'
+                        )}
+                      >
+                        {part.text}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,15 +1,22 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Edit, Eye, EyeOff, Upload, Coins, BookOpen } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Edit, Eye, EyeOff, Upload, Coins, BookOpen, History, CalendarClock, GripVertical } from 'lucide-react';
+import { ChapterEditor } from '@/components/ChapterEditor';
+import { ChapterHistory } from '@/components/ChapterHistory';
+import { createChapter, deleteChapter, listChapters, reorderChapters, updateChapter } from '@/repositories/chapters';
+import { ChapterDraftValues, getChapterDraft } from '@/repositories/drafts';
+import { getStory } from '@/repositories/stories';
+import { chapterPlainText } from '@/lib/chapterDocument';
+import { CHAPTER_PRICE_MODES, ChapterPriceMode, effectiveChapterPrice } from '@/lib/chapterPricing';
 import { useToast } from '@/hooks/use-toast';
+import { DraftStatus, useChapterDraft } from '@/hooks/useChapterDraft';
 import { useWeb3 } from '@/contexts/Web3Context';
 
 interface Chapter {
@@ -18,8 +25,12 @@ interface Chapter {
   title: string;
   content: string;
   is_free: boolean;
+  price_mode: string;
+  price: number | null;
   published: boolean;
+  publish_at: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 interface ChapterManagerProps {
@@ -28,41 +39,73 @@ interface ChapterManagerProps {
   autoOpen?: boolean;
 }
 
+const draftStatusText = (status: DraftStatus, lastSavedAt: Date | null) => {
+  switch (status) {
+    case 'unsaved':
+      return 'Unsaved changes';
+    case 'saving':
+      return 'Saving…';
+    case 'saved':
+      return lastSavedAt
+        ? `Draft saved ${lastSavedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+        : 'Draft saved';
+    case 'error':
+      return "Couldn't save draft";
+    default:
+      return '';
+  }
+};
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const previewText = (content: string) => {
+  const text = chapterPlainText(content);
+  return text.length > 100 ? `${text.substring(0, 100)}...` : text;
+};
+
 const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: ChapterManagerProps) => {
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(autoOpen);
   const [editingChapter, setEditingChapter] = useState<Chapter | null>(null);
+  const [historyChapter, setHistoryChapter] = useState<Chapter | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
   
   // Form state
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
-  const [isFree, setIsFree] = useState(false);
+  const [priceMode, setPriceMode] = useState<ChapterPriceMode>('inherit');
+  const [customPrice, setCustomPrice] = useState('');
   const [isPublished, setIsPublished] = useState(false);
+  // When to publish an unpublished chapter, as a datetime-local value
+  const [scheduledAt, setScheduledAt] = useState('');
+  // Bumped to load different content into the editor
+  const [editorKey, setEditorKey] = useState(0);
+  // What "inherit" chapters cost
+  const [storyPrice, setStoryPrice] = useState<number | null>(null);
   
   const { toast } = useToast();
+  const draft = useChapterDraft(storyId);
   const { isConnected, contractsInitialized } = useWeb3();
 
   useEffect(() => {
     fetchChapters();
+    fetchStoryPrice();
   }, [storyId]);
 
   useEffect(() => {
     if (autoOpen) {
-      setIsDialogOpen(true);
+      openEditor(null);
     }
   }, [autoOpen]);
 
   const fetchChapters = async () => {
     try {
-      const { data, error } = await supabase
-        .from('chapters')
-        .select('*')
-        .eq('story_id', storyId)
-        .order('chapter_number');
-
-      if (error) throw error;
-      setChapters(data || []);
+      setChapters(await listChapters(storyId));
     } catch (error) {
       console.error('Error fetching chapters:', error);
       toast({
@@ -75,15 +118,106 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
     }
   };
 
+  const fetchStoryPrice = async () => {
+    try {
+      const story = await getStory(storyId);
+      setStoryPrice(story?.price_per_chapter ?? null);
+    } catch (error) {
+      console.error('Error fetching story price:', error);
+    }
+  };
+
   const resetForm = () => {
     setTitle('');
     setContent('');
-    setIsFree(false);
+    setPriceMode('inherit');
+    setCustomPrice('');
     setIsPublished(false);
+    setScheduledAt('');
     setEditingChapter(null);
     setIsDialogOpen(false);
   };
 
+  const fillForm = (values: ChapterDraftValues) => {
+    setTitle(values.title);
+    setContent(values.content);
+    setPriceMode(values.priceMode);
+    setCustomPrice(values.price?.toString() ?? '');
+    setEditorKey((key) => key + 1);
+  };
+
+  const chapterValues = (chapter: Chapter | null): ChapterDraftValues => ({
+    title: chapter?.title ?? '',
+    content: chapter?.content ?? '',
+    priceMode: (chapter?.price_mode as ChapterPriceMode) ?? 'inherit',
+    price: chapter?.price ?? null,
+  });
+
+  // A custom price is a whole number of credits, at least 1
+  const parsePrice = (value: string): number | null => {
+    const price = Number(value);
+    return value.trim() !== '' && Number.isInteger(price) && price > 0 ? price : null;
+  };
+
+  /**
+   * Open the editor on a chapter, or on a new one, picking up an autosaved
+   * draft that is newer than what was last saved
+   */
+  const openEditor = async (chapter: Chapter | null) => {
+    await draft.flush();
+
+    setEditingChapter(chapter);
+    setIsPublished(chapter?.published ?? false);
+    setScheduledAt(chapter?.publish_at ? toLocalInput(chapter.publish_at) : '');
+    fillForm(chapterValues(chapter));
+    draft.reset();
+
+    try {
+      const saved = await getChapterDraft(storyId, chapter?.id ?? null);
+
+      if (saved && (!chapter || new Date(saved.updated_at) > new Date(chapter.updated_at))) {
+        fillForm({
+          title: saved.title,
+          content: saved.content,
+          priceMode: saved.price_mode as ChapterPriceMode,
+          price: saved.price,
+        });
+        draft.reset(new Date(saved.updated_at));
+        toast({
+          title: "Draft restored",
+          description: "Picked up your unsaved changes from last time",
+        });
+      }
+    } catch (error) {
+      console.error('Error loading chapter draft:', error);
+    }
+
+    setIsDialogOpen(true);
+  };
+
+  const closeEditor = () => {
+    // Whatever hasn't been saved yet is kept as a draft for next time
+    draft.flush();
+    setIsDialogOpen(false);
+  };
+
+  const handleDraftChange = (changes: Partial<ChapterDraftValues>) => {
+    draft.scheduleSave(editingChapter?.id ?? null, {
+      title,
+      content,
+      priceMode,
+      price: parsePrice(customPrice),
+      ...changes,
+    });
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!confirm('Discard your unsaved changes to this chapter?')) return;
+
+    await draft.discard(editingChapter?.id ?? null);
+    fillForm(chapterValues(editingChapter));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -96,48 +230,57 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
       return;
     }
 
+    const price = priceMode === 'custom' ? parsePrice(customPrice) : null;
+
+    if (priceMode === 'custom' && price === null) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "Enter a custom price of at least 1 credit",
+      });
+      return;
+    }
+
+    const publishAt = !isPublished && scheduledAt ? new Date(scheduledAt) : null;
+
+    if (publishAt && publishAt <= new Date()) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "Pick a publish time in the future",
+      });
+      return;
+    }
+
     try {
       if (editingChapter) {
         // Update existing chapter
-        const { error } = await supabase
-          .from('chapters')
-          .update({
-            title: title.trim(),
-            content: content.trim(),
-            is_free: isFree,
-            published: isPublished,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', editingChapter.id);
-
-        if (error) throw error;
+        await updateChapter(editingChapter.id, {
+          title: title.trim(),
+          content: content.trim(),
+          price_mode: priceMode,
+          price,
+          published: isPublished,
+          publish_at: publishAt?.toISOString() ?? null,
+          updated_at: new Date().toISOString(),
+        });
 
         toast({
           title: "Chapter Updated",
           description: "Chapter has been updated successfully",
         });
       } else {
-        // Create new chapter
-        const nextChapterNumber = chapters.length + 1;
-        
-        const { error } = await supabase
-          .from('chapters')
-          .insert({
-            story_id: storyId,
-            chapter_number: nextChapterNumber,
-            title: title.trim(),
-            content: content.trim(),
-            is_free: isFree,
-            published: isPublished,
-          });
-
-        if (error) throw error;
-
-        // Update story total_chapters count
-        await supabase
-          .from('stories')
-          .update({ total_chapters: nextChapterNumber })
-          .eq('id', storyId);
+        // Create new chapter; the database numbers it after the last one and
+        // updates the story's chapter count
+        await createChapter({
+          story_id: storyId,
+          title: title.trim(),
+          content: content.trim(),
+          price_mode: priceMode,
+          price,
+          published: isPublished,
+          publish_at: publishAt?.toISOString() ?? null,
+        });
 
         toast({
           title: "Chapter Created",
@@ -145,6 +288,13 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
         });
       }
 
+      if (publishAt) {
+        toast({
+          title: "Chapter Scheduled",
+          description: `It will be published ${publishAt.toLocaleString()}`,
+        });
+      }
+
       // If published, add to blockchain
       if (isPublished && isConnected && contractsInitialized) {
         try {
@@ -160,8 +310,8 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
         }
       }
 
+      await draft.discard(editingChapter?.id ?? null);
       resetForm();
-      setIsDialogOpen(false);
       onChaptersUpdated();
       fetchChapters();
     } catch (error) {
@@ -174,23 +324,9 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
     }
   };
 
-  const handleEdit = (chapter: Chapter) => {
-    setEditingChapter(chapter);
-    setTitle(chapter.title);
-    setContent(chapter.content);
-    setIsFree(chapter.is_free);
-    setIsPublished(chapter.published);
-    setIsDialogOpen(true);
-  };
-
   const handleTogglePublish = async (chapter: Chapter) => {
     try {
-      const { error } = await supabase
-        .from('chapters')
-        .update({ published: !chapter.published })
-        .eq('id', chapter.id);
-
-      if (error) throw error;
+      await updateChapter(chapter.id, { published: !chapter.published });
 
       toast({
         title: chapter.published ? "Chapter Unpublished" : "Chapter Published",
@@ -209,16 +345,61 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
     }
   };
 
+  // Move a chapter in the list while it is dragged; the new order is saved
+  // when it is dropped
+  const moveChapter = (chapterId: string, toIndex: number) => {
+    const fromIndex = chapters.findIndex((chapter) => chapter.id === chapterId);
+    if (fromIndex < 0 || toIndex < 0 || toIndex >= chapters.length || fromIndex === toIndex) return chapters;
+
+    const reordered = [...chapters];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    setChapters(reordered);
+    return reordered;
+  };
+
+  const saveOrder = async (ordered: Chapter[]) => {
+    const unchanged = ordered.every((chapter, index) => chapter.chapter_number === index + 1);
+    if (unchanged) return;
+
+    try {
+      await reorderChapters(storyId, ordered.map((chapter) => chapter.id));
+
+      toast({
+        title: "Chapters Reordered",
+        description: "Readers will see the chapters in the new order",
+      });
+
+      onChaptersUpdated();
+    } catch (error) {
+      console.error('Error reordering chapters:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to reorder chapters",
+      });
+    } finally {
+      fetchChapters();
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    saveOrder(chapters);
+  };
+
+  const handleGripKeyDown = (e: React.KeyboardEvent, chapter: Chapter, index: number) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+
+    e.preventDefault();
+    saveOrder(moveChapter(chapter.id, e.key === 'ArrowUp' ? index - 1 : index + 1));
+  };
+
   const handleDelete = async (chapterId: string) => {
     if (!confirm('Are you sure you want to delete this chapter?')) return;
 
     try {
-      const { error } = await supabase
-        .from('chapters')
-        .delete()
-        .eq('id', chapterId);
-
-      if (error) throw error;
+      await deleteChapter(chapterId);
 
       toast({
         title: "Chapter Deleted",
@@ -261,13 +442,11 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
             <BookOpen className="h-4 w-4 mr-2" />
             View Story
           </Button>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={() => resetForm()}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Chapter
-              </Button>
-            </DialogTrigger>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Chapter
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeEditor())}>
             <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>
@@ -280,55 +459,117 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
                   <Input
                     id="title"
                     value={title}
-                    onChange={(e) => setTitle(e.target.value)}
+                    onChange={(e) => {
+                      setTitle(e.target.value);
+                      handleDraftChange({ title: e.target.value });
+                    }}
                     placeholder="Enter chapter title"
                     required
                   />
                 </div>
                 
                 <div>
-                  <Label htmlFor="content">Chapter Content</Label>
-                  <Textarea
-                    id="content"
-                    value={content}
-                    onChange={(e) => setContent(e.target.value)}
-                    placeholder="Write your chapter content here..."
-                    rows={10}
-                    required
+                  <Label>Chapter Content</Label>
+                  <ChapterEditor
+                    key={editorKey}
+                    initialContent={content}
+                    onChange={(value) => {
+                      setContent(value);
+                      handleDraftChange({ content: value });
+                    }}
                   />
                 </div>
 
-                <div className="flex items-center space-x-6">
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="isFree"
-                      checked={isFree}
-                      onCheckedChange={setIsFree}
-                    />
-                    <Label htmlFor="isFree">Free Chapter</Label>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="priceMode">Price</Label>
+                    <Select
+                      value={priceMode}
+                      onValueChange={(value: ChapterPriceMode) => {
+                        setPriceMode(value);
+                        handleDraftChange({ priceMode: value });
+                      }}
+                    >
+                      <SelectTrigger id="priceMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CHAPTER_PRICE_MODES.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.value === 'inherit' && storyPrice !== null
+                              ? `${mode.label} (${storyPrice} credits)`
+                              : mode.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="isPublished"
-                      checked={isPublished}
-                      onCheckedChange={setIsPublished}
+
+                  {priceMode === 'custom' && (
+                    <div>
+                      <Label htmlFor="customPrice">Custom Price (Credits)</Label>
+                      <Input
+                        id="customPrice"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={customPrice}
+                        onChange={(e) => {
+                          setCustomPrice(e.target.value);
+                          handleDraftChange({ price: parsePrice(e.target.value) });
+                        }}
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="isPublished"
+                    checked={isPublished}
+                    onCheckedChange={setIsPublished}
+                  />
+                  <Label htmlFor="isPublished">Publish Immediately</Label>
+                </div>
+
+                {!isPublished && (
+                  <div>
+                    <Label htmlFor="publishAt">Schedule for (optional)</Label>
+                    <Input
+                      id="publishAt"
+                      type="datetime-local"
+                      value={scheduledAt}
+                      min={toLocalInput(new Date().toISOString())}
+                      onChange={(e) => setScheduledAt(e.target.value)}
                     />
-                    <Label htmlFor="isPublished">Publish Immediately</Label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Leave empty to keep the chapter as a draft. Followers of the story are notified when it goes live.
+                    </p>
                   </div>
-                </div>
+                )}
 
-                <div className="flex justify-end space-x-2">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setIsDialogOpen(false)}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit">
-                    {editingChapter ? 'Update Chapter' : 'Create Chapter'}
-                  </Button>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                    <span aria-live="polite">{draftStatusText(draft.status, draft.lastSavedAt)}</span>
+                    {draft.status !== 'idle' && (
+                      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={handleDiscardDraft}>
+                        Discard draft
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={closeEditor}
+                    >
+                      Cancel
+                    </Button>
+                    <Button type="submit">
+                      {editingChapter ? 'Update Chapter' : 'Create Chapter'}
+                    </Button>
+                  </div>
                 </div>
               </form>
             </DialogContent>
@@ -345,13 +586,13 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
               Start building your story by adding the first chapter
             </p>
             <div className="flex space-x-2 justify-center">
-              <Button onClick={() => setIsDialogOpen(true)}>
+              <Button onClick={() => openEditor(null)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add First Chapter
               </Button>
               <Button 
                 variant="outline"
-                onClick={() => setIsDialogOpen(true)}
+                onClick={() => openEditor(null)}
               >
                 <BookOpen className="h-4 w-4 mr-2" />
                 Start Writing
@@ -361,27 +602,61 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
         </Card>
       ) : (
         <div className="space-y-3">
-          {chapters.map((chapter) => (
-            <Card key={chapter.id}>
+          {chapters.map((chapter, index) => (
+            <Card
+              key={chapter.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(chapter.id);
+              }}
+              onDragOver={(e) => {
+                if (!draggingId) return;
+                e.preventDefault();
+                if (draggingId !== chapter.id) moveChapter(draggingId, index);
+              }}
+              onDrop={(e) => e.preventDefault()}
+              onDragEnd={handleDragEnd}
+              className={draggingId === chapter.id ? 'opacity-50' : undefined}
+            >
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    className="mr-3 cursor-grab text-muted-foreground hover:text-foreground"
+                    aria-label={`Move chapter ${index + 1}. Use the arrow keys to move it up or down`}
+                    onKeyDown={(e) => handleGripKeyDown(e, chapter, index)}
+                  >
+                    <GripVertical className="h-5 w-5" />
+                  </button>
                   <div className="flex-1">
                     <div className="flex items-center space-x-3 mb-2">
                       <Badge variant="secondary">
-                        Chapter {chapter.chapter_number}
+                        Chapter {index + 1}
                       </Badge>
                       <h4 className="font-medium">{chapter.title}</h4>
-                      {chapter.is_free && (
+                      {chapter.is_free ? (
                         <Badge variant="outline" className="text-green-600">
                           <Coins className="h-3 w-3 mr-1" />
                           Free
                         </Badge>
+                      ) : storyPrice !== null && (
+                        <Badge variant="outline">
+                          <Coins className="h-3 w-3 mr-1" />
+                          {effectiveChapterPrice(chapter, storyPrice)} credits
+                          {chapter.price_mode === 'custom' && ' (custom)'}
+                        </Badge>
                       )}
                       {chapter.published ? (
                         <Badge variant="default" className="bg-green-600">
                           <Eye className="h-3 w-3 mr-1" />
                           Published
                         </Badge>
+                      ) : chapter.publish_at ? (
+                        <Badge variant="outline" className="text-primary">
+                          <CalendarClock className="h-3 w-3 mr-1" />
+                          Scheduled {new Date(chapter.publish_at).toLocaleString()}
+                        </Badge>
                       ) : (
                         <Badge variant="outline">
                           <EyeOff className="h-3 w-3 mr-1" />
@@ -390,10 +665,7 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
                       )}
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      {chapter.content.length > 100 
-                        ? `${chapter.content.substring(0, 100)}...`
-                        : chapter.content
-                      }
+                      {previewText(chapter.content)}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
                       Created: {new Date(chapter.created_at).toLocaleDateString()}
@@ -404,10 +676,18 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleEdit(chapter)}
+                      onClick={() => openEditor(chapter)}
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setHistoryChapter(chapter)}
+                      aria-label="Revision history"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -426,10 +706,7 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
                     <Button
                       variant="default"
                       size="sm"
-                      onClick={() => {
-                        resetForm();
-                        setIsDialogOpen(true);
-                      }}
+                      onClick={() => openEditor(null)}
                     >
                       <Plus className="h-4 w-4" />
                       Add Next
@@ -441,6 +718,15 @@ const ChapterManager = ({ storyId, onChaptersUpdated, autoOpen = false }: Chapte
           ))}
         </div>
       )}
+
+      <ChapterHistory
+        chapter={historyChapter}
+        onClose={() => setHistoryChapter(null)}
+        onRestored={() => {
+          fetchChapters();
+          onChaptersUpdated();
+        }}
+      />
     </div>
   );
 };
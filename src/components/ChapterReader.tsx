@@ -3,12 +3,22 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { BookOpen, Coins, Lock, Unlock, Heart, Eye, EyeOff, Gift, Wallet } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { ChapterContent } from '@/components/ChapterContent';
+import { listChapterPreviews } from '@/repositories/chapters';
+import { getStoryForSale, getStoryPayoutAddress } from '@/repositories/stories';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWeb3 } from '@/contexts/Web3Context';
 import { useToast } from '@/hooks/use-toast';
-import { purchaseChapterWithBDAG } from '@/integrations/web3/contracts';
+import {
+  purchaseChapterWithBDAG,
+  purchaseStoryWithBDAG,
+  previewChapterPurchaseSplit,
+  PurchaseSplit
+} from '@/integrations/web3/contracts';
+import { getStoryBundlePrice, purchaseStoryBundle } from '@/utils/credits';
+import { getStoryEntitlements } from '@/services/entitlements';
 
 interface Chapter {
   id: string;
@@ -16,15 +26,25 @@ interface Chapter {
   title: string;
   content: string;
   is_free: boolean;
+  /** Credits to unlock it: its own price, the story's, or 0 when free */
+  price: number;
   published: boolean;
   created_at: string;
+  /** Whether content is the full text; otherwise it is a teaser */
+  has_access: boolean;
 }
 
 interface Story {
   id: string;
   title: string;
   price_per_chapter: number;
-  author_id: string;
+  author_name: string | null;
+  is_own: boolean;
+  impact_percentage: number | null;
+  beneficiary: {
+    name: string;
+    wallet_address: string | null;
+  } | null;
 }
 
 interface ChapterReaderProps {
@@ -39,31 +59,29 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
   const [purchasing, setPurchasing] = useState<string | null>(null);
   const [userPurchases, setUserPurchases] = useState<Set<string>>(new Set());
   const [expandedChapters, setExpandedChapters] = useState<Set<string>>(new Set());
+  const [hasStoryAccess, setHasStoryAccess] = useState(false);
+  const [bundlePrice, setBundlePrice] = useState<number | null>(null);
+  const [purchasingStory, setPurchasingStory] = useState(false);
+  // chapter is null when the whole story is being bought
+  const [pendingPurchase, setPendingPurchase] = useState<{ chapter: Chapter | null; split: PurchaseSplit } | null>(null);
 
   
   const { user } = useAuth();
   const { toast } = useToast();
-  const { isConnected, contractsInitialized, account } = useWeb3();
+  const { isConnected, contractsInitialized, account, trackPurchase, completePurchase } = useWeb3();
 
   useEffect(() => {
     fetchChapters();
     fetchStory();
     if (user) {
       fetchUserPurchases();
+      fetchBundlePrice();
     }
   }, [storyId, user]);
 
   const fetchChapters = async () => {
     try {
-      const { data, error } = await supabase
-        .from('chapters')
-        .select('*')
-        .eq('story_id', storyId)
-        .eq('published', true)
-        .order('chapter_number');
-
-      if (error) throw error;
-      setChapters(data || []);
+      setChapters((await listChapterPreviews(storyId)) as Chapter[]);
     } catch (error) {
       console.error('Error fetching chapters:', error);
       toast({
@@ -78,24 +96,8 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
 
   const fetchStory = async () => {
     try {
-      const { data, error } = await supabase
-        .from('stories')
-        .select('id, title, price_per_chapter, author_id')
-        .eq('id', storyId)
-        .single();
-
-      if (error) {
-        console.error('Error fetching story:', error);
-        // Set a fallback story object to prevent crashes
-        setStory({
-          id: storyId,
-          title: 'Story Not Found',
-          price_per_chapter: 5,
-          author_id: ''
-        });
-        return;
-      }
-      
+      const data = await getStoryForSale(storyId);
+
       if (data) {
         setStory(data);
       } else {
@@ -104,7 +106,10 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
           id: storyId,
           title: 'Story Not Found',
           price_per_chapter: 5,
-          author_id: ''
+          author_name: null,
+          is_own: false,
+          impact_percentage: 0,
+          beneficiary: null
         });
       }
     } catch (error) {
@@ -114,7 +119,10 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
         id: storyId,
         title: 'Story Not Found',
         price_per_chapter: 5,
-        author_id: ''
+        author_name: null,
+        is_own: false,
+        impact_percentage: 0,
+        beneficiary: null
       });
     }
   };
@@ -122,20 +130,14 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
   const fetchUserPurchases = async () => {
     if (!user) return;
 
-    try {
-      const { data, error } = await supabase
-        .from('purchases')
-        .select('chapter_id')
-        .eq('user_id', user.id)
-        .eq('story_id', storyId);
+    const entitlements = await getStoryEntitlements(user.id, storyId);
+    setUserPurchases(entitlements.chapterIds);
+    // A whole-story entitlement (bundle, gift, subscription...) unlocks every chapter
+    setHasStoryAccess(entitlements.wholeStory);
+  };
 
-      if (error) throw error;
-      
-      const purchaseSet = new Set(data?.map(p => p.chapter_id) || []);
-      setUserPurchases(purchaseSet);
-    } catch (error) {
-      console.error('Error fetching user purchases:', error);
-    }
+  const fetchBundlePrice = async () => {
+    setBundlePrice(await getStoryBundlePrice(storyId));
   };
 
 
@@ -160,8 +162,167 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
       return;
     }
 
-    // Always use MetaMask for blockchain purchases
-    await purchaseWithMetaMask(chapter);
+    if (!isConnected || !contractsInitialized) {
+      await purchaseWithMetaMask(chapter);
+      return;
+    }
+
+    // Show the author / impact / platform breakdown before the user signs
+    try {
+      const split = await previewChapterPurchaseSplit(
+        chapter.price,
+        story.impact_percentage || 0
+      );
+      setPendingPurchase({ chapter, split });
+    } catch (error) {
+      console.error('Error previewing purchase split:', error);
+      toast({
+        variant: "destructive",
+        title: "Unable to prepare purchase",
+        description: "Could not read the payment split from the contract. Please try again.",
+      });
+    }
+  };
+
+  const handlePurchaseStoryWithCredits = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to purchase stories",
+      });
+      return;
+    }
+
+    setPurchasingStory(true);
+    try {
+      const result = await purchaseStoryBundle(storyId);
+
+      if (!result.success) {
+        if (result.error?.includes('Insufficient credits')) {
+          toast({
+            variant: "destructive",
+            title: "Insufficient credits",
+            description: "You need more credits to buy the whole story",
+          });
+          return;
+        }
+        throw new Error(result.error || 'Failed to purchase story');
+      }
+
+      setHasStoryAccess(true);
+      fetchChapters();
+      setBundlePrice(0);
+
+      toast({
+        title: "Story Purchased! 📚",
+        description: "Every chapter is now unlocked. Your receipt is in your wallet.",
+      });
+
+      onPurchaseComplete?.();
+    } catch (error) {
+      console.error('Error purchasing story:', error);
+      toast({
+        variant: "destructive",
+        title: "Purchase Failed",
+        description: "There was an error buying the whole story",
+      });
+    } finally {
+      setPurchasingStory(false);
+    }
+  };
+
+  const handlePurchaseStoryWithBDAG = async () => {
+    if (!user || !story || !bundlePrice) return;
+
+    if (!isConnected || !contractsInitialized) {
+      toast({
+        title: "MetaMask Required",
+        description: "Please connect your MetaMask wallet to purchase with BDAG",
+      });
+      return;
+    }
+
+    try {
+      const split = await previewChapterPurchaseSplit(bundlePrice, story.impact_percentage || 0);
+      setPendingPurchase({ chapter: null, split });
+    } catch (error) {
+      console.error('Error previewing purchase split:', error);
+      toast({
+        variant: "destructive",
+        title: "Unable to prepare purchase",
+        description: "Could not read the payment split from the contract. Please try again.",
+      });
+    }
+  };
+
+  const confirmPendingPurchase = async () => {
+    if (!pendingPurchase) return;
+
+    const { chapter } = pendingPurchase;
+    setPendingPurchase(null);
+    if (chapter) {
+      await purchaseWithMetaMask(chapter);
+    } else {
+      await purchaseStoryWithMetaMask();
+    }
+  };
+
+  const purchaseStoryWithMetaMask = async () => {
+    if (!story || !bundlePrice) return;
+
+    setPurchasingStory(true);
+    try {
+      const payoutAddress = await getStoryPayoutAddress(storyId);
+
+      if (!payoutAddress) {
+        throw new Error('Author wallet address not found. Please ask the author to set their wallet address.');
+      }
+
+      // The bundle covers the paid chapters the reader doesn't own yet
+      const unownedChapters = chapters.filter(c => !c.is_free && !userPurchases.has(c.id));
+      const receipt = await purchaseStoryWithBDAG(
+        storyId,
+        unownedChapters.map(c => c.id),
+        payoutAddress,
+        bundlePrice,
+        story.impact_percentage || 0,
+        story.beneficiary?.wallet_address,
+        (tx) => trackPurchase({
+          txHash: tx.hash,
+          userId: user.id,
+          storyId,
+          chapterId: null,
+          amount: bundlePrice,
+        })
+      );
+
+      await completePurchase(receipt);
+
+      setHasStoryAccess(true);
+      fetchChapters();
+      setBundlePrice(0);
+
+      toast({
+        title: "Story Purchased with BDAG! 🚀",
+        description: `Transaction: ${receipt.transactionHash.substring(0, 10)}...`,
+      });
+
+      onPurchaseComplete?.();
+    } catch (error) {
+      console.error('Error purchasing story on blockchain:', error);
+      if (error.receipt) {
+        await completePurchase(error.receipt);
+      }
+      toast({
+        variant: "destructive",
+        title: "Blockchain Purchase Failed",
+        description: error.message?.includes('Author wallet address not found')
+          ? "Author hasn't set their wallet address yet. Please contact the author."
+          : "Failed to purchase the story on blockchain. Please try again.",
+      });
+    } finally {
+      setPurchasingStory(false);
+    }
   };
 
 
@@ -185,70 +346,38 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
 
     setPurchasing(chapter.id);
     try {
-      // Get author's wallet address from the story
-      if (!story?.author_id) {
-        throw new Error('Author information not available');
-      }
-
-      // Get author's profile to find their wallet address
-      const { data: authorProfile, error: profileError } = await supabase
-        .from('profiles')
-        .select('wallet_address, display_name')
-        .eq('user_id', story.author_id)
-        .single();
+      // The author's wallet, or the payout relay for an anonymous story
+      const payoutAddress = await getStoryPayoutAddress(storyId);
 
-      if (profileError || !authorProfile?.wallet_address) {
+      if (!payoutAddress) {
         throw new Error('Author wallet address not found. Please ask the author to set their wallet address.');
       }
 
-      // Debug: Log author information
-      console.log('Author Profile:', {
-        userId: story.author_id,
-        displayName: authorProfile.display_name,
-        walletAddress: authorProfile.wallet_address
-      });
-
-      // Check if author has a blockchain profile
-      try {
-        // This will help us see if the author exists on the blockchain
-        const authorAddress = authorProfile.wallet_address;
-        console.log('Checking blockchain status for author:', authorAddress);
-        
-        // You can add blockchain checks here if needed
-        // For now, let's just log the information
-      } catch (blockchainError) {
-        console.warn('Could not check blockchain status:', blockchainError);
-      }
-
-      // Convert story ID to number for blockchain (simplified - just use a hash)
-      const storyIdNumber = parseInt(storyId.replace(/-/g, '').substring(0, 8), 16);
-      const chapterIdNumber = parseInt(chapter.id.replace(/-/g, '').substring(0, 8), 16);
-      
       // Use the new simple BDAG transfer contract
       // This bypasses complex validation and just transfers BDAG tokens directly
       const receipt = await purchaseChapterWithBDAG(
-        storyIdNumber,
-        chapterIdNumber,
-        authorProfile.wallet_address,
-        story.price_per_chapter
+        storyId,
+        chapter.id,
+        payoutAddress,
+        chapter.price,
+        story.impact_percentage || 0,
+        story.beneficiary?.wallet_address,
+        (tx) => trackPurchase({
+          txHash: tx.hash,
+          userId: user.id,
+          storyId,
+          chapterId: chapter.id,
+          amount: chapter.price,
+        })
       );
 
-      // Create local purchase record for UI consistency
-      const { error: purchaseError } = await supabase
-        .from('purchases')
-        .insert({
-          user_id: user.id,
-          story_id: storyId,
-          chapter_id: chapter.id,
-        });
-
-      if (purchaseError) {
-        console.warn('Failed to create local purchase record:', purchaseError);
-        // Continue anyway since blockchain purchase succeeded
-      }
+      // The indexer records the split and grants access from the contract event;
+      // unlock the chapter locally meanwhile
+      await completePurchase(receipt);
 
       // Update local state
       setUserPurchases(prev => new Set([...prev, chapter.id]));
+      fetchChapters();
 
       toast({
         title: "Chapter Purchased with BDAG! 🚀",
@@ -258,6 +387,10 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
       onPurchaseComplete?.();
     } catch (error) {
       console.error('Error purchasing chapter on blockchain:', error);
+      // A reverted transaction carries its receipt; mark the tracked purchase failed
+      if (error.receipt) {
+        await completePurchase(error.receipt);
+      }
       
       // Provide more specific error messages
       let errorMessage = "Failed to purchase chapter on blockchain. Please try again.";
@@ -296,10 +429,14 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
     });
   };
 
+  // Content is only served in full once the server grants access, so a purchase
+  // made this session shows after fetchChapters reloads the list
   const canReadChapter = (chapter: Chapter) => {
-    return chapter.is_free || userPurchases.has(chapter.id);
+    return chapter.has_access;
   };
 
+  const canBuyStory = !!user && !!story && !story.is_own && !hasStoryAccess && !!bundlePrice;
+
   if (loading) {
     return (
       <div className="text-center py-8">
@@ -335,6 +472,29 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
         </div>
       </div>
 
+      {canBuyStory && (
+        <Card className="border-primary/30 bg-primary/5">
+          <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <p className="font-medium">Buy the whole story</p>
+              <p className="text-sm text-muted-foreground">
+                Unlock every remaining chapter for {bundlePrice} credits
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handlePurchaseStoryWithCredits} disabled={purchasingStory}>
+                <Coins className="w-4 h-4 mr-2" />
+                {purchasingStory ? 'Processing...' : 'Buy with Credits'}
+              </Button>
+              <Button variant="outline" onClick={handlePurchaseStoryWithBDAG} disabled={purchasingStory || !isConnected}>
+                <Wallet className="w-4 h-4 mr-2" />
+                Buy with MetaMask
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {chapters.map((chapter, index) => (
         <Card key={chapter.id}>
           <CardHeader className="pb-3">
@@ -359,13 +519,13 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
                 {!chapter.is_free && !canReadChapter(chapter) && (
                   <Badge variant="outline" className="text-orange-600">
                     <Lock className="h-3 w-3 mr-1" />
-                    {story?.price_per_chapter} credits
+                    {chapter.price} credits
                   </Badge>
                 )}
               </div>
               
               <div className="flex items-center space-x-2">
-                                 {!userPurchases.has(chapter.id) && (
+                                 {!canReadChapter(chapter) && (
                    <div className="flex gap-2 mt-4">
                      <Button
                        onClick={() => handlePurchaseChapter(chapter)}
@@ -407,14 +567,24 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
             </div>
           </CardHeader>
           
+          {!canReadChapter(chapter) && chapter.content && (
+            <>
+              <Separator />
+              <CardContent className="pt-4">
+                <div className="prose max-w-none relative">
+                  <ChapterContent content={`${chapter.content}…`} className="text-muted-foreground" />
+                  <div className="absolute inset-x-0 bottom-0 h-12 bg-gradient-to-t from-background to-transparent" />
+                </div>
+              </CardContent>
+            </>
+          )}
+
           {expandedChapters.has(chapter.id) && canReadChapter(chapter) && (
             <>
               <Separator />
               <CardContent className="pt-4">
                 <div className="prose max-w-none">
-                  <div className="whitespace-pre-wrap leading-relaxed">
-                    {chapter.content}
-                  </div>
+                  <ChapterContent content={chapter.content} />
                 </div>
                 <div className="mt-4 pt-4 border-t text-xs text-muted-foreground">
                   Published: {new Date(chapter.created_at).toLocaleDateString()}
@@ -453,7 +623,7 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
          </Card>
        )}
 
-       {user && isConnected && story?.author_id && (
+       {user && isConnected && story && (
          <Card className="bg-blue-50 border-blue-200">
            <CardContent className="p-4">
              <div className="flex items-start">
@@ -461,7 +631,7 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
                <div className="text-sm text-blue-800">
                  <p className="font-medium mb-1">Author Wallet Setup</p>
                  <p>To receive payments, authors need to set their wallet address in their profile. This ensures blockchain payments go directly to them.</p>
-                 {user.id === story.author_id && (
+                 {story.is_own && (
                    <div className="mt-2">
                      <Button
                        size="sm"
@@ -489,9 +659,55 @@ const ChapterReader = ({ storyId, onPurchaseComplete }: ChapterReaderProps) => {
          </Card>
        )}
 
-      
+      <Dialog open={!!pendingPurchase} onOpenChange={(open) => !open && setPendingPurchase(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Confirm Purchase</DialogTitle>
+            <DialogDescription>
+              {pendingPurchase && (pendingPurchase.chapter
+                ? `Chapter ${pendingPurchase.chapter.chapter_number}: ${pendingPurchase.chapter.title}`
+                : `Every remaining chapter of ${story?.title}`)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {pendingPurchase && (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Author</span>
+                <span>{pendingPurchase.split.authorAmount} BDAG</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Impact ({pendingPurchase.split.impactBps / 100}%
+                  {story?.beneficiary ? ` to ${story.beneficiary.name}` : ''})
+                </span>
+                <span>{pendingPurchase.split.impactAmount} BDAG</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Platform fee ({pendingPurchase.split.platformFeeBps / 100}%)
+                </span>
+                <span>{pendingPurchase.split.platformFee} BDAG</span>
+              </div>
+              <Separator />
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{pendingPurchase.split.total} BDAG</span>
+              </div>
+            </div>
+          )}
 
-      
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingPurchase(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmPendingPurchase}>
+              <Coins className="w-4 h-4 mr-2" />
+              Confirm in MetaMask
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Upload, Image, X, CheckCircle, AlertCircle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { removeStoryCover, uploadStoryCover } from '@/repositories/stories';
 import { useToast } from '@/hooks/use-toast';
 
 interface CoverUploadProps {
@@ -57,33 +57,7 @@ const CoverUpload = ({ storyId, currentCoverUrl, onCoverUpdated }: CoverUploadPr
 
     setUploading(true);
     try {
-      // Generate unique filename
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${storyId}-${Date.now()}.${fileExt}`;
-      const filePath = `covers/${fileName}`;
-
-      // Upload to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('story-covers')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('story-covers')
-        .getPublicUrl(filePath);
-
-      // Update story record
-      const { error: updateError } = await supabase
-        .from('stories')
-        .update({ cover_image_url: publicUrl })
-        .eq('id', storyId);
-
-      if (updateError) throw updateError;
+      const publicUrl = await uploadStoryCover(storyId, file);
 
       // Update preview
       setPreviewUrl(publicUrl);
@@ -140,21 +114,7 @@ const CoverUpload = ({ storyId, currentCoverUrl, onCoverUpdated }: CoverUploadPr
     if (!currentCoverUrl) return;
 
     try {
-      // Remove from storage
-      const fileName = currentCoverUrl.split('/').pop();
-      if (fileName) {
-        await supabase.storage
-          .from('story-covers')
-          .remove([`covers/${fileName}`]);
-      }
-
-      // Update story record
-      const { error } = await supabase
-        .from('stories')
-        .update({ cover_image_url: null })
-        .eq('id', storyId);
-
-      if (error) throw error;
+      await removeStoryCover(storyId, currentCoverUrl);
 
       setPreviewUrl(null);
       onCoverUpdated('');
@@ -1,45 +1,35 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { StoryCard } from "./StoryCard";
-import storyCover1 from "@/assets/story-cover-1.jpg";
-import storyCover2 from "@/assets/story-cover-2.jpg";
-import storyCover3 from "@/assets/story-cover-3.jpg";
+import { Button } from "@/components/ui/button";
+import { searchStories } from "@/repositories/stories";
 
-const featuredStories = [
-  {
-    id: "1",
-    title: "Surviving the Storm",
-    author: "Nomsa Mthembu",
-    description: "A powerful testimony of overcoming domestic violence and finding strength in community. This story follows a woman's journey from fear to empowerment, one chapter at a time.",
-    coverImage: storyCover1,
-    pricePerChapter: 5,
-    totalChapters: 12,
-    category: "Survivor Stories",
-    impact: "50% goes to women's shelters"
-  },
-  {
-    id: "2", 
-    title: "Letters to My Daughter",
-    author: "Amahle Zulu",
-    description: "Heartfelt wisdom passed down through generations. A mother's love letters filled with life lessons, cultural heritage, and dreams for the future.",
-    coverImage: storyCover2,
-    pricePerChapter: 3,
-    totalChapters: 8,
-    category: "Life Lessons"
-  },
-  {
-    id: "3",
-    title: "Rising from Ashes",
-    author: "Anonymous",
-    description: "An anonymous tale of healing and hope after trauma. Raw, honest, and ultimately uplifting - a testament to the human spirit's resilience.",
-    coverImage: storyCover3,
-    pricePerChapter: 4,
-    totalChapters: 15,
-    category: "Healing Journeys",
-    isAnonymous: true,
-    impact: "Supports GBV survivors"
-  }
-];
+type FeaturedStory = Awaited<ReturnType<typeof searchStories>>[number];
+
+const FEATURED_COUNT = 3;
 
 export const FeaturedStories = () => {
+  const navigate = useNavigate();
+  const [stories, setStories] = useState<FeaturedStory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchFeatured = async () => {
+      try {
+        // The same ranking as Discover's "Trending" sort
+        setStories(await searchStories({ sort: 'trending', limit: FEATURED_COUNT }));
+      } catch (error) {
+        console.error('Error fetching featured stories:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFeatured();
+  }, []);
+
+  if (!loading && stories.length === 0) return null;
+
   return (
     <section id="discover" className="py-20">
       <div className="container mx-auto px-6">
@@ -53,10 +43,37 @@ export const FeaturedStories = () => {
           </p>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {featuredStories.map((story) => (
-            <StoryCard key={story.id} {...story} />
-          ))}
+        {loading ? (
+          <div className="text-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {stories.map((story) => (
+              <StoryCard
+                key={story.id}
+                id={story.id}
+                title={story.title}
+                author={story.author_name || 'Unknown Author'}
+                authorHandle={story.author_handle ?? undefined}
+                description={story.description || ''}
+                coverImage={story.cover_image_url || '/placeholder.svg'}
+                pricePerChapter={story.price_per_chapter}
+                minChapterPrice={story.min_chapter_price}
+                maxChapterPrice={story.max_chapter_price}
+                totalChapters={story.total_chapters}
+                category={story.category_name || 'Uncategorized'}
+                isAnonymous={story.is_anonymous}
+                impact={story.impact_percentage ? `${story.impact_percentage}% to shelters` : undefined}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="text-center mt-12">
+          <Button variant="outline" size="lg" onClick={() => navigate('/discover?sort=trending')}>
+            See what's trending
+          </Button>
         </div>
       </div>
     </section>
@@ -1,12 +1,16 @@
 import { Button } from "@/components/ui/button";
 import { Heart, Search, User, BookOpen } from "lucide-react";
 import { ThemeToggle } from "./ThemeToggle";
+import { PendingPurchasesIndicator } from "./PendingPurchasesIndicator";
+import { NotificationsMenu } from "./NotificationsMenu";
 import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/hooks/useProfile";
 import { useNavigate } from "react-router-dom";
 import { Link } from "react-router-dom";
 
 export const Navigation = () => {
   const { user, signOut } = useAuth();
+  const { profile } = useProfile();
   const navigate = useNavigate();
 
   const handlePublishClick = () => {
@@ -57,6 +61,9 @@ export const Navigation = () => {
             <a href="/#categories" className="text-foreground hover:text-primary transition-colors">
               Categories
             </a>
+            <a href="/tags" className="text-foreground hover:text-primary transition-colors">
+              Tags
+            </a>
             <a href="/#authors" className="text-foreground hover:text-primary transition-colors">
               Authors
             </a>
@@ -68,6 +75,8 @@ export const Navigation = () => {
           {user ? (
             <div className="flex items-center space-x-4">
               <ThemeToggle />
+              <PendingPurchasesIndicator />
+              <NotificationsMenu />
               <Button variant="ghost" asChild>
                 <Link to="/discover">Discover</Link>
               </Button>
@@ -77,6 +86,16 @@ export const Navigation = () => {
               <Button variant="ghost" asChild>
                 <Link to="/dashboard">Dashboard</Link>
               </Button>
+              {profile?.is_admin && (
+                <Button variant="ghost" asChild>
+                  <Link to="/admin/beneficiaries">Admin</Link>
+                </Button>
+              )}
+              {profile?.is_admin && (
+                <Button variant="ghost" asChild>
+                  <Link to="/admin/tags">Tags Admin</Link>
+                </Button>
+              )}
               <Button variant="outline" onClick={handleSignOut}>
                 Sign Out
               </Button>
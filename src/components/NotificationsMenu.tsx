@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { listNotifications, markNotificationsRead } from "@/repositories/notifications";
+
+type Notification = Awaited<ReturnType<typeof listNotifications>>[number];
+
+export const NotificationsMenu = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      fetchNotifications();
+    } else {
+      setNotifications([]);
+    }
+  }, [user]);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    try {
+      setNotifications(await listNotifications(user.id));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const unread = notifications.filter((notification) => !notification.read_at);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || unread.length === 0) return;
+
+    try {
+      await markNotificationsRead(unread.map((notification) => notification.id));
+      const readAt = new Date().toISOString();
+      setNotifications(notifications.map((notification) => ({ ...notification, read_at: notification.read_at ?? readAt })));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px]">
+              {unread.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <h4 className="font-medium mb-3">Notifications</h4>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Follow a story to hear when its next chapter is out.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {notifications.map((notification) => (
+              <Link
+                key={notification.id}
+                to={notification.chapter_id
+                  ? `/read/${notification.story_id}/${notification.chapter_id}`
+                  : `/story/${notification.story_id}`}
+                className="block rounded-md p-2 text-sm hover:bg-muted"
+              >
+                <p className={notification.read_at ? undefined : "font-medium"}>
+                  New chapter in {notification.story?.title ?? 'a story you follow'}
+                </p>
+                {notification.chapter && (
+                  <p className="text-muted-foreground">
+                    Chapter {notification.chapter.chapter_number}: {notification.chapter.title}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(notification.created_at).toLocaleString()}
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertCircle, Loader2, X } from "lucide-react";
+import { useWeb3 } from "@/contexts/Web3Context";
+import { getCurrentNetwork } from "@/integrations/web3/config";
+
+export const PendingPurchasesIndicator = () => {
+  const { pendingPurchases, dismissPurchase } = useWeb3();
+
+  if (pendingPurchases.length === 0) {
+    return null;
+  }
+
+  const pendingCount = pendingPurchases.filter(p => p.status === 'pending').length;
+  const failedCount = pendingPurchases.length - pendingCount;
+  const explorerUrl = getCurrentNetwork().blockExplorer;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          {pendingCount > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <AlertCircle className="h-4 w-4 text-destructive" />
+          )}
+          {pendingCount > 0 ? `${pendingCount} pending` : `${failedCount} failed`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <h4 className="font-medium mb-1">BDAG purchases</h4>
+        <p className="text-xs text-muted-foreground mb-3">
+          Purchases unlock as soon as their transaction is confirmed, even if you leave this page.
+        </p>
+        <div className="space-y-2">
+          {pendingPurchases.map((purchase) => (
+            <div key={purchase.txHash} className="flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {purchase.chapterId ? 'Chapter' : 'Whole story'} · {purchase.amount} BDAG
+                </p>
+                <a
+                  href={`${explorerUrl}/tx/${purchase.txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-muted-foreground hover:text-primary font-mono"
+                >
+                  {purchase.txHash.substring(0, 10)}...
+                </a>
+              </div>
+              <div className="flex items-center gap-1">
+                <Badge variant={purchase.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {purchase.status}
+                </Badge>
+                {purchase.status === 'failed' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => dismissPurchase(purchase.txHash)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWeb3 } from '@/contexts/Web3Context';
-import { supabase } from '@/integrations/supabase/client';
+import { createProfile, getProfile, saveAuthorProfile, updateProfile } from '@/repositories/profiles';
+import { createCreditAccount } from '@/repositories/credits';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -95,94 +96,54 @@ export const ProfileSetup = () => {
     setLoading(true);
     try {
       // First, check if a profile already exists
-      const { data: existingProfile, error: checkError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') { // PGRST116 = no rows returned
-        console.error('Error checking existing profile:', checkError);
-        throw checkError;
-      }
+      const existingProfile = await getProfile(user.id);
 
       if (existingProfile) {
         console.log('Profile already exists, updating instead of creating');
         // Update existing profile
-        const { error: updateError } = await supabase
-          .from('profiles')
-          .update({
-            display_name: profileData.displayName,
-            bio: profileData.bio,
-            is_author: profileData.role === 'writer' || profileData.role === 'both',
-            is_anonymous: profileData.isAnonymous,
-            pseudonym: profileData.isAnonymous ? profileData.anonymousName : null,
-            wallet_address: profileData.walletAddress,
-            wallet_data: profileData.walletData,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', user.id);
-
-        if (updateError) throw updateError;
+        await updateProfile(user.id, {
+          display_name: profileData.displayName,
+          bio: profileData.bio,
+          is_author: profileData.role === 'writer' || profileData.role === 'both',
+          is_anonymous: profileData.isAnonymous,
+          pseudonym: profileData.isAnonymous ? profileData.anonymousName : null,
+          wallet_address: profileData.walletAddress,
+          wallet_data: profileData.walletData,
+          updated_at: new Date().toISOString()
+        });
       } else {
         console.log('Creating new profile');
         // Create new profile
-        const { error: createError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: user.id,
-            display_name: profileData.displayName,
-            bio: profileData.bio,
-            is_author: profileData.role === 'writer' || profileData.role === 'both',
-            is_anonymous: profileData.isAnonymous,
-            pseudonym: profileData.isAnonymous ? profileData.anonymousName : null,
-            wallet_address: profileData.walletAddress,
-            wallet_data: profileData.walletData,
-            updated_at: new Date().toISOString()
-          });
-
-        if (createError) throw createError;
+        await createProfile({
+          user_id: user.id,
+          display_name: profileData.displayName,
+          bio: profileData.bio,
+          is_author: profileData.role === 'writer' || profileData.role === 'both',
+          is_anonymous: profileData.isAnonymous,
+          pseudonym: profileData.isAnonymous ? profileData.anonymousName : null,
+          wallet_address: profileData.walletAddress,
+          wallet_data: profileData.walletData,
+          updated_at: new Date().toISOString()
+        });
       }
 
       // If author, create/update author profile
       if (profileData.role === 'writer' || profileData.role === 'both') {
         console.log('Creating/updating author profile');
 
-        const { error: authorError } = await supabase
-          .from('author_profiles')
-          .upsert({
-            user_id: user.id,
-            pseudonym: profileData.isAnonymous ? profileData.anonymousName : null,
-            wallet_address: profileData.walletAddress,
-            wallet_data: profileData.walletData,
-            impact_percentage: profileData.impactPercentage || 0,
-            total_earnings: 0.00,
-            total_stories_published: 0,
-            total_chapters_published: 0,
-            total_readers: 0
-          });
-
-        if (authorError) {
-          console.error('Error creating author profile:', authorError);
-          throw authorError;
-        }
+        // Earnings and reader stats start at their defaults and are kept on updates
+        await saveAuthorProfile({
+          user_id: user.id,
+          pseudonym: profileData.isAnonymous ? profileData.anonymousName : null,
+          wallet_address: profileData.walletAddress,
+          wallet_data: profileData.walletData,
+          impact_percentage: profileData.impactPercentage || 0
+        });
       }
 
       // Create user credits record (everyone starts with 0)
       console.log('Creating user credits record');
-      const { error: creditsError } = await supabase
-        .from('user_credits')
-        .upsert({
-          user_id: user.id,
-          balance: 0.00,
-          total_earned: 0.00,
-          total_spent: 0.00
-        });
-
-      if (creditsError) {
-        console.error('Error creating user credits:', creditsError);
-        throw creditsError;
-      }
+      await createCreditAccount(user.id);
 
       // Clear onboarding data
       localStorage.removeItem('authorSetup');
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { Sparkles } from "lucide-react";
+import { StoryCard } from "./StoryCard";
+import { useAuth } from "@/contexts/AuthContext";
+import { listRecommendedStories } from "@/repositories/stories";
+
+type RecommendedStory = Awaited<ReturnType<typeof listRecommendedStories>>[number];
+
+interface RecommendedStoriesProps {
+  limit?: number;
+  className?: string;
+}
+
+/**
+ * The "For you" row. Only shown to signed-in readers, and hidden until there
+ * is something to recommend.
+ */
+export const RecommendedStories = ({ limit = 3, className = "py-16" }: RecommendedStoriesProps) => {
+  const { user } = useAuth();
+  const [stories, setStories] = useState<RecommendedStory[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setStories([]);
+      return;
+    }
+
+    const fetchRecommendations = async () => {
+      try {
+        setStories(await listRecommendedStories(limit));
+      } catch (error) {
+        console.error('Error fetching recommendations:', error);
+      }
+    };
+
+    fetchRecommendations();
+  }, [user, limit]);
+
+  if (stories.length === 0) return null;
+
+  return (
+    <section className={className}>
+      <div className="container mx-auto px-4">
+        <div className="flex items-center mb-8">
+          <Sparkles className="h-6 w-6 text-primary mr-3" />
+          <h2 className="text-3xl font-bold">For You</h2>
+        </div>
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {stories.map((story) => (
+            <div key={story.id}>
+              <p className="text-sm text-muted-foreground mb-2">
+                {story.because_story_title
+                  ? `Because you read ${story.because_story_title}`
+                  : 'Trending now'}
+              </p>
+              <StoryCard
+                id={story.id}
+                title={story.title}
+                author={story.author_name || 'Unknown Author'}
+                authorHandle={story.author_handle ?? undefined}
+                description={story.description || ''}
+                coverImage={story.cover_image_url || '/placeholder.svg'}
+                pricePerChapter={story.price_per_chapter}
+                minChapterPrice={story.min_chapter_price}
+                maxChapterPrice={story.max_chapter_price}
+                totalChapters={story.total_chapters}
+                category={story.category_name || 'Uncategorized'}
+                isAnonymous={story.is_anonymous}
+                impact={story.impact_percentage ? `${story.impact_percentage}% to shelters` : undefined}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
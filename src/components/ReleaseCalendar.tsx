@@ -0,0 +1,94 @@
+import { useState, useEffect, useMemo } from 'react';
+import { isSameDay } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { CalendarClock } from 'lucide-react';
+import { listScheduledChapters } from '@/repositories/chapters';
+
+type ScheduledChapter = Awaited<ReturnType<typeof listScheduledChapters>>[number];
+
+interface ReleaseCalendarProps {
+  stories: { id: string; title: string }[];
+}
+
+/**
+ * The author's queued chapters on a month calendar
+ */
+export const ReleaseCalendar = ({ stories }: ReleaseCalendarProps) => {
+  const [chapters, setChapters] = useState<ScheduledChapter[]>([]);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date());
+
+  useEffect(() => {
+    fetchScheduledChapters();
+  }, [stories]);
+
+  const fetchScheduledChapters = async () => {
+    try {
+      setChapters(await listScheduledChapters(stories.map((story) => story.id)));
+    } catch (error) {
+      console.error('Error fetching scheduled chapters:', error);
+    }
+  };
+
+  const storyTitles = useMemo(
+    () => new Map(stories.map((story) => [story.id, story.title])),
+    [stories]
+  );
+
+  const releaseDays = chapters.map((chapter) => new Date(chapter.publish_at!));
+  const shown = selectedDay
+    ? chapters.filter((chapter) => isSameDay(new Date(chapter.publish_at!), selectedDay))
+    : chapters;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2" />
+          Release Calendar
+        </CardTitle>
+        <CardDescription>
+          {chapters.length === 0
+            ? 'No chapters scheduled. Schedule one from the chapter editor.'
+            : `${chapters.length} chapter${chapters.length === 1 ? '' : 's'} scheduled`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col md:flex-row gap-6">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ release: releaseDays }}
+          modifiersClassNames={{ release: 'font-bold text-primary underline underline-offset-4' }}
+          className="rounded-md border self-start"
+        />
+
+        <div className="flex-1 space-y-3">
+          <h4 className="font-medium">
+            {selectedDay ? selectedDay.toLocaleDateString() : 'All scheduled chapters'}
+          </h4>
+          {shown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {selectedDay ? 'Nothing goes live this day.' : 'No chapters scheduled.'}
+            </p>
+          ) : (
+            shown.map((chapter) => (
+              <div key={chapter.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium">{chapter.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {storyTitles.get(chapter.story_id)} · Chapter {chapter.chapter_number}
+                  </p>
+                </div>
+                <Badge variant="outline">
+                  {new Date(chapter.publish_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Badge>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,19 +3,27 @@ import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Heart, BookOpen, Coins, Link, ExternalLink, User } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { formatChapterPriceRange } from "@/lib/chapterPricing";
+import { parseSnippet } from "@/lib/search";
 
 interface StoryCardProps {
   id: string;
   title: string;
   author: string;
-  authorId?: string; // Add author ID for navigation
+  /** Author page to link to; a pen handle for anonymous stories */
+  authorHandle?: string;
   description: string;
   coverImage: string;
   pricePerChapter: number;
+  /** Cheapest and dearest paid chapter; both default to pricePerChapter */
+  minChapterPrice?: number;
+  maxChapterPrice?: number;
   totalChapters: number;
   category: string;
   isAnonymous?: boolean;
   impact?: string;
+  /** Search snippet from search_stories(), shown under the description */
+  snippet?: string | null;
   blockchainInfo?: {
     id: string;
     txHash?: string;
@@ -26,14 +34,17 @@ export const StoryCard = ({
   id,
   title,
   author,
-  authorId,
+  authorHandle,
   description,
   coverImage,
   pricePerChapter,
+  minChapterPrice = pricePerChapter,
+  maxChapterPrice = pricePerChapter,
   totalChapters,
   category,
   isAnonymous = false,
   impact,
+  snippet,
   blockchainInfo
 }: StoryCardProps) => {
   const navigate = useNavigate();
@@ -44,8 +55,8 @@ export const StoryCard = ({
 
   const handleViewAuthor = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent triggering the story view
-    if (authorId && !isAnonymous) {
-      navigate(`/author/${authorId}`);
+    if (authorHandle) {
+      navigate(`/author/${authorHandle}`);
     }
   };
 
@@ -93,23 +104,34 @@ export const StoryCard = ({
           {title}
         </h3>
         <p className="text-sm text-muted-foreground mb-1">
-          by {isAnonymous ? "Anonymous" : (
-            authorId ? (
-              <button
-                onClick={handleViewAuthor}
-                className="hover:text-primary hover:underline transition-colors cursor-pointer flex items-center space-x-1"
-              >
-                <User className="h-3 w-3" />
-                <span>{author}</span>
-              </button>
-            ) : (
-              author
-            )
+          by {authorHandle ? (
+            <button
+              onClick={handleViewAuthor}
+              className="hover:text-primary hover:underline transition-colors cursor-pointer flex items-center space-x-1"
+            >
+              <User className="h-3 w-3" />
+              <span>{author}</span>
+            </button>
+          ) : (
+            isAnonymous ? "Anonymous" : author
           )}
         </p>
         <p className="text-muted-foreground text-sm mb-4 line-clamp-3">
           {description}
         </p>
+        {snippet && (
+          <p className="text-sm text-muted-foreground italic mb-4 line-clamp-3">
+            {parseSnippet(snippet).map((part, index) =>
+              part.highlighted ? (
+                <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5 not-italic">
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        )}
         
         <div className="flex items-center justify-between text-sm">
           <div className="flex items-center text-muted-foreground">
@@ -118,7 +140,8 @@ export const StoryCard = ({
           </div>
           <div className="flex items-center text-empowerment font-medium">
             <Coins className="h-4 w-4 mr-1" />
-            {pricePerChapter} credits/chapter
+            {formatChapterPriceRange(minChapterPrice, maxChapterPrice)}
+            {maxChapterPrice > 0 && '/chapter'}
           </div>
         </div>
 
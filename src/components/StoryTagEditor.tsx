@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Tag as TagIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TagInput } from '@/components/TagInput';
+import { listStoryTags, setStoryTags, Tag } from '@/repositories/tags';
+import { MAX_STORY_TAGS, parseTagInput } from '@/lib/tags';
+import { useToast } from '@/hooks/use-toast';
+
+interface StoryTagEditorProps {
+  storyId: string;
+}
+
+/**
+ * A story's tags on the author's dashboard, editable in place
+ */
+export const StoryTagEditor = ({ storyId }: StoryTagEditorProps) => {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchTags = async () => {
+    try {
+      setTags(await listStoryTags(storyId));
+    } catch (error) {
+      console.error('Error fetching story tags:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTags();
+  }, [storyId]);
+
+  const startEditing = () => {
+    setDraft(tags.map((tag) => tag.name).join(', '));
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    const names = parseTagInput(draft);
+    if (names.length > MAX_STORY_TAGS) {
+      toast({
+        variant: "destructive",
+        title: "Too Many Tags",
+        description: `A story can have up to ${MAX_STORY_TAGS} tags.`,
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setStoryTags(storyId, names);
+      await fetchTags();
+      setEditing(false);
+      toast({ title: "Tags Saved" });
+    } catch (error) {
+      console.error('Error saving story tags:', error);
+      toast({
+        variant: "destructive",
+        title: "Error Saving Tags",
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-3">
+        <TagInput value={draft} onChange={setDraft} disabled={saving} />
+        <div className="flex space-x-2">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Tags'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map((tag) => (
+        <Link key={tag.id} to={`/tags/${tag.slug}`}>
+          <Badge variant="secondary">{tag.name}</Badge>
+        </Link>
+      ))}
+      <Button variant="ghost" size="sm" onClick={startEditing}>
+        <TagIcon className="h-4 w-4 mr-2" />
+        {tags.length > 0 ? 'Edit Tags' : 'Add Tags'}
+      </Button>
+    </div>
+  );
+};
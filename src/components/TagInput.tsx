@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { listTagSummaries, TagSummary } from '@/repositories/tags';
+import { MAX_STORY_TAGS, parseTagInput } from '@/lib/tags';
+
+interface TagInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * A comma-separated tag field with the curated tags offered as one-click
+ * suggestions. Anything else typed becomes a new tag when the story is saved.
+ */
+export const TagInput = ({ id, value, onChange, disabled }: TagInputProps) => {
+  const [curated, setCurated] = useState<TagSummary[]>([]);
+
+  useEffect(() => {
+    const fetchCurated = async () => {
+      try {
+        const tags = await listTagSummaries();
+        setCurated(tags.filter((tag) => tag.curated));
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    };
+
+    fetchCurated();
+  }, []);
+
+  const names = parseTagInput(value);
+  const chosen = new Set(names.map((name) => name.toLowerCase()));
+  const suggestions = curated.filter((tag) => !chosen.has(tag.name.toLowerCase()));
+
+  const addTag = (name: string) => {
+    if (names.length >= MAX_STORY_TAGS) return;
+    onChange([...names, name].join(', '));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g. Resilience, Cape Town, isiXhosa"
+        disabled={disabled}
+      />
+      <p className="text-xs text-muted-foreground">
+        Separate tags with commas, up to {MAX_STORY_TAGS}.
+      </p>
+      {suggestions.length > 0 && names.length < MAX_STORY_TAGS && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map((tag) => (
+            <Badge
+              key={tag.id}
+              variant="outline"
+              className="cursor-pointer hover:bg-primary/10"
+              onClick={() => !disabled && addTag(tag.name)}
+            >
+              + {tag.name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
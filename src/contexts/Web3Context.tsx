@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { ethers } from 'ethers';
 import { 
   initializeWeb3, 
@@ -8,9 +8,40 @@ import {
   getAuthorBlockchainInfo,
   updateContractAddress,
   isMetaMaskAvailable,
-  isMetaMaskConnected
+  isMetaMaskConnected,
+  getProvider
 } from '@/integrations/web3/contracts';
 import { WEB3_CONFIG, getCurrentNetwork } from '@/integrations/web3/config';
+import { supabase } from '@/integrations/supabase/client';
+import { startBlockchainPayment, failBlockchainPayment } from '@/utils/credits';
+
+export interface PendingPurchase {
+  txHash: string;
+  userId: string;
+  storyId: string;
+  /** null when the whole story was bought */
+  chapterId: string | null;
+  /** Whole BDAG sent */
+  amount: number;
+  submittedAt: string;
+  status: 'pending' | 'failed';
+}
+
+const PENDING_PURCHASES_KEY = 'web3_pending_purchases';
+// How long to wait for a restored transaction before checking whether it was dropped
+const WATCH_TIMEOUT_MS = 10 * 60 * 1000;
+// A transaction the node still doesn't know about after this long is treated as dropped
+const DROPPED_AFTER_MS = 30 * 60 * 1000;
+// Pause before watching again, so a node that errors straight away isn't polled in a loop
+const REWATCH_DELAY_MS = 30 * 1000;
+
+const loadPendingPurchases = (): PendingPurchase[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_PURCHASES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
 
 interface Web3ContextType {
   // Connection state
@@ -34,6 +65,12 @@ interface Web3ContextType {
   isMetaMaskAvailable: () => boolean;
   markProfileComplete: () => void;
   
+  // The signed-in user's BDAG purchases sent but not yet recorded, persisted across reloads
+  pendingPurchases: PendingPurchase[];
+  trackPurchase: (purchase: Omit<PendingPurchase, 'submittedAt' | 'status'>) => Promise<void>;
+  completePurchase: (receipt: ethers.providers.TransactionReceipt) => Promise<void>;
+  dismissPurchase: (txHash: string) => void;
+  
   // Error handling
   error: string | null;
   clearError: () => void;
@@ -61,6 +98,13 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
   const [error, setError] = useState<string | null>(null);
   const [isWeb3Initialized, setIsWeb3Initialized] = useState(false);
   const [contractsChecked, setContractsChecked] = useState(false);
+  const [pendingPurchases, setPendingPurchases] = useState<PendingPurchase[]>(loadPendingPurchases);
+  const pendingPurchasesRef = useRef(pendingPurchases);
+  pendingPurchasesRef.current = pendingPurchases;
+  // Hashes something is already waiting on, so a purchase is never finalised twice
+  const watchedPurchases = useRef(new Set<string>());
+  // Purchases are kept per user; only the signed-in user's are shown and finalised
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   // Initialize Web3 connection - SIMPLE VERSION
   const connect = async (): Promise<boolean> => {
@@ -296,6 +340,91 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     console.log('Web3Context: Profile setup marked as complete.');
   };
 
+  // Remember a sent purchase and record it as pending, before waiting for it
+  const trackPurchase = async (purchase: Omit<PendingPurchase, 'submittedAt' | 'status'>) => {
+    watchedPurchases.current.add(purchase.txHash);
+    const next: PendingPurchase[] = [
+      ...pendingPurchasesRef.current.filter(p => p.txHash !== purchase.txHash),
+      { ...purchase, submittedAt: new Date().toISOString(), status: 'pending' },
+    ];
+    // Persist straight away: the tab may close before the next render
+    pendingPurchasesRef.current = next;
+    localStorage.setItem(PENDING_PURCHASES_KEY, JSON.stringify(next));
+    setPendingPurchases(next);
+
+    const { error } = await startBlockchainPayment({
+      story_id: purchase.storyId,
+      chapter_id: purchase.chapterId ?? undefined,
+      amount: purchase.amount,
+      transaction_type: 'purchase',
+      blockchain_tx_hash: purchase.txHash,
+    });
+
+    if (error) {
+      console.warn('Web3Context: Failed to record pending purchase:', error);
+    }
+  };
+
+  const markPurchaseFailed = async (txHash: string) => {
+    setPendingPurchases(prev => prev.map(p => p.txHash === txHash ? { ...p, status: 'failed' } : p));
+    await failBlockchainPayment(txHash);
+  };
+
+  // Stop tracking a mined purchase, or mark it failed if it reverted. The
+  // purchase indexer completes the pending payment from the contract event,
+  // which books the split and grants the entitlement
+  const completePurchase = async (receipt: ethers.providers.TransactionReceipt) => {
+    const purchase = pendingPurchasesRef.current.find(p => p.txHash === receipt.transactionHash);
+    if (!purchase) {
+      return;
+    }
+
+    if (receipt.status === 0) {
+      await markPurchaseFailed(purchase.txHash);
+      return;
+    }
+
+    setPendingPurchases(prev => prev.filter(p => p.txHash !== purchase.txHash));
+  };
+
+  const dismissPurchase = (txHash: string) => {
+    setPendingPurchases(prev => prev.filter(p => p.txHash !== txHash));
+  };
+
+  // Wait for a purchase restored from a previous page load, watching again
+  // after each timeout until it is mined or dropped
+  const watchPurchase = async (provider: ethers.providers.Provider, purchase: PendingPurchase) => {
+    if (watchedPurchases.current.has(purchase.txHash)) {
+      return;
+    }
+
+    watchedPurchases.current.add(purchase.txHash);
+    let stillPending = false;
+    try {
+      const receipt = await provider.waitForTransaction(purchase.txHash, 1, WATCH_TIMEOUT_MS);
+      await completePurchase(receipt);
+    } catch (error) {
+      console.warn('Web3Context: Still waiting on purchase', purchase.txHash, error);
+      const tx = await provider.getTransaction(purchase.txHash).catch(() => null);
+      if (!tx && Date.now() - new Date(purchase.submittedAt).getTime() > DROPPED_AFTER_MS) {
+        await markPurchaseFailed(purchase.txHash);
+      } else {
+        stillPending = true;
+      }
+    } finally {
+      watchedPurchases.current.delete(purchase.txHash);
+    }
+
+    if (stillPending) {
+      window.setTimeout(() => {
+        const latest = pendingPurchasesRef.current.find(p => p.txHash === purchase.txHash);
+        if (latest?.status === 'pending') {
+          watchPurchase(provider, latest);
+        }
+      }, REWATCH_DELAY_MS);
+    }
+  };
+
   // Switch network
   const switchNetwork = async (networkName: 'mainnet' | 'testnet'): Promise<boolean> => {
     try {
@@ -385,6 +514,39 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [isWeb3Initialized, account, contractsInitialized, contractsChecked]);
 
+  // Keep pending purchases across reloads
+  useEffect(() => {
+    localStorage.setItem(PENDING_PURCHASES_KEY, JSON.stringify(pendingPurchases));
+  }, [pendingPurchases]);
+
+  // Follow the signed-in user, whose purchases are the ones to show and record
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setCurrentUserId(session?.user.id ?? null);
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setCurrentUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Resume watching the user's purchases that were in flight when the page was
+  // last closed, or when they last signed out. A read-only provider is enough,
+  // so this works before MetaMask reconnects.
+  useEffect(() => {
+    const restored = pendingPurchasesRef.current.filter(
+      p => p.status === 'pending' && p.userId === currentUserId
+    );
+    if (restored.length === 0) {
+      return;
+    }
+
+    const provider = getProvider() || new ethers.providers.JsonRpcProvider(getCurrentNetwork().rpcUrl);
+    restored.forEach(purchase => watchPurchase(provider, purchase));
+  }, [currentUserId]);
+
   // Context value
   const contextValue: Web3ContextType = {
     isConnected,
@@ -400,6 +562,10 @@ export const Web3Provider: React.FC<{ children: React.ReactNode }> = ({ children
     getCreditBalance,
     isMetaMaskAvailable: () => isMetaMaskAvailable(),
     markProfileComplete,
+    pendingPurchases: pendingPurchases.filter(p => p.userId === currentUserId),
+    trackPurchase,
+    completePurchase,
+    dismissPurchase,
     error,
     clearError,
   };
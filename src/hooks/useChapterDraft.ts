@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChapterDraftValues, deleteChapterDraft, saveChapterDraft } from '@/repositories/drafts';
+
+export const AUTOSAVE_DELAY_MS = 1500;
+
+export type DraftStatus = 'idle' | 'unsaved' | 'saving' | 'saved' | 'error';
+
+interface PendingDraft {
+  chapterId: string | null;
+  values: ChapterDraftValues;
+}
+
+/**
+ * Autosaves the chapter being edited as a draft, a moment after the author
+ * stops typing. Saves run one after another so an older one never lands last.
+ */
+export const useChapterDraft = (storyId: string) => {
+  const [status, setStatus] = useState<DraftStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const pending = useRef<PendingDraft | null>(null);
+  const timer = useRef<number>();
+  const queue = useRef<Promise<void>>(Promise.resolve());
+
+  const flush = useCallback(() => {
+    window.clearTimeout(timer.current);
+    const draft = pending.current;
+    if (!draft) return queue.current;
+
+    pending.current = null;
+    setStatus('saving');
+
+    queue.current = queue.current.then(async () => {
+      try {
+        setLastSavedAt(new Date(await saveChapterDraft(storyId, draft.chapterId, draft.values)));
+        setStatus(pending.current ? 'unsaved' : 'saved');
+      } catch (error) {
+        console.error('Error saving chapter draft:', error);
+        // Keep the values so the next change or flush tries again
+        if (!pending.current) pending.current = draft;
+        setStatus('error');
+      }
+    });
+
+    return queue.current;
+  }, [storyId]);
+
+  const scheduleSave = useCallback((chapterId: string | null, values: ChapterDraftValues) => {
+    pending.current = { chapterId, values };
+    setStatus('unsaved');
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [flush]);
+
+  /**
+   * Drop unsaved changes and delete the stored draft, after the chapter is
+   * saved for real or the author throws the draft away.
+   */
+  const discard = useCallback((chapterId: string | null) => {
+    window.clearTimeout(timer.current);
+    pending.current = null;
+    setStatus('idle');
+    setLastSavedAt(null);
+
+    queue.current = queue.current.then(async () => {
+      try {
+        await deleteChapterDraft(storyId, chapterId);
+      } catch (error) {
+        console.error('Error deleting chapter draft:', error);
+      }
+    });
+
+    return queue.current;
+  }, [storyId]);
+
+  /**
+   * Start tracking a freshly opened chapter
+   */
+  const reset = useCallback((savedAt: Date | null = null) => {
+    setStatus(savedAt ? 'saved' : 'idle');
+    setLastSavedAt(savedAt);
+  }, []);
+
+  // Don't lose the last few keystrokes when the editor goes away
+  useEffect(() => () => {
+    flush();
+  }, [flush]);
+
+  return { status, lastSavedAt, scheduleSave, flush, discard, reset };
+};
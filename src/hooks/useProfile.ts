@@ -1,17 +1,6 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface Profile {
-  id: string;
-  user_id: string;
-  display_name?: string;
-  bio?: string;
-  is_anonymous: boolean;
-  is_author: boolean;
-  wallet_balance: number;
-  avatar_url?: string;
-}
+import { getProfile, updateProfile as saveProfile, Profile } from '@/repositories/profiles';
 
 export const useProfile = () => {
   const { user } = useAuth();
@@ -31,18 +20,7 @@ export const useProfile = () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        console.error('Error fetching profile:', error);
-        return;
-      }
-
-      setProfile(data);
+      setProfile(await getProfile(user.id));
     } catch (error) {
       console.error('Error fetching profile:', error);
     } finally {
@@ -54,12 +32,7 @@ export const useProfile = () => {
     if (!user || !profile) return;
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update(updates)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await saveProfile(user.id, updates);
 
       setProfile({ ...profile, ...updates });
     } catch (error) {
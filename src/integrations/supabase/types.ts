@@ -42,18 +42,24 @@ export type Database = {
           created_at: string
           id: string
           is_free: boolean | null
+          price: number | null
+          price_mode: string
           published: boolean | null
+          publish_at: string | null
           story_id: string
           title: string
           updated_at: string
         }
         Insert: {
-          chapter_number: number
+          chapter_number?: number
           content: string
           created_at?: string
           id?: string
           is_free?: boolean | null
+          price?: number | null
+          price_mode?: string
           published?: boolean | null
+          publish_at?: string | null
           story_id: string
           title: string
           updated_at?: string
@@ -64,7 +70,10 @@ export type Database = {
           created_at?: string
           id?: string
           is_free?: boolean | null
+          price?: number | null
+          price_mode?: string
           published?: boolean | null
+          publish_at?: string | null
           story_id?: string
           title?: string
           updated_at?: string
@@ -77,6 +86,125 @@ export type Database = {
             referencedRelation: "stories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chapters_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "public_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chapter_drafts: {
+        Row: {
+          id: string
+          story_id: string
+          chapter_id: string | null
+          author_id: string
+          title: string
+          content: string
+          price_mode: string
+          price: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          story_id: string
+          chapter_id?: string | null
+          author_id: string
+          title?: string
+          content?: string
+          price_mode?: string
+          price?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          story_id?: string
+          chapter_id?: string | null
+          author_id?: string
+          title?: string
+          content?: string
+          price_mode?: string
+          price?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chapter_drafts_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chapter_drafts_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chapter_revisions: {
+        Row: {
+          id: string
+          chapter_id: string
+          story_id: string
+          author_id: string
+          title: string
+          content: string
+          word_count: number
+          restored_from: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          chapter_id: string
+          story_id: string
+          author_id: string
+          title: string
+          content: string
+          word_count?: number
+          restored_from?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          chapter_id?: string
+          story_id?: string
+          author_id?: string
+          title?: string
+          content?: string
+          word_count?: number
+          restored_from?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chapter_revisions_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chapter_revisions_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chapter_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "chapter_revisions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -86,18 +214,17 @@ export type Database = {
           created_at: string
           display_name: string | null
           id: string
+          is_admin: boolean
           is_anonymous: boolean | null
           is_author: boolean | null
           updated_at: string
           user_id: string
           wallet_balance: number | null
           pseudonym: string | null
+          pen_handle: string
           wallet_address: string | null
           wallet_data: Json | null
           total_earnings: number | null
-          total_stories_published: number | null
-          total_chapters_published: number | null
-          total_readers: number | null
         }
         Insert: {
           avatar_url?: string | null
@@ -105,18 +232,17 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          is_admin?: boolean
           is_anonymous?: boolean | null
           is_author?: boolean | null
           updated_at?: string
           user_id: string
           wallet_balance?: number | null
           pseudonym?: string | null
+          pen_handle?: string
           wallet_address?: string | null
           wallet_data?: Json | null
           total_earnings?: number | null
-          total_stories_published?: number | null
-          total_chapters_published?: number | null
-          total_readers?: number | null
         }
         Update: {
           avatar_url?: string | null
@@ -124,18 +250,17 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          is_admin?: boolean
           is_anonymous?: boolean | null
           is_author?: boolean | null
           updated_at?: string
           user_id?: string
           wallet_balance?: number | null
           pseudonym?: string | null
+          pen_handle?: string
           wallet_address?: string | null
           wallet_data?: Json | null
           total_earnings?: number | null
-          total_stories_published?: number | null
-          total_chapters_published?: number | null
-          total_readers?: number | null
         }
         Relationships: []
       }
@@ -144,43 +269,43 @@ export type Database = {
           id: string
           user_id: string
           pseudonym: string | null
-          wallet_address: string
+          wallet_address: string | null
           wallet_data: Json | null
-          impact_percentage: number
-          total_earnings: number
-          total_stories_published: number
-          total_chapters_published: number
-          total_readers: number
-          created_at: string
-          updated_at: string
+          impact_percentage: number | null
+          total_earnings: number | null
+          total_stories_published: number | null
+          total_chapters_published: number | null
+          total_readers: number | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
           user_id: string
           pseudonym?: string | null
-          wallet_address: string
+          wallet_address?: string | null
           wallet_data?: Json | null
-          impact_percentage?: number
-          total_earnings?: number
-          total_stories_published?: number
-          total_chapters_published?: number
-          total_readers?: number
-          created_at?: string
-          updated_at?: string
+          impact_percentage?: number | null
+          total_earnings?: number | null
+          total_stories_published?: number | null
+          total_chapters_published?: number | null
+          total_readers?: number | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           user_id?: string
           pseudonym?: string | null
-          wallet_address?: string
+          wallet_address?: string | null
           wallet_data?: Json | null
-          impact_percentage?: number
-          total_earnings?: number
-          total_stories_published?: number
-          total_chapters_published?: number
-          total_readers?: number
-          created_at?: string
-          updated_at?: string
+          impact_percentage?: number | null
+          total_earnings?: number | null
+          total_stories_published?: number | null
+          total_chapters_published?: number | null
+          total_readers?: number | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -200,9 +325,14 @@ export type Database = {
           story_id: string | null
           chapter_id: string | null
           amount: number
+          author_amount: number | null
+          impact_amount: number | null
+          platform_fee_amount: number
           transaction_type: string
           status: string
           blockchain_tx_hash: string | null
+          idempotency_key: string | null
+          currency: string
           created_at: string
           completed_at: string | null
         }
@@ -213,9 +343,14 @@ export type Database = {
           story_id?: string | null
           chapter_id?: string | null
           amount: number
+          author_amount?: number | null
+          impact_amount?: number | null
+          platform_fee_amount?: number
           transaction_type: string
           status?: string
           blockchain_tx_hash?: string | null
+          idempotency_key?: string | null
+          currency?: string
           created_at?: string
           completed_at?: string | null
         }
@@ -226,9 +361,14 @@ export type Database = {
           story_id?: string | null
           chapter_id?: string | null
           amount?: number
+          author_amount?: number | null
+          impact_amount?: number | null
+          platform_fee_amount?: number
           transaction_type?: string
           status?: string
           blockchain_tx_hash?: string | null
+          idempotency_key?: string | null
+          currency?: string
           created_at?: string
           completed_at?: string | null
         }
@@ -263,34 +403,190 @@ export type Database = {
           }
         ]
       }
-      user_credits: {
+      credit_ledger_entries: {
         Row: {
           id: string
-          user_id: string
-          balance: number
-          total_earned: number
-          total_spent: number
+          transaction_id: string | null
+          disbursement_id: string | null
+          account_type: string
+          user_id: string | null
+          entry_type: string
+          amount: number
+          currency: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          transaction_id?: string | null
+          disbursement_id?: string | null
+          account_type: string
+          user_id?: string | null
+          entry_type: string
+          amount: number
+          currency?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          transaction_id?: string | null
+          disbursement_id?: string | null
+          account_type?: string
+          user_id?: string | null
+          entry_type?: string
+          amount?: number
+          currency?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_entries_disbursement_id_fkey"
+            columns: ["disbursement_id"]
+            isOneToOne: false
+            referencedRelation: "impact_disbursements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_ledger_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_ledger_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      beneficiaries: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          website_url: string | null
+          wallet_address: string | null
+          verification_status: string
+          verified_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          user_id: string
-          balance?: number
-          total_earned?: number
-          total_spent?: number
+          name: string
+          description?: string | null
+          website_url?: string | null
+          wallet_address?: string | null
+          verification_status?: string
+          verified_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          user_id?: string
-          balance?: number
-          total_earned?: number
-          total_spent?: number
+          name?: string
+          description?: string | null
+          website_url?: string | null
+          wallet_address?: string | null
+          verification_status?: string
+          verified_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      blockchain_sync_state: {
+        Row: {
+          contract_address: string
+          last_indexed_block: number
+          updated_at: string
+        }
+        Insert: {
+          contract_address: string
+          last_indexed_block?: number
+          updated_at?: string
+        }
+        Update: {
+          contract_address?: string
+          last_indexed_block?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      impact_disbursements: {
+        Row: {
+          id: string
+          amount: number
+          currency: string
+          beneficiary_id: string | null
+          recipient_name: string
+          note: string | null
+          blockchain_tx_hash: string | null
+          disbursed_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          amount: number
+          currency?: string
+          beneficiary_id?: string | null
+          recipient_name: string
+          note?: string | null
+          blockchain_tx_hash?: string | null
+          disbursed_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          amount?: number
+          currency?: string
+          beneficiary_id?: string | null
+          recipient_name?: string
+          note?: string | null
+          blockchain_tx_hash?: string | null
+          disbursed_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impact_disbursements_beneficiary_id_fkey"
+            columns: ["beneficiary_id"]
+            isOneToOne: false
+            referencedRelation: "beneficiaries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_credits: {
+        Row: {
+          id: string
+          user_id: string
+          balance: number | null
+          total_earned: number | null
+          total_spent: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          balance?: number | null
+          total_earned?: number | null
+          total_spent?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          balance?: number | null
+          total_earned?: number | null
+          total_spent?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
         Relationships: [
           {
             foreignKeyName: "user_credits_user_id_fkey"
@@ -340,40 +636,167 @@ export type Database = {
           },
         ]
       }
-      stories: {
+      entitlements: {
         Row: {
-          author_id: string
-          category_id: string | null
-          cover_image_url: string | null
+          chapter_id: string | null
           created_at: string
-          description: string | null
+          expires_at: string | null
+          granted_by: string | null
           id: string
-          impact_percentage: number | null
-          is_anonymous: boolean | null
-          price_per_chapter: number
-          published: boolean | null
-          title: string
-          total_chapters: number | null
-          updated_at: string
+          source: string
+          story_id: string
+          transaction_id: string | null
+          user_id: string
         }
         Insert: {
-          author_id: string
-          category_id?: string | null
-          cover_image_url?: string | null
+          chapter_id?: string | null
           created_at?: string
-          description?: string | null
+          expires_at?: string | null
+          granted_by?: string | null
           id?: string
-          impact_percentage?: number | null
-          is_anonymous?: boolean | null
-          price_per_chapter?: number
-          published?: boolean | null
-          title: string
-          total_chapters?: number | null
-          updated_at?: string
+          source: string
+          story_id: string
+          transaction_id?: string | null
+          user_id: string
         }
         Update: {
-          author_id?: string
-          category_id?: string | null
+          chapter_id?: string | null
+          created_at?: string
+          expires_at?: string | null
+          granted_by?: string | null
+          id?: string
+          source?: string
+          story_id?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "entitlements_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "entitlements_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "entitlements_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_chapter_access: {
+        Row: {
+          blockchain_tx_hash: string | null
+          chapter_id: string
+          id: string
+          purchased_at: string | null
+          story_id: string
+          user_id: string
+        }
+        Insert: {
+          blockchain_tx_hash?: string | null
+          chapter_id: string
+          id?: string
+          purchased_at?: string | null
+          story_id: string
+          user_id: string
+        }
+        Update: {
+          blockchain_tx_hash?: string | null
+          chapter_id?: string
+          id?: string
+          purchased_at?: string | null
+          story_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_chapter_access_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_chapter_access_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_settings: {
+        Row: {
+          key: string
+          value: string
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          value: string
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          value?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stories: {
+        Row: {
+          author_id: string
+          author_wallet_address: string | null
+          beneficiary_id: string | null
+          bundle_discount_percentage: number
+          category_id: string | null
+          cover_image_url: string | null
+          created_at: string
+          description: string | null
+          id: string
+          impact_percentage: number | null
+          is_anonymous: boolean | null
+          price_per_chapter: number
+          published: boolean | null
+          title: string
+          total_chapters: number | null
+          updated_at: string
+        }
+        Insert: {
+          author_id: string
+          author_wallet_address?: string | null
+          beneficiary_id?: string | null
+          bundle_discount_percentage?: number
+          category_id?: string | null
+          cover_image_url?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          impact_percentage?: number | null
+          is_anonymous?: boolean | null
+          price_per_chapter?: number
+          published?: boolean | null
+          title: string
+          total_chapters?: number | null
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          author_wallet_address?: string | null
+          beneficiary_id?: string | null
+          bundle_discount_percentage?: number
+          category_id?: string | null
           cover_image_url?: string | null
           created_at?: string
           description?: string | null
@@ -387,6 +810,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "stories_beneficiary_id_fkey"
+            columns: ["beneficiary_id"]
+            isOneToOne: false
+            referencedRelation: "beneficiaries"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stories_category_id_fkey"
             columns: ["category_id"]
@@ -396,12 +826,568 @@ export type Database = {
           },
         ]
       }
+      story_follows: {
+        Row: {
+          user_id: string
+          story_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          story_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          story_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_follows_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_follows_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "public_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          story_id: string | null
+          chapter_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: string
+          story_id?: string | null
+          chapter_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          story_id?: string | null
+          chapter_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "public_stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapter_previews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          id: string
+          name: string
+          slug: string
+          kind: string
+          curated: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          kind?: string
+          curated?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          kind?: string
+          curated?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      story_tags: {
+        Row: {
+          story_id: string
+          tag_id: string
+          created_at: string
+        }
+        Insert: {
+          story_id: string
+          tag_id: string
+          created_at?: string
+        }
+        Update: {
+          story_id?: string
+          tag_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_tags_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      chapter_previews: {
+        Row: {
+          chapter_number: number | null
+          content: string | null
+          created_at: string | null
+          has_access: boolean | null
+          id: string | null
+          is_free: boolean | null
+          price: number | null
+          published: boolean | null
+          story_id: string | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chapters_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_user_balances: {
+        Row: {
+          user_id: string | null
+          balance: number | null
+          total_earned: number | null
+          total_spent: number | null
+        }
+        Relationships: []
+      }
+      ledger_unbalanced_transactions: {
+        Row: {
+          transaction_id: string | null
+          disbursement_id: string | null
+          currency: string | null
+          total_debits: number | null
+          total_credits: number | null
+        }
+        Relationships: []
+      }
+      impact_pool_summary: {
+        Row: {
+          currency: string | null
+          total_raised: number | null
+          total_disbursed: number | null
+          balance: number | null
+        }
+        Relationships: []
+      }
+      public_profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          is_author: boolean | null
+          total_earnings: number | null
+          user_id: string | null
+          wallet_address: string | null
+        }
+        Relationships: []
+      }
+      public_stories: {
+        Row: {
+          author_handle: string | null
+          author_id: string | null
+          author_name: string | null
+          beneficiary_id: string | null
+          bundle_discount_percentage: number | null
+          category_id: string | null
+          cover_image_url: string | null
+          created_at: string | null
+          description: string | null
+          full_price: number | null
+          id: string | null
+          impact_percentage: number | null
+          is_anonymous: boolean | null
+          is_own: boolean | null
+          max_chapter_price: number | null
+          min_chapter_price: number | null
+          price_per_chapter: number | null
+          published: boolean | null
+          title: string | null
+          total_chapters: number | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stories_beneficiary_id_fkey"
+            columns: ["beneficiary_id"]
+            isOneToOne: false
+            referencedRelation: "beneficiaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stories_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      anonymous_authors: {
+        Row: {
+          handle: string | null
+          pseudonym: string | null
+        }
+        Relationships: []
+      }
+      transaction_history: {
+        Row: {
+          id: string | null
+          from_user_id: string | null
+          to_user_id: string | null
+          story_id: string | null
+          chapter_id: string | null
+          amount: number | null
+          author_amount: number | null
+          impact_amount: number | null
+          platform_fee_amount: number | null
+          currency: string | null
+          transaction_type: string | null
+          status: string | null
+          blockchain_tx_hash: string | null
+          created_at: string | null
+          completed_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "public_stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tag_summaries: {
+        Row: {
+          id: string
+          name: string
+          slug: string
+          kind: string
+          curated: boolean
+          created_at: string
+          story_count: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      add_welcome_credits: {
+        Args: {
+          user_uuid: string
+        }
+        Returns: undefined
+      }
+      chapter_word_count: {
+        Args: {
+          p_content: string
+        }
+        Returns: number
+      }
+      count_readers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      fail_blockchain_payment: {
+        Args: {
+          p_blockchain_tx_hash: string
+        }
+        Returns: undefined
+      }
+      grant_story_entitlement: {
+        Args: {
+          p_user_id: string
+          p_story_id: string
+          p_chapter_id?: string
+          p_source?: string
+          p_expires_at?: string
+        }
+        Returns: string
+      }
+      get_story_payout_address: {
+        Args: {
+          p_story_id: string
+        }
+        Returns: string | null
+      }
+      has_chapter_access: {
+        Args: {
+          p_chapter_id: string
+        }
+        Returns: boolean
+      }
+      index_bdag_purchase: {
+        Args: {
+          p_blockchain_tx_hash: string
+          p_buyer_address: string
+          p_author_address: string
+          p_impact_recipient: string
+          p_impact_treasury: string
+          p_story_id: string
+          p_chapter_id: string | null
+          p_amount: number
+          p_impact_amount: number
+          p_platform_fee: number
+        }
+        Returns: string
+      }
+      is_anonymous_story: {
+        Args: {
+          p_story_id: string
+        }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      merge_tags: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+        }
+        Returns: undefined
+      }
+      pay_story_author: {
+        Args: {
+          p_story_id: string
+          p_amount: number
+          p_transaction_type: string
+          p_idempotency_key: string
+          p_chapter_id?: string
+        }
+        Returns: string
+      }
+      process_credit_transaction: {
+        Args: {
+          p_from_user_id: string
+          p_to_user_id: string
+          p_amount: number
+          p_transaction_type: string
+          p_idempotency_key: string
+          p_story_id?: string
+          p_chapter_id?: string
+        }
+        Returns: string
+      }
+      record_blockchain_payment: {
+        Args: {
+          p_blockchain_tx_hash: string
+          p_story_id: string
+          p_amount: number
+          p_transaction_type: string
+          p_chapter_id?: string
+          p_platform_fee?: number
+        }
+        Returns: string
+      }
+      record_impact_disbursement: {
+        Args: {
+          p_amount: number
+          p_beneficiary_id: string
+          p_currency?: string
+          p_note?: string
+          p_blockchain_tx_hash?: string
+        }
+        Returns: string
+      }
+      publish_scheduled_chapters: {
+        Args: {
+          p_now?: string
+        }
+        Returns: number
+      }
+      purchase_story_bundle: {
+        Args: {
+          p_story_id: string
+          p_idempotency_key: string
+        }
+        Returns: string | null
+      }
+      recommend_stories: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          cover_image_url: string | null
+          category_id: string | null
+          category_name: string | null
+          price_per_chapter: number
+          min_chapter_price: number
+          max_chapter_price: number
+          total_chapters: number
+          is_anonymous: boolean
+          impact_percentage: number | null
+          created_at: string
+          author_handle: string | null
+          author_name: string | null
+          score: number
+          because_story_id: string | null
+          because_story_title: string | null
+        }[]
+      }
+      reconcile_user_credits: {
+        Args: {
+          p_apply?: boolean
+        }
+        Returns: {
+          user_id: string
+          stored_balance: number
+          journal_balance: number
+          stored_total_earned: number
+          journal_total_earned: number
+          stored_total_spent: number
+          journal_total_spent: number
+        }[]
+      }
+      record_chapter_read: {
+        Args: {
+          p_chapter_id: string
+        }
+        Returns: undefined
+      }
+      reorder_chapters: {
+        Args: {
+          p_story_id: string
+          p_chapter_ids: string[]
+        }
+        Returns: undefined
+      }
+      restore_chapter_revision: {
+        Args: {
+          p_revision_id: string
+        }
+        Returns: string
+      }
+      save_chapter_draft: {
+        Args: {
+          p_story_id: string
+          p_chapter_id: string | null
+          p_title: string
+          p_content: string
+          p_price_mode?: string
+          p_price?: number | null
+        }
+        Returns: string
+      }
+      search_stories: {
+        Args: {
+          p_query?: string | null
+          p_category_id?: string | null
+          p_sort?: string
+          p_limit?: number
+          p_offset?: number
+          p_tags?: string[] | null
+        }
+        Returns: {
+          id: string
+          title: string
+          description: string | null
+          cover_image_url: string | null
+          category_id: string | null
+          category_name: string | null
+          price_per_chapter: number
+          min_chapter_price: number
+          max_chapter_price: number
+          total_chapters: number
+          is_anonymous: boolean
+          impact_percentage: number | null
+          created_at: string
+          author_handle: string | null
+          author_name: string | null
+          rank: number
+          snippet: string | null
+          total_count: number
+        }[]
+      }
+      set_story_tags: {
+        Args: {
+          p_story_id: string
+          p_tags: string[]
+        }
+        Returns: undefined
+      }
+      start_blockchain_payment: {
+        Args: {
+          p_blockchain_tx_hash: string
+          p_story_id: string
+          p_amount: number
+          p_transaction_type: string
+          p_chapter_id?: string
+        }
+        Returns: string
+      }
+      story_bundle_price: {
+        Args: {
+          p_story_id: string
+        }
+        Returns: number
+      }
+      update_user_wallet_address: {
+        Args: {
+          user_uuid: string
+          wallet_addr: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
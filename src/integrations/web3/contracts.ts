@@ -1,7 +1,7 @@
 import { ethers } from 'ethers';
 
 // Simple BDAG Transfer Contract ABI
-const SIMPLE_BDAG_TRANSFER_ABI = [
+export const SIMPLE_BDAG_TRANSFER_ABI = [
   {
     "inputs": [],
     "stateMutability": "nonpayable",
@@ -81,7 +81,25 @@ const SIMPLE_BDAG_TRANSFER_ABI = [
       {
         "indexed": false,
         "internalType": "uint256",
-        "name": "timestamp",
+        "name": "authorAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "impactRecipient",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "impactAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "platformFee",
         "type": "uint256"
       }
     ],
@@ -214,6 +232,16 @@ const SIMPLE_BDAG_TRANSFER_ABI = [
         "internalType": "address",
         "name": "_author",
         "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_beneficiary",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_impactBps",
+        "type": "uint256"
       }
     ],
     "name": "purchaseChapter",
@@ -241,6 +269,284 @@ const SIMPLE_BDAG_TRANSFER_ABI = [
     "stateMutability": "nonpayable",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "platformFeeBps",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "maxImpactBps",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "platformTreasury",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "impactTreasury",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_amount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_impactBps",
+        "type": "uint256"
+      }
+    ],
+    "name": "previewSplit",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "authorAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "impactAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "platformFee",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_platformFeeBps",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_maxImpactBps",
+        "type": "uint256"
+      }
+    ],
+    "name": "setSplitConfig",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_platformTreasury",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_impactTreasury",
+        "type": "address"
+      }
+    ],
+    "name": "setTreasuries",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "platformFeeBps",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "maxImpactBps",
+        "type": "uint256"
+      }
+    ],
+    "name": "SplitConfigUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "platformTreasury",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "impactTreasury",
+        "type": "address"
+      }
+    ],
+    "name": "TreasuriesUpdated",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_storyId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "_chapterIds",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "address",
+        "name": "_author",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_beneficiary",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_impactBps",
+        "type": "uint256"
+      }
+    ],
+    "name": "purchaseStory",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "_storyId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "_buyer",
+        "type": "address"
+      }
+    ],
+    "name": "isStoryPurchased",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "buyer",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "author",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "storyId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "chapterCount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "authorAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "impactRecipient",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "impactAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "platformFee",
+        "type": "uint256"
+      }
+    ],
+    "name": "StoryPurchased",
+    "type": "event"
+  },
   {
     "inputs": [],
     "name": "emergencyWithdraw",
@@ -255,7 +561,7 @@ const SIMPLE_BDAG_TRANSFER_ABI = [
 ];
 
 // Contract addresses - replace with actual deployed addresses
-const CONTRACT_ADDRESSES = {
+export const CONTRACT_ADDRESSES = {
   SIMPLE_BDAG_TRANSFER: '0x643859f45cC468e26d98917b086a7B50436f51db', // Updated with correct address
   // Add other contract addresses as needed
 };
@@ -340,43 +646,131 @@ export const getSimpleBDAGTransferContract = () => {
   );
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Encode a database UUID as the uint256 ID used by the contracts.
+ *
+ * The 32 hex digits of the UUID (dashes removed) are read as one big-endian
+ * 128-bit integer, so the mapping is lossless and `uint256ToUuid` reverses it.
+ * @param uuid - A story or chapter UUID
+ * @returns The on-chain ID
+ */
+export const uuidToUint256 = (uuid: string): ethers.BigNumber => {
+  if (!UUID_PATTERN.test(uuid)) {
+    throw new Error(`Invalid UUID: ${uuid}`);
+  }
+
+  return ethers.BigNumber.from('0x' + uuid.replace(/-/g, ''));
+};
+
+/**
+ * Decode an on-chain story or chapter ID back into its database UUID
+ * @param value - The uint256 ID read from a contract call or event
+ * @returns The lowercase, dashed UUID
+ */
+export const uint256ToUuid = (value: ethers.BigNumberish): string => {
+  const id = ethers.BigNumber.from(value);
+
+  if (id.isZero() || id.gt(ethers.BigNumber.from(2).pow(128).sub(1))) {
+    throw new Error(`Not a UUID-encoded ID: ${id.toString()}`);
+  }
+
+  // A BigNumber built from upper-case hex keeps its case
+  const hex = ethers.utils.hexZeroPad(id.toHexString(), 16).slice(2).toLowerCase();
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export interface PurchaseSplit {
+  /** All amounts are in BDAG */
+  total: string;
+  authorAmount: string;
+  impactAmount: string;
+  platformFee: string;
+  impactBps: number;
+  platformFeeBps: number;
+}
+
+/**
+ * Preview how a chapter purchase will be split before the user signs
+ * @param priceInBDAG - The price in BDAG tokens
+ * @param impactPercentage - The story's impact percentage (0-100)
+ * @returns The author / impact / platform breakdown as computed by the contract
+ */
+export const previewChapterPurchaseSplit = async (
+  priceInBDAG: number,
+  impactPercentage: number
+): Promise<PurchaseSplit> => {
+  const contract = getSimpleBDAGTransferContract();
+
+  const priceInWei = ethers.utils.parseEther(priceInBDAG.toString());
+  const impactBps = Math.round(impactPercentage * 100);
+
+  const [split, platformFeeBps] = await Promise.all([
+    contract.previewSplit(priceInWei, impactBps),
+    contract.platformFeeBps()
+  ]);
+
+  return {
+    total: ethers.utils.formatEther(priceInWei),
+    authorAmount: ethers.utils.formatEther(split.authorAmount),
+    impactAmount: ethers.utils.formatEther(split.impactAmount),
+    platformFee: ethers.utils.formatEther(split.platformFee),
+    impactBps,
+    platformFeeBps: platformFeeBps.toNumber()
+  };
+};
+
 /**
  * Purchase a chapter using the simple BDAG transfer contract
- * @param storyId - The story ID
- * @param chapterId - The chapter ID  
+ * @param storyId - The story UUID
+ * @param chapterId - The chapter UUID
  * @param authorAddress - The author's wallet address
  * @param priceInBDAG - The price in BDAG tokens (in wei)
+ * @param impactPercentage - The story's impact percentage (0-100)
+ * @param beneficiaryAddress - The impact beneficiary's wallet; the impact treasury is used when omitted
+ * @param onSubmitted - Called with the sent transaction before waiting for it to confirm
  * @returns Transaction receipt
  */
 export const purchaseChapterWithBDAG = async (
-  storyId: number,
-  chapterId: number,
+  storyId: string,
+  chapterId: string,
   authorAddress: string,
-  priceInBDAG: number
+  priceInBDAG: number,
+  impactPercentage: number = 0,
+  beneficiaryAddress?: string | null,
+  onSubmitted?: (tx: ethers.providers.TransactionResponse) => void | Promise<void>
 ): Promise<ethers.providers.TransactionReceipt> => {
   try {
     const contract = getSimpleBDAGTransferContract();
     
     // Convert price to wei (assuming priceInBDAG is in BDAG units)
     const priceInWei = ethers.utils.parseEther(priceInBDAG.toString());
+    const impactBps = Math.round(impactPercentage * 100);
+    const beneficiary = beneficiaryAddress || ethers.constants.AddressZero;
     
     console.log('Purchasing chapter with BDAG:', {
       storyId,
       chapterId,
       authorAddress,
+      beneficiary,
+      impactBps,
       priceInBDAG,
       priceInWei: priceInWei.toString()
     });
     
     // Call the purchase function
     const tx = await contract.purchaseChapter(
-      storyId,
-      chapterId,
+      uuidToUint256(storyId),
+      uuidToUint256(chapterId),
       authorAddress,
+      beneficiary,
+      impactBps,
       { value: priceInWei }
     );
     
     console.log('Transaction sent:', tx.hash);
+    await onSubmitted?.(tx);
     
     // Wait for confirmation
     const receipt = await tx.wait();
@@ -389,6 +783,108 @@ export const purchaseChapterWithBDAG = async (
   }
 };
 
+/**
+ * Purchase every listed chapter of a story in one transaction
+ * @param storyId - The story UUID
+ * @param chapterIds - The UUIDs of the chapters the buyer is getting access to
+ * @param authorAddress - The author's wallet address
+ * @param priceInBDAG - The discounted bundle price in BDAG tokens
+ * @param impactPercentage - The story's impact percentage (0-100)
+ * @param beneficiaryAddress - The impact beneficiary's wallet; the impact treasury is used when omitted
+ * @param onSubmitted - Called with the sent transaction before waiting for it to confirm
+ * @returns Transaction receipt
+ */
+export const purchaseStoryWithBDAG = async (
+  storyId: string,
+  chapterIds: string[],
+  authorAddress: string,
+  priceInBDAG: number,
+  impactPercentage: number = 0,
+  beneficiaryAddress?: string | null,
+  onSubmitted?: (tx: ethers.providers.TransactionResponse) => void | Promise<void>
+): Promise<ethers.providers.TransactionReceipt> => {
+  try {
+    const contract = getSimpleBDAGTransferContract();
+    
+    const priceInWei = ethers.utils.parseEther(priceInBDAG.toString());
+    const impactBps = Math.round(impactPercentage * 100);
+    const beneficiary = beneficiaryAddress || ethers.constants.AddressZero;
+    
+    console.log('Purchasing story with BDAG:', {
+      storyId,
+      chapterCount: chapterIds.length,
+      authorAddress,
+      beneficiary,
+      impactBps,
+      priceInBDAG,
+      priceInWei: priceInWei.toString()
+    });
+    
+    const tx = await contract.purchaseStory(
+      uuidToUint256(storyId),
+      chapterIds.map(uuidToUint256),
+      authorAddress,
+      beneficiary,
+      impactBps,
+      { value: priceInWei }
+    );
+    
+    console.log('Transaction sent:', tx.hash);
+    await onSubmitted?.(tx);
+    
+    const receipt = await tx.wait();
+    console.log('Transaction confirmed:', receipt);
+    
+    return receipt;
+  } catch (error) {
+    console.error('Error purchasing story with BDAG:', error);
+    throw error;
+  }
+};
+
+/**
+ * Read the split that was actually paid out from a purchase receipt
+ * @param receipt - Receipt returned by purchaseChapterWithBDAG or purchaseStoryWithBDAG
+ * @returns The purchase breakdown in BDAG with the decoded story and chapter UUIDs,
+ * or null if the event is missing. chapterId is null for whole-story purchases.
+ */
+export const getPurchaseSplitFromReceipt = (
+  receipt: ethers.providers.TransactionReceipt
+): {
+  storyId: string;
+  chapterId: string | null;
+  authorAmount: string;
+  impactAmount: string;
+  platformFee: string;
+  impactRecipient: string;
+} | null => {
+  const contractInterface = new ethers.utils.Interface(SIMPLE_BDAG_TRANSFER_ABI);
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== CONTRACT_ADDRESSES.SIMPLE_BDAG_TRANSFER.toLowerCase()) {
+      continue;
+    }
+
+    try {
+      const parsed = contractInterface.parseLog(log);
+      if (parsed.name === 'ChapterPurchased' || parsed.name === 'StoryPurchased') {
+        return {
+          storyId: uint256ToUuid(parsed.args.storyId),
+          chapterId: parsed.name === 'ChapterPurchased' ? uint256ToUuid(parsed.args.chapterId) : null,
+          authorAmount: ethers.utils.formatEther(parsed.args.authorAmount),
+          impactAmount: ethers.utils.formatEther(parsed.args.impactAmount),
+          platformFee: ethers.utils.formatEther(parsed.args.platformFee),
+          impactRecipient: parsed.args.impactRecipient
+        };
+      }
+    } catch {
+      // Not one of our events
+    }
+  }
+
+  return null;
+};
+
 /**
  * Register an author on the blockchain (optional)
  * @param displayName - The author's display name
@@ -417,22 +913,22 @@ export const registerAuthorOnBlockchain = async (
 
 /**
  * Check if a chapter was purchased by a specific user
- * @param storyId - The story ID
- * @param chapterId - The chapter ID
+ * @param storyId - The story UUID
+ * @param chapterId - The chapter UUID
  * @param buyerAddress - The buyer's address
  * @returns True if purchased
  */
 export const checkChapterPurchaseStatus = async (
-  storyId: number,
-  chapterId: number,
+  storyId: string,
+  chapterId: string,
   buyerAddress: string
 ): Promise<boolean> => {
   try {
     const contract = getSimpleBDAGTransferContract();
     
     const isPurchased = await contract.isChapterPurchased(
-      storyId,
-      chapterId,
+      uuidToUint256(storyId),
+      uuidToUint256(chapterId),
       buyerAddress
     );
     
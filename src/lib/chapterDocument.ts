@@ -0,0 +1,171 @@
+/**
+ * The chapter document format.
+ *
+ * Chapters are stored in chapters.content as a small subset of Markdown, so
+ * they stay readable anywhere (exports, the 300-character teaser, plain-text
+ * chapters written before the editor existed):
+ *
+ *   ## Heading            ### Subheading
+ *   > A quote
+ *   > [!WARNING]          a content warning; the following quoted lines
+ *   > Mentions of abuse   are its text
+ *   ***                   a scene break
+ *   **bold** and *italic* inside any text
+ *
+ * Blocks are separated by blank lines. Anything else is a paragraph, with
+ * single line breaks kept.
+ */
+
+export type ChapterBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: 2 | 3; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'content_warning'; text: string }
+  | { type: 'scene_break' };
+
+export type ChapterBlockType = ChapterBlock['type'];
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+const SCENE_BREAK = /^(\*\s*){3,}$|^(-\s*){3,}$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const WARNING_MARKER = /^\[!WARNING\]\s*/i;
+// Characters that would change a paragraph line's meaning when they start it
+const LINE_START_ESCAPE = /^(\\|#|>|\[!)/;
+const INLINE = /\\([\\*])|\*\*(.+?)\*\*|\*(.+?)\*/g;
+
+const unescapeLine = (line: string) => line.replace(/^\\(?=[\\#>*\-[])/, '');
+
+const escapeLine = (line: string) =>
+  LINE_START_ESCAPE.test(line) || SCENE_BREAK.test(line.trim()) ? `\\${line}` : line;
+
+const quoteBlock = (lines: string[]): ChapterBlock => {
+  if (lines.length > 0 && WARNING_MARKER.test(lines[0])) {
+    const text = [lines[0].replace(WARNING_MARKER, ''), ...lines.slice(1)].join('\n').trim();
+    return { type: 'content_warning', text };
+  }
+
+  return { type: 'quote', text: lines.map(unescapeLine).join('\n').trim() };
+};
+
+export const parseChapter = (content: string): ChapterBlock[] => {
+  const blocks: ChapterBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  const flushQuote = () => {
+    if (quote) {
+      blocks.push(quoteBlock(quote));
+      quote = null;
+    }
+  };
+
+  for (const line of (content || '').replace(/\r\n?/g, '\n').split('\n')) {
+    if (quote) {
+      if (line.startsWith('>')) {
+        quote.push(line.replace(/^>\s?/, ''));
+        continue;
+      }
+      flushQuote();
+    }
+
+    const trimmed = line.trim();
+    const heading = HEADING.exec(line);
+
+    if (!trimmed) {
+      flushParagraph();
+    } else if (SCENE_BREAK.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: 'scene_break' });
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length === 3 ? 3 : 2, text: heading[2].trim() });
+    } else if (line.startsWith('>')) {
+      flushParagraph();
+      quote = [line.replace(/^>\s?/, '')];
+    } else {
+      paragraph.push(unescapeLine(line));
+    }
+  }
+
+  flushQuote();
+  flushParagraph();
+  return blocks;
+};
+
+export const serializeChapter = (blocks: ChapterBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'scene_break':
+          return '***';
+        case 'heading':
+          return `${block.level === 3 ? '###' : '##'} ${block.text.replace(/\s*\n\s*/g, ' ').trim()}`;
+        case 'quote':
+          return block.text.trim().split('\n').map((line, index) =>
+            `> ${index === 0 && WARNING_MARKER.test(line) ? `\\${line}` : line}`.trimEnd()
+          ).join('\n');
+        case 'content_warning':
+          return ['[!WARNING]', ...block.text.trim().split('\n')].map((line) => `> ${line}`.trimEnd()).join('\n');
+        default:
+          return block.text.trim().split('\n').map(escapeLine).join('\n');
+      }
+    })
+    .filter((text) => text.trim() !== '' && text.trim() !== '>')
+    .join('\n\n');
+
+/**
+ * Split text into runs of plain, bold and italic text. Unmatched markers are
+ * kept as they are.
+ */
+export const parseInline = (text: string, marks: Omit<InlineSpan, 'text'> = {}): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  const pattern = new RegExp(INLINE.source, 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) {
+      spans.push({ ...marks, text: text.slice(last, match.index) });
+    }
+
+    if (match[1]) {
+      spans.push({ ...marks, text: match[1] });
+    } else if (match[2]) {
+      spans.push(...parseInline(match[2], { ...marks, bold: true }));
+    } else {
+      spans.push(...parseInline(match[3], { ...marks, italic: true }));
+    }
+
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    spans.push({ ...marks, text: text.slice(last) });
+  }
+
+  return spans;
+};
+
+/**
+ * The chapter as plain text, for short previews
+ */
+export const chapterPlainText = (content: string): string =>
+  parseChapter(content)
+    .map((block) => {
+      if (block.type === 'scene_break') return '* * *';
+      const text = parseInline(block.text).map((span) => span.text).join('');
+      return block.type === 'content_warning' ? `Content warning: ${text}` : text;
+    })
+    .join('\n');
@@ -0,0 +1,40 @@
+/**
+ * What chapters cost.
+ *
+ * A chapter is free, costs its story's price_per_chapter ("inherit"), or has
+ * its own custom price. The database works out the same price in
+ * effective_chapter_price() and refuses purchases at any other amount, so this
+ * is only for showing prices and filling in the amount to pay.
+ */
+
+export type ChapterPriceMode = 'free' | 'inherit' | 'custom';
+
+export const CHAPTER_PRICE_MODES: { value: ChapterPriceMode; label: string }[] = [
+  { value: 'inherit', label: 'Story price' },
+  { value: 'custom', label: 'Custom price' },
+  { value: 'free', label: 'Free' },
+];
+
+export const effectiveChapterPrice = (
+  chapter: { price_mode: string; price: number | null },
+  storyPrice: number
+): number => {
+  switch (chapter.price_mode) {
+    case 'free':
+      return 0;
+    case 'custom':
+      return chapter.price ?? storyPrice;
+    default:
+      return storyPrice;
+  }
+};
+
+/**
+ * A story's chapter prices for cards and summaries: "Free", "5 credits" or
+ * "3–8 credits"
+ */
+export const formatChapterPriceRange = (min: number, max: number): string => {
+  if (max <= 0) return 'Free';
+  if (min === max) return `${max} credits`;
+  return `${min}–${max} credits`;
+};
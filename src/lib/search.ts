@@ -0,0 +1,35 @@
+/**
+ * Search snippets from search_stories().
+ *
+ * The database marks each matched word with chr(2) before and chr(3) after
+ * instead of HTML tags, so the snippet can be split into plain text parts and
+ * rendered as elements without ever parsing story text as markup.
+ */
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+const START = '\u0002';
+const STOP = '\u0003';
+
+export const parseSnippet = (snippet: string): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+
+  snippet.split(START).forEach((piece, index) => {
+    // Text before the first marker is never highlighted
+    const stop = index === 0 ? -1 : piece.indexOf(STOP);
+
+    if (stop === -1) {
+      if (piece) parts.push({ text: piece, highlighted: false });
+      return;
+    }
+
+    if (stop > 0) parts.push({ text: piece.slice(0, stop), highlighted: true });
+    const rest = piece.slice(stop + 1);
+    if (rest) parts.push({ text: rest, highlighted: false });
+  });
+
+  return parts;
+};
@@ -0,0 +1,30 @@
+/**
+ * Story tags as authors type them and readers browse them.
+ *
+ * The database matches tags by slug and enforces the same limits; these are
+ * here so forms can say no before a round trip.
+ */
+
+export type TagKind = 'theme' | 'region' | 'language';
+
+export const TAG_KINDS: { value: TagKind; label: string }[] = [
+  { value: 'theme', label: 'Themes' },
+  { value: 'region', label: 'Regions' },
+  { value: 'language', label: 'Languages' },
+];
+
+export const MAX_STORY_TAGS = 10;
+
+/**
+ * Splits a comma-separated list into tag names, dropping blanks and repeats
+ */
+export const parseTagInput = (input: string): string[] => {
+  const names = new Map<string, string>();
+
+  input.split(',').forEach((raw) => {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    if (name && !names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  });
+
+  return [...names.values()];
+};
@@ -0,0 +1,119 @@
+/**
+ * Differences between two versions of a chapter, for the revision history.
+ *
+ * Lines are compared first, then the words of lines that changed, so a small
+ * edit in a long paragraph shows up as the words that changed rather than the
+ * whole paragraph.
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many cells the comparison would take too long; the changed
+// section is shown as removed and added as a whole instead
+const MAX_LCS_CELLS = 4000000;
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+const diffTokens = (a: string[], b: string[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    push(parts, 'removed', midA.join(''));
+    push(parts, 'added', midB.join(''));
+  } else {
+    // lengths[i][j] is the LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push(parts, 'removed', midA[i++]);
+      } else {
+        push(parts, 'added', midB[j++]);
+      }
+    }
+    push(parts, 'removed', midA.slice(i).join(''));
+    push(parts, 'added', midB.slice(j).join(''));
+  }
+
+  push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+};
+
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+
+const splitWords = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  let removed = '';
+  let added = '';
+
+  // A run of removed and added lines is a rewrite; compare its words
+  const flushChange = () => {
+    if (removed && added) {
+      diffTokens(splitWords(removed), splitWords(added)).forEach((part) => push(parts, part.type, part.text));
+    } else {
+      push(parts, 'removed', removed);
+      push(parts, 'added', added);
+    }
+    removed = '';
+    added = '';
+  };
+
+  for (const part of diffTokens(splitLines(before), splitLines(after))) {
+    if (part.type === 'equal') {
+      flushChange();
+      push(parts, 'equal', part.text);
+    } else if (part.type === 'removed') {
+      removed += part.text;
+    } else {
+      added += part.text;
+    }
+  }
+
+  flushChange();
+  return parts;
+};
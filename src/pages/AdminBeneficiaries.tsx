@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Building2, CheckCircle, XCircle, Pencil, Plus, Trash2, ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/useProfile';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Beneficiary,
+  BeneficiaryData,
+  VerificationStatus,
+  getAllBeneficiaries,
+  saveBeneficiary,
+  setBeneficiaryStatus,
+  deleteBeneficiary,
+} from '@/services/beneficiaries';
+
+const emptyForm: BeneficiaryData = {
+  name: '',
+  description: '',
+  websiteUrl: '',
+  walletAddress: '',
+};
+
+const AdminBeneficiaries = () => {
+  const { user } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<BeneficiaryData>(emptyForm);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+
+    if (profile?.is_admin) {
+      fetchBeneficiaries();
+    }
+  }, [user, profile?.is_admin]);
+
+  const fetchBeneficiaries = async () => {
+    setLoading(true);
+    const data = await getAllBeneficiaries();
+    setBeneficiaries(data);
+    setLoading(false);
+  };
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (beneficiary: Beneficiary) => {
+    setEditingId(beneficiary.id);
+    setForm({
+      name: beneficiary.name,
+      description: beneficiary.description || '',
+      websiteUrl: beneficiary.website_url || '',
+      walletAddress: beneficiary.wallet_address || '',
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.walletAddress && !/^0x[0-9a-fA-F]{40}$/.test(form.walletAddress.trim())) {
+      toast({
+        variant: "destructive",
+        title: "Invalid wallet address",
+        description: "Wallet addresses must be 0x followed by 40 hex characters",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveBeneficiary(form, editingId || undefined);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Save failed",
+        description: result.error,
+      });
+      return;
+    }
+
+    toast({
+      title: editingId ? "Beneficiary updated" : "Beneficiary added",
+      description: editingId ? form.name : `${form.name} is pending verification`,
+    });
+    setDialogOpen(false);
+    fetchBeneficiaries();
+  };
+
+  const handleStatusChange = async (beneficiary: Beneficiary, status: VerificationStatus) => {
+    const result = await setBeneficiaryStatus(beneficiary.id, status);
+
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: result.error,
+      });
+      return;
+    }
+
+    toast({
+      title: status === 'verified' ? "Beneficiary verified" : "Beneficiary rejected",
+      description: beneficiary.name,
+    });
+    fetchBeneficiaries();
+  };
+
+  const handleDelete = async (beneficiary: Beneficiary) => {
+    if (!confirm(`Delete ${beneficiary.name}? Stories supporting it will no longer have a beneficiary.`)) {
+      return;
+    }
+
+    const result = await deleteBeneficiary(beneficiary.id);
+
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Delete failed",
+        description: result.error,
+      });
+      return;
+    }
+
+    toast({
+      title: "Beneficiary deleted",
+      description: beneficiary.name,
+    });
+    fetchBeneficiaries();
+  };
+
+  const getStatusBadge = (status: VerificationStatus) => {
+    switch (status) {
+      case 'verified':
+        return <Badge className="bg-green-100 text-green-800">Verified</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive">Rejected</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  if (profileLoading) {
+    return (
+      <div className="min-h-screen">
+        <Navigation />
+        <div className="container mx-auto px-4 py-24 text-center text-muted-foreground">
+          Loading...
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile?.is_admin) {
+    return (
+      <div className="min-h-screen">
+        <Navigation />
+        <div className="container mx-auto px-4 py-24">
+          <Card className="max-w-md mx-auto text-center">
+            <CardContent className="pt-6">
+              <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Admins only</h2>
+              <p className="text-muted-foreground mb-6">
+                You don't have permission to manage beneficiaries.
+              </p>
+              <Button onClick={() => navigate('/dashboard')}>Back to Dashboard</Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto px-4 pt-24 pb-16">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <Building2 className="h-6 w-6 mr-2 text-empowerment" />
+                Beneficiary Organisations
+              </CardTitle>
+              <CardDescription>
+                Organisations authors can direct their impact percentage to. Only verified ones appear in the story picker.
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Beneficiary
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-center text-muted-foreground py-8">Loading beneficiaries...</p>
+            ) : beneficiaries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No beneficiaries yet. Add the first organisation to get started.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Wallet</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {beneficiaries.map((beneficiary) => (
+                    <TableRow key={beneficiary.id}>
+                      <TableCell>
+                        <p className="font-medium">{beneficiary.name}</p>
+                        {beneficiary.description && (
+                          <p className="text-sm text-muted-foreground line-clamp-1">{beneficiary.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {beneficiary.wallet_address
+                          ? `${beneficiary.wallet_address.substring(0, 6)}...${beneficiary.wallet_address.substring(38)}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(beneficiary.verification_status)}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        {beneficiary.verification_status !== 'verified' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleStatusChange(beneficiary, 'verified')}
+                          >
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          </Button>
+                        )}
+                        {beneficiary.verification_status !== 'rejected' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleStatusChange(beneficiary, 'rejected')}
+                          >
+                            <XCircle className="h-4 w-4 text-orange-600" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(beneficiary)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(beneficiary)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit Beneficiary' : 'Add Beneficiary'}</DialogTitle>
+              <DialogDescription>
+                New organisations start as pending until they are verified.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="beneficiary-name">Name</Label>
+              <Input
+                id="beneficiary-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="beneficiary-description">Description</Label>
+              <Textarea
+                id="beneficiary-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="beneficiary-website">Website</Label>
+              <Input
+                id="beneficiary-website"
+                type="url"
+                value={form.websiteUrl}
+                onChange={(e) => setForm({ ...form, websiteUrl: e.target.value })}
+                placeholder="https://"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="beneficiary-wallet">Wallet Address</Label>
+              <Input
+                id="beneficiary-wallet"
+                value={form.walletAddress}
+                onChange={(e) => setForm({ ...form, walletAddress: e.target.value })}
+                placeholder="0x..."
+                className="font-mono"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminBeneficiaries;
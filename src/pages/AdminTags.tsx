@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitMerge, Pencil, ShieldAlert, Tags } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/hooks/useProfile';
+import { useToast } from '@/hooks/use-toast';
+import { listTagSummaries, mergeTags, TagSummary, updateTag } from '@/repositories/tags';
+import { TAG_KINDS, TagKind } from '@/lib/tags';
+
+interface TagForm {
+  name: string;
+  kind: TagKind;
+  curated: boolean;
+}
+
+const AdminTags = () => {
+  const { user } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<TagSummary | null>(null);
+  const [form, setForm] = useState<TagForm>({ name: '', kind: 'theme', curated: false });
+  const [merging, setMerging] = useState<TagSummary | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+
+    if (profile?.is_admin) {
+      fetchTags();
+    }
+  }, [user, profile?.is_admin]);
+
+  const fetchTags = async () => {
+    setLoading(true);
+    try {
+      setTags(await listTagSummaries());
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditDialog = (tag: TagSummary) => {
+    setEditing(tag);
+    setForm({ name: tag.name, kind: tag.kind as TagKind, curated: tag.curated });
+  };
+
+  const openMergeDialog = (tag: TagSummary) => {
+    setMerging(tag);
+    setMergeTargetId('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      await updateTag(editing.id, { name: form.name.trim(), kind: form.kind, curated: form.curated });
+      toast({ title: "Tag updated", description: form.name });
+      setEditing(null);
+      fetchTags();
+    } catch (error) {
+      console.error('Error updating tag:', error);
+      toast({
+        variant: "destructive",
+        title: "Save failed",
+        // Renaming onto another tag's slug: the two should be merged instead
+        description: (error as PostgrestError).code === '23505'
+          ? 'Another tag already has that name. Merge this tag into it instead.'
+          : error instanceof Error ? error.message : 'Failed to save the tag',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!merging || !mergeTargetId) return;
+    const target = tags.find((tag) => tag.id === mergeTargetId);
+
+    setSaving(true);
+    try {
+      await mergeTags(merging.id, mergeTargetId);
+      toast({ title: "Tags merged", description: `${merging.name} is now ${target?.name}` });
+      setMerging(null);
+      fetchTags();
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      toast({
+        variant: "destructive",
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : 'Failed to merge the tags',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (profileLoading) {
+    return (
+      <div className="min-h-screen">
+        <Navigation />
+        <div className="container mx-auto px-4 py-24 text-center text-muted-foreground">
+          Loading...
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile?.is_admin) {
+    return (
+      <div className="min-h-screen">
+        <Navigation />
+        <div className="container mx-auto px-4 py-24">
+          <Card className="max-w-md mx-auto text-center">
+            <CardContent className="pt-6">
+              <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Admins only</h2>
+              <p className="text-muted-foreground mb-6">
+                You don't have permission to manage tags.
+              </p>
+              <Button onClick={() => navigate('/dashboard')}>Back to Dashboard</Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto px-4 pt-24 pb-16">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Tags className="h-6 w-6 mr-2 text-primary" />
+              Story Tags
+            </CardTitle>
+            <CardDescription>
+              Curated tags are suggested to every author and shown in Discover. Merge duplicates so their stories are browsed together.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-center text-muted-foreground py-8">Loading tags...</p>
+            ) : tags.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No tags yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead>Stories</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tags.map((tag) => (
+                    <TableRow key={tag.id}>
+                      <TableCell>
+                        <Link to={`/tags/${tag.slug}`} className="font-medium hover:text-primary">
+                          {tag.name}
+                        </Link>
+                        {tag.curated && <Badge variant="secondary" className="ml-2">Curated</Badge>}
+                      </TableCell>
+                      <TableCell className="capitalize">{tag.kind}</TableCell>
+                      <TableCell>{tag.story_count}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(tag)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openMergeDialog(tag)}>
+                          <GitMerge className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Edit Tag</DialogTitle>
+              <DialogDescription>
+                Renaming changes the tag's address, so old links to it stop working.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">Name</Label>
+              <Input
+                id="tag-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                minLength={2}
+                maxLength={40}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tag-kind">Kind</Label>
+              <Select value={form.kind} onValueChange={(kind) => setForm({ ...form, kind: kind as TagKind })}>
+                <SelectTrigger id="tag-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAG_KINDS.map((kind) => (
+                    <SelectItem key={kind.value} value={kind.value}>
+                      {kind.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="tag-curated">Curated</Label>
+              <Switch
+                id="tag-curated"
+                checked={form.curated}
+                onCheckedChange={(curated) => setForm({ ...form, curated })}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {merging?.name}</DialogTitle>
+            <DialogDescription>
+              Its stories move to the tag you pick, and {merging?.name} is deleted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="merge-target">Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger id="merge-target">
+                <SelectValue placeholder="Select a tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {tags
+                  .filter((tag) => tag.id !== merging?.id)
+                  .map((tag) => (
+                    <SelectItem key={tag.id} value={tag.id}>
+                      {tag.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setMerging(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={saving || !mergeTargetId}>
+              {saving ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AdminTags;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
+import { getAnonymousAuthor, getPublicProfile } from '@/repositories/profiles';
+import { listAuthorPublishedStories } from '@/repositories/stories';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -19,17 +20,16 @@ import {
 } from 'lucide-react';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
+import { effectiveChapterPrice, formatChapterPriceRange } from '@/lib/chapterPricing';
 
 interface AuthorProfile {
-  id: string;
-  user_id: string;
+  /** The real name, or the pen name of an anonymous author */
   display_name: string;
-  bio: string;
+  bio: string | null;
   is_anonymous: boolean;
-  is_author: boolean;
-  pseudonym?: string;
-  avatar_url?: string;
-  created_at: string;
+  avatar_url?: string | null;
+  /** Unknown for anonymous authors */
+  created_at: string | null;
 }
 
 interface Story {
@@ -38,6 +38,8 @@ interface Story {
   description: string;
   cover_image_url?: string;
   price_per_chapter: number;
+  min_chapter_price: number;
+  max_chapter_price: number;
   total_chapters: number;
   published: boolean;
   is_anonymous: boolean;
@@ -55,12 +57,15 @@ interface Chapter {
   title: string;
   content: string;
   is_free: boolean;
+  price_mode: string;
+  price: number | null;
   published: boolean;
   created_at: string;
 }
 
 const AuthorProfile = () => {
-  const { userId } = useParams<{ userId: string }>();
+  // A user id, or the pen handle of an anonymous author
+  const { handle } = useParams<{ handle: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
@@ -70,52 +75,49 @@ const AuthorProfile = () => {
   const [expandedChapters, setExpandedChapters] = useState<Set<string>>(new Set());
 
   useEffect(() => {
-    if (userId) {
+    if (handle) {
       loadAuthorProfile();
     }
-  }, [userId]);
+  }, [handle]);
 
   const loadAuthorProfile = async () => {
-    if (!userId) return;
+    if (!handle) return;
 
     try {
       setLoading(true);
 
-      // Load author's basic profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
+      // Anonymous authors only have a pen name; everyone else has a public profile
+      const anonymousAuthor = await getAnonymousAuthor(handle);
 
-      if (profileError) {
-        console.error('Error loading author profile:', profileError);
-        navigate('/discover');
-        return;
-      }
+      if (anonymousAuthor) {
+        setAuthorProfile({
+          display_name: anonymousAuthor.pseudonym,
+          bio: null,
+          is_anonymous: true,
+          created_at: null
+        });
+      } else {
+        const profileData = await getPublicProfile(handle);
 
-      setAuthorProfile(profileData);
+        if (!profileData) {
+          console.error('Author profile not found:', handle);
+          navigate('/discover');
+          return;
+        }
 
-      // Load author's published stories with chapters
-      const { data: storiesData, error: storiesError } = await supabase
-        .from('stories')
-        .select(`
-          *,
-          category:categories(name),
-          chapters(id, chapter_number, title, content, is_free, published, created_at)
-        `)
-        .eq('author_id', userId)
-        .eq('published', true)
-        .order('created_at', { ascending: false });
+        setAuthorProfile({ ...profileData, is_anonymous: false });
+      }
 
-      if (storiesError) {
-        console.error('Error loading author stories:', storiesError);
-      } else if (storiesData) {
+      // Load author's published stories with chapters
+      try {
+        const storiesData = await listAuthorPublishedStories(handle);
         // Filter stories to only show those with published chapters
         const validStories = storiesData.filter(story => 
           story.chapters && story.chapters.some(chapter => chapter.published)
         );
         setStories(validStories);
+      } catch (storiesError) {
+        console.error('Error loading author stories:', storiesError);
       }
     } catch (error) {
       console.error('Error loading author data:', error);
@@ -210,9 +212,7 @@ const AuthorProfile = () => {
               <div className="flex-1">
                 <div className="flex items-center space-x-3 mb-2">
                   <h1 className="text-3xl font-bold">
-                    {authorProfile.is_anonymous && authorProfile.pseudonym 
-                      ? authorProfile.pseudonym 
-                      : authorProfile.display_name}
+                    {authorProfile.display_name}
                   </h1>
                   <Badge variant="secondary" className="bg-empowerment/20 text-empowerment">
                     <PenTool className="h-3 w-3 mr-1" />
@@ -231,10 +231,12 @@ const AuthorProfile = () => {
                 )}
                 
                 <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-                  <div className="flex items-center space-x-1">
-                    <Calendar className="h-4 w-4" />
-                    <span>Member since {formatDate(authorProfile.created_at)}</span>
-                  </div>
+                  {authorProfile.created_at && (
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-4 w-4" />
+                      <span>Member since {formatDate(authorProfile.created_at)}</span>
+                    </div>
+                  )}
                   <div className="flex items-center space-x-1">
                     <BookOpen className="h-4 w-4" />
                     <span>{stories.length} stories published</span>
@@ -293,7 +295,10 @@ const AuthorProfile = () => {
                           </div>
                           <div className="flex items-center space-x-1">
                             <Coins className="h-4 w-4" />
-                            <span>{story.price_per_chapter} credits/chapter</span>
+                            <span>
+                              {formatChapterPriceRange(story.min_chapter_price, story.max_chapter_price)}
+                              {story.max_chapter_price > 0 && '/chapter'}
+                            </span>
                           </div>
                           <div className="flex items-center space-x-1">
                             <Calendar className="h-4 w-4" />
@@ -337,7 +342,7 @@ const AuthorProfile = () => {
                                   )}
                                   {!chapter.is_free && (
                                     <Badge variant="outline" className="text-orange-600 border-orange-200">
-                                      {story.price_per_chapter} credits
+                                      {effectiveChapterPrice(chapter, story.price_per_chapter)} credits
                                     </Badge>
                                   )}
                                 </div>
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWeb3 } from '@/contexts/Web3Context';
-import { supabase } from '@/integrations/supabase/client';
+import { updateProfile as saveProfile } from '@/repositories/profiles';
+import { Category, listAuthorStories, listCategories } from '@/repositories/stories';
 import { getUserCredits } from '@/utils/credits';
 import { createStory } from '@/services/storySync';
+import { Beneficiary, getVerifiedBeneficiaries } from '@/services/beneficiaries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -37,7 +39,11 @@ import { Separator } from '@/components/ui/separator';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { ChapterManager } from '@/components/ChapterManager';
+import { ReleaseCalendar } from '@/components/ReleaseCalendar';
 import { CoverUpload } from '@/components/CoverUpload';
+import { TagInput } from '@/components/TagInput';
+import { StoryTagEditor } from '@/components/StoryTagEditor';
+import { parseTagInput } from '@/lib/tags';
 
 interface Story {
   id: string;
@@ -83,7 +89,7 @@ const Dashboard = () => {
   const [loading, setLoading] = useState(true);
   const [userCredits, setUserCredits] = useState<{ balance: number; total_earned: number; total_spent: number } | null>(null);
   const [creditsLoading, setCreditsLoading] = useState(true);
-  const [categories, setCategories] = useState<any[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [authorStats, setAuthorStats] = useState({
     totalReaders: 0,
     totalChapters: 0
@@ -94,10 +100,14 @@ const Dashboard = () => {
     title: '',
     description: '',
     category_id: '',
+    tags: '',
     price_per_chapter: 5,
     is_anonymous: false,
     impact_percentage: 10,
+    beneficiary_id: '',
+    bundle_discount_percentage: 0,
   });
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
 
   // Story creation state
   const [creatingStory, setCreatingStory] = useState(false);
@@ -134,14 +144,7 @@ const Dashboard = () => {
     setIsRegisteringAuthor(true);
     try {
       // Update the profile to mark as author in Supabase
-      const { error } = await supabase
-        .from('profiles')
-        .update({ is_author: true })
-        .eq('user_id', user?.id);
-
-      if (error) {
-        throw error;
-      }
+      await saveProfile(user?.id, { is_author: true });
 
       toast({
         title: "Author Status Updated!",
@@ -168,6 +171,7 @@ const Dashboard = () => {
     if (user) {
       fetchAuthorData();
       fetchCategories();
+      fetchBeneficiaries();
       checkCurrentNetwork();
     } else {
       navigate('/auth');
@@ -205,12 +209,15 @@ const Dashboard = () => {
   };
 
   const fetchCategories = async () => {
-    const { data } = await supabase
-      .from('categories')
-      .select('*')
-      .order('name');
-    
-    if (data) setCategories(data);
+    try {
+      setCategories(await listCategories());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const fetchBeneficiaries = async () => {
+    setBeneficiaries(await getVerifiedBeneficiaries());
   };
 
   const fetchAuthorData = async () => {
@@ -219,14 +226,7 @@ const Dashboard = () => {
     setLoading(true);
     try {
       // Fetch author's stories with comprehensive data including categories
-      const { data: storiesData } = await supabase
-        .from('stories')
-        .select(`
-          *,
-          category:categories(id, name, description)
-        `)
-        .eq('author_id', user.id)
-        .order('created_at', { ascending: false });
+      const storiesData = await listAuthorStories(user.id);
 
       if (storiesData) {
         console.log('Fetched stories data:', storiesData);
@@ -305,20 +305,20 @@ const Dashboard = () => {
     setCreatingStory(true);
 
     try {
-      // Get category name for blockchain
+      // The category is optional now that stories can be tagged
       const category = categories.find(c => c.id === newStory.category_id);
-      if (!category) {
-        throw new Error('Category not found');
-      }
 
       // Create story using smart contract integration
       const result = await createStory(
         {
           title: newStory.title,
           description: newStory.description,
-          category: category.name, // Pass category name for blockchain
+          category: category?.name,
+          tags: parseTagInput(newStory.tags),
           pricePerChapter: newStory.price_per_chapter,
           impactPercentage: newStory.impact_percentage,
+          beneficiaryId: newStory.beneficiary_id || undefined,
+          bundleDiscountPercentage: newStory.bundle_discount_percentage,
           isAnonymous: newStory.is_anonymous,
         },
         user.id,
@@ -328,7 +328,7 @@ const Dashboard = () => {
       if (result.success) {
         toast({
           title: "Story Created Successfully!",
-          description: "Your story has been created on the blockchain and saved to the database.",
+          description: result.error || "Your story has been created on the blockchain and saved to the database.",
         });
 
         // Reset form
@@ -336,9 +336,12 @@ const Dashboard = () => {
           title: '',
           description: '',
           category_id: '',
+          tags: '',
           price_per_chapter: 5,
           is_anonymous: false,
           impact_percentage: 10,
+          beneficiary_id: '',
+          bundle_discount_percentage: 0,
         });
 
         // Refresh data
@@ -960,6 +963,9 @@ const Dashboard = () => {
                         {story.published ? "Published" : "Draft"}
                       </Badge>
                     </div>
+                    <div className="mt-4">
+                      <StoryTagEditor storyId={story.id} />
+                    </div>
                   </CardContent>
                 </Card>
               ))}
@@ -1036,6 +1042,7 @@ const Dashboard = () => {
               </Card>
             ) : (
               <div className="grid gap-6">
+                <ReleaseCalendar stories={stories} />
                 {stories.map((story) => (
                   <Card key={story.id} data-story-id={story.id}>
                     <CardHeader>
@@ -1156,6 +1163,15 @@ const Dashboard = () => {
                       </div>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="tags">Tags</Label>
+                      <TagInput
+                        id="tags"
+                        value={newStory.tags}
+                        onChange={(tags) => setNewStory({ ...newStory, tags })}
+                      />
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="description">Description</Label>
                       <Textarea
@@ -1191,11 +1207,49 @@ const Dashboard = () => {
                           onChange={(e) => setNewStory({ ...newStory, impact_percentage: parseInt(e.target.value) })}
                         />
                         <p className="text-xs text-muted-foreground">
-                          Percentage of earnings donated to women's shelters
+                          Percentage of earnings donated to the organisation below
                         </p>
                       </div>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="bundle-discount">Whole Story Discount (%)</Label>
+                      <Input
+                        id="bundle-discount"
+                        type="number"
+                        min="0"
+                        max="90"
+                        value={newStory.bundle_discount_percentage}
+                        onChange={(e) => setNewStory({ ...newStory, bundle_discount_percentage: parseInt(e.target.value) || 0 })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Discount readers get when they buy every chapter at once
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="beneficiary">Impact Beneficiary</Label>
+                      <Select
+                        value={newStory.beneficiary_id}
+                        onValueChange={(value) => setNewStory({ ...newStory, beneficiary_id: value })}
+                      >
+                        <SelectTrigger id="beneficiary">
+                          <SelectValue placeholder="Select an organisation" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {beneficiaries.map((beneficiary) => (
+                            <SelectItem key={beneficiary.id} value={beneficiary.id}>
+                              {beneficiary.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        {beneficiaries.find(b => b.id === newStory.beneficiary_id)?.description ||
+                          'Verified organisation that receives your impact percentage'}
+                      </p>
+                    </div>
+
                     <div className="flex items-center space-x-2">
                       <Switch
                         id="anonymous"
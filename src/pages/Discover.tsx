@@ -1,195 +1,179 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { StoryCard } from '@/components/StoryCard';
+import { RecommendedStories } from '@/components/RecommendedStories';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, Filter, Heart, TrendingUp, Coins, AlertCircle } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Search, Filter, Heart, TrendingUp, Coins, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Category, StorySort, listCategories, searchStories } from '@/repositories/stories';
+import { listTagSummaries, TagSummary } from '@/repositories/tags';
 import { useWeb3 } from '@/contexts/Web3Context';
 
-interface Story {
-  id: string;
-  title: string;
-  description: string;
-  cover_image_url?: string;
-  price_per_chapter: number;
-  total_chapters: number;
-  is_anonymous: boolean;
-  impact_percentage: number;
-  blockchain_id?: string;
-  blockchain_tx_hash?: string;
-  category?: {
-    name: string;
-  };
-  published: boolean;
-  created_at: string;
-  author_id?: string;
-  author?: {
-    id: string;
-    display_name: string;
-    is_anonymous: boolean;
-    pseudonym?: string;
-  };
-  chapters?: {
-    id: string;
-    chapter_number: number;
-    title: string;
-    is_free: boolean;
-    published: boolean;
-  }[];
-}
+type Story = Awaited<ReturnType<typeof searchStories>>[number];
+
+const PAGE_SIZE = 12;
+const SEARCH_DELAY_MS = 300;
+
+const SORTS: { value: StorySort; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'newest', label: 'Newest First' },
+  { value: 'trending', label: 'Trending' },
+  { value: 'popular', label: 'Most Popular' },
+  { value: 'most_supported', label: 'Most Supported' },
+  { value: 'price_low', label: 'Price: Low to High' },
+  { value: 'price_high', label: 'Price: High to Low' },
+];
 
 const Discover = () => {
+  // The search lives in the URL (?q=&category=&tags=&sort=&page=) so it can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const selectedCategory = searchParams.get('category') || 'all';
+  // Tag slugs, comma separated; a story must carry all of them
+  const tagsParam = searchParams.get('tags') || '';
+  const selectedTags = tagsParam ? tagsParam.split(',') : [];
+  const sortParam = searchParams.get('sort');
+  const sortBy: StorySort = SORTS.some(s => s.value === sortParam)
+    ? (sortParam as StorySort)
+    : query ? 'relevance' : 'newest';
+  const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+
   const [stories, setStories] = useState<Story[]>([]);
-  const [categories, setCategories] = useState<any[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoriesLoaded, setCategoriesLoaded] = useState(false);
+  const [curatedTags, setCuratedTags] = useState<TagSummary[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<string>('newest');
+  const [searchInput, setSearchInput] = useState(query);
   
   // Web3 integration
   const { isConnected, contractsInitialized } = useWeb3();
 
   useEffect(() => {
-    fetchStories();
     fetchCategories();
-  }, [selectedCategory, sortBy]);
-
-  const fetchCategories = async () => {
-    const { data } = await supabase
-      .from('categories')
-      .select('*')
-      .order('name');
-    
-    if (data) setCategories(data);
-  };
-
-  const fetchStories = async () => {
-    setLoading(true);
-    try {
-      // Direct database fetch for better reliability
-      let query = supabase
-        .from('stories')
-        .select(`
-          *,
-          category:categories(name),
-          chapters(id, chapter_number, title, is_free, published)
-        `)
-        .eq('published', true);
-
-      if (selectedCategory !== 'all') {
-        const category = categories.find(c => c.name === selectedCategory);
-        if (category) {
-          query = query.eq('category_id', category.id);
-        }
-      }
+    fetchCuratedTags();
+  }, []);
 
-      const { data: storiesData, error } = await query;
-
-      if (error) {
-        console.error('Database fetch error:', error);
-        throw error;
-      }
+  // Follow the URL when it changes from outside the input (back, shared link)
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
 
-      console.log('Fetched stories from database:', storiesData);
+  useEffect(() => {
+    if (searchInput.trim() === query) return;
 
-      // Filter and sort stories
-      let filteredStories = storiesData || [];
+    const timer = window.setTimeout(() => {
+      updateSearch({ q: searchInput.trim() || null });
+    }, SEARCH_DELAY_MS);
 
-      // Ensure total_chapters is calculated from actual chapters if not set
-      filteredStories = filteredStories.map(story => ({
-        ...story,
-        total_chapters: story.total_chapters || (story.chapters ? story.chapters.length : 0)
-      }));
+    return () => window.clearTimeout(timer);
+  }, [searchInput]);
 
-      // Apply search filter
-      if (searchQuery) {
-        filteredStories = filteredStories.filter(story =>
-          story.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          story.description.toLowerCase().includes(searchQuery.toLowerCase())
-        );
+  useEffect(() => {
+    // The category is named in the URL; wait until its id is known
+    if (selectedCategory !== 'all' && !categoriesLoaded) return;
+
+    let cancelled = false;
+
+    const fetchStories = async () => {
+      setLoading(true);
+      try {
+        const categoryId = selectedCategory === 'all'
+          ? undefined
+          : categories.find(c => c.name === selectedCategory)?.id;
+
+        // An unknown category matches nothing rather than everything
+        const results = selectedCategory !== 'all' && !categoryId
+          ? []
+          : await searchStories({
+              query,
+              categoryId,
+              tags: selectedTags,
+              sort: sortBy,
+              limit: PAGE_SIZE,
+              offset: (page - 1) * PAGE_SIZE,
+            });
+
+        if (cancelled) return;
+        setStories(results);
+        setTotalCount(results[0]?.total_count ?? 0);
+      } catch (error) {
+        console.error('Error searching stories:', error);
+        if (!cancelled) {
+          setStories([]);
+          setTotalCount(0);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
       }
+    };
 
-      // Sort stories
-      switch (sortBy) {
-        case 'newest':
-          filteredStories.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-          break;
-        case 'popular':
-          filteredStories.sort((a, b) => (b.total_chapters || 0) - (a.total_chapters || 0));
-          break;
-        case 'price_low':
-          filteredStories.sort((a, b) => a.price_per_chapter - b.price_per_chapter);
-          break;
-        case 'price_high':
-          filteredStories.sort((a, b) => b.price_per_chapter - a.price_per_chapter);
-          break;
-      }
+    fetchStories();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, selectedCategory, tagsParam, sortBy, page, categoriesLoaded]);
 
-      console.log('Filtered and sorted stories:', filteredStories);
-      setStories(filteredStories as Story[]);
+  const fetchCategories = async () => {
+    try {
+      setCategories(await listCategories());
     } catch (error) {
-      console.error('Error fetching stories:', error);
-      // Fallback to database-only fetch if blockchain fails
-      await fetchStoriesFromDatabase();
+      console.error('Error fetching categories:', error);
     } finally {
-      setLoading(false);
+      setCategoriesLoaded(true);
     }
   };
 
-  // Fallback to database-only fetch
-  const fetchStoriesFromDatabase = async () => {
+  const fetchCuratedTags = async () => {
     try {
-      let query = supabase
-        .from('stories')
-        .select(`
-          *,
-          category:categories(name),
-          chapters(id, chapter_number, title, is_free, published)
-        `)
-        .eq('published', true);
-
-      if (selectedCategory !== 'all') {
-        const category = categories.find(c => c.name === selectedCategory);
-        if (category) {
-          query = query.eq('category_id', category.id);
-        }
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      
-      // Show all published stories, even if they don't have chapters yet
-      // This allows new stories to appear on the discover page immediately
-      const validStories = data?.map(story => ({
-        ...story,
-        // Ensure chapters array exists even if empty
-        chapters: story.chapters || [],
-        // Ensure total_chapters is calculated from actual chapters if not set
-        total_chapters: story.total_chapters || (story.chapters ? story.chapters.length : 0)
-      })) || [];
-      
-      setStories(validStories as Story[]);
+      const tags = await listTagSummaries();
+      setCuratedTags(tags.filter(tag => tag.curated));
     } catch (error) {
-      console.error('Error fetching stories from database:', error);
-      setStories([]);
+      console.error('Error fetching tags:', error);
     }
   };
 
-  const filteredStories = stories.filter(story => {
-    if (searchQuery) {
-      return story.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-             story.description.toLowerCase().includes(searchQuery.toLowerCase());
-    }
-    return true;
-  });
+  const toggleTag = (slug: string) => {
+    const next = selectedTags.includes(slug)
+      ? selectedTags.filter(tag => tag !== slug)
+      : [...selectedTags, slug];
+    updateSearch({ tags: next.length ? next.join(',') : null });
+  };
 
-  const featuredStories = stories.slice(0, 3);
+  /**
+   * Change the search in the URL. Anything but a page change starts again
+   * from the first page; typing replaces the history entry instead of adding
+   * one per keystroke.
+   */
+  const updateSearch = (changes: Record<string, string | null>) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    }, { replace: 'q' in changes });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearchParams(new URLSearchParams());
+  };
+
+  const totalPages = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const isFiltered = query !== '' || selectedCategory !== 'all' || selectedTags.length > 0;
+  const featuredStories = !isFiltered && page === 1 ? stories.slice(0, 3) : [];
 
   const renderBlockchainStatus = () => {
     if (!isConnected) {
@@ -260,14 +244,17 @@ const Discover = () => {
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
               <Input
-                placeholder="Search stories, authors, or descriptions..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search titles, descriptions and free chapters..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-10"
               />
             </div>
             
-            <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+            <Select
+              value={selectedCategory}
+              onValueChange={(value) => updateSearch({ category: value === 'all' ? null : value })}
+            >
               <SelectTrigger className="w-full md:w-48">
                 <SelectValue placeholder="All Categories" />
               </SelectTrigger>
@@ -281,20 +268,39 @@ const Discover = () => {
               </SelectContent>
             </Select>
 
-            <Select value={sortBy} onValueChange={setSortBy}>
+            <Select value={sortBy} onValueChange={(value) => updateSearch({ sort: value })}>
               <SelectTrigger className="w-full md:w-48">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="newest">Newest First</SelectItem>
-                <SelectItem value="popular">Most Popular</SelectItem>
-                <SelectItem value="price_low">Price: Low to High</SelectItem>
-                <SelectItem value="price_high">Price: High to Low</SelectItem>
+                {SORTS.map((sort) => (
+                  <SelectItem key={sort.value} value={sort.value}>
+                    {sort.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
+
+          {curatedTags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {curatedTags.map((tag) => (
+                <Badge
+                  key={tag.id}
+                  variant={selectedTags.includes(tag.slug) ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => toggleTag(tag.slug)}
+                >
+                  {tag.name}
+                </Badge>
+              ))}
+            </div>
+          )}
         </section>
 
+        {/* For You */}
+        {!isFiltered && page === 1 && <RecommendedStories />}
+
         {/* Featured Stories */}
         {featuredStories.length > 0 && (
           <section className="py-16 bg-card/50">
@@ -309,19 +315,17 @@ const Discover = () => {
                     key={story.id}
                     id={story.id}
                     title={story.title}
-                    author={story.author_id ? `Author ${story.author_id.slice(0, 8)}...` : 'Unknown Author'}
-                    authorId={story.author_id}
-                    description={story.description}
+                    author={story.author_name || 'Unknown Author'}
+                    authorHandle={story.author_handle ?? undefined}
+                    description={story.description || ''}
                     coverImage={story.cover_image_url || '/placeholder.svg'}
                     pricePerChapter={story.price_per_chapter}
+                    minChapterPrice={story.min_chapter_price}
+                    maxChapterPrice={story.max_chapter_price}
                     totalChapters={story.total_chapters}
-                    category={story.category?.name || 'Uncategorized'}
-                    isAnonymous={false}
-                    impact={story.impact_percentage > 0 ? `${story.impact_percentage}% to shelters` : undefined}
-                    blockchainInfo={story.blockchain_id ? {
-                      id: story.blockchain_id,
-                      txHash: story.blockchain_tx_hash
-                    } : undefined}
+                    category={story.category_name || 'Uncategorized'}
+                    isAnonymous={story.is_anonymous}
+                    impact={story.impact_percentage ? `${story.impact_percentage}% to shelters` : undefined}
                   />
                 ))}
               </div>
@@ -333,9 +337,9 @@ const Discover = () => {
         <section className="py-16">
           <div className="container mx-auto px-4">
             <div className="flex justify-between items-center mb-8">
-              <h2 className="text-3xl font-bold">All Stories</h2>
+              <h2 className="text-3xl font-bold">{query ? 'Search Results' : 'All Stories'}</h2>
               <div className="text-sm text-muted-foreground">
-                {filteredStories.length} story{filteredStories.length !== 1 ? 's' : ''} found
+                {totalCount} stor{totalCount !== 1 ? 'ies' : 'y'} found
               </div>
             </div>
 
@@ -344,7 +348,7 @@ const Discover = () => {
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
                 <p className="text-muted-foreground">Loading stories...</p>
               </div>
-            ) : filteredStories.length === 0 ? (
+            ) : stories.length === 0 ? (
               <div className="text-center py-16">
                 <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-xl font-semibold mb-2">No stories found</h3>
@@ -354,38 +358,58 @@ const Discover = () => {
                 <Button 
                   variant="outline" 
                   className="mt-4"
-                  onClick={() => {
-                    setSearchQuery('');
-                    setSelectedCategory('all');
-                  }}
+                  onClick={clearFilters}
                 >
                   Clear Filters
                 </Button>
               </div>
             ) : (
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {filteredStories.map((story) => (
+                {stories.map((story) => (
                   <StoryCard
                     key={story.id}
                     id={story.id}
                     title={story.title}
-                    author={story.author_id ? `Author ${story.author_id.slice(0, 8)}...` : 'Unknown Author'}
-                    authorId={story.author_id}
-                    description={story.description}
+                    author={story.author_name || 'Unknown Author'}
+                    authorHandle={story.author_handle ?? undefined}
+                    description={story.description || ''}
                     coverImage={story.cover_image_url || '/placeholder.svg'}
                     pricePerChapter={story.price_per_chapter}
+                    minChapterPrice={story.min_chapter_price}
+                    maxChapterPrice={story.max_chapter_price}
                     totalChapters={story.total_chapters}
-                    category={story.category?.name || 'Uncategorized'}
-                    isAnonymous={false}
-                    impact={story.impact_percentage > 0 ? `${story.impact_percentage}% to shelters` : undefined}
-                    blockchainInfo={story.blockchain_id ? {
-                      id: story.blockchain_id,
-                      txHash: story.blockchain_tx_hash
-                    } : undefined}
+                    category={story.category_name || 'Uncategorized'}
+                    isAnonymous={story.is_anonymous}
+                    impact={story.impact_percentage ? `${story.impact_percentage}% to shelters` : undefined}
+                    snippet={story.snippet}
                   />
                 ))}
               </div>
             )}
+
+            {!loading && totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-12">
+                <Button
+                  variant="outline"
+                  disabled={page <= 1}
+                  onClick={() => updateSearch({ page: page > 2 ? String(page - 1) : null })}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  disabled={page >= totalPages}
+                  onClick={() => updateSearch({ page: String(page + 1) })}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </div>
         </section>
       </div>
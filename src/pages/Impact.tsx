@@ -5,11 +5,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Heart, Users, DollarSign, BookOpen, Target, Quote } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Heart, Users, DollarSign, BookOpen, Target, Quote, HandCoins, ExternalLink } from 'lucide-react';
+import { getImpactPoolSummary, getImpactDisbursements, ImpactDisbursement } from '@/utils/credits';
+import { getVerifiedBeneficiaries, Beneficiary } from '@/services/beneficiaries';
+import { getReaderCount } from '@/services/entitlements';
+import { countAuthors } from '@/repositories/profiles';
+import { countPublishedStories } from '@/repositories/stories';
 
 interface ImpactStats {
   totalDonations: number;
+  totalDisbursed: number;
+  poolBalance: number;
+  bdagRaised: number;
   storiesSupported: number;
   authorsEmpowered: number;
   readersEngaged: number;
@@ -18,10 +25,15 @@ interface ImpactStats {
 const ImpactPage = () => {
   const [stats, setStats] = useState<ImpactStats>({
     totalDonations: 0,
+    totalDisbursed: 0,
+    poolBalance: 0,
+    bdagRaised: 0,
     storiesSupported: 0,
     authorsEmpowered: 0,
     readersEngaged: 0,
   });
+  const [disbursements, setDisbursements] = useState<ImpactDisbursement[]>([]);
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
 
   useEffect(() => {
     fetchImpactStats();
@@ -29,40 +41,32 @@ const ImpactPage = () => {
 
   const fetchImpactStats = async () => {
     try {
-      // Fetch total transactions for impact calculation
-      const { data: transactions } = await supabase
-        .from('transactions')
-        .select('amount, story:stories(impact_percentage)');
+      // Impact pool totals come straight from the journal
+      const [pool, payouts, partners] = await Promise.all([
+        getImpactPoolSummary(),
+        getImpactDisbursements(),
+        getVerifiedBeneficiaries(),
+      ]);
+      const creditPool = pool.find(p => p.currency === 'credits');
+      const bdagPool = pool.find(p => p.currency === 'BDAG');
+      setDisbursements(payouts);
+      setBeneficiaries(partners);
 
-      // Calculate total donations (assuming 10% average impact)
-      const totalDonations = transactions?.reduce((sum, t) => {
-        const impactPercentage = t.story?.impact_percentage || 10;
-        return sum + (t.amount * impactPercentage / 100);
-      }, 0) || 0;
+      const [storiesSupported, authorsEmpowered] = await Promise.all([
+        countPublishedStories(),
+        countAuthors(),
+      ]);
 
-      // Fetch unique stories count
-      const { data: stories } = await supabase
-        .from('stories')
-        .select('id')
-        .eq('published', true);
-
-      // Fetch unique authors count
-      const { data: authors } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('is_author', true);
-
-      // Fetch unique readers count (users who made purchases)
-      const { data: purchases } = await supabase
-        .from('purchases')
-        .select('user_id');
-
-      const uniqueReaders = new Set(purchases?.map(p => p.user_id) || []).size;
+      // Readers who hold access to any story, however they got it
+      const uniqueReaders = await getReaderCount();
 
       setStats({
-        totalDonations: Math.round(totalDonations),
-        storiesSupported: stories?.length || 0,
-        authorsEmpowered: authors?.length || 0,
+        totalDonations: Number(creditPool?.total_raised || 0),
+        totalDisbursed: Number(creditPool?.total_disbursed || 0),
+        poolBalance: Number(creditPool?.balance || 0),
+        bdagRaised: Number(bdagPool?.total_raised || 0),
+        storiesSupported,
+        authorsEmpowered,
         readersEngaged: uniqueReaders,
       });
     } catch (error) {
@@ -91,23 +95,10 @@ const ImpactPage = () => {
     },
   ];
 
-  const ngoPartners = [
-    {
-      name: "Women's Shelter Cape Town",
-      description: "Providing safe haven and support services for women escaping domestic violence",
-      supported: "45 credits this month",
-    },
-    {
-      name: "Empowerment Foundation",
-      description: "Skills training and economic empowerment programs for women in townships",
-      supported: "78 credits this month",
-    },
-    {
-      name: "Thrive Women's Network",
-      description: "Mentorship and leadership development for young South African women",
-      supported: "62 credits this month",
-    },
-  ];
+  const getAmountDisbursedTo = (beneficiaryId: string) =>
+    disbursements
+      .filter(d => d.beneficiary_id === beneficiaryId && d.currency === 'credits')
+      .reduce((sum, d) => sum + Number(d.amount), 0);
 
   return (
     <div className="min-h-screen">
@@ -138,7 +129,10 @@ const ImpactPage = () => {
                 <CardTitle className="text-2xl font-bold text-empowerment">
                   {stats.totalDonations}
                 </CardTitle>
-                <CardDescription>Credits donated to shelters</CardDescription>
+                <CardDescription>Credits raised for the impact fund</CardDescription>
+                {stats.bdagRaised > 0 && (
+                  <p className="text-xs text-muted-foreground">+ {stats.bdagRaised} BDAG on-chain</p>
+                )}
               </CardHeader>
             </Card>
 
@@ -188,9 +182,9 @@ const ImpactPage = () => {
               <div>
                 <div className="flex justify-between mb-2">
                   <span>Credits donated to shelters</span>
-                  <span className="font-medium">{stats.totalDonations} / 5,000</span>
+                  <span className="font-medium">{stats.totalDisbursed} / 5,000</span>
                 </div>
-                <Progress value={(stats.totalDonations / 5000) * 100} className="h-3" />
+                <Progress value={(stats.totalDisbursed / 5000) * 100} className="h-3" />
               </div>
 
               <div>
@@ -213,6 +207,55 @@ const ImpactPage = () => {
         </div>
       </section>
 
+      {/* Disbursement History */}
+      <section className="pb-16">
+        <div className="container mx-auto px-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <HandCoins className="h-6 w-6 mr-2 text-empowerment" />
+                Impact Fund Disbursements
+              </CardTitle>
+              <CardDescription>
+                {stats.poolBalance} credits waiting in the fund · {stats.totalDisbursed} credits paid out so far
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {disbursements.length === 0 ? (
+                <p className="text-muted-foreground text-center py-6">
+                  No disbursements yet. Every purchase and tip adds to the fund until the next payout.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {disbursements.map((disbursement) => (
+                    <div key={disbursement.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{disbursement.recipient_name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(disbursement.disbursed_at).toLocaleDateString()}
+                          {disbursement.note && ` · ${disbursement.note}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-empowerment border-empowerment">
+                          {disbursement.amount} {disbursement.currency}
+                        </Badge>
+                        {disbursement.blockchain_tx_hash && (
+                          <span className="flex items-center text-xs text-muted-foreground font-mono">
+                            <ExternalLink className="h-3 w-3 mr-1" />
+                            {disbursement.blockchain_tx_hash.substring(0, 10)}...
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+
       {/* Impact Stories */}
       <section className="py-16 bg-card/50">
         <div className="container mx-auto px-4">
@@ -260,24 +303,34 @@ const ImpactPage = () => {
             </p>
           </div>
 
-          <div className="grid md:grid-cols-3 gap-8">
-            {ngoPartners.map((ngo, index) => (
-              <Card key={index}>
-                <CardHeader>
-                  <CardTitle className="text-lg">{ngo.name}</CardTitle>
-                  <CardDescription>{ngo.description}</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between">
-                    <Badge variant="secondary">{ngo.supported}</Badge>
-                    <Button variant="outline" size="sm">
-                      Learn More
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          {beneficiaries.length === 0 ? (
+            <p className="text-center text-muted-foreground">
+              Our partner organisations will be listed here once they are verified.
+            </p>
+          ) : (
+            <div className="grid md:grid-cols-3 gap-8">
+              {beneficiaries.map((beneficiary) => (
+                <Card key={beneficiary.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{beneficiary.name}</CardTitle>
+                    <CardDescription>{beneficiary.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center justify-between">
+                      <Badge variant="secondary">{getAmountDisbursedTo(beneficiary.id)} credits received</Badge>
+                      {beneficiary.website_url && (
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={beneficiary.website_url} target="_blank" rel="noopener noreferrer">
+                            Learn More
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
 
           <div className="text-center mt-12">
             <Card className="max-w-2xl mx-auto">
@@ -1,6 +1,7 @@
 import { Navigation } from "@/components/Navigation";
 import { Hero } from "@/components/Hero";
 import { FeaturedStories } from "@/components/FeaturedStories";
+import { RecommendedStories } from "@/components/RecommendedStories";
 import { Categories } from "@/components/Categories";
 import { Impact } from "@/components/Impact";
 import { Footer } from "@/components/Footer";
@@ -10,6 +11,7 @@ const Index = () => {
     <div className="min-h-screen">
       <Navigation />
       <Hero />
+      <RecommendedStories className="py-20" />
       <FeaturedStories />
       <Categories />
       <Impact />
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { getTransactionHistory, getUserCredits } from '@/utils/credits';
+import { getTransactionHistory, getUserCredits, initializeUserCredits } from '@/utils/credits';
+import { AuthorProfile, getAuthorProfile, getProfile, Profile as UserProfile, WalletData } from '@/repositories/profiles';
+import { TransactionHistoryEntry } from '@/repositories/credits';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,20 +23,6 @@ import {
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
-interface AuthorProfile {
-  id: string;
-  pseudonym: string | null;
-  wallet_address: string;
-  wallet_data: any;
-  impact_percentage: number;
-  total_earnings: number;
-  total_stories_published: number;
-  total_chapters_published: number;
-  total_readers: number;
-  created_at: string;
-  updated_at: string;
-}
-
 interface UserCredits {
   id: string;
   balance: number;
@@ -44,27 +31,14 @@ interface UserCredits {
   updated_at: string;
 }
 
-interface Transaction {
-  id: string;
-  from_user_id: string;
-  to_user_id: string;
-  story_id: string | null;
-  chapter_id: string | null;
-  amount: number;
-  transaction_type: 'purchase' | 'tip' | 'donation';
-  status: 'pending' | 'completed' | 'failed';
-  blockchain_tx_hash: string | null;
-  created_at: string;
-}
-
 const Profile = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
-  const [profile, setProfile] = useState<any>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
   const [authorProfile, setAuthorProfile] = useState<AuthorProfile | null>(null);
   const [userCredits, setUserCredits] = useState<UserCredits | null>(null);
-  const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
+  const [recentTransactions, setRecentTransactions] = useState<TransactionHistoryEntry[]>([]);
   const [stats, setStats] = useState({
     totalStories: 0,
     totalChapters: 0,
@@ -87,38 +61,20 @@ const Profile = () => {
       setLoading(true);
 
       // Load basic profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (profileError && profileError.code !== 'PGRST116') {
-        console.error('Error loading profile:', profileError);
-      } else if (profileData) {
-        setProfile(profileData);
-      }
+      const profileData = await getProfile(user?.id);
+      setProfile(profileData);
 
       // Load author profile if user is an author
-      if (profileData?.is_author) {
-        const { data: authorData, error: authorError } = await supabase
-          .from('author_profiles')
-          .select('*')
-          .eq('user_id', user?.id)
-          .single();
-
-        if (authorError && authorError.code !== 'PGRST116') {
-          console.error('Error loading author profile:', authorError);
-        } else if (authorData) {
-          setAuthorProfile(authorData);
-          setStats({
-            totalStories: authorData.total_stories_published,
-            totalChapters: authorData.total_chapters_published,
-            totalReaders: authorData.total_readers,
-            totalEarnings: authorData.total_earnings,
-            impactPercentage: authorData.impact_percentage
-          });
-        }
+      const authorData = profileData?.is_author ? await getAuthorProfile(user?.id) : null;
+      if (authorData) {
+        setAuthorProfile(authorData);
+        setStats({
+          totalStories: authorData.total_stories_published ?? 0,
+          totalChapters: authorData.total_chapters_published ?? 0,
+          totalReaders: authorData.total_readers ?? 0,
+          totalEarnings: Number(authorData.total_earnings ?? 0),
+          impactPercentage: authorData.impact_percentage ?? 0
+        });
       }
 
       // Load user credits using utility function
@@ -132,18 +88,7 @@ const Profile = () => {
       } else {
         // If credits don't exist, create them with 0 balance
         console.log('No credits found, creating default credits');
-        const { error: createError } = await supabase
-          .from('user_credits')
-          .insert({
-            user_id: user?.id,
-            balance: 0.00,
-            total_earned: 0.00,
-            total_spent: 0.00
-          });
-
-        if (createError && createError.code !== '23505') { // Ignore duplicate key errors
-          console.error('Error creating default credits:', createError);
-        } else {
+        if (await initializeUserCredits(user?.id)) {
           // Set default credits
           setUserCredits({
             id: user?.id,
@@ -238,6 +183,8 @@ const Profile = () => {
     );
   }
 
+  const walletData = profile.wallet_data as WalletData | null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-empowerment/5 p-4">
       <div className="max-w-6xl mx-auto space-y-6">
@@ -319,13 +266,13 @@ const Profile = () => {
                       <div className="space-y-2">
                 <label className="text-sm font-medium text-muted-foreground">Network</label>
                 <p className="text-lg">
-                  {profile.wallet_data?.networkName || 'Ethereum Mainnet'}
+                  {walletData?.networkName || 'Ethereum Mainnet'}
                 </p>
               </div>
                       </div>
-            {profile.wallet_data?.connectedAt && (
+            {walletData?.connectedAt && (
               <div className="text-sm text-muted-foreground">
-                Connected since: {formatDate(profile.wallet_data.connectedAt)}
+                Connected since: {formatDate(walletData.connectedAt)}
                       </div>
             )}
                   </CardContent>
@@ -1,13 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { ChapterContent } from '@/components/ChapterContent';
 import { ArrowLeft, ArrowRight, Heart, Coins, Settings, Gift } from 'lucide-react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { payStoryAuthor } from '@/utils/credits';
+import { checkChapterAccess } from '@/services/entitlements';
+import { getReadableChapter, listChapterOutline, recordChapterRead } from '@/repositories/chapters';
+import { getPublicProfile } from '@/repositories/profiles';
+import { effectiveChapterPrice } from '@/lib/chapterPricing';
 
 interface Chapter {
   id: string;
@@ -15,15 +22,21 @@ interface Chapter {
   title: string;
   content: string;
   is_free: boolean;
+  price_mode: string;
+  price: number | null;
   story: {
     id: string;
     title: string;
-    author_id: string;
+    /** Null when the story is anonymous */
+    author_id: string | null;
+    author_name: string | null;
+    is_own: boolean;
     price_per_chapter: number;
     total_chapters: number;
-    author: {
-      display_name: string;
-    };
+    impact_percentage: number;
+    beneficiary: {
+      name: string;
+    } | null;
   };
 }
 
@@ -38,6 +51,9 @@ const ReadChapter = () => {
   const [darkMode, setDarkMode] = useState(false);
   const [tipAmount, setTipAmount] = useState(5);
   const [tipping, setTipping] = useState(false);
+  const [authorEarnings, setAuthorEarnings] = useState<number | null>(null);
+  const [outline, setOutline] = useState<{ id: string; chapter_number: number; title: string }[]>([]);
+  const earningsChannel = useRef<RealtimeChannel | null>(null);
 
   useEffect(() => {
     if (storyId && chapterId) {
@@ -45,58 +61,73 @@ const ReadChapter = () => {
     }
   }, [storyId, chapterId]);
 
+  useEffect(() => {
+    if (storyId) {
+      listChapterOutline(storyId)
+        .then(setOutline)
+        .catch((error) => console.error('Error fetching chapter list:', error));
+    }
+  }, [storyId]);
+
+  // Keep the author's earnings total live so readers see their tip land.
+  // Profile rows are private, so instead of streaming the author's row every
+  // tipper announces the change on a broadcast channel and everyone reading
+  // refetches the public total. Anonymous authors' earnings are not shown.
+  useEffect(() => {
+    const authorId = chapter?.story.author_id;
+    if (!authorId) return;
+
+    fetchAuthorEarnings(authorId);
+
+    const channel = supabase
+      .channel(`author-earnings-${authorId}`)
+      .on('broadcast', { event: 'earnings_changed' }, () => fetchAuthorEarnings(authorId))
+      .subscribe();
+    earningsChannel.current = channel;
+
+    return () => {
+      earningsChannel.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [chapter?.story.author_id]);
+
+  const fetchAuthorEarnings = async (authorId: string) => {
+    try {
+      const profile = await getPublicProfile(authorId);
+      setAuthorEarnings(profile?.total_earnings ?? 0);
+    } catch (error) {
+      console.error('Error fetching author earnings:', error);
+    }
+  };
+
   const fetchChapter = async () => {
     if (!storyId || !chapterId) return;
 
     try {
-      // First check if user has access to this chapter
-      if (user) {
-        const { data: purchase } = await supabase
-          .from('purchases')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('chapter_id', chapterId)
-          .single();
-
-        // If no purchase found and not a free chapter, check if it's free
-        if (!purchase) {
-          const { data: chapterData } = await supabase
-            .from('chapters')
-            .select('is_free')
-            .eq('id', chapterId)
-            .single();
-
-          if (chapterData && !chapterData.is_free) {
-            toast({
-              variant: "destructive",
-              title: "Access denied",
-              description: "You need to purchase this chapter first",
-            });
-            navigate(`/story/${storyId}`);
-            return;
-          }
-        }
+      // The server only returns chapters the reader can access; check first so
+      // locked chapters send them to the story page instead of "not found"
+      const access = await checkChapterAccess(chapterId);
+
+      if (access.success && !access.hasAccess) {
+        toast({
+          variant: "destructive",
+          title: "Access denied",
+          description: user ? "You need to purchase this chapter first" : "Sign in and purchase this chapter to read it",
+        });
+        navigate(`/story/${storyId}`);
+        return;
       }
 
-      const { data, error } = await supabase
-        .from('chapters')
-        .select(`
-          *,
-          story:stories(
-            id,
-            title,
-            author_id,
-            price_per_chapter,
-            total_chapters,
-            author:profiles!author_id(display_name)
-          )
-        `)
-        .eq('id', chapterId)
-        .eq('published', true)
-        .single();
-
-      if (error) throw error;
+      const data = await getReadableChapter(chapterId);
+
+      if (!data) throw new Error('Chapter not found');
       setChapter(data);
+
+      if (user) {
+        recordChapterRead(chapterId).catch((error) =>
+          console.error('Error recording chapter read:', error)
+        );
+      }
     } catch (error) {
       console.error('Error fetching chapter:', error);
       toast({
@@ -119,50 +150,47 @@ const ReadChapter = () => {
       return;
     }
 
+    if (chapter.story.is_own) {
+      toast({
+        title: "That's your story",
+        description: "You can't tip yourself",
+      });
+      return;
+    }
+
     setTipping(true);
     try {
-      // Check user balance
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('wallet_balance')
-        .eq('user_id', user.id)
-        .single();
-
-      if (!profile || profile.wallet_balance < amount) {
-        toast({
-          variant: "destructive",
-          title: "Insufficient credits",
-          description: "You need more credits to tip this author",
-        });
-        return;
-      }
-
-      // Create transaction record
-      const { error: transactionError } = await supabase
-        .from('transactions')
-        .insert({
-          buyer_id: user.id,
-          story_id: chapter.story.id,
-          chapter_id: chapter.id,
-          amount: amount,
-          transaction_type: 'tip',
-        });
-
-      if (transactionError) throw transactionError;
+      const result = await payStoryAuthor({
+        story_id: chapter.story.id,
+        chapter_id: chapter.id,
+        amount: amount,
+        transaction_type: 'tip',
+      });
 
-      // Update user balance
-      const { error: balanceError } = await supabase
-        .from('profiles')
-        .update({
-          wallet_balance: profile.wallet_balance - amount,
-        })
-        .eq('user_id', user.id);
+      if (!result.success) {
+        if (result.error?.includes('Insufficient credits')) {
+          toast({
+            variant: "destructive",
+            title: "Insufficient credits",
+            description: "You need more credits to tip this author",
+          });
+          return;
+        }
+        throw new Error(result.error || 'Failed to process tip');
+      }
 
-      if (balanceError) throw balanceError;
+      if (chapter.story.author_id) {
+        fetchAuthorEarnings(chapter.story.author_id);
+      }
+      earningsChannel.current?.send({ type: 'broadcast', event: 'earnings_changed', payload: {} });
 
+      const impactPercentage = chapter.story.impact_percentage || 0;
+      const impactRecipient = chapter.story.beneficiary?.name || 'the impact fund';
       toast({
         title: "Thank you!",
-        description: `You've sent ${amount} credits to support this author`,
+        description: impactPercentage > 0
+          ? `You've sent ${amount} credits to support this author (${impactPercentage}% goes to ${impactRecipient}). Your receipt is in your wallet.`
+          : `You've sent ${amount} credits to support this author. Your receipt is in your wallet.`,
       });
     } catch (error) {
       console.error('Error sending tip:', error);
@@ -176,11 +204,17 @@ const ReadChapter = () => {
     }
   };
 
-  const navigateToNextChapter = async () => {
+  // Where this chapter sits among the published ones; numbers can skip
+  const position = outline.findIndex((entry) => entry.id === chapter?.id);
+  const previousChapter = position > 0 ? outline[position - 1] : null;
+  const nextChapter = position >= 0 ? outline[position + 1] ?? null : null;
+  const chapterCount = outline.length || chapter?.story.total_chapters || 0;
+  const chapterPosition = position >= 0 ? position + 1 : chapter?.chapter_number ?? 0;
+
+  const navigateToNextChapter = () => {
     if (!chapter) return;
 
-    const nextChapterNumber = chapter.chapter_number + 1;
-    if (nextChapterNumber > chapter.story.total_chapters) {
+    if (!nextChapter) {
       toast({
         title: "End of story",
         description: "You've reached the last chapter!",
@@ -188,35 +222,13 @@ const ReadChapter = () => {
       return;
     }
 
-    // Find next chapter
-    const { data: nextChapter } = await supabase
-      .from('chapters')
-      .select('id')
-      .eq('story_id', chapter.story.id)
-      .eq('chapter_number', nextChapterNumber)
-      .single();
-
-    if (nextChapter) {
-      navigate(`/read/${chapter.story.id}/${nextChapter.id}`);
-    }
+    navigate(`/read/${chapter.story.id}/${nextChapter.id}`);
   };
 
-  const navigateToPrevChapter = async () => {
-    if (!chapter || chapter.chapter_number <= 1) return;
+  const navigateToPrevChapter = () => {
+    if (!chapter || !previousChapter) return;
 
-    const prevChapterNumber = chapter.chapter_number - 1;
-
-    // Find previous chapter
-    const { data: prevChapter } = await supabase
-      .from('chapters')
-      .select('id')
-      .eq('story_id', chapter.story.id)
-      .eq('chapter_number', prevChapterNumber)
-      .single();
-
-    if (prevChapter) {
-      navigate(`/read/${chapter.story.id}/${prevChapter.id}`);
-    }
+    navigate(`/read/${chapter.story.id}/${previousChapter.id}`);
   };
 
   if (loading) {
@@ -303,7 +315,7 @@ const ReadChapter = () => {
               <div className="flex items-center space-x-3">
                 <Heart className="h-5 w-5 text-primary" />
                 <span className="text-sm font-medium">
-                  You supported <span className="text-primary font-semibold">{chapter.story.author?.display_name || 'Anonymous'}</span> with {chapter.story.price_per_chapter} Credits
+                  You supported <span className="text-primary font-semibold">{chapter.story.author_name || 'Anonymous'}</span> with {effectiveChapterPrice(chapter, chapter.story.price_per_chapter)} Credits
                 </span>
               </div>
               
@@ -350,7 +362,7 @@ const ReadChapter = () => {
                 </CardTitle>
                 <div className="flex items-center space-x-2">
                   <Badge variant="secondary">
-                    by {chapter.story.author.display_name}
+                    by {chapter.story.author_name || 'Anonymous'}
                   </Badge>
                   {chapter.is_free && (
                     <Badge variant="outline" className="text-primary">
@@ -365,11 +377,7 @@ const ReadChapter = () => {
                   className="prose prose-gray dark:prose-invert max-w-none leading-relaxed"
                   style={{ fontSize: `${fontSize}px` }}
                 >
-                  {chapter.content.split('\n').map((paragraph, index) => (
-                    <p key={index} className="mb-4">
-                      {paragraph}
-                    </p>
-                  ))}
+                  <ChapterContent content={chapter.content} />
                 </div>
               </CardContent>
             </Card>
@@ -379,20 +387,20 @@ const ReadChapter = () => {
               <Button
                 variant="outline"
                 onClick={navigateToPrevChapter}
-                disabled={chapter.chapter_number <= 1}
+                disabled={!previousChapter}
               >
                 <ArrowLeft className="h-4 w-4 mr-2" />
                 Previous Chapter
               </Button>
               
               <Badge variant="secondary">
-                {chapter.chapter_number} of {chapter.story.total_chapters}
+                {chapterPosition} of {chapterCount}
               </Badge>
               
               <Button
                 variant="outline"
                 onClick={navigateToNextChapter}
-                disabled={chapter.chapter_number >= chapter.story.total_chapters}
+                disabled={!nextChapter}
               >
                 Next Chapter
                 <ArrowRight className="h-4 w-4 ml-2" />
@@ -416,6 +424,22 @@ const ReadChapter = () => {
                     <p className="text-sm text-muted-foreground">
                       Show appreciation with a tip
                     </p>
+
+                    {authorEarnings !== null && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Author has earned</span>
+                        <span className="flex items-center font-medium text-empowerment">
+                          <Coins className="h-4 w-4 mr-1" />
+                          {authorEarnings} credits
+                        </span>
+                      </div>
+                    )}
+
+                    {chapter.story.impact_percentage > 0 && chapter.story.beneficiary && (
+                      <p className="text-xs text-muted-foreground">
+                        {chapter.story.impact_percentage}% of every tip supports {chapter.story.beneficiary.name}
+                      </p>
+                    )}
                     
                     <div className="flex space-x-2">
                       {[5, 10, 20].map((amount) => (
@@ -450,19 +474,19 @@ const ReadChapter = () => {
                 <CardContent>
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                      <span>Chapter {chapter.chapter_number}</span>
-                      <span>{chapter.story.total_chapters} total</span>
+                      <span>Chapter {chapterPosition}</span>
+                      <span>{chapterCount} total</span>
                     </div>
                     <div className="w-full bg-secondary rounded-full h-2">
                       <div
                         className="bg-primary h-2 rounded-full transition-all"
                         style={{
-                          width: `${(chapter.chapter_number / chapter.story.total_chapters) * 100}%`,
+                          width: `${chapterCount ? (chapterPosition / chapterCount) * 100 : 0}%`,
                         }}
                       />
                     </div>
                     <p className="text-sm text-muted-foreground text-center">
-                      {Math.round((chapter.chapter_number / chapter.story.total_chapters) * 100)}% complete
+                      {chapterCount ? Math.round((chapterPosition / chapterCount) * 100) : 0}% complete
                     </p>
                   </div>
                 </CardContent>
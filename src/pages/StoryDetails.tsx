@@ -1,18 +1,22 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { Navigation } from '@/components/Navigation';
 import { Footer } from '@/components/Footer';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Heart, BookOpen, Coins, User, Calendar, Target, Edit } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Heart, BookOpen, Coins, User, Calendar, Target, Edit, Bell, BellOff } from 'lucide-react';
+import { getPublishedStory } from '@/repositories/stories';
+import { followStory, isFollowingStory, unfollowStory } from '@/repositories/follows';
+import { listStoryTags, Tag } from '@/repositories/tags';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { ChapterReader } from '@/components/ChapterReader';
 import { ChapterManager } from '@/components/ChapterManager';
 import { CoverUpload } from '@/components/CoverUpload';
+import { payStoryAuthor } from '@/utils/credits';
+import { formatChapterPriceRange } from '@/lib/chapterPricing';
 
 interface StoryDetails {
   id: string;
@@ -20,13 +24,26 @@ interface StoryDetails {
   description: string;
   cover_image_url: string;
   price_per_chapter: number;
+  /** Cheapest and dearest paid chapter */
+  min_chapter_price: number;
+  max_chapter_price: number;
+  /** Every published chapter at full price */
+  full_price: number;
   total_chapters: number;
+  author_name: string | null;
   is_anonymous: boolean;
+  is_own: boolean;
   impact_percentage: number;
+  bundle_discount_percentage: number;
   created_at: string;
   category: {
     name: string;
-  };
+  } | null;
+  beneficiary: {
+    name: string;
+    description: string | null;
+    website_url: string | null;
+  } | null;
 }
 
 const StoryDetails = () => {
@@ -39,32 +56,39 @@ const StoryDetails = () => {
   const [purchasing, setPurchasing] = useState(false);
   const [viewMode, setViewMode] = useState<'read' | 'manage'>('read');
   const [isAuthor, setIsAuthor] = useState(false);
+  const [following, setFollowing] = useState(false);
+  const [tags, setTags] = useState<Tag[]>([]);
 
   useEffect(() => {
     if (id) {
       fetchStoryDetails();
+      listStoryTags(id)
+        .then(setTags)
+        .catch((error) => console.error('Error fetching story tags:', error));
     }
   }, [id]);
 
+  useEffect(() => {
+    if (user && id) {
+      isFollowingStory(user.id, id)
+        .then(setFollowing)
+        .catch((error) => console.error('Error checking follow:', error));
+    } else {
+      setFollowing(false);
+    }
+  }, [user, id]);
+
   const fetchStoryDetails = async () => {
     if (!id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('stories')
-        .select(`
-          *,
-          category:categories(name)
-        `)
-        .eq('id', id)
-        .eq('published', true)
-        .single();
+      const data = await getPublishedStory(id);
 
-      if (error) throw error;
+      if (!data) throw new Error('Story not found');
       setStory(data);
       
       // Check if current user is the author
-      if (user && data.author_id === user.id) {
+      if (user && data.is_own) {
         setIsAuthor(true);
       }
     } catch (error) {
@@ -80,7 +104,7 @@ const StoryDetails = () => {
     }
   };
 
-  const handlePurchaseChapter = async (chapterId: string) => {
+  const handlePurchaseChapter = async (chapterId: string, price: number) => {
     if (!user) {
       toast({
         title: "Sign in required",
@@ -92,59 +116,30 @@ const StoryDetails = () => {
 
     setPurchasing(true);
     try {
-      // Check user balance
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('wallet_balance')
-        .eq('user_id', user.id)
-        .single();
+      // Debit the reader and split the payment between the author and the impact pool;
+      // the completed transaction grants the chapter entitlement
+      const result = await payStoryAuthor({
+        story_id: story!.id,
+        chapter_id: chapterId,
+        amount: price,
+        transaction_type: 'purchase',
+      });
 
-      if (!profile || profile.wallet_balance < story!.price_per_chapter) {
-        toast({
-          variant: "destructive",
-          title: "Insufficient credits",
-          description: "You need more credits to purchase this chapter",
-        });
-        return;
+      if (!result.success) {
+        if (result.error?.includes('Insufficient credits')) {
+          toast({
+            variant: "destructive",
+            title: "Insufficient credits",
+            description: "You need more credits to purchase this chapter",
+          });
+          return;
+        }
+        throw new Error(result.error || 'Failed to process purchase');
       }
 
-      // Create purchase record
-      const { error: purchaseError } = await supabase
-        .from('purchases')
-        .insert({
-          user_id: user.id,
-          story_id: story!.id,
-          chapter_id: chapterId,
-        });
-
-      if (purchaseError) throw purchaseError;
-
-      // Create transaction record
-      const { error: transactionError } = await supabase
-        .from('transactions')
-        .insert({
-          buyer_id: user.id,
-          story_id: story!.id,
-          chapter_id: chapterId,
-          amount: story!.price_per_chapter,
-          transaction_type: 'chapter',
-        });
-
-      if (transactionError) throw transactionError;
-
-      // Update user balance
-      const { error: balanceError } = await supabase
-        .from('profiles')
-        .update({
-          wallet_balance: profile.wallet_balance - story!.price_per_chapter,
-        })
-        .eq('user_id', user.id);
-
-      if (balanceError) throw balanceError;
-
       toast({
         title: "Chapter purchased!",
-        description: `You've supported the author with ${story!.price_per_chapter} credits`,
+        description: `You've supported the author with ${price} credits`,
       });
 
       navigate(`/read/${story!.id}/${chapterId}`);
@@ -160,6 +155,36 @@ const StoryDetails = () => {
     }
   };
 
+  const handleToggleFollow = async () => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+
+    try {
+      if (following) {
+        await unfollowStory(user.id, story!.id);
+      } else {
+        await followStory(user.id, story!.id);
+      }
+      setFollowing(!following);
+
+      toast({
+        title: following ? "Unfollowed" : "Following",
+        description: following
+          ? "You won't be notified about new chapters"
+          : "We'll let you know when a new chapter is out",
+      });
+    } catch (error) {
+      console.error('Error updating follow:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update follow",
+      });
+    }
+  };
+
   const handleCoverUpdated = (coverUrl: string) => {
     if (story) {
       setStory({ ...story, cover_image_url: coverUrl });
@@ -201,7 +226,8 @@ const StoryDetails = () => {
   }
 
   // No chapters available yet
-  const totalPrice = story.price_per_chapter * story.total_chapters;
+  const fullPrice = story.full_price;
+  const totalPrice = Math.round(fullPrice * (100 - (story.bundle_discount_percentage || 0)) / 100);
 
   return (
     <div className="min-h-screen">
@@ -229,19 +255,29 @@ const StoryDetails = () => {
               <CardContent className="p-6">
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <Badge variant="secondary">{story.category.name}</Badge>
+                    <Badge variant="secondary">{story.category?.name || 'Uncategorized'}</Badge>
                     <div className="flex items-center text-sm text-muted-foreground">
                       <Calendar className="h-4 w-4 mr-1" />
                       {new Date(story.created_at).toLocaleDateString()}
                     </div>
                   </div>
+
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {tags.map((tag) => (
+                        <Link key={tag.id} to={`/tags/${tag.slug}`}>
+                          <Badge variant="outline" className="hover:bg-primary/10">{tag.name}</Badge>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
                   
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Per Chapter</span>
                       <div className="flex items-center text-empowerment font-medium">
                         <Coins className="h-4 w-4 mr-1" />
-                        {story.price_per_chapter} credits
+                        {formatChapterPriceRange(story.min_chapter_price, story.max_chapter_price)}
                       </div>
                     </div>
                     
@@ -257,6 +293,9 @@ const StoryDetails = () => {
                       <span className="text-sm text-muted-foreground">Full Story</span>
                       <div className="flex items-center text-primary font-medium">
                         <Coins className="h-4 w-4 mr-1" />
+                        {totalPrice < fullPrice && (
+                          <span className="line-through text-muted-foreground font-normal mr-2">{fullPrice}</span>
+                        )}
                         {totalPrice} credits
                       </div>
                     </div>
@@ -266,8 +305,21 @@ const StoryDetails = () => {
                     <div className="bg-empowerment/10 p-3 rounded-lg">
                       <div className="flex items-center text-empowerment text-sm">
                         <Target className="h-4 w-4 mr-2" />
-                        {story.impact_percentage}% of proceeds support women's shelters
+                        {story.impact_percentage}% of proceeds support {story.beneficiary?.name || "women's shelters"}
                       </div>
+                      {story.beneficiary?.description && (
+                        <p className="text-xs text-muted-foreground mt-2">{story.beneficiary.description}</p>
+                      )}
+                      {story.beneficiary?.website_url && (
+                        <a
+                          href={story.beneficiary.website_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-empowerment underline mt-1 inline-block"
+                        >
+                          Learn more
+                        </a>
+                      )}
                     </div>
                   )}
 
@@ -324,9 +376,15 @@ const StoryDetails = () => {
               <div className="flex items-center">
                 <User className="h-4 w-4 mr-2 text-muted-foreground" />
                 <span className="text-muted-foreground">
-                  by {story.is_anonymous ? 'Anonymous' : 'Author'}
+                  by {story.author_name || 'Anonymous'}
                 </span>
               </div>
+              {!isAuthor && (
+                <Button variant={following ? 'secondary' : 'outline'} size="sm" onClick={handleToggleFollow}>
+                  {following ? <BellOff className="h-4 w-4 mr-2" /> : <Bell className="h-4 w-4 mr-2" />}
+                  {following ? 'Following' : 'Follow'}
+                </Button>
+              )}
             </div>
 
             <p className="text-lg text-muted-foreground leading-relaxed">
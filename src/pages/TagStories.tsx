@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { StoryCard } from '@/components/StoryCard';
+import { Button } from '@/components/ui/button';
+import { Heart, ChevronLeft, ChevronRight } from 'lucide-react';
+import { searchStories } from '@/repositories/stories';
+import { getTagBySlug, Tag } from '@/repositories/tags';
+
+type Story = Awaited<ReturnType<typeof searchStories>>[number];
+
+const PAGE_SIZE = 12;
+
+/**
+ * The published stories carrying one tag, newest first
+ */
+const TagStories = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [stories, setStories] = useState<Story[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    getTagBySlug(slug)
+      .then(setTag)
+      .catch((error) => console.error('Error fetching tag:', error));
+  }, [slug]);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    let cancelled = false;
+
+    const fetchStories = async () => {
+      setLoading(true);
+      try {
+        const results = await searchStories({
+          tags: [slug],
+          sort: 'newest',
+          limit: PAGE_SIZE,
+          offset: (page - 1) * PAGE_SIZE,
+        });
+
+        if (cancelled) return;
+        setStories(results);
+        setTotalCount(results[0]?.total_count ?? 0);
+      } catch (error) {
+        console.error('Error fetching tagged stories:', error);
+        if (!cancelled) {
+          setStories([]);
+          setTotalCount(0);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchStories();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, page]);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams(nextPage > 1 ? { page: String(nextPage) } : {});
+  };
+
+  const totalPages = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+
+  return (
+    <div className="min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <Link to="/tags" className="text-sm text-muted-foreground hover:text-primary">
+            All tags
+          </Link>
+          <h1 className="text-4xl font-bold mt-2 mb-4">{tag?.name || slug}</h1>
+          <p className="text-xl text-muted-foreground">
+            {totalCount} stor{totalCount !== 1 ? 'ies' : 'y'} tagged {tag?.name || slug}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading stories...</p>
+          </div>
+        ) : stories.length === 0 ? (
+          <div className="text-center py-16">
+            <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">No stories found</h3>
+            <p className="text-muted-foreground">Nothing published carries this tag yet</p>
+            <Button variant="outline" className="mt-4" asChild>
+              <Link to="/discover">Discover Stories</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {stories.map((story) => (
+              <StoryCard
+                key={story.id}
+                id={story.id}
+                title={story.title}
+                author={story.author_name || 'Unknown Author'}
+                authorHandle={story.author_handle ?? undefined}
+                description={story.description || ''}
+                coverImage={story.cover_image_url || '/placeholder.svg'}
+                pricePerChapter={story.price_per_chapter}
+                minChapterPrice={story.min_chapter_price}
+                maxChapterPrice={story.max_chapter_price}
+                totalChapters={story.total_chapters}
+                category={story.category_name || 'Uncategorized'}
+                isAnonymous={story.is_anonymous}
+                impact={story.impact_percentage ? `${story.impact_percentage}% to shelters` : undefined}
+              />
+            ))}
+          </div>
+        )}
+
+        {!loading && totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-12">
+            <Button variant="outline" disabled={page <= 1} onClick={() => goToPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => goToPage(page + 1)}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default TagStories;
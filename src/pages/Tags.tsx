@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Navigation } from '@/components/Navigation';
+import { Footer } from '@/components/Footer';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { listTagSummaries, TagSummary } from '@/repositories/tags';
+import { TAG_KINDS } from '@/lib/tags';
+
+/**
+ * Every tag with published stories, grouped into themes, regions and languages
+ */
+const Tags = () => {
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const data = await listTagSummaries();
+        setTags(data.filter(tag => tag.story_count > 0));
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  return (
+    <div className="min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-4">Browse by Tag</h1>
+          <p className="text-xl text-muted-foreground">
+            Find stories by theme, by where they happen and by the language they are told in
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading tags...</p>
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">No stories have been tagged yet.</p>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-6">
+            {TAG_KINDS.map((kind) => {
+              const kindTags = tags.filter(tag => tag.kind === kind.value);
+              if (kindTags.length === 0) return null;
+
+              return (
+                <Card key={kind.value}>
+                  <CardHeader>
+                    <CardTitle>{kind.label}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-2">
+                    {kindTags.map((tag) => (
+                      <Link key={tag.id} to={`/tags/${tag.slug}`}>
+                        <Badge variant={tag.curated ? 'default' : 'outline'}>
+                          {tag.name} · {tag.story_count}
+                        </Badge>
+                      </Link>
+                    ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Tags;
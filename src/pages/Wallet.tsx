@@ -5,35 +5,47 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Coins, ArrowUpRight, ArrowDownLeft, Heart, BookOpen, Gift, Plus } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Coins, ArrowUpRight, ArrowDownLeft, Heart, BookOpen, Gift, Plus, Receipt } from 'lucide-react';
+import { listPurchaseHistory } from '@/repositories/purchases';
 import { useAuth } from '@/contexts/AuthContext';
-import { useProfile } from '@/hooks/useProfile';
+import { getUserCredits, UserCreditBalance } from '@/utils/credits';
 import { useNavigate } from 'react-router-dom';
 
 interface Transaction {
   id: string;
+  /** Null on payments to the author of an anonymous story */
+  to_user_id: string | null;
+  story_id: string | null;
   amount: number;
-  transaction_type: 'chapter' | 'story' | 'tip';
+  author_amount: number | null;
+  impact_amount: number | null;
+  transaction_type: 'purchase' | 'tip' | 'donation' | 'issuance';
+  status: string;
+  blockchain_tx_hash: string | null;
   created_at: string;
+  completed_at: string | null;
   story: {
     title: string;
-    author: {
-      display_name: string;
-    };
-  };
+  } | null;
+  chapter: {
+    chapter_number: number;
+    title: string;
+  } | null;
 }
 
 const Wallet = () => {
   const { user } = useAuth();
-  const { profile } = useProfile();
   const navigate = useNavigate();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [credits, setCredits] = useState<UserCreditBalance | null>(null);
   const [loading, setLoading] = useState(true);
+  const [selectedReceipt, setSelectedReceipt] = useState<Transaction | null>(null);
 
   useEffect(() => {
     if (user) {
       fetchTransactions();
+      getUserCredits(user.id).then(setCredits);
     } else {
       navigate('/auth');
     }
@@ -44,20 +56,8 @@ const Wallet = () => {
 
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('transactions')
-        .select(`
-          *,
-          story:stories(
-            title,
-            author:profiles!author_id(display_name)
-          )
-        `)
-        .eq('buyer_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setTransactions(data || []);
+      const data = await listPurchaseHistory(user.id);
+      setTransactions(data as Transaction[]);
     } catch (error) {
       console.error('Error fetching transactions:', error);
     } finally {
@@ -67,12 +67,12 @@ const Wallet = () => {
 
   const getTransactionIcon = (type: string) => {
     switch (type) {
-      case 'chapter':
-        return <BookOpen className="h-4 w-4" />;
-      case 'story':
+      case 'purchase':
         return <BookOpen className="h-4 w-4" />;
       case 'tip':
         return <Gift className="h-4 w-4" />;
+      case 'donation':
+        return <Heart className="h-4 w-4" />;
       default:
         return <ArrowDownLeft className="h-4 w-4" />;
     }
@@ -80,12 +80,14 @@ const Wallet = () => {
 
   const getTransactionLabel = (type: string) => {
     switch (type) {
-      case 'chapter':
+      case 'purchase':
         return 'Chapter Purchase';
-      case 'story':
-        return 'Full Story Purchase';
       case 'tip':
         return 'Author Tip';
+      case 'donation':
+        return 'Donation';
+      case 'issuance':
+        return 'Welcome Credits';
       default:
         return 'Transaction';
     }
@@ -129,7 +131,7 @@ const Wallet = () => {
               <CardContent>
                 <div className="text-center">
                   <div className="text-4xl font-bold text-primary mb-2">
-                    {profile?.wallet_balance || 0}
+                    {credits?.balance || 0}
                   </div>
                   <p className="text-muted-foreground mb-4">Credits Available</p>
                   
@@ -154,14 +156,14 @@ const Wallet = () => {
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Stories Supported</span>
                   <Badge variant="secondary">
-                    {new Set(transactions.map(t => t.story.title)).size}
+                    {new Set(transactions.filter(t => t.story).map(t => t.story!.title)).size}
                   </Badge>
                 </div>
                 
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Authors Supported</span>
                   <Badge variant="secondary">
-                    {new Set(transactions.map(t => t.story.author.display_name)).size}
+                    {new Set(transactions.map(t => t.to_user_id ?? t.story_id)).size}
                   </Badge>
                 </div>
                 
@@ -236,7 +238,8 @@ const Wallet = () => {
                                 {getTransactionLabel(transaction.transaction_type)}
                               </h4>
                               <p className="text-sm text-muted-foreground">
-                                {transaction.story.title} • by {transaction.story.author.display_name}
+                                {transaction.story?.title || 'HerStories'}
+                                {transaction.chapter && ` • Chapter ${transaction.chapter.chapter_number}`}
                               </p>
                               <p className="text-xs text-muted-foreground">
                                 {new Date(transaction.created_at).toLocaleDateString()} at{' '}
@@ -256,6 +259,15 @@ const Wallet = () => {
                             >
                               {transaction.transaction_type}
                             </Badge>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs mt-1"
+                              onClick={() => setSelectedReceipt(transaction)}
+                            >
+                              <Receipt className="h-3 w-3 mr-1" />
+                              Receipt
+                            </Button>
                           </div>
                         </div>
                         
@@ -302,6 +314,69 @@ const Wallet = () => {
         </div>
       </div>
 
+      <Dialog open={!!selectedReceipt} onOpenChange={(open) => !open && setSelectedReceipt(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Receipt className="h-5 w-5 mr-2 text-primary" />
+              Receipt
+            </DialogTitle>
+            <DialogDescription>
+              {selectedReceipt && getTransactionLabel(selectedReceipt.transaction_type)}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedReceipt && (
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Receipt #</span>
+                <span className="font-mono text-xs">{selectedReceipt.id}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Date</span>
+                <span>{new Date(selectedReceipt.completed_at || selectedReceipt.created_at).toLocaleString()}</span>
+              </div>
+              {selectedReceipt.story && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Story</span>
+                  <span>{selectedReceipt.story.title}</span>
+                </div>
+              )}
+              {selectedReceipt.chapter && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Chapter</span>
+                  <span>{selectedReceipt.chapter.chapter_number}: {selectedReceipt.chapter.title}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Status</span>
+                <Badge variant="outline" className="text-xs">{selectedReceipt.status}</Badge>
+              </div>
+
+              <Separator />
+
+              <div className="flex justify-between">
+                <span>To author</span>
+                <span>{selectedReceipt.author_amount ?? selectedReceipt.amount} credits</span>
+              </div>
+              <div className="flex justify-between">
+                <span>To impact fund</span>
+                <span className="text-empowerment">{selectedReceipt.impact_amount || 0} credits</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span>{selectedReceipt.amount} credits</span>
+              </div>
+
+              {selectedReceipt.blockchain_tx_hash && (
+                <p className="text-xs text-muted-foreground break-all">
+                  Blockchain TX: {selectedReceipt.blockchain_tx_hash}
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Footer />
     </div>
   );
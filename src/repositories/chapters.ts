@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+/**
+ * Data access for chapters.
+ *
+ * Readers go through chapter_previews, which returns a teaser instead of the
+ * full text for chapters they cannot open; the chapters table itself only
+ * returns rows the caller has access to.
+ */
+
+export type Chapter = Tables<'chapters'>;
+export type ChapterPreview = Tables<'chapter_previews'>;
+
+/**
+ * Every chapter of a story, drafts included, for its author
+ */
+export const listChapters = async (storyId: string): Promise<Chapter[]> => {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('*')
+    .eq('story_id', storyId)
+    .order('chapter_number');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * A story's published chapters as the signed-in reader sees them
+ */
+export const listChapterPreviews = async (storyId: string) => {
+  const { data, error } = await supabase
+    .from('chapter_previews')
+    .select('id, chapter_number, title, content, is_free, price, published, created_at, has_access')
+    .eq('story_id', storyId)
+    .eq('published', true)
+    .order('chapter_number');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * A story's published chapters in reading order, for moving between them.
+ * Numbers can skip, so neighbours are found by position rather than number.
+ */
+export const listChapterOutline = async (storyId: string) => {
+  const { data, error } = await supabase
+    .from('chapter_previews')
+    .select('id, chapter_number, title')
+    .eq('story_id', storyId)
+    .eq('published', true)
+    .order('chapter_number');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * A published chapter in full, with the story details the reader page shows.
+ * Returns null when the chapter does not exist or the caller cannot read it.
+ */
+export const getReadableChapter = async (chapterId: string) => {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select(`
+      *,
+      story:public_stories(
+        id,
+        title,
+        author_id,
+        author_name,
+        is_own,
+        price_per_chapter,
+        total_chapters,
+        impact_percentage,
+        beneficiary:beneficiaries(name)
+      )
+    `)
+    .eq('id', chapterId)
+    .eq('published', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Count a read of this chapter towards its story's trending and popular
+ * ranks. Reads by the author or by signed-out visitors are ignored.
+ */
+export const recordChapterRead = async (chapterId: string): Promise<void> => {
+  const { error } = await supabase.rpc('record_chapter_read', { p_chapter_id: chapterId });
+
+  if (error) throw error;
+};
+
+/**
+ * Chapters queued to publish later across the given stories, soonest first
+ */
+export const listScheduledChapters = async (storyIds: string[]) => {
+  if (storyIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('id, story_id, chapter_number, title, publish_at')
+    .in('story_id', storyIds)
+    .eq('published', false)
+    .not('publish_at', 'is', null)
+    .order('publish_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createChapter = async (values: TablesInsert<'chapters'>): Promise<Chapter> => {
+  const { data, error } = await supabase
+    .from('chapters')
+    .insert(values)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateChapter = async (chapterId: string, updates: TablesUpdate<'chapters'>): Promise<void> => {
+  const { error } = await supabase
+    .from('chapters')
+    .update(updates)
+    .eq('id', chapterId);
+
+  if (error) throw error;
+};
+
+/**
+ * Put a story's chapters in this order, renumbering them from 1
+ */
+export const reorderChapters = async (storyId: string, chapterIds: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('reorder_chapters', {
+    p_story_id: storyId,
+    p_chapter_ids: chapterIds
+  });
+
+  if (error) throw error;
+};
+
+export const deleteChapter = async (chapterId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chapters')
+    .delete()
+    .eq('id', chapterId);
+
+  if (error) throw error;
+};
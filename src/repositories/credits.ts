@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+/**
+ * Data access for credit balances, transactions and journal entries.
+ *
+ * Balances only change through database functions (see utils/credits), so
+ * there are no update helpers here.
+ */
+
+export type UserCredits = Tables<'user_credits'>;
+export type Transaction = Tables<'transactions'>;
+export type TransactionHistoryEntry = Tables<'transaction_history'>;
+export type LedgerEntry = Tables<'credit_ledger_entries'>;
+
+export const getCreditAccount = async (userId: string): Promise<UserCredits | null> => {
+  const { data, error } = await supabase
+    .from('user_credits')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Open a zero balance account; does nothing if the user already has one
+ */
+export const createCreditAccount = async (userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('user_credits')
+    .insert({
+      user_id: userId,
+      balance: 0,
+      total_earned: 0,
+      total_spent: 0
+    });
+
+  if (error && error.code !== '23505') throw error;
+};
+
+/**
+ * Transactions the user sent or received, newest first. The recipient is
+ * blank on payments the user made to the author of an anonymous story.
+ */
+export const listTransactions = async (userId: string, limit: number): Promise<TransactionHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('transaction_history')
+    .select('*')
+    .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const listLedgerEntries = async (userId: string, limit: number) => {
+  const { data, error } = await supabase
+    .from('credit_ledger_entries')
+    .select('id, transaction_id, entry_type, amount, currency, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ChapterPriceMode } from '@/lib/chapterPricing';
+
+/**
+ * Data access for the chapter drafts the editor autosaves.
+ *
+ * There is one draft per chapter, and one per story for a chapter that has not
+ * been created yet (chapterId null). Only the author can see them.
+ */
+
+export type ChapterDraft = Tables<'chapter_drafts'>;
+
+export interface ChapterDraftValues {
+  title: string;
+  content: string;
+  priceMode: ChapterPriceMode;
+  /** The custom price, while one is being entered */
+  price: number | null;
+}
+
+export const getChapterDraft = async (storyId: string, chapterId: string | null): Promise<ChapterDraft | null> => {
+  let query = supabase
+    .from('chapter_drafts')
+    .select('*')
+    .eq('story_id', storyId);
+
+  query = chapterId ? query.eq('chapter_id', chapterId) : query.is('chapter_id', null);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Replace the draft with these values. Returns when it was saved.
+ */
+export const saveChapterDraft = async (
+  storyId: string,
+  chapterId: string | null,
+  values: ChapterDraftValues
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('save_chapter_draft', {
+    p_story_id: storyId,
+    p_chapter_id: chapterId,
+    p_title: values.title,
+    p_content: values.content,
+    p_price_mode: values.priceMode,
+    p_price: values.price
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteChapterDraft = async (storyId: string, chapterId: string | null): Promise<void> => {
+  let query = supabase
+    .from('chapter_drafts')
+    .delete()
+    .eq('story_id', storyId);
+
+  query = chapterId ? query.eq('chapter_id', chapterId) : query.is('chapter_id', null);
+
+  const { error } = await query;
+
+  if (error) throw error;
+};
@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Data access for story follows.
+ *
+ * Following a story notifies the reader whenever a chapter of it goes live.
+ * Follows are private: only the follower can see them.
+ */
+
+export const isFollowingStory = async (userId: string, storyId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('story_follows')
+    .select('story_id')
+    .eq('user_id', userId)
+    .eq('story_id', storyId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const followStory = async (userId: string, storyId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('story_follows')
+    .upsert({ user_id: userId, story_id: storyId }, { onConflict: 'user_id,story_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+export const unfollowStory = async (userId: string, storyId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('story_follows')
+    .delete()
+    .eq('user_id', userId)
+    .eq('story_id', storyId);
+
+  if (error) throw error;
+};
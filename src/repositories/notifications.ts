@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Data access for the signed-in user's notifications, which the database
+ * creates (for example when a followed story publishes a chapter).
+ */
+
+/**
+ * The user's latest notifications, newest first, with the story and chapter
+ * they are about
+ */
+export const listNotifications = async (userId: string, limit = 20) => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(`
+      id,
+      type,
+      story_id,
+      chapter_id,
+      read_at,
+      created_at,
+      story:public_stories(title),
+      chapter:chapter_previews(chapter_number, title)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds);
+
+  if (error) throw error;
+};
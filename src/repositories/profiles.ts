@@ -0,0 +1,111 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+/**
+ * Data access for user and author profiles.
+ *
+ * profiles and author_profiles rows are only readable by their owner. Other
+ * users are read through the public_profiles view, which leaves out anonymous
+ * authors; they are known only by the pen name in anonymous_authors.
+ */
+
+export type Profile = Tables<'profiles'>;
+export type AuthorProfile = Tables<'author_profiles'>;
+export type PublicProfile = Tables<'public_profiles'>;
+export type AnonymousAuthor = Tables<'anonymous_authors'>;
+
+/** What profiles.wallet_data holds, saved when the wallet is connected during setup */
+export interface WalletData {
+  account?: string;
+  chainId?: string;
+  connectedAt?: string;
+  networkName?: string;
+}
+
+export const getProfile = async (userId: string): Promise<Profile | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The fields anyone may see about a user, including an author's payout address
+ */
+export const getPublicProfile = async (userId: string): Promise<PublicProfile | null> => {
+  const { data, error } = await supabase
+    .from('public_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The pen name behind an anonymous author handle
+ */
+export const getAnonymousAuthor = async (handle: string): Promise<AnonymousAuthor | null> => {
+  const { data, error } = await supabase
+    .from('anonymous_authors')
+    .select('*')
+    .eq('handle', handle)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const createProfile = async (values: TablesInsert<'profiles'>): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .insert(values);
+
+  if (error) throw error;
+};
+
+export const updateProfile = async (userId: string, updates: TablesUpdate<'profiles'>): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+export const countAuthors = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('public_profiles')
+    .select('id', { count: 'exact', head: true })
+    .eq('is_author', true);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+export const getAuthorProfile = async (userId: string): Promise<AuthorProfile | null> => {
+  const { data, error } = await supabase
+    .from('author_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Create the author profile, or update it if the user already has one
+ */
+export const saveAuthorProfile = async (values: TablesInsert<'author_profiles'>): Promise<void> => {
+  const { error } = await supabase
+    .from('author_profiles')
+    .upsert(values, { onConflict: 'user_id' });
+
+  if (error) throw error;
+};
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Data access for what readers have paid for and can read
+ */
+
+/**
+ * Payments the user made, newest first, with the story and chapter they were for
+ */
+export const listPurchaseHistory = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('transaction_history')
+    .select(`
+      *,
+      story:public_stories(title),
+      chapter:chapters(chapter_number, title)
+    `)
+    .eq('from_user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * A user's entitlements in one story, expired ones included
+ */
+export const listStoryEntitlements = async (userId: string, storyId: string) => {
+  const { data, error } = await supabase
+    .from('entitlements')
+    .select('chapter_id, expires_at')
+    .eq('user_id', userId)
+    .eq('story_id', storyId);
+
+  if (error) throw error;
+  return data || [];
+};
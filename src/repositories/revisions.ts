@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+/**
+ * Data access for chapter revisions.
+ *
+ * The database records a revision whenever a chapter's title or content
+ * changes, so there is nothing to write from here except restores. Only the
+ * author can read them.
+ */
+
+export type ChapterRevision = Tables<'chapter_revisions'>;
+
+/**
+ * A chapter's revisions, newest first
+ */
+export const listChapterRevisions = async (chapterId: string): Promise<ChapterRevision[]> => {
+  const { data, error } = await supabase
+    .from('chapter_revisions')
+    .select('*')
+    .eq('chapter_id', chapterId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Make a revision the chapter's text again. Returns the id of the revision
+ * that records the restore.
+ */
+export const restoreChapterRevision = async (revisionId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('restore_chapter_revision', {
+    p_revision_id: revisionId
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,265 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+/**
+ * Data access for stories, their categories and cover images.
+ *
+ * Readers go through public_stories, which never carries the real author of an
+ * anonymous story; the stories table itself only returns the caller's own.
+ *
+ * Like every repository, these functions throw the Supabase error on failure
+ * and return null when a single row is not found.
+ */
+
+export type Story = Tables<'stories'>;
+export type PublicStory = Tables<'public_stories'>;
+export type Category = Tables<'categories'>;
+
+const COVER_BUCKET = 'story-covers';
+
+export const listCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getCategoryByName = async (name: string): Promise<Category | null> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export type StorySort =
+  | 'relevance'
+  | 'newest'
+  | 'trending'
+  | 'popular'
+  | 'most_supported'
+  | 'price_low'
+  | 'price_high';
+
+export interface StorySearch {
+  query?: string;
+  categoryId?: string;
+  /** Tag slugs; a story must carry every one of them */
+  tags?: string[];
+  sort?: StorySort;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * One page of published stories matching a search, best match first unless
+ * another sort is asked for. Every row carries the total number of matches.
+ *
+ * Trending, popular and most supported rank by reads, purchases and tips over
+ * the last week or month, totalled by the database every 15 minutes.
+ */
+export const searchStories = async ({
+  query,
+  categoryId,
+  tags,
+  sort = 'relevance',
+  limit = 12,
+  offset = 0,
+}: StorySearch = {}) => {
+  const { data, error } = await supabase.rpc('search_stories', {
+    p_query: query || null,
+    p_category_id: categoryId || null,
+    p_sort: sort,
+    p_limit: limit,
+    p_offset: offset,
+    p_tags: tags?.length ? tags : null,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Stories picked for the signed-in reader from what they bought, read and
+ * follow, best first. because_story_title names the story that led to each
+ * one; it is null for the trending stories that fill any remaining places.
+ */
+export const listRecommendedStories = async (limit = 6) => {
+  const { data, error } = await supabase.rpc('recommend_stories', { p_limit: limit });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Every story an author wrote, drafts included, newest first
+ */
+export const listAuthorStories = async (authorId: string) => {
+  const { data, error } = await supabase
+    .from('stories')
+    .select(`
+      *,
+      category:categories(id, name, description)
+    `)
+    .eq('author_id', authorId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * An author's published stories with their chapters, for their public page.
+ * The handle is the author's user id, or their pen handle for anonymous stories.
+ */
+export const listAuthorPublishedStories = async (authorHandle: string) => {
+  const { data, error } = await supabase
+    .from('public_stories')
+    .select(`
+      *,
+      category:categories(name),
+      chapters(id, chapter_number, title, content, is_free, price_mode, price, published, created_at)
+    `)
+    .eq('author_handle', authorHandle)
+    .eq('published', true)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * A published story with its category and beneficiary
+ */
+export const getPublishedStory = async (storyId: string) => {
+  const { data, error } = await supabase
+    .from('public_stories')
+    .select(`
+      *,
+      category:categories(name),
+      beneficiary:beneficiaries(name, description, website_url)
+    `)
+    .eq('id', storyId)
+    .eq('published', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Any story the caller can see, with its category and beneficiary
+ */
+export const getStory = async (storyId: string) => {
+  const { data, error } = await supabase
+    .from('stories')
+    .select(`
+      *,
+      categories(name),
+      beneficiary:beneficiaries(id, name, description, wallet_address)
+    `)
+    .eq('id', storyId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The pricing details needed to sell a story's chapters
+ */
+export const getStoryForSale = async (storyId: string) => {
+  const { data, error } = await supabase
+    .from('public_stories')
+    .select('id, title, price_per_chapter, author_name, is_own, impact_percentage, beneficiary:beneficiaries(name, wallet_address)')
+    .eq('id', storyId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The wallet to send BDAG to for a story: the author's, or the platform's
+ * payout relay when the story is anonymous. Null when none is set up.
+ */
+export const getStoryPayoutAddress = async (storyId: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('get_story_payout_address', { p_story_id: storyId });
+
+  if (error) throw error;
+  return data;
+};
+
+export const countPublishedStories = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('public_stories')
+    .select('id', { count: 'exact', head: true })
+    .eq('published', true);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+export const createStory = async (values: TablesInsert<'stories'>): Promise<Story> => {
+  const { data, error } = await supabase
+    .from('stories')
+    .insert(values)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateStory = async (storyId: string, updates: TablesUpdate<'stories'>): Promise<void> => {
+  const { error } = await supabase
+    .from('stories')
+    .update(updates)
+    .eq('id', storyId);
+
+  if (error) throw error;
+};
+
+/**
+ * Upload a cover image and point the story at it. Returns the public URL.
+ */
+export const uploadStoryCover = async (storyId: string, file: File): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `covers/${storyId}-${Date.now()}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(COVER_BUCKET)
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(COVER_BUCKET)
+    .getPublicUrl(filePath);
+
+  await updateStory(storyId, { cover_image_url: publicUrl });
+  return publicUrl;
+};
+
+/**
+ * Delete a story's cover image file and clear it from the story
+ */
+export const removeStoryCover = async (storyId: string, coverUrl: string): Promise<void> => {
+  const fileName = coverUrl.split('/').pop();
+  if (fileName) {
+    await supabase.storage
+      .from(COVER_BUCKET)
+      .remove([`covers/${fileName}`]);
+  }
+
+  await updateStory(storyId, { cover_image_url: null });
+};
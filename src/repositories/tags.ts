@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+
+/**
+ * Data access for story tags.
+ *
+ * Tags are shared by slug, so "Single Mothers" and "single-mothers" are one
+ * tag. Curated tags are the themes, regions and languages offered everywhere;
+ * the rest are added by authors as they tag their stories. Only admins can
+ * rename or merge tags.
+ */
+
+export type Tag = Tables<'tags'>;
+export type TagSummary = Tables<'tag_summaries'>;
+
+/**
+ * Every tag with the number of published stories carrying it, most used first
+ */
+export const listTagSummaries = async (): Promise<TagSummary[]> => {
+  const { data, error } = await supabase
+    .from('tag_summaries')
+    .select('*')
+    .order('story_count', { ascending: false })
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getTagBySlug = async (slug: string): Promise<Tag | null> => {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * A story's tags, alphabetically. Empty for stories the caller cannot see.
+ */
+export const listStoryTags = async (storyId: string): Promise<Tag[]> => {
+  const { data, error } = await supabase
+    .from('story_tags')
+    .select('tag:tags(*)')
+    .eq('story_id', storyId);
+
+  if (error) throw error;
+  return (data || [])
+    .map((row) => row.tag)
+    .filter((tag): tag is Tag => !!tag)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Replaces a story's tags with the given names, creating any tag that does
+ * not exist yet. Only the story's author can do this, with up to 10 tags.
+ */
+export const setStoryTags = async (storyId: string, names: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('set_story_tags', { p_story_id: storyId, p_tags: names });
+
+  if (error) throw error;
+};
+
+export const updateTag = async (
+  tagId: string,
+  updates: Pick<TablesUpdate<'tags'>, 'name' | 'kind' | 'curated'>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('tags')
+    .update(updates)
+    .eq('id', tagId);
+
+  if (error) throw error;
+};
+
+/**
+ * Moves every story from one tag onto another and deletes the first
+ */
+export const mergeTags = async (sourceId: string, targetId: string): Promise<void> => {
+  const { error } = await supabase.rpc('merge_tags', { p_source_id: sourceId, p_target_id: targetId });
+
+  if (error) throw error;
+};
@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type VerificationStatus = 'pending' | 'verified' | 'rejected';
+
+export interface Beneficiary {
+  id: string;
+  name: string;
+  description: string | null;
+  website_url: string | null;
+  wallet_address: string | null;
+  verification_status: VerificationStatus;
+  verified_at: string | null;
+  created_at: string;
+}
+
+export interface BeneficiaryData {
+  name: string;
+  description?: string;
+  websiteUrl?: string;
+  walletAddress?: string;
+}
+
+const BENEFICIARY_COLUMNS = 'id, name, description, website_url, wallet_address, verification_status, verified_at, created_at';
+
+/**
+ * Get organisations authors can send their impact share to
+ */
+export const getVerifiedBeneficiaries = async (): Promise<Beneficiary[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('beneficiaries')
+      .select(BENEFICIARY_COLUMNS)
+      .eq('verification_status', 'verified')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching beneficiaries:', error);
+      return [];
+    }
+
+    return (data || []) as Beneficiary[];
+  } catch (error) {
+    console.error('Error in getVerifiedBeneficiaries:', error);
+    return [];
+  }
+};
+
+/**
+ * Get every beneficiary regardless of status (admins only, enforced by RLS)
+ */
+export const getAllBeneficiaries = async (): Promise<Beneficiary[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('beneficiaries')
+      .select(BENEFICIARY_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching beneficiaries:', error);
+      return [];
+    }
+
+    return (data || []) as Beneficiary[];
+  } catch (error) {
+    console.error('Error in getAllBeneficiaries:', error);
+    return [];
+  }
+};
+
+/**
+ * Create a beneficiary, or update it when an id is given. New entries start as pending.
+ */
+export const saveBeneficiary = async (
+  beneficiaryData: BeneficiaryData,
+  beneficiaryId?: string
+): Promise<{ success: boolean; beneficiaryId?: string; error?: string }> => {
+  try {
+    const values = {
+      name: beneficiaryData.name.trim(),
+      description: beneficiaryData.description?.trim() || null,
+      website_url: beneficiaryData.websiteUrl?.trim() || null,
+      wallet_address: beneficiaryData.walletAddress?.trim() || null,
+    };
+
+    const query = beneficiaryId
+      ? supabase.from('beneficiaries').update(values).eq('id', beneficiaryId)
+      : supabase.from('beneficiaries').insert(values);
+
+    const { data, error } = await query.select('id').single();
+
+    if (error) {
+      console.error('Error saving beneficiary:', error);
+      if (error.code === '23505') {
+        return { success: false, error: 'A beneficiary with this name already exists' };
+      }
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, beneficiaryId: data.id };
+  } catch (error) {
+    console.error('Error in saveBeneficiary:', error);
+    return { success: false, error: 'Failed to save beneficiary' };
+  }
+};
+
+/**
+ * Verify or reject a beneficiary
+ */
+export const setBeneficiaryStatus = async (
+  beneficiaryId: string,
+  status: VerificationStatus
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('beneficiaries')
+      .update({
+        verification_status: status,
+        verified_at: status === 'verified' ? new Date().toISOString() : null,
+      })
+      .eq('id', beneficiaryId);
+
+    if (error) {
+      console.error('Error updating beneficiary status:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in setBeneficiaryStatus:', error);
+    return { success: false, error: 'Failed to update beneficiary status' };
+  }
+};
+
+/**
+ * Delete a beneficiary. Stories that pointed at it fall back to no beneficiary.
+ */
+export const deleteBeneficiary = async (
+  beneficiaryId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('beneficiaries')
+      .delete()
+      .eq('id', beneficiaryId);
+
+    if (error) {
+      console.error('Error deleting beneficiary:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteBeneficiary:', error);
+    return { success: false, error: 'Failed to delete beneficiary' };
+  }
+};
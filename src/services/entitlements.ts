@@ -0,0 +1,127 @@
+import { supabase } from '@/integrations/supabase/client';
+import { listStoryEntitlements } from '@/repositories/purchases';
+
+export type EntitlementSource = 'purchase' | 'gift' | 'promo' | 'author_grant' | 'subscription';
+
+export interface Entitlement {
+  id: string;
+  user_id: string;
+  story_id: string;
+  /** null grants the whole story */
+  chapter_id: string | null;
+  source: EntitlementSource;
+  transaction_id: string | null;
+  granted_by: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface StoryEntitlements {
+  /** The reader can open every chapter of the story */
+  wholeStory: boolean;
+  /** Chapters the reader holds individually */
+  chapterIds: Set<string>;
+}
+
+const isActive = (entitlement: Pick<Entitlement, 'expires_at'>) =>
+  !entitlement.expires_at || new Date(entitlement.expires_at) > new Date();
+
+/**
+ * Get what a user can read in a story, from every source of access
+ */
+export const getStoryEntitlements = async (
+  userId: string,
+  storyId: string
+): Promise<StoryEntitlements> => {
+  const empty: StoryEntitlements = { wholeStory: false, chapterIds: new Set() };
+
+  try {
+    const data = await listStoryEntitlements(userId, storyId);
+    const active = data.filter(isActive);
+
+    return {
+      wholeStory: active.some(e => e.chapter_id === null),
+      chapterIds: new Set(active.flatMap(e => (e.chapter_id ? [e.chapter_id] : [])))
+    };
+  } catch (error) {
+    console.error('Error in getStoryEntitlements:', error);
+    return empty;
+  }
+};
+
+/**
+ * Check if the signed-in user can read a chapter in full.
+ *
+ * Access is decided by the `has_chapter_access` database function, the same
+ * check the chapters RLS policy uses: the chapter is free, the caller wrote it,
+ * or they hold an entitlement to the chapter or the whole story.
+ */
+export const checkChapterAccess = async (chapterId: string) => {
+  try {
+    const { data, error } = await supabase.rpc('has_chapter_access', {
+      p_chapter_id: chapterId
+    });
+
+    if (error) {
+      console.error('Error checking chapter access:', error);
+      return { success: false, error: 'Failed to check chapter access' };
+    }
+
+    return { success: true, hasAccess: data === true };
+  } catch (error) {
+    console.error('Error checking chapter access:', error);
+    return { success: false, error: 'Failed to check chapter access' };
+  }
+};
+
+/**
+ * Give a reader access without a payment. Authors can gift or grant access to
+ * their own stories; promo and subscription access is admin-only.
+ */
+export const grantEntitlement = async (grant: {
+  userId: string;
+  storyId: string;
+  /** Omit to grant the whole story */
+  chapterId?: string;
+  source?: Exclude<EntitlementSource, 'purchase'>;
+  expiresAt?: string;
+}): Promise<{ success: boolean; entitlementId?: string; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('grant_story_entitlement', {
+      p_user_id: grant.userId,
+      p_story_id: grant.storyId,
+      p_chapter_id: grant.chapterId,
+      p_source: grant.source,
+      p_expires_at: grant.expiresAt
+    });
+
+    if (error) {
+      console.error('Error granting entitlement:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, entitlementId: data };
+  } catch (error) {
+    console.error('Error in grantEntitlement:', error);
+    return { success: false, error: 'Failed to grant access' };
+  }
+};
+
+/**
+ * Number of distinct readers who hold access to any story
+ */
+export const getReaderCount = async (): Promise<number> => {
+  try {
+    const { data, error } = await supabase.rpc('count_readers');
+
+    if (error) {
+      console.error('Error counting readers:', error);
+      return 0;
+    }
+
+    return data || 0;
+  } catch (error) {
+    console.error('Error in getReaderCount:', error);
+    return 0;
+  }
+};
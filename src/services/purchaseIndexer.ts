@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  SIMPLE_BDAG_TRANSFER_ABI,
+  CONTRACT_ADDRESSES,
+  uint256ToUuid,
+} from '@/integrations/web3/contracts';
+
+export interface PurchaseIndexerOptions {
+  /** Any JSON-RPC provider: the BlockDAG RPC, or a local Hardhat / Anvil node */
+  provider: ethers.providers.Provider;
+  /** Must use the service role key; index_bdag_purchase is not granted to users */
+  supabase: SupabaseClient<Database>;
+  contractAddress?: string;
+  /** First block to read; defaults to the block after the saved cursor */
+  fromBlock?: number;
+  /** Last block to read; defaults to the latest block minus confirmations */
+  toBlock?: number;
+  /** Blocks per getLogs request */
+  batchSize?: number;
+  /** Blocks to stay behind the head so reorgs don't index dropped purchases */
+  confirmations?: number;
+}
+
+export interface IndexedPurchase {
+  txHash: string;
+  blockNumber: number;
+  buyer: string;
+  /** The address the contract paid as the author; must be the story's payout address */
+  author: string;
+  /** Where the impact share went; must be the story's beneficiary or the impact treasury */
+  impactRecipient: string;
+  storyId: string;
+  chapterId: string | null;
+  amount: string;
+}
+
+export interface PurchaseIndexerResult {
+  fromBlock: number;
+  toBlock: number;
+  indexed: IndexedPurchase[];
+  /**
+   * Events that can't be matched to our data, e.g. a buyer wallet no profile
+   * uses and no pending payment claims, or that didn't pay the story's author,
+   * its beneficiary or its own impact share
+   */
+  skipped: Array<IndexedPurchase & { reason: string }>;
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+const contractInterface = new ethers.utils.Interface(SIMPLE_BDAG_TRANSFER_ABI);
+const PURCHASE_TOPICS = [
+  contractInterface.getEventTopic('ChapterPurchased'),
+  contractInterface.getEventTopic('StoryPurchased'),
+];
+
+/**
+ * Read ChapterPurchased and StoryPurchased events from SimpleBDAGTransfer and
+ * record each one through `index_bdag_purchase`, which writes the BDAG
+ * transaction and the purchases row. Recording is idempotent by tx hash, and the
+ * last indexed block is saved in `blockchain_sync_state` after every batch, so
+ * the indexer can be stopped and re-run at any point.
+ */
+export const indexPurchaseEvents = async ({
+  provider,
+  supabase,
+  contractAddress = CONTRACT_ADDRESSES.SIMPLE_BDAG_TRANSFER,
+  fromBlock,
+  toBlock,
+  batchSize = DEFAULT_BATCH_SIZE,
+  confirmations = 0,
+}: PurchaseIndexerOptions): Promise<PurchaseIndexerResult> => {
+  const address = contractAddress.toLowerCase();
+
+  const startBlock = fromBlock ?? (await getLastIndexedBlock(supabase, address)) + 1;
+  const endBlock = toBlock ?? (await provider.getBlockNumber()) - confirmations;
+
+  const result: PurchaseIndexerResult = { fromBlock: startBlock, toBlock: endBlock, indexed: [], skipped: [] };
+
+  // Impact shares of stories without a beneficiary wallet go to the treasury
+  const contract = new ethers.Contract(contractAddress, SIMPLE_BDAG_TRANSFER_ABI, provider);
+  const impactTreasury: string = await contract.impactTreasury();
+
+  for (let batchStart = startBlock; batchStart <= endBlock; batchStart += batchSize) {
+    const batchEnd = Math.min(batchStart + batchSize - 1, endBlock);
+
+    const logs = await provider.getLogs({
+      address: contractAddress,
+      topics: [PURCHASE_TOPICS],
+      fromBlock: batchStart,
+      toBlock: batchEnd,
+    });
+
+    for (const log of logs) {
+      const event = contractInterface.parseLog(log);
+      const purchase: IndexedPurchase = {
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        buyer: event.args.buyer,
+        author: event.args.author,
+        impactRecipient: event.args.impactRecipient,
+        storyId: '',
+        chapterId: null,
+        amount: ethers.utils.formatEther(event.args.amount),
+      };
+
+      try {
+        purchase.storyId = uint256ToUuid(event.args.storyId);
+        if (event.name === 'ChapterPurchased') {
+          purchase.chapterId = uint256ToUuid(event.args.chapterId);
+        }
+      } catch (decodeError) {
+        // Purchases made before IDs were UUID-encoded can't be joined to our rows
+        result.skipped.push({ ...purchase, reason: (decodeError as Error).message });
+        continue;
+      }
+
+      const { error } = await supabase.rpc('index_bdag_purchase', {
+        p_blockchain_tx_hash: purchase.txHash,
+        p_buyer_address: purchase.buyer,
+        p_author_address: purchase.author,
+        p_impact_recipient: purchase.impactRecipient,
+        p_impact_treasury: impactTreasury,
+        p_story_id: purchase.storyId,
+        p_chapter_id: purchase.chapterId,
+        p_amount: Number(purchase.amount),
+        p_impact_amount: Number(ethers.utils.formatEther(event.args.impactAmount)),
+        p_platform_fee: Number(ethers.utils.formatEther(event.args.platformFee)),
+      });
+
+      if (error) {
+        // Missing rows won't appear and a payment to the wrong author or
+        // beneficiary won't become right by retrying, so skip them; anything else stops here
+        // and the batch is re-read on the next run
+        if (error.code === 'P0002' || error.code === '22023') {
+          console.warn('Skipping purchase event:', purchase.txHash, error.message);
+          result.skipped.push({ ...purchase, reason: error.message });
+          continue;
+        }
+
+        console.error('Error indexing purchase event:', error);
+        throw new Error(`Failed to index ${purchase.txHash}: ${error.message}`);
+      }
+
+      result.indexed.push(purchase);
+    }
+
+    const { error: cursorError } = await supabase
+      .from('blockchain_sync_state')
+      .upsert({ contract_address: address, last_indexed_block: batchEnd });
+
+    if (cursorError) {
+      console.error('Error saving indexer cursor:', cursorError);
+      throw new Error(`Failed to save indexer cursor: ${cursorError.message}`);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Get the last block indexed for a contract, or -1 if it has never been indexed
+ */
+export const getLastIndexedBlock = async (
+  supabase: SupabaseClient<Database>,
+  contractAddress: string
+): Promise<number> => {
+  const { data, error } = await supabase
+    .from('blockchain_sync_state')
+    .select('last_indexed_block')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading indexer cursor:', error);
+    throw new Error(`Failed to read indexer cursor: ${error.message}`);
+  }
+
+  return data ? data.last_indexed_block : -1;
+};
@@ -1,12 +1,22 @@
-import { supabase } from '@/integrations/supabase/client';
+import { createChapter } from '@/repositories/chapters';
+import { createStory as insertStory, getCategoryByName, getPublishedStory, getStory } from '@/repositories/stories';
+import { setStoryTags } from '@/repositories/tags';
 import { useToast } from '@/hooks/use-toast';
+import type { ChapterPriceMode } from '@/lib/chapterPricing';
 
 export interface StoryData {
   title: string;
   description: string;
-  category: string;
+  /** Category name; the story is saved uncategorised when it is missing or unknown */
+  category?: string;
+  /** Tag names, created when they do not exist yet */
+  tags?: string[];
   pricePerChapter: number;
   impactPercentage: number;
+  /** Discount when buying every chapter at once (0-90) */
+  bundleDiscountPercentage?: number;
+  /** Verified organisation that receives the impact share */
+  beneficiaryId?: string;
   isAnonymous: boolean;
   coverImageUrl?: string;
 }
@@ -14,8 +24,10 @@ export interface StoryData {
 export interface ChapterData {
   title: string;
   content: string;
-  price: number;
-  isFree?: boolean;
+  /** Defaults to the story's price per chapter */
+  priceMode?: ChapterPriceMode;
+  /** Credits, for a custom price */
+  price?: number;
 }
 
 /**
@@ -27,44 +39,49 @@ export const createStory = async (
   authorWallet: string
 ): Promise<{ success: boolean; storyId?: string; error?: string }> => {
   try {
-    // Find the category ID from the category name
-    const { data: categoryData, error: categoryError } = await supabase
-      .from('categories')
-      .select('id')
-      .eq('name', storyData.category)
-      .single();
+    // Find the category ID from the category name. Tags now carry most of
+    // the taxonomy, so an unknown category is not worth losing the story over
+    const categoryData = storyData.category ? await getCategoryByName(storyData.category) : null;
 
-    if (categoryError || !categoryData) {
-      console.error('Category not found:', storyData.category);
-      return { success: false, error: `Category "${storyData.category}" not found in database` };
+    if (storyData.category && !categoryData) {
+      console.warn('Category not found, saving the story uncategorised:', storyData.category);
     }
 
     // Create story in Supabase database
-    const { data: dbStory, error: dbError } = await supabase
-      .from('stories')
-      .insert({
+    let dbStory;
+    try {
+      dbStory = await insertStory({
         title: storyData.title,
         description: storyData.description,
         author_id: authorId,
-        category_id: categoryData.id,
+        category_id: categoryData?.id ?? null,
         price_per_chapter: storyData.pricePerChapter,
         impact_percentage: storyData.impactPercentage,
+        beneficiary_id: storyData.beneficiaryId || null,
+        bundle_discount_percentage: storyData.bundleDiscountPercentage || 0,
         is_anonymous: storyData.isAnonymous,
         cover_image_url: storyData.coverImageUrl,
         published: true,
         total_chapters: 0
-      })
-      .select()
-      .single();
-
-    if (dbError) {
+      });
+    } catch (dbError) {
       console.error('Database error:', dbError);
       return { success: false, error: 'Failed to save story to database' };
     }
 
+    if (storyData.tags?.length) {
+      try {
+        await setStoryTags(dbStory.id, storyData.tags);
+      } catch (tagError) {
+        // The story exists; its tags can be fixed from the dashboard
+        console.error('Error tagging story:', tagError);
+        return { success: true, storyId: dbStory.id, error: 'Story saved, but its tags could not be added' };
+      }
+    }
+
     console.log('Story created successfully:', {
       storyId: dbStory.id,
-      categoryId: categoryData.id,
+      categoryId: categoryData?.id ?? null,
       categoryName: storyData.category
     });
 
@@ -85,45 +102,28 @@ export const addChapter = async (
 ): Promise<{ success: boolean; chapterId?: string; error?: string }> => {
   try {
     // Get story info from database
-    const { data: story, error: storyError } = await supabase
-      .from('stories')
-      .select('price_per_chapter, total_chapters')
-      .eq('id', storyId)
-      .single();
+    const story = await getStory(storyId);
 
-    if (storyError || !story) {
+    if (!story) {
       return { success: false, error: 'Story not found' };
     }
 
-    // Use story's price_per_chapter if chapter doesn't have a specific price
-    const chapterPrice = chapterData.price || story.price_per_chapter;
-
     // Create chapter in database
-    const { data: chapter, error: chapterError } = await supabase
-      .from('chapters')
-      .insert({
+    let chapter;
+    try {
+      chapter = await createChapter({
         title: chapterData.title,
         content: chapterData.content,
         story_id: storyId,
-        chapter_number: (story.total_chapters || 0) + 1,
-        price: chapterPrice,
-        is_free: chapterData.isFree || false,
+        price_mode: chapterData.priceMode || 'inherit',
+        price: chapterData.priceMode === 'custom' ? chapterData.price : null,
         published: true
-      })
-      .select()
-      .single();
-
-    if (chapterError) {
+      });
+    } catch (chapterError) {
       console.error('Error creating chapter:', chapterError);
       return { success: false, error: 'Failed to create chapter' };
     }
 
-    // Update story's total chapters count
-    await supabase
-      .from('stories')
-      .update({ total_chapters: (story.total_chapters || 0) + 1 })
-      .eq('id', storyId);
-
     console.log('Chapter added successfully:', {
       chapterId: chapter.id,
       storyId: storyId,
@@ -138,64 +138,17 @@ export const addChapter = async (
 };
 
 /**
- * Get story information from database
+ * Get a published story as readers see it. The author is only named through
+ * author_name, so anonymous stories never reveal who wrote them.
  */
 export const getStoryInfo = async (storyId: string) => {
   try {
-    const { data, error } = await supabase
-      .from('stories')
-      .select(`
-        *,
-        categories(name),
-        profiles(display_name, wallet_address)
-      `)
-      .eq('id', storyId)
-      .single();
+    const data = await getPublishedStory(storyId);
+    if (!data) throw new Error('Story not found');
 
-    if (error) throw error;
     return { success: true, data };
   } catch (error) {
     console.error('Error getting story info:', error);
     return { success: false, error: 'Failed to get story info' };
   }
-};
-
-/**
- * Check if user has access to a chapter
- */
-export const checkChapterAccess = async (chapterId: string, userId: string) => {
-  try {
-    // Check if chapter is free
-    const { data: chapter, error: chapterError } = await supabase
-      .from('chapters')
-      .select('is_free, story_id')
-      .eq('id', chapterId)
-      .single();
-
-    if (chapterError || !chapter) {
-      return { success: false, error: 'Chapter not found' };
-    }
-
-    if (chapter.is_free) {
-      return { success: true, hasAccess: true };
-    }
-
-    // Check if user has purchased the chapter
-    const { data: purchase, error: purchaseError } = await supabase
-      .from('purchases')
-      .select('id')
-      .eq('chapter_id', chapterId)
-      .eq('user_id', userId)
-      .single();
-
-    if (purchaseError && purchaseError.code !== 'PGRST116') {
-      console.error('Error checking purchase:', purchaseError);
-      return { success: false, error: 'Failed to check purchase status' };
-    }
-
-    return { success: true, hasAccess: !!purchase };
-  } catch (error) {
-    console.error('Error checking chapter access:', error);
-    return { success: false, error: 'Failed to check chapter access' };
-  }
 };
\ No newline at end of file
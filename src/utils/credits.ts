@@ -1,12 +1,55 @@
 import { supabase } from '@/integrations/supabase/client';
+import {
+  createCreditAccount,
+  getCreditAccount,
+  listLedgerEntries,
+  listTransactions,
+  TransactionHistoryEntry
+} from '@/repositories/credits';
+
+export interface StoryPayment {
+  story_id: string;
+  chapter_id?: string;
+  amount: number;
+  transaction_type: 'purchase' | 'tip';
+  /** Reuse the same key when retrying so the payment is applied at most once */
+  idempotency_key?: string;
+}
+
+export interface CreditLedgerEntry {
+  id: string;
+  transaction_id: string | null;
+  entry_type: 'debit' | 'credit';
+  amount: number;
+  currency: 'credits' | 'BDAG';
+  created_at: string;
+}
 
-export interface CreditTransaction {
-  from_user_id: string;
-  to_user_id: string;
-  story_id?: string;
+export interface BlockchainPayment {
+  story_id: string;
   chapter_id?: string;
+  /** Whole BDAG paid on-chain */
   amount: number;
-  transaction_type: 'purchase' | 'tip' | 'donation';
+  transaction_type: 'purchase' | 'tip';
+  blockchain_tx_hash: string;
+}
+
+export interface ImpactPoolSummary {
+  currency: 'credits' | 'BDAG';
+  total_raised: number;
+  total_disbursed: number;
+  balance: number;
+}
+
+export interface ImpactDisbursement {
+  id: string;
+  amount: number;
+  currency: 'credits' | 'BDAG';
+  beneficiary_id: string | null;
+  recipient_name: string;
+  note: string | null;
+  blockchain_tx_hash: string | null;
+  disbursed_at: string;
 }
 
 export interface UserCreditBalance {
@@ -20,25 +63,18 @@ export interface UserCreditBalance {
  */
 export const getUserCredits = async (userId: string): Promise<UserCreditBalance | null> => {
   try {
-    console.log('Getting credits for user:', userId);
-    
-    const { data, error } = await supabase
-      .from('user_credits')
-      .select('balance, total_earned, total_spent')
-      .eq('user_id', userId)
-      .single();
+    const account = await getCreditAccount(userId);
 
-    if (error) {
-      console.error('Error fetching user credits:', error);
-      if (error.code === 'PGRST116') {
-        console.log('No credits found for user, will create default');
-        return null;
-      }
+    if (!account) {
+      console.log('No credits found for user, will create default');
       return null;
     }
 
-    console.log('Credits found:', data);
-    return data;
+    return {
+      balance: Number(account.balance ?? 0),
+      total_earned: Number(account.total_earned ?? 0),
+      total_spent: Number(account.total_spent ?? 0)
+    };
   } catch (error) {
     console.error('Error in getUserCredits:', error);
     return null;
@@ -46,221 +82,219 @@ export const getUserCredits = async (userId: string): Promise<UserCreditBalance
 };
 
 /**
- * Add credits to user's balance (for earnings)
+ * Pay a story's author in credits.
+ *
+ * The `pay_story_author` database function looks up the author itself and then
+ * runs process_credit_transaction: both balances are locked, the reader is
+ * checked for sufficient credits, the transaction row is written and author
+ * earnings are updated in one database transaction. Payments are split between
+ * the author and the impact pool using the story's impact_percentage, and
+ * retrying with the same idempotency key never moves credits twice. Readers
+ * never learn who the author of an anonymous story is.
  */
-export const addCredits = async (userId: string, amount: number): Promise<boolean> => {
+export const payStoryAuthor = async (
+  payment: StoryPayment
+): Promise<{ success: boolean; transactionId?: string; error?: string }> => {
   try {
-    const { error } = await supabase
-      .from('user_credits')
-      .upsert({
-        user_id: userId,
-        balance: amount,
-        total_earned: amount,
-        total_spent: 0
-      }, {
-        onConflict: 'user_id'
-      });
+    const { data, error } = await supabase.rpc('pay_story_author', {
+      p_story_id: payment.story_id,
+      p_amount: payment.amount,
+      p_transaction_type: payment.transaction_type,
+      p_idempotency_key: payment.idempotency_key || crypto.randomUUID(),
+      p_chapter_id: payment.chapter_id
+    });
 
     if (error) {
-      console.error('Error adding credits:', error);
-      return false;
+      console.error('Error paying story author:', error);
+      return { success: false, error: error.message };
     }
 
-    // Update balance by adding to existing
-    const { error: updateError } = await supabase.rpc('update_user_credits', {
-      user_id_param: userId,
-      amount: amount,
-      operation: 'add'
+    return { success: true, transactionId: data };
+  } catch (error) {
+    console.error('Error in payStoryAuthor:', error);
+    return { success: false, error: 'Failed to process payment' };
+  }
+};
+
+/**
+ * Get what the current user would pay for the rest of a story as a bundle:
+ * the chapters they don't own yet, after the author's bundle discount.
+ */
+export const getStoryBundlePrice = async (storyId: string): Promise<number | null> => {
+  try {
+    const { data, error } = await supabase.rpc('story_bundle_price', {
+      p_story_id: storyId
     });
 
-    if (updateError) {
-      console.error('Error updating credits via RPC:', updateError);
-      // Fallback to manual update
-      const { data: currentCredits } = await supabase
-        .from('user_credits')
-        .select('balance, total_earned')
-        .eq('user_id', userId)
-        .single();
-
-      if (currentCredits) {
-        const { error: fallbackError } = await supabase
-          .from('user_credits')
-          .update({
-            balance: currentCredits.balance + amount,
-            total_earned: currentCredits.total_earned + amount,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', userId);
-
-        if (fallbackError) {
-          console.error('Fallback credit update failed:', fallbackError);
-          return false;
-        }
-      }
+    if (error) {
+      console.error('Error fetching story bundle price:', error);
+      return null;
     }
 
-    return true;
+    return data ?? 0;
   } catch (error) {
-    console.error('Error in addCredits:', error);
-    return false;
+    console.error('Error in getStoryBundlePrice:', error);
+    return null;
   }
 };
 
 /**
- * Deduct credits from user's balance (for purchases)
+ * Buy every chapter of a story with credits.
+ *
+ * The `purchase_story_bundle` database function charges the bundle price
+ * through process_credit_transaction (so the impact split applies) and records
+ * a story-wide purchase in the same database transaction.
  */
-export const deductCredits = async (userId: string, amount: number): Promise<boolean> => {
+export const purchaseStoryBundle = async (
+  storyId: string,
+  idempotencyKey?: string
+): Promise<{ success: boolean; transactionId?: string | null; error?: string }> => {
   try {
-    const { data: currentCredits, error: fetchError } = await supabase
-      .from('user_credits')
-      .select('balance')
-      .eq('user_id', userId)
-      .single();
-
-    if (fetchError) {
-      console.error('Error fetching current credits:', fetchError);
-      return false;
-    }
+    const { data, error } = await supabase.rpc('purchase_story_bundle', {
+      p_story_id: storyId,
+      p_idempotency_key: idempotencyKey || crypto.randomUUID()
+    });
 
-    if (!currentCredits || currentCredits.balance < amount) {
-      console.error('Insufficient credits');
-      return false;
+    if (error) {
+      console.error('Error purchasing story bundle:', error);
+      return { success: false, error: error.message };
     }
 
-    const { error } = await supabase.rpc('update_user_credits', {
-      user_id_param: userId,
-      amount: amount,
-      operation: 'subtract'
+    return { success: true, transactionId: data };
+  } catch (error) {
+    console.error('Error in purchaseStoryBundle:', error);
+    return { success: false, error: 'Failed to purchase story' };
+  }
+};
+
+/**
+ * Record a BDAG payment as soon as it is sent, before it is confirmed.
+ *
+ * Writes a 'pending' transaction with the tx hash; the purchase indexer
+ * completes it from the contract event once the payment confirms. A hash
+ * that is already recorded is refused.
+ */
+export const startBlockchainPayment = async (
+  payment: BlockchainPayment
+): Promise<{ success: boolean; transactionId?: string; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('start_blockchain_payment', {
+      p_blockchain_tx_hash: payment.blockchain_tx_hash,
+      p_story_id: payment.story_id,
+      p_amount: payment.amount,
+      p_transaction_type: payment.transaction_type,
+      p_chapter_id: payment.chapter_id
     });
 
     if (error) {
-      console.error('Error deducting credits via RPC:', error);
-      // Fallback to manual update
-      const { error: fallbackError } = await supabase
-        .from('user_credits')
-        .update({
-          balance: currentCredits.balance - amount,
-          total_spent: currentCredits.balance + amount,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', userId);
-
-      if (fallbackError) {
-        console.error('Fallback credit deduction failed:', fallbackError);
-        return false;
-      }
+      console.error('Error starting blockchain payment:', error);
+      return { success: false, error: error.message };
     }
 
-    return true;
+    return { success: true, transactionId: data };
   } catch (error) {
-    console.error('Error in deductCredits:', error);
-    return false;
+    console.error('Error in startBlockchainPayment:', error);
+    return { success: false, error: 'Failed to record pending payment' };
   }
 };
 
 /**
- * Process a credit transaction between users
+ * Mark a pending BDAG payment as failed after it reverted or was dropped
  */
-export const processTransaction = async (transaction: CreditTransaction): Promise<boolean> => {
+export const failBlockchainPayment = async (
+  txHash: string
+): Promise<{ success: boolean; error?: string }> => {
   try {
-    // Start a transaction
-    const { error: transactionError } = await supabase
-      .from('transactions')
-      .insert({
-        from_user_id: transaction.from_user_id,
-        to_user_id: transaction.to_user_id,
-        story_id: transaction.story_id,
-        chapter_id: transaction.chapter_id,
-        amount: transaction.amount,
-        transaction_type: transaction.transaction_type,
-        status: 'completed',
-        completed_at: new Date().toISOString()
-      });
-
-    if (transactionError) {
-      console.error('Error creating transaction record:', transactionError);
-      return false;
-    }
+    const { error } = await supabase.rpc('fail_blockchain_payment', {
+      p_blockchain_tx_hash: txHash
+    });
 
-    // Deduct credits from sender
-    if (transaction.from_user_id) {
-      const deductionSuccess = await deductCredits(transaction.from_user_id, transaction.amount);
-      if (!deductionSuccess) {
-        console.error('Failed to deduct credits from sender');
-        return false;
-      }
+    if (error) {
+      console.error('Error failing blockchain payment:', error);
+      return { success: false, error: error.message };
     }
 
-    // Add credits to receiver
-    const additionSuccess = await addCredits(transaction.to_user_id, transaction.amount);
-    if (!additionSuccess) {
-      console.error('Failed to add credits to receiver');
-      return false;
-    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error in failBlockchainPayment:', error);
+    return { success: false, error: 'Failed to update payment' };
+  }
+};
 
-    // Update author earnings if this is a purchase or tip
-    if (transaction.transaction_type === 'purchase' || transaction.transaction_type === 'tip') {
-      const { error: authorUpdateError } = await supabase.rpc('update_author_earnings', {
-        author_user_id: transaction.to_user_id,
-        amount: transaction.amount
-      });
-
-      if (authorUpdateError) {
-        console.error('Error updating author earnings:', authorUpdateError);
-        // Don't fail the transaction for this, just log it
-      }
+/**
+ * Get the impact pool totals, one row per currency
+ */
+export const getImpactPoolSummary = async (): Promise<ImpactPoolSummary[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('impact_pool_summary')
+      .select('currency, total_raised, total_disbursed, balance');
+
+    if (error) {
+      console.error('Error fetching impact pool summary:', error);
+      return [];
     }
 
-    return true;
+    return (data || []) as ImpactPoolSummary[];
   } catch (error) {
-    console.error('Error in processTransaction:', error);
-    return false;
+    console.error('Error in getImpactPoolSummary:', error);
+    return [];
   }
 };
 
 /**
- * Get user's transaction history
+ * Get payouts made from the impact pool, newest first
  */
-export const getTransactionHistory = async (userId: string, limit: number = 20): Promise<any[]> => {
+export const getImpactDisbursements = async (limit: number = 20): Promise<ImpactDisbursement[]> => {
   try {
     const { data, error } = await supabase
-      .from('transactions')
-      .select('*')
-      .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`)
-      .order('created_at', { ascending: false })
+      .from('impact_disbursements')
+      .select('id, amount, currency, beneficiary_id, recipient_name, note, blockchain_tx_hash, disbursed_at')
+      .order('disbursed_at', { ascending: false })
       .limit(limit);
 
     if (error) {
-      console.error('Error fetching transaction history:', error);
+      console.error('Error fetching impact disbursements:', error);
       return [];
     }
 
-    return data || [];
+    return (data || []) as ImpactDisbursement[];
+  } catch (error) {
+    console.error('Error in getImpactDisbursements:', error);
+    return [];
+  }
+};
+
+/**
+ * Get user's transaction history
+ */
+export const getTransactionHistory = async (userId: string, limit: number = 20): Promise<TransactionHistoryEntry[]> => {
+  try {
+    return await listTransactions(userId, limit);
   } catch (error) {
     console.error('Error in getTransactionHistory:', error);
     return [];
   }
 };
 
+/**
+ * Get user's journal entries (one per credit movement on their account)
+ */
+export const getLedgerEntries = async (userId: string, limit: number = 50): Promise<CreditLedgerEntry[]> => {
+  try {
+    return (await listLedgerEntries(userId, limit)) as CreditLedgerEntry[];
+  } catch (error) {
+    console.error('Error in getLedgerEntries:', error);
+    return [];
+  }
+};
+
 /**
  * Initialize user credits (set to 0 for new users)
  */
 export const initializeUserCredits = async (userId: string): Promise<boolean> => {
   try {
-    const { error } = await supabase
-      .from('user_credits')
-      .insert({
-        user_id: userId,
-        balance: 0.00,
-        total_earned: 0.00,
-        total_spent: 0.00
-      });
-
-    if (error && error.code !== '23505') { // Ignore duplicate key errors
-      console.error('Error initializing user credits:', error);
-      return false;
-    }
-
+    await createCreditAccount(userId);
     return true;
   } catch (error) {
     console.error('Error in initializeUserCredits:', error);
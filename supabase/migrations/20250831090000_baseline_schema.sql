@@ -0,0 +1,182 @@
+-- Baseline schema
+-- Everything the app relied on from FRESH_DATABASE_SETUP.sql, expressed as a
+-- migration so a fresh database can be built from supabase/migrations alone.
+-- Every statement is idempotent: projects that were set up by running that
+-- script already have these objects and are left as they are.
+
+-- Profiles: the anonymous author name and the wallet saved during setup
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS pseudonym TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS wallet_data JSONB;
+
+-- Stories belong to the author's auth user, which is what the RLS policies
+-- compare auth.uid() with, not to their profile row
+ALTER TABLE public.stories DROP CONSTRAINT IF EXISTS stories_author_id_fkey;
+ALTER TABLE public.stories ADD CONSTRAINT stories_author_id_fkey
+  FOREIGN KEY (author_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Transactions move credits from one user to another. Issued credits have no
+-- sender, and tips or donations may not be tied to a story.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'transactions' AND column_name = 'buyer_id'
+  ) THEN
+    ALTER TABLE public.transactions RENAME COLUMN buyer_id TO from_user_id;
+  END IF;
+END $$;
+
+ALTER TABLE public.transactions ALTER COLUMN from_user_id DROP NOT NULL;
+ALTER TABLE public.transactions ALTER COLUMN story_id DROP NOT NULL;
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS to_user_id UUID NOT NULL
+  REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'completed'
+  CHECK (status IN ('pending', 'completed', 'failed'));
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS blockchain_tx_hash VARCHAR(66);
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+UPDATE public.transactions SET transaction_type = 'purchase' WHERE transaction_type IN ('chapter', 'story');
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('purchase', 'tip', 'donation'));
+
+-- Chapter access recorded by the first purchase flow, kept for history
+CREATE TABLE IF NOT EXISTS public.user_chapter_access (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  purchased_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  blockchain_tx_hash TEXT,
+  UNIQUE(user_id, chapter_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.author_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  pseudonym TEXT,
+  wallet_address TEXT,
+  wallet_data JSONB,
+  impact_percentage INTEGER DEFAULT 10,
+  total_earnings DECIMAL(10,2) DEFAULT 0.00,
+  total_stories_published INTEGER DEFAULT 0,
+  total_chapters_published INTEGER DEFAULT 0,
+  total_readers INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.user_credits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  balance DECIMAL(10,2) DEFAULT 0.00,
+  total_earned DECIMAL(10,2) DEFAULT 0.00,
+  total_spent DECIMAL(10,2) DEFAULT 0.00,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stories_author_id ON public.stories(author_id);
+CREATE INDEX IF NOT EXISTS idx_stories_published ON public.stories(published);
+CREATE INDEX IF NOT EXISTS idx_chapters_story_id ON public.chapters(story_id);
+CREATE INDEX IF NOT EXISTS idx_chapters_published ON public.chapters(published);
+CREATE INDEX IF NOT EXISTS idx_transactions_from_user ON public.transactions(from_user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_to_user ON public.transactions(to_user_id);
+CREATE INDEX IF NOT EXISTS idx_user_chapter_access_user ON public.user_chapter_access(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_chapter_access_story ON public.user_chapter_access(story_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_user ON public.purchases(user_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_story ON public.purchases(story_id);
+CREATE INDEX IF NOT EXISTS idx_author_profiles_user ON public.author_profiles(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_credits_user ON public.user_credits(user_id);
+
+ALTER TABLE public.user_chapter_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.author_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_credits ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (permissive for demo)
+DROP POLICY IF EXISTS "demo_user_chapter_access_select_all" ON public.user_chapter_access;
+CREATE POLICY "demo_user_chapter_access_select_all" ON public.user_chapter_access FOR SELECT USING (true);
+DROP POLICY IF EXISTS "demo_user_chapter_access_insert_own" ON public.user_chapter_access;
+CREATE POLICY "demo_user_chapter_access_insert_own" ON public.user_chapter_access FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "demo_author_profiles_select_all" ON public.author_profiles;
+CREATE POLICY "demo_author_profiles_select_all" ON public.author_profiles FOR SELECT USING (true);
+DROP POLICY IF EXISTS "demo_author_profiles_insert_own" ON public.author_profiles;
+CREATE POLICY "demo_author_profiles_insert_own" ON public.author_profiles FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "demo_author_profiles_update_own" ON public.author_profiles;
+CREATE POLICY "demo_author_profiles_update_own" ON public.author_profiles FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "demo_user_credits_select_all" ON public.user_credits;
+CREATE POLICY "demo_user_credits_select_all" ON public.user_credits FOR SELECT USING (true);
+DROP POLICY IF EXISTS "demo_user_credits_insert_own" ON public.user_credits;
+CREATE POLICY "demo_user_credits_insert_own" ON public.user_credits FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "demo_user_credits_update_own" ON public.user_credits;
+CREATE POLICY "demo_user_credits_update_own" ON public.user_credits FOR UPDATE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_author_profiles_updated_at ON public.author_profiles;
+CREATE TRIGGER update_author_profiles_updated_at BEFORE UPDATE ON public.author_profiles FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+DROP TRIGGER IF EXISTS update_user_credits_updated_at ON public.user_credits;
+CREATE TRIGGER update_user_credits_updated_at BEFORE UPDATE ON public.user_credits FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Users can only claim their own welcome credits
+CREATE OR REPLACE FUNCTION public.add_welcome_credits(user_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> user_uuid THEN
+    RAISE EXCEPTION 'You can only claim your own welcome credits' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET wallet_balance = wallet_balance + 50
+  WHERE user_id = user_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_welcome_credits(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_welcome_credits(UUID) TO authenticated;
+
+-- Save the caller's wallet address on their profile and every story they wrote
+CREATE OR REPLACE FUNCTION public.update_user_wallet_address(user_uuid UUID, wallet_addr TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> user_uuid THEN
+    RAISE EXCEPTION 'You can only set your own wallet address' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET wallet_address = wallet_addr
+  WHERE user_id = user_uuid;
+
+  UPDATE public.stories
+  SET author_wallet_address = wallet_addr
+  WHERE author_id = user_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_user_wallet_address(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_user_wallet_address(UUID, TEXT) TO authenticated;
+
+-- Public bucket for story cover images. Only present on Supabase itself; the
+-- local test database has no storage schema.
+DO $$
+BEGIN
+  IF to_regclass('storage.buckets') IS NOT NULL THEN
+    INSERT INTO storage.buckets (id, name, public)
+    VALUES ('story-covers', 'story-covers', true)
+    ON CONFLICT (id) DO NOTHING;
+
+    DROP POLICY IF EXISTS "story_covers_select_all" ON storage.objects;
+    CREATE POLICY "story_covers_select_all" ON storage.objects
+      FOR SELECT USING (bucket_id = 'story-covers');
+
+    DROP POLICY IF EXISTS "story_covers_insert_authenticated" ON storage.objects;
+    CREATE POLICY "story_covers_insert_authenticated" ON storage.objects
+      FOR INSERT TO authenticated WITH CHECK (bucket_id = 'story-covers');
+
+    DROP POLICY IF EXISTS "story_covers_delete_own" ON storage.objects;
+    CREATE POLICY "story_covers_delete_own" ON storage.objects
+      FOR DELETE USING (bucket_id = 'story-covers' AND owner = auth.uid());
+  END IF;
+END $$;
@@ -0,0 +1,118 @@
+-- Atomic credit transactions
+-- Moves credits between two user_credits rows, records the transaction and
+-- updates author earnings in a single database transaction.
+
+-- Idempotency key so a retried request never moves credits twice
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_idempotency_key
+  ON public.transactions(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Author earnings are tracked on the profile as well as author_profiles
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS total_earnings DECIMAL(10,2) DEFAULT 0.00;
+
+CREATE OR REPLACE FUNCTION public.process_credit_transaction(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_idempotency_key TEXT,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_sender_balance DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> p_from_user_id THEN
+    RAISE EXCEPTION 'Credits can only be sent from your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from_user_id = p_to_user_id THEN
+    RAISE EXCEPTION 'Cannot send credits to yourself' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'An idempotency key is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Claim the idempotency key first. A concurrent request with the same key
+  -- blocks on the unique index until this transaction commits or rolls back.
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount,
+    transaction_type, status, completed_at, idempotency_key
+  )
+  VALUES (
+    p_from_user_id, p_to_user_id, p_story_id, p_chapter_id, p_amount,
+    p_transaction_type, 'completed', NOW(), p_idempotency_key
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    -- Already processed: return the original transaction without moving credits again
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = p_idempotency_key
+      AND from_user_id = p_from_user_id;
+
+    IF v_transaction_id IS NULL THEN
+      RAISE EXCEPTION 'Idempotency key already used by another transaction' USING ERRCODE = '23505';
+    END IF;
+
+    RETURN v_transaction_id;
+  END IF;
+
+  -- Make sure both ledger rows exist before locking them
+  INSERT INTO public.user_credits (user_id)
+  VALUES (p_from_user_id), (p_to_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Lock both rows in a stable order so opposite transfers cannot deadlock
+  PERFORM 1
+  FROM public.user_credits
+  WHERE user_id IN (p_from_user_id, p_to_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT balance INTO v_sender_balance
+  FROM public.user_credits
+  WHERE user_id = p_from_user_id;
+
+  IF COALESCE(v_sender_balance, 0) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.user_credits
+  SET balance = balance - p_amount,
+      total_spent = total_spent + p_amount,
+      updated_at = NOW()
+  WHERE user_id = p_from_user_id;
+
+  UPDATE public.user_credits
+  SET balance = balance + p_amount,
+      total_earned = total_earned + p_amount,
+      updated_at = NOW()
+  WHERE user_id = p_to_user_id;
+
+  IF p_transaction_type IN ('purchase', 'tip') THEN
+    UPDATE public.profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + p_amount
+    WHERE user_id = p_to_user_id;
+
+    UPDATE public.author_profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + p_amount
+    WHERE user_id = p_to_user_id;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.process_credit_transaction(UUID, UUID, INTEGER, TEXT, TEXT, UUID, UUID) TO authenticated;
@@ -0,0 +1,291 @@
+-- Double-entry credit journal
+-- Every credit movement is written as one debit and one credit entry. The
+-- user_credits counters are derived from the journal and can be recomputed
+-- from it at any time with reconcile_user_credits().
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE RESTRICT,
+  -- 'user' entries belong to user_id; 'issuance' is the platform account that
+  -- credits enter the system from (welcome credits, top-ups)
+  account_type TEXT NOT NULL CHECK (account_type IN ('user', 'issuance')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE RESTRICT,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('debit', 'credit')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK ((account_type = 'user') = (user_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entries_user ON public.credit_ledger_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_entries_transaction ON public.credit_ledger_entries(transaction_id);
+
+ALTER TABLE public.credit_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "credit_ledger_entries_select_own" ON public.credit_ledger_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The journal is append-only
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'credit_ledger_entries is append-only';
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER credit_ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.credit_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Backfill the journal from completed transactions. Existing counters are left
+-- untouched so any historical drift shows up in the reconciliation report.
+INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, created_at)
+SELECT id,
+       CASE WHEN from_user_id IS NULL THEN 'issuance' ELSE 'user' END,
+       from_user_id,
+       'debit',
+       amount,
+       COALESCE(completed_at, created_at)
+FROM public.transactions
+WHERE status = 'completed' AND amount > 0;
+
+INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, created_at)
+SELECT id, 'user', to_user_id, 'credit', amount, COALESCE(completed_at, created_at)
+FROM public.transactions
+WHERE status = 'completed' AND amount > 0;
+
+-- Keep the user_credits counters in step with the journal
+CREATE OR REPLACE FUNCTION public.apply_ledger_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.account_type <> 'user' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.user_credits (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF NEW.entry_type = 'credit' THEN
+    UPDATE public.user_credits
+    SET balance = balance + NEW.amount,
+        total_earned = total_earned + NEW.amount,
+        updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  ELSE
+    UPDATE public.user_credits
+    SET balance = balance - NEW.amount,
+        total_spent = total_spent + NEW.amount,
+        updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER credit_ledger_entries_apply
+  AFTER INSERT ON public.credit_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION public.apply_ledger_entry();
+
+-- Balances as derived from the journal alone
+CREATE OR REPLACE VIEW public.ledger_user_balances AS
+SELECT user_id,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0)
+         - COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS balance,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0) AS total_earned,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS total_spent
+FROM public.credit_ledger_entries
+WHERE account_type = 'user'
+GROUP BY user_id;
+
+-- Transactions whose debits and credits do not cancel out
+CREATE OR REPLACE VIEW public.ledger_unbalanced_transactions AS
+SELECT transaction_id,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS total_debits,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0) AS total_credits
+FROM public.credit_ledger_entries
+GROUP BY transaction_id
+HAVING COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0)
+    <> COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0);
+
+REVOKE ALL ON public.ledger_user_balances FROM anon, authenticated;
+REVOKE ALL ON public.ledger_unbalanced_transactions FROM anon, authenticated;
+
+-- Recompute every user_credits row from the journal and report mismatches.
+-- Run with p_apply => true to overwrite the stored counters with the journal values.
+CREATE OR REPLACE FUNCTION public.reconcile_user_credits(p_apply BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  user_id UUID,
+  stored_balance DECIMAL(10,2),
+  journal_balance DECIMAL(10,2),
+  stored_total_earned DECIMAL(10,2),
+  journal_total_earned DECIMAL(10,2),
+  stored_total_spent DECIMAL(10,2),
+  journal_total_spent DECIMAL(10,2)
+) AS $$
+#variable_conflict use_column
+BEGIN
+  DROP TABLE IF EXISTS reconciliation_mismatches;
+  CREATE TEMP TABLE reconciliation_mismatches ON COMMIT DROP AS
+  SELECT COALESCE(uc.user_id, lb.user_id) AS user_id,
+         COALESCE(uc.balance, 0)::DECIMAL(10,2) AS stored_balance,
+         COALESCE(lb.balance, 0)::DECIMAL(10,2) AS journal_balance,
+         COALESCE(uc.total_earned, 0)::DECIMAL(10,2) AS stored_total_earned,
+         COALESCE(lb.total_earned, 0)::DECIMAL(10,2) AS journal_total_earned,
+         COALESCE(uc.total_spent, 0)::DECIMAL(10,2) AS stored_total_spent,
+         COALESCE(lb.total_spent, 0)::DECIMAL(10,2) AS journal_total_spent
+  FROM public.user_credits uc
+  FULL OUTER JOIN public.ledger_user_balances lb ON lb.user_id = uc.user_id
+  WHERE COALESCE(uc.balance, 0) <> COALESCE(lb.balance, 0)
+     OR COALESCE(uc.total_earned, 0) <> COALESCE(lb.total_earned, 0)
+     OR COALESCE(uc.total_spent, 0) <> COALESCE(lb.total_spent, 0);
+
+  IF p_apply THEN
+    INSERT INTO public.user_credits (user_id, balance, total_earned, total_spent)
+    SELECT m.user_id, m.journal_balance, m.journal_total_earned, m.journal_total_spent
+    FROM reconciliation_mismatches m
+    ON CONFLICT (user_id) DO UPDATE
+    SET balance = EXCLUDED.balance,
+        total_earned = EXCLUDED.total_earned,
+        total_spent = EXCLUDED.total_spent,
+        updated_at = NOW();
+  END IF;
+
+  RETURN QUERY SELECT * FROM reconciliation_mismatches;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_user_credits(BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_user_credits(BOOLEAN) TO service_role;
+
+-- Credit transfers now write journal entries; the counters follow via trigger
+CREATE OR REPLACE FUNCTION public.process_credit_transaction(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_idempotency_key TEXT,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_sender_balance DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> p_from_user_id THEN
+    RAISE EXCEPTION 'Credits can only be sent from your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from_user_id = p_to_user_id THEN
+    RAISE EXCEPTION 'Cannot send credits to yourself' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'An idempotency key is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount,
+    transaction_type, status, completed_at, idempotency_key
+  )
+  VALUES (
+    p_from_user_id, p_to_user_id, p_story_id, p_chapter_id, p_amount,
+    p_transaction_type, 'completed', NOW(), p_idempotency_key
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = p_idempotency_key
+      AND from_user_id = p_from_user_id;
+
+    IF v_transaction_id IS NULL THEN
+      RAISE EXCEPTION 'Idempotency key already used by another transaction' USING ERRCODE = '23505';
+    END IF;
+
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO public.user_credits (user_id)
+  VALUES (p_from_user_id), (p_to_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM 1
+  FROM public.user_credits
+  WHERE user_id IN (p_from_user_id, p_to_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT balance INTO v_sender_balance
+  FROM public.user_credits
+  WHERE user_id = p_from_user_id;
+
+  IF COALESCE(v_sender_balance, 0) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount)
+  VALUES
+    (v_transaction_id, 'user', p_from_user_id, 'debit', p_amount),
+    (v_transaction_id, 'user', p_to_user_id, 'credit', p_amount);
+
+  IF p_transaction_type IN ('purchase', 'tip') THEN
+    UPDATE public.profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + p_amount
+    WHERE user_id = p_to_user_id;
+
+    UPDATE public.author_profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + p_amount
+    WHERE user_id = p_to_user_id;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- Welcome credits enter through the journal from the issuance account, so the
+-- counters and the reconciliation report agree. The idempotency key makes the
+-- grant one-time per user.
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('purchase', 'tip', 'donation', 'issuance'));
+
+CREATE OR REPLACE FUNCTION public.add_welcome_credits(user_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_transaction_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> user_uuid THEN
+    RAISE EXCEPTION 'You can only claim your own welcome credits' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, amount, transaction_type, status, completed_at, idempotency_key
+  )
+  VALUES (NULL, user_uuid, 50, 'issuance', 'completed', NOW(), 'welcome:' || user_uuid)
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  -- Already claimed
+  IF v_transaction_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount)
+  VALUES
+    (v_transaction_id, 'issuance', NULL, 'debit', 50),
+    (v_transaction_id, 'user', user_uuid, 'credit', 50);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
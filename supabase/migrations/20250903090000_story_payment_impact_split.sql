@@ -0,0 +1,137 @@
+-- Impact split for story payments
+-- Purchases and tips on a story credit the author with their share and the
+-- story's impact_percentage to the impact pool account in the journal.
+
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS author_amount DECIMAL(10,2);
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS impact_amount DECIMAL(10,2) DEFAULT 0.00;
+
+UPDATE public.transactions SET author_amount = amount WHERE author_amount IS NULL;
+
+ALTER TABLE public.credit_ledger_entries DROP CONSTRAINT IF EXISTS credit_ledger_entries_account_type_check;
+ALTER TABLE public.credit_ledger_entries ADD CONSTRAINT credit_ledger_entries_account_type_check
+  CHECK (account_type IN ('user', 'issuance', 'impact_pool'));
+
+CREATE OR REPLACE FUNCTION public.process_credit_transaction(
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_idempotency_key TEXT,
+  p_story_id UUID DEFAULT NULL,
+  p_chapter_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_sender_balance DECIMAL(10,2);
+  v_story_author_id UUID;
+  v_impact_percentage INTEGER := 0;
+  v_impact_amount DECIMAL(10,2) := 0;
+  v_author_amount DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() <> p_from_user_id THEN
+    RAISE EXCEPTION 'Credits can only be sent from your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_from_user_id = p_to_user_id THEN
+    RAISE EXCEPTION 'Cannot send credits to yourself' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'An idempotency key is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Payments for a story go to its author, minus the story's impact share
+  IF p_story_id IS NOT NULL THEN
+    SELECT author_id, COALESCE(impact_percentage, 0)
+    INTO v_story_author_id, v_impact_percentage
+    FROM public.stories
+    WHERE id = p_story_id;
+
+    IF v_story_author_id IS NULL THEN
+      RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_story_author_id <> p_to_user_id THEN
+      RAISE EXCEPTION 'Story payments must go to the story author' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF p_transaction_type IN ('purchase', 'tip') THEN
+    v_impact_amount := ROUND(p_amount * LEAST(GREATEST(v_impact_percentage, 0), 100) / 100.0, 2);
+  END IF;
+  v_author_amount := p_amount - v_impact_amount;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    transaction_type, status, completed_at, idempotency_key
+  )
+  VALUES (
+    p_from_user_id, p_to_user_id, p_story_id, p_chapter_id, p_amount, v_author_amount, v_impact_amount,
+    p_transaction_type, 'completed', NOW(), p_idempotency_key
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = p_idempotency_key
+      AND from_user_id = p_from_user_id;
+
+    IF v_transaction_id IS NULL THEN
+      RAISE EXCEPTION 'Idempotency key already used by another transaction' USING ERRCODE = '23505';
+    END IF;
+
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO public.user_credits (user_id)
+  VALUES (p_from_user_id), (p_to_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  PERFORM 1
+  FROM public.user_credits
+  WHERE user_id IN (p_from_user_id, p_to_user_id)
+  ORDER BY user_id
+  FOR UPDATE;
+
+  SELECT balance INTO v_sender_balance
+  FROM public.user_credits
+  WHERE user_id = p_from_user_id;
+
+  IF COALESCE(v_sender_balance, 0) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount)
+  VALUES (v_transaction_id, 'user', p_from_user_id, 'debit', p_amount);
+
+  IF v_author_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount)
+    VALUES (v_transaction_id, 'user', p_to_user_id, 'credit', v_author_amount);
+  END IF;
+
+  IF v_impact_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount)
+    VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', v_impact_amount);
+  END IF;
+
+  IF p_transaction_type IN ('purchase', 'tip') THEN
+    UPDATE public.profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + v_author_amount
+    WHERE user_id = p_to_user_id;
+
+    UPDATE public.author_profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + v_author_amount
+    WHERE user_id = p_to_user_id;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
@@ -0,0 +1,238 @@
+-- Impact pool
+-- Every purchase and tip, in credits or BDAG, is split between the author and
+-- the impact pool as separate journal entries. Payouts from the pool are
+-- recorded as disbursements so the Impact page can show real figures.
+
+-- Journal entries carry a currency so credit and BDAG movements never mix
+ALTER TABLE public.credit_ledger_entries ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'credits'
+  CHECK (currency IN ('credits', 'BDAG'));
+
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'credits'
+  CHECK (currency IN ('credits', 'BDAG'));
+
+-- 'external' is money entering or leaving the platform (on-chain buyers, payouts)
+ALTER TABLE public.credit_ledger_entries DROP CONSTRAINT IF EXISTS credit_ledger_entries_account_type_check;
+ALTER TABLE public.credit_ledger_entries ADD CONSTRAINT credit_ledger_entries_account_type_check
+  CHECK (account_type IN ('user', 'issuance', 'impact_pool', 'external'));
+
+CREATE TABLE IF NOT EXISTS public.impact_disbursements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'credits' CHECK (currency IN ('credits', 'BDAG')),
+  recipient_name TEXT NOT NULL,
+  note TEXT,
+  blockchain_tx_hash VARCHAR(66),
+  disbursed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_impact_disbursements_disbursed_at ON public.impact_disbursements(disbursed_at DESC);
+
+ALTER TABLE public.impact_disbursements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "impact_disbursements_select_all" ON public.impact_disbursements
+  FOR SELECT USING (true);
+
+-- Disbursement entries are not tied to a reader transaction
+ALTER TABLE public.credit_ledger_entries ALTER COLUMN transaction_id DROP NOT NULL;
+ALTER TABLE public.credit_ledger_entries ADD COLUMN IF NOT EXISTS disbursement_id UUID
+  REFERENCES public.impact_disbursements(id) ON DELETE RESTRICT;
+ALTER TABLE public.credit_ledger_entries ADD CONSTRAINT credit_ledger_entries_source_check
+  CHECK ((transaction_id IS NULL) <> (disbursement_id IS NULL));
+
+-- Only credit entries touch user_credits
+CREATE OR REPLACE FUNCTION public.apply_ledger_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.account_type <> 'user' OR NEW.currency <> 'credits' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.user_credits (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF NEW.entry_type = 'credit' THEN
+    UPDATE public.user_credits
+    SET balance = balance + NEW.amount,
+        total_earned = total_earned + NEW.amount,
+        updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  ELSE
+    UPDATE public.user_credits
+    SET balance = balance - NEW.amount,
+        total_spent = total_spent + NEW.amount,
+        updated_at = NOW()
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE VIEW public.ledger_user_balances AS
+SELECT user_id,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0)
+         - COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS balance,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0) AS total_earned,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS total_spent
+FROM public.credit_ledger_entries
+WHERE account_type = 'user' AND currency = 'credits'
+GROUP BY user_id;
+
+DROP VIEW IF EXISTS public.ledger_unbalanced_transactions;
+CREATE VIEW public.ledger_unbalanced_transactions AS
+SELECT transaction_id,
+       disbursement_id,
+       currency,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS total_debits,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0) AS total_credits
+FROM public.credit_ledger_entries
+GROUP BY transaction_id, disbursement_id, currency
+HAVING COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0)
+    <> COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0);
+
+REVOKE ALL ON public.ledger_unbalanced_transactions FROM anon, authenticated;
+
+-- Public totals for the Impact page
+CREATE OR REPLACE VIEW public.impact_pool_summary AS
+SELECT currency,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0) AS total_raised,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS total_disbursed,
+       COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit'), 0)
+         - COALESCE(SUM(amount) FILTER (WHERE entry_type = 'debit'), 0) AS balance
+FROM public.credit_ledger_entries
+WHERE account_type = 'impact_pool'
+GROUP BY currency;
+
+GRANT SELECT ON public.impact_pool_summary TO anon, authenticated;
+
+-- Record a BDAG payment made on-chain with the same author / impact split as
+-- credit payments. Idempotent on the blockchain transaction hash.
+CREATE OR REPLACE FUNCTION public.record_blockchain_payment(
+  p_blockchain_tx_hash TEXT,
+  p_story_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_chapter_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_author_id UUID;
+  v_impact_percentage INTEGER;
+  v_impact_amount DECIMAL(10,2);
+  v_author_amount DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record a payment' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_type NOT IN ('purchase', 'tip') THEN
+    RAISE EXCEPTION 'Only purchases and tips can be recorded' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT author_id, COALESCE(impact_percentage, 0)
+  INTO v_author_id, v_impact_percentage
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_impact_amount := ROUND(p_amount * LEAST(GREATEST(v_impact_percentage, 0), 100) / 100.0, 2);
+  v_author_amount := p_amount - v_impact_amount;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    transaction_type, status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    auth.uid(), v_author_id, p_story_id, p_chapter_id, p_amount, v_author_amount, v_impact_amount,
+    p_transaction_type, 'completed', NOW(), p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash);
+
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+  VALUES (v_transaction_id, 'external', NULL, 'debit', p_amount, 'BDAG');
+
+  IF v_author_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'user', v_author_id, 'credit', v_author_amount, 'BDAG');
+  END IF;
+
+  IF v_impact_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', v_impact_amount, 'BDAG');
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_blockchain_payment(TEXT, UUID, INTEGER, TEXT, UUID) TO authenticated;
+
+-- Pay out of the impact pool (ops only, from the SQL Editor or service role)
+CREATE OR REPLACE FUNCTION public.record_impact_disbursement(
+  p_amount DECIMAL(10,2),
+  p_recipient_name TEXT,
+  p_currency TEXT DEFAULT 'credits',
+  p_note TEXT DEFAULT NULL,
+  p_blockchain_tx_hash TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_disbursement_id UUID;
+  v_pool_balance DECIMAL(10,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise disbursements so two payouts cannot overdraw the pool
+  PERFORM pg_advisory_xact_lock(hashtext('impact_pool_' || p_currency));
+
+  SELECT COALESCE(balance, 0) INTO v_pool_balance
+  FROM public.impact_pool_summary
+  WHERE currency = p_currency;
+
+  IF COALESCE(v_pool_balance, 0) < p_amount THEN
+    RAISE EXCEPTION 'Impact pool balance is too low for this disbursement' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.impact_disbursements (amount, currency, recipient_name, note, blockchain_tx_hash)
+  VALUES (p_amount, p_currency, p_recipient_name, p_note, p_blockchain_tx_hash)
+  RETURNING id INTO v_disbursement_id;
+
+  INSERT INTO public.credit_ledger_entries (disbursement_id, account_type, user_id, entry_type, amount, currency)
+  VALUES
+    (v_disbursement_id, 'impact_pool', NULL, 'debit', p_amount, p_currency),
+    (v_disbursement_id, 'external', NULL, 'credit', p_amount, p_currency);
+
+  RETURN v_disbursement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_impact_disbursement(DECIMAL, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_impact_disbursement(DECIMAL, TEXT, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,158 @@
+-- Beneficiary organisations
+-- Registry of the organisations that receive impact funds. Authors pick one per
+-- story; admins manage and verify the list.
+
+-- Admin flag, only settable from the SQL Editor or with the service role key
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_admin := false;
+    ELSIF NEW.is_admin IS DISTINCT FROM OLD.is_admin THEN
+      RAISE EXCEPTION 'is_admin cannot be changed from the client' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS profiles_protect_admin_flag ON public.profiles;
+CREATE TRIGGER profiles_protect_admin_flag
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_admin_flag();
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT is_admin FROM public.profiles WHERE user_id = auth.uid()),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.beneficiaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  website_url TEXT,
+  wallet_address VARCHAR(42) CHECK (wallet_address IS NULL OR wallet_address ~* '^0x[0-9a-f]{40}$'),
+  verification_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  verified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_beneficiaries_verification_status ON public.beneficiaries(verification_status);
+
+CREATE TRIGGER update_beneficiaries_updated_at
+  BEFORE UPDATE ON public.beneficiaries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.beneficiaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "beneficiaries_select_verified" ON public.beneficiaries
+  FOR SELECT USING (verification_status = 'verified' OR public.is_admin());
+
+CREATE POLICY "beneficiaries_insert_admin" ON public.beneficiaries
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "beneficiaries_update_admin" ON public.beneficiaries
+  FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE POLICY "beneficiaries_delete_admin" ON public.beneficiaries
+  FOR DELETE USING (public.is_admin());
+
+-- Each story sends its impact share to one organisation
+ALTER TABLE public.stories ADD COLUMN IF NOT EXISTS beneficiary_id UUID
+  REFERENCES public.beneficiaries(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stories_beneficiary_id ON public.stories(beneficiary_id);
+
+-- Only verified organisations can be chosen for a story
+CREATE OR REPLACE FUNCTION public.check_story_beneficiary()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.beneficiary_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.beneficiary_id IS DISTINCT FROM OLD.beneficiary_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.beneficiaries
+       WHERE id = NEW.beneficiary_id AND verification_status = 'verified'
+     ) THEN
+    RAISE EXCEPTION 'Beneficiary is not verified' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER stories_check_beneficiary
+  BEFORE INSERT OR UPDATE OF beneficiary_id ON public.stories
+  FOR EACH ROW EXECUTE FUNCTION public.check_story_beneficiary();
+
+-- Payouts record which organisation received them
+ALTER TABLE public.impact_disbursements ADD COLUMN IF NOT EXISTS beneficiary_id UUID
+  REFERENCES public.beneficiaries(id) ON DELETE SET NULL;
+
+DROP FUNCTION IF EXISTS public.record_impact_disbursement(DECIMAL, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_impact_disbursement(
+  p_amount DECIMAL(10,2),
+  p_beneficiary_id UUID,
+  p_currency TEXT DEFAULT 'credits',
+  p_note TEXT DEFAULT NULL,
+  p_blockchain_tx_hash TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_disbursement_id UUID;
+  v_pool_balance DECIMAL(10,2);
+  v_recipient_name TEXT;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT name INTO v_recipient_name
+  FROM public.beneficiaries
+  WHERE id = p_beneficiary_id AND verification_status = 'verified';
+
+  IF v_recipient_name IS NULL THEN
+    RAISE EXCEPTION 'Beneficiary not found or not verified' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Serialise disbursements so two payouts cannot overdraw the pool
+  PERFORM pg_advisory_xact_lock(hashtext('impact_pool_' || p_currency));
+
+  SELECT COALESCE(balance, 0) INTO v_pool_balance
+  FROM public.impact_pool_summary
+  WHERE currency = p_currency;
+
+  IF COALESCE(v_pool_balance, 0) < p_amount THEN
+    RAISE EXCEPTION 'Impact pool balance is too low for this disbursement' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.impact_disbursements (amount, currency, beneficiary_id, recipient_name, note, blockchain_tx_hash)
+  VALUES (p_amount, p_currency, p_beneficiary_id, v_recipient_name, p_note, p_blockchain_tx_hash)
+  RETURNING id INTO v_disbursement_id;
+
+  INSERT INTO public.credit_ledger_entries (disbursement_id, account_type, user_id, entry_type, amount, currency)
+  VALUES
+    (v_disbursement_id, 'impact_pool', NULL, 'debit', p_amount, p_currency),
+    (v_disbursement_id, 'external', NULL, 'credit', p_amount, p_currency);
+
+  RETURN v_disbursement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_impact_disbursement(DECIMAL, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_impact_disbursement(DECIMAL, UUID, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,107 @@
+-- Platform fee on BDAG payments
+-- SimpleBDAGTransfer now splits each purchase between the author, the impact
+-- beneficiary and the platform treasury. The fee is mirrored in the journal
+-- under a 'platform' account.
+
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS platform_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.credit_ledger_entries DROP CONSTRAINT IF EXISTS credit_ledger_entries_account_type_check;
+ALTER TABLE public.credit_ledger_entries ADD CONSTRAINT credit_ledger_entries_account_type_check
+  CHECK (account_type IN ('user', 'issuance', 'impact_pool', 'external', 'platform'));
+
+DROP FUNCTION IF EXISTS public.record_blockchain_payment(TEXT, UUID, INTEGER, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.record_blockchain_payment(
+  p_blockchain_tx_hash TEXT,
+  p_story_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_chapter_id UUID DEFAULT NULL,
+  p_platform_fee DECIMAL(10,2) DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_author_id UUID;
+  v_impact_percentage INTEGER;
+  v_impact_amount DECIMAL(10,2);
+  v_platform_fee DECIMAL(10,2);
+  v_author_amount DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record a payment' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_type NOT IN ('purchase', 'tip') THEN
+    RAISE EXCEPTION 'Only purchases and tips can be recorded' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT author_id, COALESCE(impact_percentage, 0)
+  INTO v_author_id, v_impact_percentage
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_impact_amount := ROUND(p_amount * LEAST(GREATEST(v_impact_percentage, 0), 100) / 100.0, 2);
+  v_platform_fee := ROUND(GREATEST(COALESCE(p_platform_fee, 0), 0), 2);
+
+  IF v_impact_amount + v_platform_fee > p_amount THEN
+    RAISE EXCEPTION 'Impact share and platform fee exceed the payment' USING ERRCODE = '22023';
+  END IF;
+
+  v_author_amount := p_amount - v_impact_amount - v_platform_fee;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    platform_fee_amount, transaction_type, status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    auth.uid(), v_author_id, p_story_id, p_chapter_id, p_amount, v_author_amount, v_impact_amount,
+    v_platform_fee, p_transaction_type, 'completed', NOW(), p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash);
+
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+  VALUES (v_transaction_id, 'external', NULL, 'debit', p_amount, 'BDAG');
+
+  IF v_author_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'user', v_author_id, 'credit', v_author_amount, 'BDAG');
+  END IF;
+
+  IF v_impact_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', v_impact_amount, 'BDAG');
+  END IF;
+
+  IF v_platform_fee > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'platform', NULL, 'credit', v_platform_fee, 'BDAG');
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_blockchain_payment(TEXT, UUID, INTEGER, TEXT, UUID, DECIMAL) TO authenticated;
@@ -0,0 +1,109 @@
+-- Whole-story bundles
+-- Readers can buy every chapter of a story at once at an author-set discount.
+-- A purchases row with chapter_id NULL grants access to the whole story.
+
+ALTER TABLE public.stories ADD COLUMN IF NOT EXISTS bundle_discount_percentage INTEGER NOT NULL DEFAULT 0
+  CHECK (bundle_discount_percentage BETWEEN 0 AND 90);
+
+-- UNIQUE (user_id, chapter_id) does not stop duplicate NULL chapter rows
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchases_story_bundle
+  ON public.purchases(user_id, story_id)
+  WHERE chapter_id IS NULL;
+
+-- Price of the chapters a reader does not own yet, after the bundle discount.
+-- Internal: it would tell anyone what another user has bought.
+CREATE OR REPLACE FUNCTION public.story_bundle_price(
+  p_story_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+  SELECT ROUND(
+           COUNT(c.id) * s.price_per_chapter * (100 - s.bundle_discount_percentage) / 100.0
+         )::INTEGER
+  FROM public.stories s
+  LEFT JOIN public.chapters c
+    ON c.story_id = s.id
+   AND c.published = true
+   AND COALESCE(c.is_free, false) = false
+   AND NOT EXISTS (
+     SELECT 1 FROM public.purchases p
+     WHERE p.user_id = p_user_id AND p.chapter_id = c.id
+   )
+  WHERE s.id = p_story_id
+  GROUP BY s.id, s.price_per_chapter, s.bundle_discount_percentage;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.story_bundle_price(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- What the caller would pay for the story
+CREATE OR REPLACE FUNCTION public.story_bundle_price(p_story_id UUID)
+RETURNS INTEGER AS $$
+  SELECT public.story_bundle_price(p_story_id, auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.story_bundle_price(UUID) TO anon, authenticated;
+
+-- Buy a whole story with credits: charges the bundle price through
+-- process_credit_transaction and grants story-wide access in one transaction
+CREATE OR REPLACE FUNCTION public.purchase_story_bundle(
+  p_story_id UUID,
+  p_idempotency_key TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_author_id UUID;
+  v_price INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to buy a story' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id AND published = true;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_author_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot buy your own story' USING ERRCODE = '22023';
+  END IF;
+
+  -- Replayed request: return the original transaction
+  SELECT id INTO v_transaction_id
+  FROM public.transactions
+  WHERE idempotency_key = p_idempotency_key AND from_user_id = auth.uid();
+
+  IF v_transaction_id IS NOT NULL THEN
+    RETURN v_transaction_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchases
+    WHERE user_id = auth.uid() AND story_id = p_story_id AND chapter_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Story already purchased' USING ERRCODE = '23505';
+  END IF;
+
+  v_price := COALESCE(public.story_bundle_price(p_story_id, auth.uid()), 0);
+
+  IF v_price > 0 THEN
+    v_transaction_id := public.process_credit_transaction(
+      auth.uid(), v_author_id, v_price, 'purchase', p_idempotency_key, p_story_id, NULL
+    );
+  END IF;
+
+  INSERT INTO public.purchases (user_id, story_id, chapter_id)
+  VALUES (auth.uid(), p_story_id, NULL)
+  ON CONFLICT (user_id, story_id) WHERE chapter_id IS NULL DO NOTHING;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.purchase_story_bundle(UUID, TEXT) TO authenticated;
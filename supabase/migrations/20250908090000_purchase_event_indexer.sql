@@ -0,0 +1,192 @@
+-- Purchase event indexer
+-- Purchases paid through SimpleBDAGTransfer are backfilled from the contract's
+-- ChapterPurchased / StoryPurchased events, so access no longer depends on the
+-- buyer's browser writing the purchases row after tx.wait().
+
+CREATE TABLE IF NOT EXISTS public.blockchain_sync_state (
+  contract_address TEXT PRIMARY KEY,
+  last_indexed_block BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the indexer (service_role) reads or moves the cursor
+ALTER TABLE public.blockchain_sync_state ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_blockchain_sync_state_updated_at
+  BEFORE UPDATE ON public.blockchain_sync_state
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Purchase events are emitted for whatever author, impact recipient and impact
+-- share the buyer passed to the contract, so an event only counts when it paid
+-- the story's author its own impact percentage, and paid that share to the
+-- story's beneficiary or the contract's impact treasury. The impact share may
+-- be a cent out from rounding wei to two decimals.
+CREATE OR REPLACE FUNCTION public.check_bdag_purchase_event(
+  p_story_id UUID,
+  p_author_address TEXT,
+  p_impact_recipient TEXT,
+  p_impact_treasury TEXT,
+  p_amount DECIMAL(10,2),
+  p_impact_amount DECIMAL(10,2)
+)
+RETURNS VOID AS $$
+DECLARE
+  v_payout_address TEXT;
+  v_beneficiary_address TEXT;
+  v_impact_percentage INTEGER;
+BEGIN
+  SELECT p.wallet_address, b.wallet_address, COALESCE(s.impact_percentage, 0)
+  INTO v_payout_address, v_beneficiary_address, v_impact_percentage
+  FROM public.stories s
+  LEFT JOIN public.profiles p ON p.user_id = s.author_id
+  LEFT JOIN public.beneficiaries b ON b.id = s.beneficiary_id
+  WHERE s.id = p_story_id;
+
+  IF v_payout_address IS NULL OR lower(v_payout_address) <> lower(COALESCE(p_author_address, '')) THEN
+    RAISE EXCEPTION 'The purchase paid %, not the story''s author', p_author_address USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT COALESCE(lower(p_impact_recipient) IN (lower(v_beneficiary_address), lower(p_impact_treasury)), false) THEN
+    RAISE EXCEPTION 'The impact share went to %, not the story''s beneficiary', p_impact_recipient USING ERRCODE = '22023';
+  END IF;
+
+  IF abs(COALESCE(p_impact_amount, 0) - ROUND(p_amount * v_impact_percentage / 100.0, 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The impact share does not match the story''s % percent', v_impact_percentage USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+-- Record one on-chain purchase event: the BDAG transaction with the split the
+-- contract actually paid, and the purchases row that unlocks the content.
+-- Shares the 'bdag:<hash>' idempotency key with record_blockchain_payment, so a
+-- payment the buyer's browser already recorded is not booked twice.
+-- p_author_address and p_impact_recipient are the event's payees, and
+-- p_impact_treasury is the contract's impactTreasury(); p_chapter_id is NULL
+-- for whole-story purchases.
+CREATE OR REPLACE FUNCTION public.index_bdag_purchase(
+  p_blockchain_tx_hash TEXT,
+  p_buyer_address TEXT,
+  p_author_address TEXT,
+  p_impact_recipient TEXT,
+  p_impact_treasury TEXT,
+  p_story_id UUID,
+  p_chapter_id UUID,
+  p_amount DECIMAL(10,2),
+  p_impact_amount DECIMAL(10,2),
+  p_platform_fee DECIMAL(10,2)
+)
+RETURNS UUID AS $$
+DECLARE
+  v_buyer_id UUID;
+  v_author_id UUID;
+  v_transaction_id UUID;
+  v_author_amount DECIMAL(10,2);
+  v_bundle_price INTEGER;
+BEGIN
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id INTO v_buyer_id
+  FROM public.profiles
+  WHERE lower(wallet_address) = lower(p_buyer_address)
+  LIMIT 1;
+
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'No profile uses wallet %', p_buyer_address USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chapters WHERE id = p_chapter_id AND story_id = p_story_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The contract accepts any payment for a story, so a whole-story purchase
+  -- must pay the buyer's bundle price
+  IF p_chapter_id IS NULL THEN
+    v_bundle_price := COALESCE(public.story_bundle_price(p_story_id, v_buyer_id), 0);
+
+    IF ROUND(p_amount) <> v_bundle_price THEN
+      RAISE EXCEPTION 'This story costs %, not %', v_bundle_price, p_amount USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  PERFORM public.check_bdag_purchase_event(
+    p_story_id, p_author_address, p_impact_recipient, p_impact_treasury, p_amount, p_impact_amount
+  );
+
+  v_author_amount := p_amount - COALESCE(p_impact_amount, 0) - COALESCE(p_platform_fee, 0);
+
+  IF v_author_amount < 0 THEN
+    RAISE EXCEPTION 'Impact share and platform fee exceed the payment' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    platform_fee_amount, transaction_type, status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    v_buyer_id, v_author_id, p_story_id, p_chapter_id, ROUND(p_amount)::INTEGER, v_author_amount,
+    COALESCE(p_impact_amount, 0), COALESCE(p_platform_fee, 0), 'purchase', 'completed', NOW(),
+    p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash);
+  ELSE
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'external', NULL, 'debit', p_amount, 'BDAG');
+
+    IF v_author_amount > 0 THEN
+      INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+      VALUES (v_transaction_id, 'user', v_author_id, 'credit', v_author_amount, 'BDAG');
+    END IF;
+
+    IF COALESCE(p_impact_amount, 0) > 0 THEN
+      INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+      VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', p_impact_amount, 'BDAG');
+    END IF;
+
+    IF COALESCE(p_platform_fee, 0) > 0 THEN
+      INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+      VALUES (v_transaction_id, 'platform', NULL, 'credit', p_platform_fee, 'BDAG');
+    END IF;
+  END IF;
+
+  IF p_chapter_id IS NULL THEN
+    INSERT INTO public.purchases (user_id, story_id, chapter_id)
+    VALUES (v_buyer_id, p_story_id, NULL)
+    ON CONFLICT (user_id, story_id) WHERE chapter_id IS NULL DO NOTHING;
+  ELSE
+    INSERT INTO public.purchases (user_id, story_id, chapter_id)
+    VALUES (v_buyer_id, p_story_id, p_chapter_id)
+    ON CONFLICT (user_id, chapter_id) DO NOTHING;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_bdag_purchase_event(UUID, TEXT, TEXT, TEXT, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.index_bdag_purchase(TEXT, TEXT, TEXT, TEXT, TEXT, UUID, UUID, DECIMAL, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.index_bdag_purchase(TEXT, TEXT, TEXT, TEXT, TEXT, UUID, UUID, DECIMAL, DECIMAL, DECIMAL) TO service_role;
@@ -0,0 +1,331 @@
+-- Pending BDAG payments
+-- The browser records a 'pending' transaction as soon as a BDAG payment is
+-- sent, so a purchase in flight survives the tab closing before tx.wait()
+-- returns. Recording the confirmed payment (from the browser or the purchase
+-- indexer) completes that row and writes its journal entries; a reverted
+-- payment is marked 'failed'.
+
+-- Record a BDAG payment that has been sent but not yet confirmed.
+-- No journal entries are written until the payment is confirmed. The caller
+-- is only who reported the hash; the indexer sets the buyer, story and
+-- chapter from the contract event.
+CREATE OR REPLACE FUNCTION public.start_blockchain_payment(
+  p_blockchain_tx_hash TEXT,
+  p_story_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_chapter_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_author_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record a payment' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_type NOT IN ('purchase', 'tip') THEN
+    RAISE EXCEPTION 'Only purchases and tips can be recorded' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A hash can only be claimed once, so nobody can pre-register another
+  -- reader's payment under their own name
+  IF EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash)
+       OR lower(blockchain_tx_hash) = lower(p_blockchain_tx_hash)
+  ) THEN
+    RAISE EXCEPTION 'Transaction % has already been recorded', p_blockchain_tx_hash USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, transaction_type,
+    status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    auth.uid(), v_author_id, p_story_id, p_chapter_id, p_amount, p_transaction_type,
+    'pending', NULL, p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.start_blockchain_payment(TEXT, UUID, INTEGER, TEXT, UUID) TO authenticated;
+
+-- Mark the caller's pending BDAG payment as failed (reverted or dropped)
+CREATE OR REPLACE FUNCTION public.fail_blockchain_payment(p_blockchain_tx_hash TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record a payment' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'failed', completed_at = NOW()
+  WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash)
+    AND from_user_id = auth.uid()
+    AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.fail_blockchain_payment(TEXT) TO authenticated;
+
+-- A confirmed payment now completes the row start_blockchain_payment wrote.
+-- Rows already completed are left alone, so recording stays idempotent.
+CREATE OR REPLACE FUNCTION public.record_blockchain_payment(
+  p_blockchain_tx_hash TEXT,
+  p_story_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_chapter_id UUID DEFAULT NULL,
+  p_platform_fee DECIMAL(10,2) DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_author_id UUID;
+  v_impact_percentage INTEGER;
+  v_impact_amount DECIMAL(10,2);
+  v_platform_fee DECIMAL(10,2);
+  v_author_amount DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to record a payment' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_transaction_type NOT IN ('purchase', 'tip') THEN
+    RAISE EXCEPTION 'Only purchases and tips can be recorded' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT author_id, COALESCE(impact_percentage, 0)
+  INTO v_author_id, v_impact_percentage
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_impact_amount := ROUND(p_amount * LEAST(GREATEST(v_impact_percentage, 0), 100) / 100.0, 2);
+  v_platform_fee := ROUND(GREATEST(COALESCE(p_platform_fee, 0), 0), 2);
+
+  IF v_impact_amount + v_platform_fee > p_amount THEN
+    RAISE EXCEPTION 'Impact share and platform fee exceed the payment' USING ERRCODE = '22023';
+  END IF;
+
+  v_author_amount := p_amount - v_impact_amount - v_platform_fee;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    platform_fee_amount, transaction_type, status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    auth.uid(), v_author_id, p_story_id, p_chapter_id, p_amount, v_author_amount, v_impact_amount,
+    v_platform_fee, p_transaction_type, 'completed', NOW(), p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO UPDATE
+  SET amount = EXCLUDED.amount,
+      author_amount = EXCLUDED.author_amount,
+      impact_amount = EXCLUDED.impact_amount,
+      platform_fee_amount = EXCLUDED.platform_fee_amount,
+      status = 'completed',
+      completed_at = NOW()
+  WHERE transactions.status <> 'completed'
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash);
+
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+  VALUES (v_transaction_id, 'external', NULL, 'debit', p_amount, 'BDAG');
+
+  IF v_author_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'user', v_author_id, 'credit', v_author_amount, 'BDAG');
+  END IF;
+
+  IF v_impact_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', v_impact_amount, 'BDAG');
+  END IF;
+
+  IF v_platform_fee > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'platform', NULL, 'credit', v_platform_fee, 'BDAG');
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- The indexer sees the purchase event, which proves the payment confirmed even
+-- if the browser marked it failed. The event, not the pending row, says who
+-- bought what.
+CREATE OR REPLACE FUNCTION public.index_bdag_purchase(
+  p_blockchain_tx_hash TEXT,
+  p_buyer_address TEXT,
+  p_author_address TEXT,
+  p_impact_recipient TEXT,
+  p_impact_treasury TEXT,
+  p_story_id UUID,
+  p_chapter_id UUID,
+  p_amount DECIMAL(10,2),
+  p_impact_amount DECIMAL(10,2),
+  p_platform_fee DECIMAL(10,2)
+)
+RETURNS UUID AS $$
+DECLARE
+  v_buyer_id UUID;
+  v_author_id UUID;
+  v_transaction_id UUID;
+  v_author_amount DECIMAL(10,2);
+  v_bundle_price INTEGER;
+BEGIN
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id INTO v_buyer_id
+  FROM public.profiles
+  WHERE lower(wallet_address) = lower(p_buyer_address)
+  LIMIT 1;
+
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'No profile uses wallet %', p_buyer_address USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chapters WHERE id = p_chapter_id AND story_id = p_story_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The contract accepts any payment for a story, so a whole-story purchase
+  -- must pay the buyer's bundle price
+  IF p_chapter_id IS NULL THEN
+    v_bundle_price := COALESCE(public.story_bundle_price(p_story_id, v_buyer_id), 0);
+
+    IF ROUND(p_amount) <> v_bundle_price THEN
+      RAISE EXCEPTION 'This story costs %, not %', v_bundle_price, p_amount USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  PERFORM public.check_bdag_purchase_event(
+    p_story_id, p_author_address, p_impact_recipient, p_impact_treasury, p_amount, p_impact_amount
+  );
+
+  v_author_amount := p_amount - COALESCE(p_impact_amount, 0) - COALESCE(p_platform_fee, 0);
+
+  IF v_author_amount < 0 THEN
+    RAISE EXCEPTION 'Impact share and platform fee exceed the payment' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    platform_fee_amount, transaction_type, status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    v_buyer_id, v_author_id, p_story_id, p_chapter_id, ROUND(p_amount)::INTEGER, v_author_amount,
+    COALESCE(p_impact_amount, 0), COALESCE(p_platform_fee, 0), 'purchase', 'completed', NOW(),
+    p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO UPDATE
+  SET from_user_id = EXCLUDED.from_user_id,
+      to_user_id = EXCLUDED.to_user_id,
+      story_id = EXCLUDED.story_id,
+      chapter_id = EXCLUDED.chapter_id,
+      transaction_type = EXCLUDED.transaction_type,
+      amount = EXCLUDED.amount,
+      author_amount = EXCLUDED.author_amount,
+      impact_amount = EXCLUDED.impact_amount,
+      platform_fee_amount = EXCLUDED.platform_fee_amount,
+      status = 'completed',
+      completed_at = NOW()
+  WHERE transactions.status <> 'completed'
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash);
+  ELSE
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'external', NULL, 'debit', p_amount, 'BDAG');
+
+    IF v_author_amount > 0 THEN
+      INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+      VALUES (v_transaction_id, 'user', v_author_id, 'credit', v_author_amount, 'BDAG');
+    END IF;
+
+    IF COALESCE(p_impact_amount, 0) > 0 THEN
+      INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+      VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', p_impact_amount, 'BDAG');
+    END IF;
+
+    IF COALESCE(p_platform_fee, 0) > 0 THEN
+      INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+      VALUES (v_transaction_id, 'platform', NULL, 'credit', p_platform_fee, 'BDAG');
+    END IF;
+  END IF;
+
+  IF p_chapter_id IS NULL THEN
+    INSERT INTO public.purchases (user_id, story_id, chapter_id)
+    VALUES (v_buyer_id, p_story_id, NULL)
+    ON CONFLICT (user_id, story_id) WHERE chapter_id IS NULL DO NOTHING;
+  ELSE
+    INSERT INTO public.purchases (user_id, story_id, chapter_id)
+    VALUES (v_buyer_id, p_story_id, p_chapter_id)
+    ON CONFLICT (user_id, chapter_id) DO NOTHING;
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
@@ -0,0 +1,98 @@
+-- Server-enforced chapter paywall
+-- demo_chapters_select_all let anyone read chapters.content. Chapter rows are
+-- now only visible to readers with access; everyone else reads the
+-- chapter_previews view, which swaps the content for a short teaser.
+
+-- Whether the caller may read a chapter in full: it is free, they wrote it, or
+-- they bought it (the chapter itself or the whole story)
+CREATE OR REPLACE FUNCTION public.has_chapter_access(p_chapter_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_story_id UUID;
+  v_author_id UUID;
+  v_is_free BOOLEAN;
+  v_published BOOLEAN;
+BEGIN
+  SELECT c.story_id, s.author_id, COALESCE(c.is_free, false), COALESCE(c.published, false)
+  INTO v_story_id, v_author_id, v_is_free, v_published
+  FROM public.chapters c
+  JOIN public.stories s ON s.id = c.story_id
+  WHERE c.id = p_chapter_id;
+
+  IF v_story_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() = v_author_id THEN
+    RETURN true;
+  END IF;
+
+  IF NOT v_published THEN
+    RETURN false;
+  END IF;
+
+  IF v_is_free THEN
+    RETURN true;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchases
+    WHERE user_id = auth.uid()
+      AND story_id = v_story_id
+      AND (chapter_id = p_chapter_id OR chapter_id IS NULL)
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- Access granted through the older setup_chapter_purchases.sql flow
+  IF to_regclass('public.user_chapter_access') IS NOT NULL THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.user_chapter_access
+      WHERE user_id = auth.uid() AND chapter_id = p_chapter_id
+    );
+  END IF;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_chapter_access(UUID) TO anon, authenticated;
+
+-- Access follows purchases rows, so readers can no longer write their own.
+-- Only the payment functions and the purchase indexer do.
+DROP POLICY IF EXISTS "demo_purchases_insert_own" ON public.purchases;
+
+DROP POLICY IF EXISTS "demo_chapters_select_all" ON public.chapters;
+
+CREATE POLICY "chapters_select_with_access" ON public.chapters
+  FOR SELECT USING (public.has_chapter_access(id));
+
+-- Chapter listing for readers. Published chapters (and the author's drafts)
+-- are all listed; content is the full text only when the caller has access,
+-- otherwise the first 300 characters.
+CREATE OR REPLACE VIEW public.chapter_previews AS
+SELECT
+  c.id,
+  c.story_id,
+  c.chapter_number,
+  c.title,
+  c.is_free,
+  c.published,
+  c.created_at,
+  c.updated_at,
+  a.has_access,
+  CASE
+    WHEN a.has_access THEN c.content
+    ELSE left(c.content, 300)
+  END AS content
+FROM public.chapters c
+JOIN public.stories s ON s.id = c.story_id
+CROSS JOIN LATERAL (SELECT public.has_chapter_access(c.id) AS has_access) a
+WHERE c.published = true OR s.author_id = auth.uid();
+
+GRANT SELECT ON public.chapter_previews TO anon, authenticated;
@@ -0,0 +1,469 @@
+-- Entitlements
+-- One table records every reason a reader can open a chapter or a whole story:
+-- a purchase, a gift, a promo, an author grant or a subscription. It replaces
+-- purchases and user_chapter_access, whose rows are folded in below; those
+-- tables are kept read-only for history.
+
+CREATE TABLE IF NOT EXISTS public.entitlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  -- NULL grants the whole story
+  chapter_id UUID REFERENCES public.chapters(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('purchase', 'gift', 'promo', 'author_grant', 'subscription')),
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entitlements_chapter
+  ON public.entitlements(user_id, chapter_id, source)
+  WHERE chapter_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entitlements_story
+  ON public.entitlements(user_id, story_id, source)
+  WHERE chapter_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_entitlements_user_story ON public.entitlements(user_id, story_id);
+
+ALTER TABLE public.entitlements ENABLE ROW LEVEL SECURITY;
+
+-- Readers see their own entitlements, authors see who can read their stories.
+-- Rows are only written by the functions below.
+CREATE POLICY "Users can view their entitlements" ON public.entitlements
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR auth.uid() = (SELECT author_id FROM public.stories WHERE id = story_id)
+  );
+
+-- Fold in existing access
+INSERT INTO public.entitlements (user_id, story_id, chapter_id, source, created_at)
+SELECT user_id, story_id, chapter_id, 'purchase', purchased_at
+FROM public.purchases
+WHERE chapter_id IS NOT NULL
+ON CONFLICT (user_id, chapter_id, source) WHERE chapter_id IS NOT NULL DO NOTHING;
+
+INSERT INTO public.entitlements (user_id, story_id, chapter_id, source, created_at)
+SELECT user_id, story_id, NULL, 'purchase', purchased_at
+FROM public.purchases
+WHERE chapter_id IS NULL
+ON CONFLICT (user_id, story_id, source) WHERE chapter_id IS NULL DO NOTHING;
+
+DO $$
+BEGIN
+  IF to_regclass('public.user_chapter_access') IS NOT NULL THEN
+    INSERT INTO public.entitlements (user_id, story_id, chapter_id, source, created_at)
+    SELECT user_id, story_id, chapter_id, 'purchase', purchased_at
+    FROM public.user_chapter_access
+    ON CONFLICT (user_id, chapter_id, source) WHERE chapter_id IS NOT NULL DO NOTHING;
+  END IF;
+END $$;
+
+-- Grant (or extend) an entitlement. Internal: callers check who may grant what.
+CREATE OR REPLACE FUNCTION public.grant_entitlement(
+  p_user_id UUID,
+  p_story_id UUID,
+  p_chapter_id UUID,
+  p_source TEXT,
+  p_transaction_id UUID DEFAULT NULL,
+  p_granted_by UUID DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entitlement_id UUID;
+BEGIN
+  IF p_chapter_id IS NULL THEN
+    INSERT INTO public.entitlements (user_id, story_id, chapter_id, source, transaction_id, granted_by, expires_at)
+    VALUES (p_user_id, p_story_id, NULL, p_source, p_transaction_id, p_granted_by, p_expires_at)
+    ON CONFLICT (user_id, story_id, source) WHERE chapter_id IS NULL DO UPDATE
+    SET expires_at = CASE
+          WHEN entitlements.expires_at IS NULL OR EXCLUDED.expires_at IS NULL THEN NULL
+          ELSE GREATEST(entitlements.expires_at, EXCLUDED.expires_at)
+        END
+    RETURNING id INTO v_entitlement_id;
+  ELSE
+    INSERT INTO public.entitlements (user_id, story_id, chapter_id, source, transaction_id, granted_by, expires_at)
+    VALUES (p_user_id, p_story_id, p_chapter_id, p_source, p_transaction_id, p_granted_by, p_expires_at)
+    ON CONFLICT (user_id, chapter_id, source) WHERE chapter_id IS NOT NULL DO UPDATE
+    SET expires_at = CASE
+          WHEN entitlements.expires_at IS NULL OR EXCLUDED.expires_at IS NULL THEN NULL
+          ELSE GREATEST(entitlements.expires_at, EXCLUDED.expires_at)
+        END
+    RETURNING id INTO v_entitlement_id;
+  END IF;
+
+  RETURN v_entitlement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_entitlement(UUID, UUID, UUID, TEXT, UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Every completed purchase transaction grants its entitlement: credit chapter
+-- purchases, credit bundles and BDAG payments, whoever records them. A
+-- purchase without a chapter opens the whole story, so it has to have paid
+-- the buyer's bundle price.
+CREATE OR REPLACE FUNCTION public.grant_purchase_entitlement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bundle_price INTEGER;
+BEGIN
+  IF NEW.status = 'completed'
+     AND NEW.transaction_type = 'purchase'
+     AND NEW.story_id IS NOT NULL
+     AND NEW.from_user_id IS NOT NULL THEN
+    IF NEW.chapter_id IS NULL THEN
+      v_bundle_price := COALESCE(public.story_bundle_price(NEW.story_id, NEW.from_user_id), 0);
+
+      IF NEW.amount < v_bundle_price THEN
+        RAISE EXCEPTION 'This story costs %, not %', v_bundle_price, NEW.amount USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    PERFORM public.grant_entitlement(NEW.from_user_id, NEW.story_id, NEW.chapter_id, 'purchase', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER grant_purchase_entitlement
+  AFTER INSERT OR UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.grant_purchase_entitlement();
+
+-- Completing a BDAG payment now grants access, so only the purchase indexer
+-- may do it once it has checked the contract event. Clients record the
+-- pending payment with start_blockchain_payment.
+REVOKE EXECUTE ON FUNCTION public.record_blockchain_payment(TEXT, UUID, INTEGER, TEXT, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Let authors gift or grant access to their own stories. Admins can also hand
+-- out promo and subscription access to any story.
+CREATE OR REPLACE FUNCTION public.grant_story_entitlement(
+  p_user_id UUID,
+  p_story_id UUID,
+  p_chapter_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT 'author_grant',
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_author_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to grant access' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source NOT IN ('gift', 'promo', 'author_grant', 'subscription') THEN
+    RAISE EXCEPTION 'Purchases can only be granted by a payment' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chapters WHERE id = p_chapter_id AND story_id = p_story_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.is_admin() AND (
+    v_author_id <> auth.uid() OR p_source NOT IN ('gift', 'author_grant')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to grant access to this story' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.grant_entitlement(p_user_id, p_story_id, p_chapter_id, p_source, NULL, auth.uid(), p_expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.grant_story_entitlement(UUID, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Number of distinct readers holding any entitlement, for the impact page
+CREATE OR REPLACE FUNCTION public.count_readers()
+RETURNS INTEGER AS $$
+  SELECT COUNT(DISTINCT user_id)::INTEGER FROM public.entitlements;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.count_readers() TO anon, authenticated;
+
+-- Access checks now read entitlements
+CREATE OR REPLACE FUNCTION public.has_chapter_access(p_chapter_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_story_id UUID;
+  v_author_id UUID;
+  v_is_free BOOLEAN;
+  v_published BOOLEAN;
+BEGIN
+  SELECT c.story_id, s.author_id, COALESCE(c.is_free, false), COALESCE(c.published, false)
+  INTO v_story_id, v_author_id, v_is_free, v_published
+  FROM public.chapters c
+  JOIN public.stories s ON s.id = c.story_id
+  WHERE c.id = p_chapter_id;
+
+  IF v_story_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() = v_author_id THEN
+    RETURN true;
+  END IF;
+
+  IF NOT v_published THEN
+    RETURN false;
+  END IF;
+
+  IF v_is_free THEN
+    RETURN true;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.entitlements
+    WHERE user_id = auth.uid()
+      AND story_id = v_story_id
+      AND (chapter_id = p_chapter_id OR chapter_id IS NULL)
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.story_bundle_price(
+  p_story_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+  SELECT ROUND(
+           COUNT(c.id) * s.price_per_chapter * (100 - s.bundle_discount_percentage) / 100.0
+         )::INTEGER
+  FROM public.stories s
+  LEFT JOIN public.chapters c
+    ON c.story_id = s.id
+   AND c.published = true
+   AND COALESCE(c.is_free, false) = false
+   AND NOT EXISTS (
+     SELECT 1 FROM public.entitlements e
+     WHERE e.user_id = p_user_id
+       AND e.chapter_id = c.id
+       AND (e.expires_at IS NULL OR e.expires_at > now())
+   )
+  WHERE s.id = p_story_id
+  GROUP BY s.id, s.price_per_chapter, s.bundle_discount_percentage;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.purchase_story_bundle(
+  p_story_id UUID,
+  p_idempotency_key TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_author_id UUID;
+  v_price INTEGER;
+  v_transaction_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to buy a story' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id AND published = true;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_author_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot buy your own story' USING ERRCODE = '22023';
+  END IF;
+
+  -- Replayed request: return the original transaction
+  SELECT id INTO v_transaction_id
+  FROM public.transactions
+  WHERE idempotency_key = p_idempotency_key AND from_user_id = auth.uid();
+
+  IF v_transaction_id IS NOT NULL THEN
+    RETURN v_transaction_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.entitlements
+    WHERE user_id = auth.uid() AND story_id = p_story_id AND chapter_id IS NULL AND source = 'purchase'
+  ) THEN
+    RAISE EXCEPTION 'Story already purchased' USING ERRCODE = '23505';
+  END IF;
+
+  v_price := COALESCE(public.story_bundle_price(p_story_id, auth.uid()), 0);
+
+  -- The purchase transaction grants the entitlement; a free bundle is granted here
+  IF v_price > 0 THEN
+    v_transaction_id := public.process_credit_transaction(
+      auth.uid(), v_author_id, v_price, 'purchase', p_idempotency_key, p_story_id, NULL
+    );
+  ELSE
+    PERFORM public.grant_entitlement(auth.uid(), p_story_id, NULL, 'purchase');
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- The indexer no longer writes purchases rows: completing the transaction
+-- grants the entitlement. The buyer, story and chapter come from the event,
+-- never from a pending row someone else may have started with the same hash.
+CREATE OR REPLACE FUNCTION public.index_bdag_purchase(
+  p_blockchain_tx_hash TEXT,
+  p_buyer_address TEXT,
+  p_author_address TEXT,
+  p_impact_recipient TEXT,
+  p_impact_treasury TEXT,
+  p_story_id UUID,
+  p_chapter_id UUID,
+  p_amount DECIMAL(10,2),
+  p_impact_amount DECIMAL(10,2),
+  p_platform_fee DECIMAL(10,2)
+)
+RETURNS UUID AS $$
+DECLARE
+  v_buyer_id UUID;
+  v_author_id UUID;
+  v_transaction_id UUID;
+  v_author_amount DECIMAL(10,2);
+  v_bundle_price INTEGER;
+BEGIN
+  IF p_blockchain_tx_hash IS NULL OR length(p_blockchain_tx_hash) = 0 THEN
+    RAISE EXCEPTION 'A blockchain transaction hash is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT user_id INTO v_buyer_id
+  FROM public.profiles
+  WHERE lower(wallet_address) = lower(p_buyer_address)
+  LIMIT 1;
+
+  -- A reader who hasn't saved their wallet is known by the pending payment
+  -- they started, as long as it is for what the event bought
+  IF v_buyer_id IS NULL THEN
+    SELECT from_user_id INTO v_buyer_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash)
+      AND transaction_type = 'purchase'
+      AND story_id = p_story_id
+      AND chapter_id IS NOT DISTINCT FROM p_chapter_id;
+  END IF;
+
+  IF v_buyer_id IS NULL THEN
+    RAISE EXCEPTION 'No profile uses wallet %', p_buyer_address USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chapters WHERE id = p_chapter_id AND story_id = p_story_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The contract accepts any payment for a story, so a whole-story purchase
+  -- must pay the buyer's bundle price
+  IF p_chapter_id IS NULL THEN
+    v_bundle_price := COALESCE(public.story_bundle_price(p_story_id, v_buyer_id), 0);
+
+    IF ROUND(p_amount) <> v_bundle_price THEN
+      RAISE EXCEPTION 'This story costs %, not %', v_bundle_price, p_amount USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  PERFORM public.check_bdag_purchase_event(
+    p_story_id, p_author_address, p_impact_recipient, p_impact_treasury, p_amount, p_impact_amount
+  );
+
+  v_author_amount := p_amount - COALESCE(p_impact_amount, 0) - COALESCE(p_platform_fee, 0);
+
+  IF v_author_amount < 0 THEN
+    RAISE EXCEPTION 'Impact share and platform fee exceed the payment' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.transactions (
+    from_user_id, to_user_id, story_id, chapter_id, amount, author_amount, impact_amount,
+    platform_fee_amount, transaction_type, status, completed_at, blockchain_tx_hash, currency, idempotency_key
+  )
+  VALUES (
+    v_buyer_id, v_author_id, p_story_id, p_chapter_id, ROUND(p_amount)::INTEGER, v_author_amount,
+    COALESCE(p_impact_amount, 0), COALESCE(p_platform_fee, 0), 'purchase', 'completed', NOW(),
+    p_blockchain_tx_hash, 'BDAG', 'bdag:' || lower(p_blockchain_tx_hash)
+  )
+  ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO UPDATE
+  SET from_user_id = EXCLUDED.from_user_id,
+      to_user_id = EXCLUDED.to_user_id,
+      story_id = EXCLUDED.story_id,
+      chapter_id = EXCLUDED.chapter_id,
+      transaction_type = EXCLUDED.transaction_type,
+      amount = EXCLUDED.amount,
+      author_amount = EXCLUDED.author_amount,
+      impact_amount = EXCLUDED.impact_amount,
+      platform_fee_amount = EXCLUDED.platform_fee_amount,
+      status = 'completed',
+      completed_at = NOW()
+  WHERE transactions.status <> 'completed'
+  RETURNING id INTO v_transaction_id;
+
+  IF v_transaction_id IS NULL THEN
+    SELECT id INTO v_transaction_id
+    FROM public.transactions
+    WHERE idempotency_key = 'bdag:' || lower(p_blockchain_tx_hash);
+
+    -- Already completed; make sure the buyer holds the entitlement
+    PERFORM public.grant_entitlement(v_buyer_id, p_story_id, p_chapter_id, 'purchase', v_transaction_id);
+
+    RETURN v_transaction_id;
+  END IF;
+
+  INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+  VALUES (v_transaction_id, 'external', NULL, 'debit', p_amount, 'BDAG');
+
+  IF v_author_amount > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'user', v_author_id, 'credit', v_author_amount, 'BDAG');
+  END IF;
+
+  IF COALESCE(p_impact_amount, 0) > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'impact_pool', NULL, 'credit', p_impact_amount, 'BDAG');
+  END IF;
+
+  IF COALESCE(p_platform_fee, 0) > 0 THEN
+    INSERT INTO public.credit_ledger_entries (transaction_id, account_type, user_id, entry_type, amount, currency)
+    VALUES (v_transaction_id, 'platform', NULL, 'credit', p_platform_fee, 'BDAG');
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
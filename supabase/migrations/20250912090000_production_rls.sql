@@ -0,0 +1,125 @@
+-- Production access rules
+-- Replaces the permissive demo_* policies. Profiles are private to their
+-- owner, with the public fields readable through public_profiles; financial
+-- rows are only visible to the users involved; only authors write their own
+-- stories and chapters. Balances, earnings, transactions and entitlements are
+-- written by the SECURITY DEFINER functions, never directly by clients.
+
+DROP POLICY IF EXISTS "demo_profiles_select_all" ON public.profiles;
+DROP POLICY IF EXISTS "demo_profiles_update_own" ON public.profiles;
+DROP POLICY IF EXISTS "demo_profiles_insert_own" ON public.profiles;
+DROP POLICY IF EXISTS "demo_categories_select_all" ON public.categories;
+DROP POLICY IF EXISTS "demo_stories_select_all" ON public.stories;
+DROP POLICY IF EXISTS "demo_stories_insert_own" ON public.stories;
+DROP POLICY IF EXISTS "demo_stories_update_own" ON public.stories;
+DROP POLICY IF EXISTS "demo_chapters_insert_own" ON public.chapters;
+DROP POLICY IF EXISTS "demo_chapters_update_own" ON public.chapters;
+DROP POLICY IF EXISTS "demo_transactions_select_all" ON public.transactions;
+DROP POLICY IF EXISTS "demo_transactions_insert_own" ON public.transactions;
+DROP POLICY IF EXISTS "demo_purchases_select_all" ON public.purchases;
+DROP POLICY IF EXISTS "demo_user_chapter_access_select_all" ON public.user_chapter_access;
+DROP POLICY IF EXISTS "demo_user_chapter_access_insert_own" ON public.user_chapter_access;
+DROP POLICY IF EXISTS "demo_author_profiles_select_all" ON public.author_profiles;
+DROP POLICY IF EXISTS "demo_author_profiles_insert_own" ON public.author_profiles;
+DROP POLICY IF EXISTS "demo_author_profiles_update_own" ON public.author_profiles;
+DROP POLICY IF EXISTS "demo_user_credits_select_all" ON public.user_credits;
+DROP POLICY IF EXISTS "demo_user_credits_insert_own" ON public.user_credits;
+DROP POLICY IF EXISTS "demo_user_credits_update_own" ON public.user_credits;
+
+-- Profiles: the whole row is the owner's. wallet_balance, total_earnings and
+-- is_admin are left out of the column grants, so clients cannot set them.
+CREATE POLICY "profiles_select_own" ON public.profiles
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "profiles_insert_own" ON public.profiles
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "profiles_update_own" ON public.profiles
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE ON public.profiles FROM anon, authenticated;
+GRANT INSERT (user_id, display_name, bio, is_anonymous, is_author, pseudonym, wallet_address, wallet_data, avatar_url, updated_at)
+  ON public.profiles TO authenticated;
+GRANT UPDATE (display_name, bio, is_anonymous, is_author, pseudonym, wallet_address, wallet_data, avatar_url, updated_at)
+  ON public.profiles TO authenticated;
+
+-- What anyone may see about a user. An author's wallet address is the payout
+-- address readers pay BDAG to, and their earnings total is shown on chapters.
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+  p.id,
+  p.user_id,
+  p.display_name,
+  p.bio,
+  p.avatar_url,
+  p.is_author,
+  p.is_anonymous,
+  p.pseudonym,
+  CASE WHEN p.is_author THEN p.wallet_address END AS wallet_address,
+  CASE WHEN p.is_author THEN COALESCE(p.total_earnings, 0) END AS total_earnings,
+  p.created_at
+FROM public.profiles p;
+
+REVOKE ALL ON public.public_profiles FROM anon, authenticated;
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+CREATE POLICY "categories_select_all" ON public.categories
+  FOR SELECT USING (true);
+
+-- Stories: published ones are public, drafts only visible to their author
+CREATE POLICY "stories_select_published_or_own" ON public.stories
+  FOR SELECT USING (published = true OR auth.uid() = author_id);
+CREATE POLICY "stories_insert_own" ON public.stories
+  FOR INSERT WITH CHECK (auth.uid() = author_id);
+CREATE POLICY "stories_update_own" ON public.stories
+  FOR UPDATE USING (auth.uid() = author_id) WITH CHECK (auth.uid() = author_id);
+CREATE POLICY "stories_delete_own" ON public.stories
+  FOR DELETE USING (auth.uid() = author_id);
+
+-- Chapters: reads stay with chapters_select_with_access (the paywall)
+CREATE POLICY "chapters_insert_own" ON public.chapters
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND author_id = auth.uid())
+  );
+CREATE POLICY "chapters_update_own" ON public.chapters
+  FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND author_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND author_id = auth.uid()));
+CREATE POLICY "chapters_delete_own" ON public.chapters
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND author_id = auth.uid())
+  );
+
+-- Transactions: only the sender and the recipient see them
+CREATE POLICY "transactions_select_participant" ON public.transactions
+  FOR SELECT USING (auth.uid() = from_user_id OR auth.uid() = to_user_id);
+
+CREATE POLICY "purchases_select_own" ON public.purchases
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "user_chapter_access_select_own" ON public.user_chapter_access
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Author profiles: earnings and reader stats are kept by the database
+CREATE POLICY "author_profiles_select_own" ON public.author_profiles
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "author_profiles_insert_own" ON public.author_profiles
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "author_profiles_update_own" ON public.author_profiles
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE ON public.author_profiles FROM anon, authenticated;
+GRANT INSERT (user_id, pseudonym, wallet_address, wallet_data, impact_percentage, updated_at)
+  ON public.author_profiles TO authenticated;
+GRANT UPDATE (pseudonym, wallet_address, wallet_data, impact_percentage, updated_at)
+  ON public.author_profiles TO authenticated;
+
+-- Credits: users may open their own empty account; balances only move
+-- through the credit functions
+CREATE POLICY "user_credits_select_own" ON public.user_credits
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "user_credits_insert_own_empty" ON public.user_credits
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND COALESCE(balance, 0) = 0
+    AND COALESCE(total_earned, 0) = 0
+    AND COALESCE(total_spent, 0) = 0
+  );
@@ -0,0 +1,248 @@
+-- Anonymous author identity protection
+-- A story is anonymous when the story or its author's profile is marked
+-- anonymous. Readers never see the real user id, display name or wallet
+-- address behind an anonymous story: they read stories through public_stories,
+-- which names the author by a pseudonymous handle, and pay through functions
+-- that resolve the author on the server. BDAG payments for anonymous stories go
+-- to the platform's payout relay instead of the author's own wallet, so the
+-- chain does not link readers to the author either; the author's share is
+-- still recorded in the journal and paid out from the relay.
+
+-- The opaque id of an author's pen name, unrelated to their user id
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS pen_handle UUID NOT NULL DEFAULT gen_random_uuid();
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_pen_handle ON public.profiles(pen_handle);
+
+-- Platform configuration read by the database functions. Only set from the
+-- SQL Editor or with the service role key.
+CREATE TABLE IF NOT EXISTS public.platform_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.platform_settings ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.platform_settings FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_anonymous_story(p_story_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(s.is_anonymous, false) OR COALESCE(p.is_anonymous, false)
+  FROM public.stories s
+  LEFT JOIN public.profiles p ON p.user_id = s.author_id
+  WHERE s.id = p_story_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_anonymous_story(UUID) TO anon, authenticated;
+
+-- Story rows carry the author's user id, so only the author reads them directly
+DROP POLICY IF EXISTS "stories_select_published_or_own" ON public.stories;
+CREATE POLICY "stories_select_own" ON public.stories
+  FOR SELECT USING (auth.uid() = author_id);
+
+-- What readers see of a story. author_handle identifies the author's public
+-- page: their user id for named stories, their pen handle for anonymous ones.
+CREATE OR REPLACE VIEW public.public_stories AS
+SELECT
+  s.id,
+  s.title,
+  s.description,
+  s.cover_image_url,
+  s.category_id,
+  s.beneficiary_id,
+  s.price_per_chapter,
+  s.bundle_discount_percentage,
+  s.total_chapters,
+  s.published,
+  a.is_anonymous,
+  s.impact_percentage,
+  s.created_at,
+  s.updated_at,
+  CASE WHEN a.is_anonymous THEN NULL ELSE s.author_id END AS author_id,
+  CASE WHEN a.is_anonymous THEN p.pen_handle ELSE s.author_id END AS author_handle,
+  CASE WHEN a.is_anonymous THEN COALESCE(p.pseudonym, 'Anonymous author') ELSE p.display_name END AS author_name,
+  COALESCE(s.author_id = auth.uid(), false) AS is_own
+FROM public.stories s
+LEFT JOIN public.profiles p ON p.user_id = s.author_id
+CROSS JOIN LATERAL (
+  SELECT COALESCE(s.is_anonymous, false) OR COALESCE(p.is_anonymous, false) AS is_anonymous
+) a
+WHERE s.published = true OR s.author_id = auth.uid();
+
+REVOKE ALL ON public.public_stories FROM anon, authenticated;
+GRANT SELECT ON public.public_stories TO anon, authenticated;
+
+-- Pen names of authors with published anonymous stories, looked up by handle
+CREATE OR REPLACE VIEW public.anonymous_authors AS
+SELECT
+  p.pen_handle AS handle,
+  COALESCE(p.pseudonym, 'Anonymous author') AS pseudonym
+FROM public.profiles p
+WHERE EXISTS (
+  SELECT 1 FROM public.stories s
+  WHERE s.author_id = p.user_id
+    AND s.published = true
+    AND (COALESCE(s.is_anonymous, false) OR COALESCE(p.is_anonymous, false))
+);
+
+REVOKE ALL ON public.anonymous_authors FROM anon, authenticated;
+GRANT SELECT ON public.anonymous_authors TO anon, authenticated;
+
+-- Anonymous profiles are left out entirely: their user id is what links them to
+-- their stories and payments. They appear through anonymous_authors instead.
+DROP VIEW IF EXISTS public.public_profiles;
+CREATE VIEW public.public_profiles AS
+SELECT
+  p.id,
+  p.user_id,
+  p.display_name,
+  p.bio,
+  p.avatar_url,
+  p.is_author,
+  CASE WHEN p.is_author THEN p.wallet_address END AS wallet_address,
+  CASE WHEN p.is_author THEN COALESCE(p.total_earnings, 0) END AS total_earnings,
+  p.created_at
+FROM public.profiles p
+WHERE NOT COALESCE(p.is_anonymous, false);
+
+REVOKE ALL ON public.public_profiles FROM anon, authenticated;
+GRANT SELECT ON public.public_profiles TO anon, authenticated;
+
+-- Where to send a BDAG payment for a story: the author's wallet, or the payout
+-- relay when the story is anonymous
+CREATE OR REPLACE FUNCTION public.get_story_payout_address(p_story_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_author_id UUID;
+  v_address TEXT;
+BEGIN
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id AND published = true;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.is_anonymous_story(p_story_id) THEN
+    SELECT value INTO v_address
+    FROM public.platform_settings
+    WHERE key = 'anonymous_payout_address';
+  ELSE
+    SELECT wallet_address INTO v_address
+    FROM public.profiles
+    WHERE user_id = v_author_id;
+  END IF;
+
+  RETURN v_address;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_story_payout_address(UUID) TO anon, authenticated;
+
+-- Purchases of anonymous stories pay the relay, so indexed purchase events are
+-- checked against the same payout address the buyer was given
+CREATE OR REPLACE FUNCTION public.check_bdag_purchase_event(
+  p_story_id UUID,
+  p_author_address TEXT,
+  p_impact_recipient TEXT,
+  p_impact_treasury TEXT,
+  p_amount DECIMAL(10,2),
+  p_impact_amount DECIMAL(10,2)
+)
+RETURNS VOID AS $$
+DECLARE
+  v_payout_address TEXT := public.get_story_payout_address(p_story_id);
+  v_beneficiary_address TEXT;
+  v_impact_percentage INTEGER;
+BEGIN
+  IF v_payout_address IS NULL OR lower(v_payout_address) <> lower(COALESCE(p_author_address, '')) THEN
+    RAISE EXCEPTION 'The purchase paid %, not the story''s author', p_author_address USING ERRCODE = '22023';
+  END IF;
+
+  SELECT b.wallet_address, COALESCE(s.impact_percentage, 0)
+  INTO v_beneficiary_address, v_impact_percentage
+  FROM public.stories s
+  LEFT JOIN public.beneficiaries b ON b.id = s.beneficiary_id
+  WHERE s.id = p_story_id;
+
+  IF NOT COALESCE(lower(p_impact_recipient) IN (lower(v_beneficiary_address), lower(p_impact_treasury)), false) THEN
+    RAISE EXCEPTION 'The impact share went to %, not the story''s beneficiary', p_impact_recipient USING ERRCODE = '22023';
+  END IF;
+
+  IF abs(COALESCE(p_impact_amount, 0) - ROUND(p_amount * v_impact_percentage / 100.0, 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The impact share does not match the story''s % percent', v_impact_percentage USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+-- Pay a story's author in credits without the caller knowing who they are
+CREATE OR REPLACE FUNCTION public.pay_story_author(
+  p_story_id UUID,
+  p_amount INTEGER,
+  p_transaction_type TEXT,
+  p_idempotency_key TEXT,
+  p_chapter_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_author_id UUID;
+BEGIN
+  SELECT author_id INTO v_author_id
+  FROM public.stories
+  WHERE id = p_story_id AND published = true;
+
+  IF v_author_id IS NULL THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN public.process_credit_transaction(
+    auth.uid(), v_author_id, p_amount, p_transaction_type, p_idempotency_key, p_story_id, p_chapter_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.pay_story_author(UUID, INTEGER, TEXT, TEXT, UUID) TO authenticated;
+
+-- Calling process_credit_transaction with a guessed recipient would confirm who
+-- wrote a story, so clients pay through pay_story_author instead
+REVOKE EXECUTE ON FUNCTION public.process_credit_transaction(UUID, UUID, INTEGER, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Payers of an anonymous story must not learn the recipient from their own
+-- transaction row; they read it through transaction_history instead
+DROP POLICY IF EXISTS "transactions_select_participant" ON public.transactions;
+CREATE POLICY "transactions_select_participant" ON public.transactions
+  FOR SELECT USING (
+    auth.uid() = to_user_id
+    OR (auth.uid() = from_user_id AND NOT COALESCE(public.is_anonymous_story(story_id), false))
+  );
+
+-- The caller's transactions, with the recipient hidden when they paid the
+-- author of an anonymous story
+CREATE OR REPLACE VIEW public.transaction_history AS
+SELECT
+  t.id,
+  t.from_user_id,
+  CASE
+    WHEN t.to_user_id <> auth.uid() AND COALESCE(public.is_anonymous_story(t.story_id), false) THEN NULL
+    ELSE t.to_user_id
+  END AS to_user_id,
+  t.story_id,
+  t.chapter_id,
+  t.amount,
+  t.author_amount,
+  t.impact_amount,
+  t.platform_fee_amount,
+  t.currency,
+  t.transaction_type,
+  t.status,
+  t.blockchain_tx_hash,
+  t.created_at,
+  t.completed_at
+FROM public.transactions t
+WHERE auth.uid() IN (t.from_user_id, t.to_user_id);
+
+REVOKE ALL ON public.transaction_history FROM anon, authenticated;
+GRANT SELECT ON public.transaction_history TO authenticated;
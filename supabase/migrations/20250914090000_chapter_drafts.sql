@@ -0,0 +1,86 @@
+-- Chapter drafts
+-- The chapter editor autosaves here while an author writes, so closing the
+-- dialog or losing the tab does not lose their work. There is at most one
+-- draft per chapter, plus one per story for the chapter not created yet. The
+-- draft is deleted once the chapter is saved.
+
+CREATE TABLE IF NOT EXISTS public.chapter_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  -- Null for a chapter that has not been created yet
+  chapter_id UUID REFERENCES public.chapters(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL DEFAULT '',
+  is_free BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chapter_drafts_chapter
+  ON public.chapter_drafts(chapter_id) WHERE chapter_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chapter_drafts_new_chapter
+  ON public.chapter_drafts(story_id) WHERE chapter_id IS NULL;
+
+ALTER TABLE public.chapter_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are written through save_chapter_draft()
+CREATE POLICY "chapter_drafts_select_own" ON public.chapter_drafts
+  FOR SELECT USING (auth.uid() = author_id);
+CREATE POLICY "chapter_drafts_delete_own" ON public.chapter_drafts
+  FOR DELETE USING (auth.uid() = author_id);
+
+REVOKE INSERT, UPDATE ON public.chapter_drafts FROM anon, authenticated;
+
+-- Save the author's draft of a chapter, replacing the previous one. Returns
+-- when it was saved.
+CREATE OR REPLACE FUNCTION public.save_chapter_draft(
+  p_story_id UUID,
+  p_chapter_id UUID,
+  p_title TEXT,
+  p_content TEXT,
+  p_is_free BOOLEAN DEFAULT false
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_saved_at TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stories
+    WHERE id = p_story_id AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the author can save drafts of this story' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chapters
+    WHERE id = p_chapter_id AND story_id = p_story_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NULL THEN
+    INSERT INTO public.chapter_drafts (story_id, chapter_id, author_id, title, content, is_free, updated_at)
+    VALUES (p_story_id, NULL, auth.uid(), COALESCE(p_title, ''), COALESCE(p_content, ''), COALESCE(p_is_free, false), v_saved_at)
+    ON CONFLICT (story_id) WHERE chapter_id IS NULL DO UPDATE
+    SET title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        is_free = EXCLUDED.is_free,
+        updated_at = EXCLUDED.updated_at;
+  ELSE
+    INSERT INTO public.chapter_drafts (story_id, chapter_id, author_id, title, content, is_free, updated_at)
+    VALUES (p_story_id, p_chapter_id, auth.uid(), COALESCE(p_title, ''), COALESCE(p_content, ''), COALESCE(p_is_free, false), v_saved_at)
+    ON CONFLICT (chapter_id) WHERE chapter_id IS NOT NULL DO UPDATE
+    SET title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        is_free = EXCLUDED.is_free,
+        updated_at = EXCLUDED.updated_at;
+  END IF;
+
+  RETURN v_saved_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_chapter_draft(UUID, UUID, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_chapter_draft(UUID, UUID, TEXT, TEXT, BOOLEAN) TO authenticated;
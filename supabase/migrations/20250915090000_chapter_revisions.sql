@@ -0,0 +1,151 @@
+-- Chapter revisions
+-- Saving a chapter used to overwrite its content with no way back. Every
+-- change to a chapter's title or content now records a revision, written by a
+-- trigger so no save path can skip it. Restoring an old revision saves it
+-- again as the newest one, so history is never rewritten.
+--
+-- Readers keep reading the chapters row, which always holds the latest
+-- revision. Entitlements belong to the chapter, not a revision, so a buyer
+-- sees every later edit, and old revisions stay visible to the author only.
+
+CREATE TABLE IF NOT EXISTS public.chapter_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  -- The revision this one restored, if it was a restore
+  restored_from UUID REFERENCES public.chapter_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapter
+  ON public.chapter_revisions(chapter_id, created_at DESC);
+
+ALTER TABLE public.chapter_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the chapters trigger and restored through
+-- restore_chapter_revision()
+CREATE POLICY "chapter_revisions_select_own" ON public.chapter_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.stories
+      WHERE stories.id = chapter_revisions.story_id
+        AND stories.author_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON public.chapter_revisions FROM anon, authenticated;
+
+-- Words in chapter text, ignoring the markup of the chapter format
+CREATE OR REPLACE FUNCTION public.chapter_word_count(p_content TEXT)
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM regexp_split_to_table(
+    regexp_replace(COALESCE(p_content, ''), '\[!WARNING\]|[#>*\\]', ' ', 'gi'),
+    '\s+'
+  ) AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_chapter_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.chapter_revisions (chapter_id, story_id, author_id, title, content, word_count, restored_from)
+  SELECT NEW.id, NEW.story_id, COALESCE(auth.uid(), stories.author_id), NEW.title, NEW.content,
+         public.chapter_word_count(NEW.content),
+         NULLIF(current_setting('app.restored_revision', true), '')::UUID
+  FROM public.stories
+  WHERE stories.id = NEW.story_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_record_revision_insert ON public.chapters;
+CREATE TRIGGER chapters_record_revision_insert
+  AFTER INSERT ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.record_chapter_revision();
+
+DROP TRIGGER IF EXISTS chapters_record_revision_update ON public.chapters;
+CREATE TRIGGER chapters_record_revision_update
+  AFTER UPDATE OF title, content ON public.chapters
+  FOR EACH ROW
+  WHEN (OLD.title IS DISTINCT FROM NEW.title OR OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION public.record_chapter_revision();
+
+-- Existing chapters start their history at their current text
+INSERT INTO public.chapter_revisions (chapter_id, story_id, author_id, title, content, word_count, created_at)
+SELECT c.id, c.story_id, s.author_id, c.title, c.content, public.chapter_word_count(c.content), c.updated_at
+FROM public.chapters c
+JOIN public.stories s ON s.id = c.story_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.chapter_revisions r WHERE r.chapter_id = c.id
+);
+
+-- Make an old revision the chapter's text again. The restore is recorded as a
+-- new revision pointing back at the old one, whose id is returned.
+CREATE OR REPLACE FUNCTION public.restore_chapter_revision(p_revision_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_revision public.chapter_revisions%ROWTYPE;
+  v_restored_id UUID;
+BEGIN
+  SELECT * INTO v_revision
+  FROM public.chapter_revisions
+  WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stories
+    WHERE id = v_revision.story_id AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the author can restore this chapter' USING ERRCODE = '42501';
+  END IF;
+
+  -- Restoring the text the chapter already has records nothing new
+  IF EXISTS (
+    SELECT 1 FROM public.chapters
+    WHERE id = v_revision.chapter_id
+      AND title = v_revision.title
+      AND content = v_revision.content
+  ) THEN
+    SELECT id INTO v_restored_id
+    FROM public.chapter_revisions
+    WHERE chapter_id = v_revision.chapter_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    RETURN v_restored_id;
+  END IF;
+
+  PERFORM set_config('app.restored_revision', p_revision_id::TEXT, true);
+
+  UPDATE public.chapters
+  SET title = v_revision.title,
+      content = v_revision.content
+  WHERE id = v_revision.chapter_id;
+
+  PERFORM set_config('app.restored_revision', '', true);
+
+  SELECT id INTO v_restored_id
+  FROM public.chapter_revisions
+  WHERE chapter_id = v_revision.chapter_id AND restored_from = p_revision_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN v_restored_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_chapter_revision() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_chapter_revision(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_chapter_revision(UUID) TO authenticated;
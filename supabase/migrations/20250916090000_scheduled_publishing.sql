@@ -0,0 +1,156 @@
+-- Scheduled publishing
+-- Authors can queue a chapter to go live later by setting chapters.publish_at
+-- on an unpublished chapter. publish_scheduled_chapters() publishes whatever
+-- is due; pg_cron runs it every minute where it is available, and tests and
+-- local setups call it directly. A scheduled chapter is an ordinary
+-- unpublished chapter until then, so the paywall and previews need no change.
+--
+-- Readers can follow a story, and get a notification whenever one of its
+-- chapters goes live, however it was published.
+
+ALTER TABLE public.chapters
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_chapters_publish_at
+  ON public.chapters(publish_at) WHERE published IS NOT TRUE AND publish_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.story_follows (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, story_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_follows_story ON public.story_follows(story_id);
+
+ALTER TABLE public.story_follows ENABLE ROW LEVEL SECURITY;
+
+-- Who follows a story is private to the follower, authors included. Readers
+-- cannot select stories directly, so published stories are checked through
+-- public_stories
+CREATE POLICY "story_follows_select_own" ON public.story_follows
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "story_follows_insert_own" ON public.story_follows
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.public_stories ps WHERE ps.id = story_id AND ps.published = true)
+  );
+CREATE POLICY "story_follows_delete_own" ON public.story_follows
+  FOR DELETE USING (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.story_follows FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('chapter_published')),
+  story_id UUID REFERENCES public.stories(id) ON DELETE CASCADE,
+  chapter_id UUID REFERENCES public.chapters(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Unpublishing and republishing a chapter does not notify twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_once
+  ON public.notifications(user_id, type, chapter_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user
+  ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are created by the database; users can only read, mark read
+-- and dismiss their own
+CREATE POLICY "notifications_select_own" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "notifications_update_own" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "notifications_delete_own" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- A chapter that is published is no longer scheduled, so unpublishing it
+-- later does not have the job publish it again
+CREATE OR REPLACE FUNCTION public.clear_chapter_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.published THEN
+    NEW.publish_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_clear_schedule ON public.chapters;
+CREATE TRIGGER chapters_clear_schedule
+  BEFORE INSERT OR UPDATE OF published, publish_at ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.clear_chapter_schedule();
+
+CREATE OR REPLACE FUNCTION public.notify_chapter_followers()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, story_id, chapter_id)
+  SELECT f.user_id, 'chapter_published', NEW.story_id, NEW.id
+  FROM public.story_follows f
+  JOIN public.stories s ON s.id = f.story_id
+  WHERE f.story_id = NEW.story_id
+    AND s.published = true
+    AND f.user_id <> s.author_id
+  ON CONFLICT (user_id, type, chapter_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_notify_insert ON public.chapters;
+CREATE TRIGGER chapters_notify_insert
+  AFTER INSERT ON public.chapters
+  FOR EACH ROW
+  WHEN (NEW.published)
+  EXECUTE FUNCTION public.notify_chapter_followers();
+
+DROP TRIGGER IF EXISTS chapters_notify_update ON public.chapters;
+CREATE TRIGGER chapters_notify_update
+  AFTER UPDATE OF published ON public.chapters
+  FOR EACH ROW
+  WHEN (NEW.published AND OLD.published IS NOT TRUE)
+  EXECUTE FUNCTION public.notify_chapter_followers();
+
+-- Publish every chapter whose time has come. Returns how many went live.
+-- p_now lets tests and local setups pretend it is later than it is.
+CREATE OR REPLACE FUNCTION public.publish_scheduled_chapters(p_now TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS INTEGER AS $$
+DECLARE
+  v_published INTEGER;
+BEGIN
+  UPDATE public.chapters
+  SET published = true
+  WHERE published IS NOT TRUE
+    AND publish_at IS NOT NULL
+    AND publish_at <= p_now;
+
+  GET DIAGNOSTICS v_published = ROW_COUNT;
+  RETURN v_published;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_chapter_followers() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_chapters(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Run the job every minute where pg_cron is loaded (it is on Supabase).
+-- Elsewhere, call publish_scheduled_chapters() from your own scheduler.
+DO $$
+BEGIN
+  IF current_setting('shared_preload_libraries', true) LIKE '%pg_cron%' THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'publish-scheduled-chapters',
+      '* * * * *',
+      'SELECT public.publish_scheduled_chapters()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,196 @@
+-- Chapter ordering
+-- Chapter numbers used to be picked by the client from stories.total_chapters,
+-- so deleting a chapter left a gap and the next chapter added collided with
+-- an existing number. The database now owns both:
+--   * a new chapter without a number goes after the story's last chapter
+--   * deleting a chapter closes the gap
+--   * reorder_chapters() renumbers a story in one transaction
+--   * stories.total_chapters counts the published chapters and is kept up to
+--     date by triggers; clients can no longer write it
+
+-- Give a story's chapters the numbers 1..n, in the order given or else in
+-- their current order. Numbers are flipped negative first so the unique
+-- (story_id, chapter_number) constraint holds at every step.
+CREATE OR REPLACE FUNCTION public.renumber_story_chapters(
+  p_story_id UUID,
+  p_chapter_ids UUID[] DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_chapter_ids IS NULL THEN
+    UPDATE public.chapters c
+    SET chapter_number = -o.position
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY chapter_number, created_at) AS position
+      FROM public.chapters
+      WHERE story_id = p_story_id
+    ) o
+    WHERE c.id = o.id
+      AND c.chapter_number <> o.position;
+  ELSE
+    UPDATE public.chapters c
+    SET chapter_number = -o.position
+    FROM unnest(p_chapter_ids) WITH ORDINALITY AS o(id, position)
+    WHERE c.id = o.id
+      AND c.story_id = p_story_id
+      AND c.chapter_number <> o.position;
+  END IF;
+
+  UPDATE public.chapters
+  SET chapter_number = -chapter_number
+  WHERE story_id = p_story_id
+    AND chapter_number < 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- Put a story's chapters in the given order. The list must hold every
+-- chapter of the story exactly once.
+CREATE OR REPLACE FUNCTION public.reorder_chapters(
+  p_story_id UUID,
+  p_chapter_ids UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Also makes concurrent reorders and new chapters wait their turn
+  PERFORM 1
+  FROM public.stories
+  WHERE id = p_story_id AND author_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the author can reorder this story''s chapters' USING ERRCODE = '42501';
+  END IF;
+
+  IF cardinality(p_chapter_ids) IS DISTINCT FROM (SELECT count(DISTINCT id) FROM unnest(p_chapter_ids) AS id)
+     OR EXISTS (
+       SELECT id FROM public.chapters WHERE story_id = p_story_id
+       EXCEPT
+       SELECT unnest(p_chapter_ids)
+     )
+     OR EXISTS (
+       SELECT unnest(p_chapter_ids)
+       EXCEPT
+       SELECT id FROM public.chapters WHERE story_id = p_story_id
+     ) THEN
+    RAISE EXCEPTION 'The new order must list each of the story''s chapters once' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.renumber_story_chapters(p_story_id, p_chapter_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.number_new_chapter()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.chapter_number IS NULL THEN
+    PERFORM 1 FROM public.stories WHERE id = NEW.story_id FOR UPDATE;
+
+    SELECT COALESCE(max(chapter_number), 0) + 1 INTO NEW.chapter_number
+    FROM public.chapters
+    WHERE story_id = NEW.story_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_number_new ON public.chapters;
+CREATE TRIGGER chapters_number_new
+  BEFORE INSERT ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.number_new_chapter();
+
+CREATE OR REPLACE FUNCTION public.close_chapter_gap()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Nothing to renumber when the whole story is being deleted
+  IF EXISTS (SELECT 1 FROM public.stories WHERE id = OLD.story_id) THEN
+    PERFORM public.renumber_story_chapters(OLD.story_id);
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_close_gap ON public.chapters;
+CREATE TRIGGER chapters_close_gap
+  AFTER DELETE ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.close_chapter_gap();
+
+CREATE OR REPLACE FUNCTION public.refresh_story_total_chapters(p_story_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.stories s
+  SET total_chapters = counted.total
+  FROM (
+    SELECT count(*)::INTEGER AS total
+    FROM public.chapters
+    WHERE story_id = p_story_id AND published = true
+  ) counted
+  WHERE s.id = p_story_id
+    AND s.total_chapters IS DISTINCT FROM counted.total;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_story_total_chapters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_story_total_chapters(OLD.story_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.story_id IS DISTINCT FROM OLD.story_id) THEN
+    PERFORM public.refresh_story_total_chapters(NEW.story_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_sync_total ON public.chapters;
+CREATE TRIGGER chapters_sync_total
+  AFTER INSERT OR DELETE OR UPDATE OF published, story_id ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.sync_story_total_chapters();
+
+CREATE OR REPLACE FUNCTION public.protect_story_total_chapters()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.total_chapters := 0;
+    ELSIF NEW.total_chapters IS DISTINCT FROM OLD.total_chapters THEN
+      RAISE EXCEPTION 'total_chapters is kept by the database' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS stories_protect_total_chapters ON public.stories;
+CREATE TRIGGER stories_protect_total_chapters
+  BEFORE INSERT OR UPDATE ON public.stories
+  FOR EACH ROW EXECUTE FUNCTION public.protect_story_total_chapters();
+
+-- Close the gaps left so far and correct the counts
+DO $$
+DECLARE
+  v_story_id UUID;
+BEGIN
+  FOR v_story_id IN SELECT id FROM public.stories LOOP
+    PERFORM public.renumber_story_chapters(v_story_id);
+    PERFORM public.refresh_story_total_chapters(v_story_id);
+  END LOOP;
+END $$;
+
+REVOKE EXECUTE ON FUNCTION public.renumber_story_chapters(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.number_new_chapter() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_chapter_gap() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_story_total_chapters(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_story_total_chapters() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reorder_chapters(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reorder_chapters(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,310 @@
+-- Per-chapter pricing
+-- Every paid chapter used to cost the story's price_per_chapter, whatever the
+-- client sent. A chapter now has a price mode:
+--   * free     readers open it without paying (is_free is kept in step)
+--   * inherit  it costs the story's price_per_chapter
+--   * custom   it costs its own price
+-- Chapter purchases are checked against that price when the transaction is
+-- written, for credits and BDAG alike, and the story bundle adds up the real
+-- chapter prices.
+
+ALTER TABLE public.chapters
+  ADD COLUMN IF NOT EXISTS price_mode TEXT NOT NULL DEFAULT 'inherit'
+    CHECK (price_mode IN ('free', 'inherit', 'custom')),
+  -- Only set for custom prices
+  ADD COLUMN IF NOT EXISTS price INTEGER CHECK (price > 0);
+
+ALTER TABLE public.chapters DROP CONSTRAINT IF EXISTS chapters_custom_price;
+ALTER TABLE public.chapters ADD CONSTRAINT chapters_custom_price
+  CHECK ((price_mode = 'custom') = (price IS NOT NULL));
+
+-- Existing free chapters, without touching updated_at (drafts compare against it)
+ALTER TABLE public.chapters DISABLE TRIGGER update_chapters_updated_at;
+UPDATE public.chapters SET price_mode = 'free' WHERE is_free = true AND price_mode <> 'free';
+ALTER TABLE public.chapters ENABLE TRIGGER update_chapters_updated_at;
+
+-- is_free still drives the paywall, so it follows price_mode. Clients that
+-- only set is_free switch the chapter between free and the story price.
+CREATE OR REPLACE FUNCTION public.sync_chapter_price_mode()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.is_free, false) THEN
+      NEW.price_mode := 'free';
+    END IF;
+  ELSIF NEW.price_mode IS NOT DISTINCT FROM OLD.price_mode
+        AND NEW.is_free IS DISTINCT FROM OLD.is_free THEN
+    NEW.price_mode := CASE WHEN COALESCE(NEW.is_free, false) THEN 'free' ELSE 'inherit' END;
+  END IF;
+
+  NEW.is_free := NEW.price_mode = 'free';
+
+  IF NEW.price_mode <> 'custom' THEN
+    NEW.price := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS chapters_sync_price_mode ON public.chapters;
+CREATE TRIGGER chapters_sync_price_mode
+  BEFORE INSERT OR UPDATE OF price_mode, price, is_free ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.sync_chapter_price_mode();
+
+-- What a chapter costs given its mode, its own price and the story's price
+CREATE OR REPLACE FUNCTION public.effective_chapter_price(
+  p_price_mode TEXT,
+  p_price INTEGER,
+  p_story_price INTEGER
+)
+RETURNS INTEGER AS $$
+  SELECT CASE p_price_mode
+    WHEN 'free' THEN 0
+    WHEN 'custom' THEN p_price
+    ELSE p_story_price
+  END;
+$$ LANGUAGE sql IMMUTABLE
+SET search_path = public;
+
+-- What a chapter costs right now, or null when it does not exist
+CREATE OR REPLACE FUNCTION public.chapter_price(p_chapter_id UUID)
+RETURNS INTEGER AS $$
+  SELECT public.effective_chapter_price(c.price_mode, c.price, s.price_per_chapter)
+  FROM public.chapters c
+  JOIN public.stories s ON s.id = c.story_id
+  WHERE c.id = p_chapter_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+-- Chapter purchases must pay the chapter's price, and purchases without a
+-- chapter the buyer's bundle price. Every path writes a transactions row
+-- (pay_story_author, purchase_story_bundle, start_blockchain_payment,
+-- record_blockchain_payment, index_bdag_purchase), so the check lives here.
+CREATE OR REPLACE FUNCTION public.check_chapter_purchase_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_price INTEGER;
+BEGIN
+  IF NEW.transaction_type <> 'purchase' OR NEW.story_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+     AND NEW.story_id IS NOT DISTINCT FROM OLD.story_id
+     AND NEW.chapter_id IS NOT DISTINCT FROM OLD.chapter_id
+     AND NEW.from_user_id IS NOT DISTINCT FROM OLD.from_user_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Completing a payment that was checked when it started, even if the
+  -- author has changed the price since
+  IF TG_OP = 'INSERT' AND NEW.idempotency_key IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.transactions WHERE idempotency_key = NEW.idempotency_key
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.chapter_id IS NULL THEN
+    v_price := COALESCE(public.story_bundle_price(NEW.story_id, NEW.from_user_id), 0);
+
+    IF NEW.amount IS DISTINCT FROM v_price THEN
+      RAISE EXCEPTION 'This story costs %, not %', v_price, NEW.amount USING ERRCODE = '22023';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  v_price := public.chapter_price(NEW.chapter_id);
+
+  IF v_price IS NULL THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_price = 0 THEN
+    RAISE EXCEPTION 'This chapter is free' USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.amount <> v_price THEN
+    RAISE EXCEPTION 'This chapter costs %, not %', v_price, NEW.amount USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_check_chapter_price ON public.transactions;
+CREATE TRIGGER transactions_check_chapter_price
+  BEFORE INSERT OR UPDATE OF amount, story_id, chapter_id, from_user_id ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.check_chapter_purchase_price();
+
+-- Clients only write transactions through those functions. Without the
+-- privilege a direct write is refused before the price check runs.
+REVOKE INSERT, UPDATE, DELETE ON public.transactions FROM anon, authenticated;
+
+-- The bundle adds up what the unowned paid chapters cost
+CREATE OR REPLACE FUNCTION public.story_bundle_price(
+  p_story_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+  SELECT ROUND(
+           COALESCE(SUM(public.effective_chapter_price(c.price_mode, c.price, s.price_per_chapter)), 0)
+           * (100 - s.bundle_discount_percentage) / 100.0
+         )::INTEGER
+  FROM public.stories s
+  LEFT JOIN public.chapters c
+    ON c.story_id = s.id
+   AND c.published = true
+   AND COALESCE(c.is_free, false) = false
+   AND NOT EXISTS (
+     SELECT 1 FROM public.entitlements e
+     WHERE e.user_id = p_user_id
+       AND e.chapter_id = c.id
+       AND (e.expires_at IS NULL OR e.expires_at > now())
+   )
+  WHERE s.id = p_story_id
+  GROUP BY s.id, s.price_per_chapter, s.bundle_discount_percentage;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+-- Readers see what each chapter costs
+CREATE OR REPLACE VIEW public.chapter_previews AS
+SELECT
+  c.id,
+  c.story_id,
+  c.chapter_number,
+  c.title,
+  c.is_free,
+  c.published,
+  c.created_at,
+  c.updated_at,
+  a.has_access,
+  CASE
+    WHEN a.has_access THEN c.content
+    ELSE left(c.content, 300)
+  END AS content,
+  public.effective_chapter_price(c.price_mode, c.price, s.price_per_chapter) AS price
+FROM public.chapters c
+JOIN public.stories s ON s.id = c.story_id
+CROSS JOIN LATERAL (SELECT public.has_chapter_access(c.id) AS has_access) a
+WHERE c.published = true OR s.author_id = auth.uid();
+
+-- ...and what a story's chapters cost: the cheapest and dearest paid chapter
+-- (0 when every chapter is free, the story price before any is published) and
+-- the undiscounted price of them all
+CREATE OR REPLACE VIEW public.public_stories AS
+SELECT
+  s.id,
+  s.title,
+  s.description,
+  s.cover_image_url,
+  s.category_id,
+  s.beneficiary_id,
+  s.price_per_chapter,
+  s.bundle_discount_percentage,
+  s.total_chapters,
+  s.published,
+  a.is_anonymous,
+  s.impact_percentage,
+  s.created_at,
+  s.updated_at,
+  CASE WHEN a.is_anonymous THEN NULL ELSE s.author_id END AS author_id,
+  CASE WHEN a.is_anonymous THEN p.pen_handle ELSE s.author_id END AS author_handle,
+  CASE WHEN a.is_anonymous THEN COALESCE(p.pseudonym, 'Anonymous author') ELSE p.display_name END AS author_name,
+  COALESCE(s.author_id = auth.uid(), false) AS is_own,
+  CASE WHEN pricing.published_chapters = 0 THEN s.price_per_chapter ELSE COALESCE(pricing.min_paid, 0) END AS min_chapter_price,
+  CASE WHEN pricing.published_chapters = 0 THEN s.price_per_chapter ELSE pricing.max_price END AS max_chapter_price,
+  pricing.full_price
+FROM public.stories s
+LEFT JOIN public.profiles p ON p.user_id = s.author_id
+CROSS JOIN LATERAL (
+  SELECT COALESCE(s.is_anonymous, false) OR COALESCE(p.is_anonymous, false) AS is_anonymous
+) a
+CROSS JOIN LATERAL (
+  SELECT
+    count(*) AS published_chapters,
+    min(cp.price) FILTER (WHERE cp.price > 0) AS min_paid,
+    max(cp.price) AS max_price,
+    COALESCE(sum(cp.price), 0)::INTEGER AS full_price
+  FROM (
+    SELECT public.effective_chapter_price(c.price_mode, c.price, s.price_per_chapter) AS price
+    FROM public.chapters c
+    WHERE c.story_id = s.id AND c.published = true
+  ) cp
+) pricing
+WHERE s.published = true OR s.author_id = auth.uid();
+
+-- Drafts keep the price the author is editing
+ALTER TABLE public.chapter_drafts
+  ADD COLUMN IF NOT EXISTS price_mode TEXT NOT NULL DEFAULT 'inherit'
+    CHECK (price_mode IN ('free', 'inherit', 'custom')),
+  ADD COLUMN IF NOT EXISTS price INTEGER CHECK (price > 0);
+
+UPDATE public.chapter_drafts SET price_mode = 'free' WHERE is_free;
+ALTER TABLE public.chapter_drafts DROP COLUMN IF EXISTS is_free;
+
+DROP FUNCTION IF EXISTS public.save_chapter_draft(UUID, UUID, TEXT, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.save_chapter_draft(
+  p_story_id UUID,
+  p_chapter_id UUID,
+  p_title TEXT,
+  p_content TEXT,
+  p_price_mode TEXT DEFAULT 'inherit',
+  p_price INTEGER DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_saved_at TIMESTAMP WITH TIME ZONE := now();
+  v_price_mode TEXT := COALESCE(p_price_mode, 'inherit');
+  -- A half-typed custom price is kept; other modes have none
+  v_price INTEGER := CASE WHEN p_price_mode = 'custom' AND p_price > 0 THEN p_price END;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stories
+    WHERE id = p_story_id AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the author can save drafts of this story' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_chapter_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.chapters
+    WHERE id = p_chapter_id AND story_id = p_story_id
+  ) THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_chapter_id IS NULL THEN
+    INSERT INTO public.chapter_drafts (story_id, chapter_id, author_id, title, content, price_mode, price, updated_at)
+    VALUES (p_story_id, NULL, auth.uid(), COALESCE(p_title, ''), COALESCE(p_content, ''), v_price_mode, v_price, v_saved_at)
+    ON CONFLICT (story_id) WHERE chapter_id IS NULL DO UPDATE
+    SET title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        price_mode = EXCLUDED.price_mode,
+        price = EXCLUDED.price,
+        updated_at = EXCLUDED.updated_at;
+  ELSE
+    INSERT INTO public.chapter_drafts (story_id, chapter_id, author_id, title, content, price_mode, price, updated_at)
+    VALUES (p_story_id, p_chapter_id, auth.uid(), COALESCE(p_title, ''), COALESCE(p_content, ''), v_price_mode, v_price, v_saved_at)
+    ON CONFLICT (chapter_id) WHERE chapter_id IS NOT NULL DO UPDATE
+    SET title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        price_mode = EXCLUDED.price_mode,
+        price = EXCLUDED.price,
+        updated_at = EXCLUDED.updated_at;
+  END IF;
+
+  RETURN v_saved_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_chapter_draft(UUID, UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_chapter_draft(UUID, UUID, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_chapter_price_mode() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.chapter_price(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_chapter_purchase_price() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,237 @@
+-- Story search
+-- Discover used to fetch every published story and filter them in the
+-- browser, on title and description only. Each story now has a full-text
+-- document built from its title, description, category and the text of its
+-- free chapters, kept up to date by triggers, and search_stories() returns a
+-- ranked, filtered page of results with highlighted snippets.
+--
+-- Paid chapter text is never indexed, so a search cannot reveal what a
+-- locked chapter says. Neither is anything about the author.
+
+CREATE TABLE IF NOT EXISTS public.story_search (
+  story_id UUID NOT NULL PRIMARY KEY REFERENCES public.stories(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL,
+  -- Description and free chapter text, for snippets
+  body TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_search_document
+  ON public.story_search USING GIN (document);
+
+-- Only search_stories() reads it
+ALTER TABLE public.story_search ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.story_search FROM anon, authenticated;
+
+-- Rebuild a story's search document. Titles weigh most, then descriptions,
+-- then the category, then free chapter text.
+CREATE OR REPLACE FUNCTION public.refresh_story_search(p_story_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO public.story_search (story_id, document, body, updated_at)
+  SELECT
+    s.id,
+    setweight(to_tsvector('english', COALESCE(s.title, '')), 'A')
+      || setweight(to_tsvector('english', COALESCE(s.description, '')), 'B')
+      || setweight(to_tsvector('english', COALESCE(c.name, '')), 'C')
+      || setweight(to_tsvector('english', COALESCE(f.text, '')), 'D'),
+    concat_ws(E'\n\n', NULLIF(s.description, ''), f.text),
+    now()
+  FROM public.stories s
+  LEFT JOIN public.categories c ON c.id = s.category_id
+  LEFT JOIN LATERAL (
+    -- Markdown markers would only clutter the snippets
+    SELECT string_agg(
+             regexp_replace(ch.content, '\[!WARNING\]|[#>*_]+', ' ', 'g'),
+             E'\n\n' ORDER BY ch.chapter_number
+           ) AS text
+    FROM public.chapters ch
+    WHERE ch.story_id = s.id
+      AND ch.published = true
+      AND ch.is_free = true
+  ) f ON true
+  WHERE s.id = p_story_id
+  ON CONFLICT (story_id) DO UPDATE
+  SET document = EXCLUDED.document,
+      body = EXCLUDED.body,
+      updated_at = EXCLUDED.updated_at;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_story_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'stories' THEN
+    PERFORM public.refresh_story_search(NEW.id);
+  ELSIF TG_TABLE_NAME = 'categories' THEN
+    PERFORM public.refresh_story_search(s.id)
+    FROM public.stories s
+    WHERE s.category_id = NEW.id;
+  ELSE
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+      PERFORM public.refresh_story_search(OLD.story_id);
+    END IF;
+
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.story_id IS DISTINCT FROM OLD.story_id) THEN
+      PERFORM public.refresh_story_search(NEW.story_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS stories_sync_search ON public.stories;
+CREATE TRIGGER stories_sync_search
+  AFTER INSERT OR UPDATE OF title, description, category_id ON public.stories
+  FOR EACH ROW EXECUTE FUNCTION public.sync_story_search();
+
+-- price_mode is listed because it changes is_free from a BEFORE trigger
+DROP TRIGGER IF EXISTS chapters_sync_search ON public.chapters;
+CREATE TRIGGER chapters_sync_search
+  AFTER INSERT OR DELETE OR UPDATE OF content, is_free, price_mode, published, story_id ON public.chapters
+  FOR EACH ROW EXECUTE FUNCTION public.sync_story_search();
+
+DROP TRIGGER IF EXISTS categories_sync_search ON public.categories;
+CREATE TRIGGER categories_sync_search
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.sync_story_search();
+
+DO $$
+DECLARE
+  v_story_id UUID;
+BEGIN
+  FOR v_story_id IN SELECT id FROM public.stories LOOP
+    PERFORM public.refresh_story_search(v_story_id);
+  END LOOP;
+END $$;
+
+-- A page of published stories matching the query (websearch syntax: quoted
+-- phrases, OR, -word), optionally in one category. Without a query every
+-- published story matches and relevance sorts newest first. total_count is
+-- the number of matches across all pages. Snippets mark matched words with
+-- chr(2) before and chr(3) after.
+CREATE OR REPLACE FUNCTION public.search_stories(
+  p_query TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  cover_image_url TEXT,
+  category_id UUID,
+  category_name TEXT,
+  price_per_chapter INTEGER,
+  min_chapter_price INTEGER,
+  max_chapter_price INTEGER,
+  total_chapters INTEGER,
+  is_anonymous BOOLEAN,
+  impact_percentage INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_handle TEXT,
+  author_name TEXT,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TSQUERY;
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF p_sort IS NULL OR p_sort NOT IN ('relevance', 'newest', 'popular', 'price_low', 'price_high') THEN
+    RAISE EXCEPTION 'Unknown sort %', p_sort USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_query), '') IS NOT NULL THEN
+    v_query := websearch_to_tsquery('english', p_query);
+
+    -- Only stop words ("the", "and"): nothing can match
+    IF numnode(v_query) = 0 THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      ps.id,
+      ps.title,
+      ps.description,
+      ps.cover_image_url,
+      ps.category_id,
+      c.name AS category_name,
+      ps.price_per_chapter,
+      ps.min_chapter_price,
+      ps.max_chapter_price,
+      ps.total_chapters,
+      ps.is_anonymous,
+      ps.impact_percentage,
+      ps.created_at,
+      ps.author_handle::TEXT,
+      ps.author_name,
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank_cd(ss.document, v_query) END::REAL AS rank,
+      ss.body
+    FROM public.public_stories ps
+    LEFT JOIN public.story_search ss ON ss.story_id = ps.id
+    LEFT JOIN public.categories c ON c.id = ps.category_id
+    WHERE ps.published = true
+      AND (p_category_id IS NULL OR ps.category_id = p_category_id)
+      AND (v_query IS NULL OR ss.document @@ v_query)
+  ),
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN p_sort = 'popular' THEN m.total_chapters END DESC NULLS LAST,
+          CASE WHEN p_sort = 'price_low' THEN m.min_chapter_price END ASC,
+          CASE WHEN p_sort = 'price_high' THEN m.max_chapter_price END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id
+      ) AS position
+    FROM matches m
+  )
+  SELECT
+    o.id,
+    o.title,
+    o.description,
+    o.cover_image_url,
+    o.category_id,
+    o.category_name,
+    o.price_per_chapter,
+    o.min_chapter_price,
+    o.max_chapter_price,
+    o.total_chapters,
+    o.is_anonymous,
+    o.impact_percentage,
+    o.created_at,
+    o.author_handle,
+    o.author_name,
+    o.rank,
+    CASE
+      WHEN v_query IS NULL OR o.body IS NULL OR o.body = '' THEN NULL
+      ELSE ts_headline(
+        'english', o.body, v_query,
+        format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "', chr(2), chr(3))
+      )
+    END,
+    o.total_count
+  FROM ordered o
+  WHERE o.position > v_offset
+    AND o.position <= v_offset + v_limit
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_story_search(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_story_search() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_stories(TEXT, UUID, TEXT, INTEGER, INTEGER) TO anon, authenticated;
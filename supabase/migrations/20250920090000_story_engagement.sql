@@ -0,0 +1,271 @@
+-- Story engagement
+-- Discover's "popular" sort only counted chapters, and the landing page
+-- featured a hard-coded list. Reads are now recorded, and the
+-- story_engagement materialised view adds up each published story's reads,
+-- purchases, tips and impact raised over a rolling window. search_stories()
+-- sorts by it ("trending", "popular", "most_supported"), so Discover and the
+-- landing page rank stories the same way.
+--
+-- The view is refreshed every 15 minutes by pg_cron where it is available;
+-- tests and local setups call refresh_story_engagement() directly. Neither the
+-- reads nor the totals can be read by clients.
+
+-- One row per reader, chapter and day: opening a chapter twice in a day is
+-- one read
+CREATE TABLE IF NOT EXISTS public.chapter_reads (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chapter_id UUID NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  read_on DATE NOT NULL DEFAULT current_date,
+  PRIMARY KEY (user_id, chapter_id, read_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_reads_story ON public.chapter_reads(story_id, read_on);
+
+ALTER TABLE public.chapter_reads ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.chapter_reads FROM anon, authenticated;
+
+-- Record that the caller read a chapter. Visitors who are not signed in and
+-- authors reading their own chapters are not counted.
+CREATE OR REPLACE FUNCTION public.record_chapter_read(p_chapter_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_story_id UUID;
+  v_author_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT c.story_id, s.author_id INTO v_story_id, v_author_id
+  FROM public.chapters c
+  JOIN public.stories s ON s.id = c.story_id
+  WHERE c.id = p_chapter_id;
+
+  IF v_story_id IS NULL THEN
+    RAISE EXCEPTION 'Chapter not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_author_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.has_chapter_access(p_chapter_id) THEN
+    RAISE EXCEPTION 'You cannot read this chapter' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.chapter_reads (user_id, chapter_id, story_id)
+  VALUES (auth.uid(), p_chapter_id, v_story_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- Trending weighs the last 7 days, with a purchase worth three reads and a
+-- tip five. Popular counts distinct readers and purchases over 30 days.
+-- Supporters are the readers who paid or tipped in the last 30 days, in any
+-- currency; impact raised only adds up credits, since BDAG amounts are not
+-- comparable.
+DROP MATERIALIZED VIEW IF EXISTS public.story_engagement;
+CREATE MATERIALIZED VIEW public.story_engagement AS
+WITH reads AS (
+  SELECT
+    r.story_id,
+    count(DISTINCT r.user_id) FILTER (WHERE r.read_on > current_date - 7) AS readers_7d,
+    count(DISTINCT r.user_id) AS readers_30d
+  FROM public.chapter_reads r
+  WHERE r.read_on > current_date - 30
+  GROUP BY r.story_id
+),
+payments AS (
+  SELECT
+    t.story_id,
+    count(*) FILTER (WHERE t.transaction_type = 'purchase' AND t.paid_at > now() - interval '7 days') AS purchases_7d,
+    count(*) FILTER (WHERE t.transaction_type = 'purchase') AS purchases_30d,
+    count(*) FILTER (WHERE t.transaction_type = 'tip' AND t.paid_at > now() - interval '7 days') AS tips_7d,
+    count(DISTINCT t.from_user_id) AS supporters_30d,
+    COALESCE(sum(t.impact_amount) FILTER (WHERE t.currency = 'credits'), 0) AS impact_raised_30d
+  FROM (
+    SELECT tx.*, COALESCE(tx.completed_at, tx.created_at) AS paid_at
+    FROM public.transactions tx
+    WHERE tx.status = 'completed'
+      AND tx.transaction_type IN ('purchase', 'tip')
+      AND tx.story_id IS NOT NULL
+  ) t
+  WHERE t.paid_at > now() - interval '30 days'
+  GROUP BY t.story_id
+)
+SELECT
+  s.id AS story_id,
+  COALESCE(r.readers_7d, 0) + 3 * COALESCE(p.purchases_7d, 0) + 5 * COALESCE(p.tips_7d, 0) AS trending_score,
+  COALESCE(r.readers_30d, 0) + COALESCE(p.purchases_30d, 0) AS popular_score,
+  COALESCE(p.supporters_30d, 0) AS supporters,
+  COALESCE(p.impact_raised_30d, 0) AS impact_raised,
+  now() AS refreshed_at
+FROM public.stories s
+LEFT JOIN reads r ON r.story_id = s.id
+LEFT JOIN payments p ON p.story_id = s.id
+WHERE s.published = true;
+
+-- Lets the view be refreshed without blocking searches
+CREATE UNIQUE INDEX IF NOT EXISTS idx_story_engagement_story ON public.story_engagement(story_id);
+
+REVOKE ALL ON public.story_engagement FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_story_engagement()
+RETURNS VOID AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.story_engagement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- search_stories() as before, with the engagement sorts. Stories published
+-- since the last refresh have no engagement yet and sort last.
+CREATE OR REPLACE FUNCTION public.search_stories(
+  p_query TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  cover_image_url TEXT,
+  category_id UUID,
+  category_name TEXT,
+  price_per_chapter INTEGER,
+  min_chapter_price INTEGER,
+  max_chapter_price INTEGER,
+  total_chapters INTEGER,
+  is_anonymous BOOLEAN,
+  impact_percentage INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_handle TEXT,
+  author_name TEXT,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TSQUERY;
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF p_sort IS NULL OR p_sort NOT IN (
+    'relevance', 'newest', 'trending', 'popular', 'most_supported', 'price_low', 'price_high'
+  ) THEN
+    RAISE EXCEPTION 'Unknown sort %', p_sort USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_query), '') IS NOT NULL THEN
+    v_query := websearch_to_tsquery('english', p_query);
+
+    -- Only stop words ("the", "and"): nothing can match
+    IF numnode(v_query) = 0 THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      ps.id,
+      ps.title,
+      ps.description,
+      ps.cover_image_url,
+      ps.category_id,
+      c.name AS category_name,
+      ps.price_per_chapter,
+      ps.min_chapter_price,
+      ps.max_chapter_price,
+      ps.total_chapters,
+      ps.is_anonymous,
+      ps.impact_percentage,
+      ps.created_at,
+      ps.author_handle::TEXT,
+      ps.author_name,
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank_cd(ss.document, v_query) END::REAL AS rank,
+      ss.body,
+      COALESCE(e.trending_score, 0) AS trending_score,
+      COALESCE(e.popular_score, 0) AS popular_score,
+      COALESCE(e.supporters, 0) AS supporters,
+      COALESCE(e.impact_raised, 0) AS impact_raised
+    FROM public.public_stories ps
+    LEFT JOIN public.story_search ss ON ss.story_id = ps.id
+    LEFT JOIN public.story_engagement e ON e.story_id = ps.id
+    LEFT JOIN public.categories c ON c.id = ps.category_id
+    WHERE ps.published = true
+      AND (p_category_id IS NULL OR ps.category_id = p_category_id)
+      AND (v_query IS NULL OR ss.document @@ v_query)
+  ),
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN p_sort = 'trending' THEN m.trending_score END DESC,
+          CASE WHEN p_sort = 'popular' THEN m.popular_score END DESC,
+          CASE WHEN p_sort = 'most_supported' THEN m.supporters END DESC,
+          CASE WHEN p_sort = 'most_supported' THEN m.impact_raised END DESC,
+          CASE WHEN p_sort = 'price_low' THEN m.min_chapter_price END ASC,
+          CASE WHEN p_sort = 'price_high' THEN m.max_chapter_price END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id
+      ) AS position
+    FROM matches m
+  )
+  SELECT
+    o.id,
+    o.title,
+    o.description,
+    o.cover_image_url,
+    o.category_id,
+    o.category_name,
+    o.price_per_chapter,
+    o.min_chapter_price,
+    o.max_chapter_price,
+    o.total_chapters,
+    o.is_anonymous,
+    o.impact_percentage,
+    o.created_at,
+    o.author_handle,
+    o.author_name,
+    o.rank,
+    CASE
+      WHEN v_query IS NULL OR o.body IS NULL OR o.body = '' THEN NULL
+      ELSE ts_headline(
+        'english', o.body, v_query,
+        format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "', chr(2), chr(3))
+      )
+    END,
+    o.total_count
+  FROM ordered o
+  WHERE o.position > v_offset
+    AND o.position <= v_offset + v_limit
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_story_engagement() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_chapter_read(UUID) TO anon, authenticated;
+
+-- Refresh every 15 minutes where pg_cron is loaded (it is on Supabase).
+-- Elsewhere, call refresh_story_engagement() from your own scheduler.
+DO $$
+BEGIN
+  IF current_setting('shared_preload_libraries', true) LIKE '%pg_cron%' THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'refresh-story-engagement',
+      '*/15 * * * *',
+      'SELECT public.refresh_story_engagement()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,187 @@
+-- Story recommendations
+-- recommend_stories() ranks the published stories a signed-in reader has not
+-- bought, read, followed or written, from what they have: a story gains from
+-- every story the reader engaged with that readers also bought (co-purchase
+-- similarity) or that shares its category. Each recommendation names the
+-- story that contributed most, for "because you read X". Readers with no
+-- history, and any slots left over, get trending stories instead.
+--
+-- Co-purchase similarity is computed offline into the story_similarity
+-- materialised view, refreshed hourly by pg_cron where it is available; tests
+-- and local setups call refresh_story_similarity() directly.
+
+-- Cosine similarity between the sets of readers who bought each story. Pairs
+-- with a single buyer in common are left out, so a recommendation can never
+-- point at one person's purchases.
+DROP MATERIALIZED VIEW IF EXISTS public.story_similarity;
+CREATE MATERIALIZED VIEW public.story_similarity AS
+WITH buyers AS (
+  SELECT DISTINCT t.from_user_id AS user_id, t.story_id
+  FROM public.transactions t
+  JOIN public.stories s ON s.id = t.story_id AND s.published = true
+  WHERE t.status = 'completed'
+    AND t.transaction_type = 'purchase'
+    AND t.from_user_id IS NOT NULL
+),
+story_buyers AS (
+  SELECT b.story_id, count(*) AS buyers
+  FROM buyers b
+  GROUP BY b.story_id
+)
+SELECT
+  a.story_id,
+  b.story_id AS similar_story_id,
+  count(*) AS shared_buyers,
+  (count(*) / sqrt(sa.buyers * sb.buyers))::REAL AS similarity
+FROM buyers a
+JOIN buyers b ON b.user_id = a.user_id AND b.story_id <> a.story_id
+JOIN story_buyers sa ON sa.story_id = a.story_id
+JOIN story_buyers sb ON sb.story_id = b.story_id
+GROUP BY a.story_id, b.story_id, sa.buyers, sb.buyers
+HAVING count(*) >= 2;
+
+-- Lets the view be refreshed without blocking recommendations
+CREATE UNIQUE INDEX IF NOT EXISTS idx_story_similarity_pair
+  ON public.story_similarity(story_id, similar_story_id);
+
+REVOKE ALL ON public.story_similarity FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_story_similarity()
+RETURNS VOID AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.story_similarity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- What the reader bought counts fully, a story they follow three quarters
+-- and one they only read half. A shared category adds a quarter of that.
+CREATE OR REPLACE FUNCTION public.recommend_stories(p_limit INTEGER DEFAULT 6)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  cover_image_url TEXT,
+  category_id UUID,
+  category_name TEXT,
+  price_per_chapter INTEGER,
+  min_chapter_price INTEGER,
+  max_chapter_price INTEGER,
+  total_chapters INTEGER,
+  is_anonymous BOOLEAN,
+  impact_percentage INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_handle TEXT,
+  author_name TEXT,
+  score REAL,
+  because_story_id UUID,
+  because_story_title TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 6), 1), 24);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to get recommendations' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH seeds AS (
+    SELECT sig.story_id, max(sig.weight) AS weight
+    FROM (
+      SELECT t.story_id, 1.0 AS weight
+      FROM public.transactions t
+      WHERE t.from_user_id = v_user_id
+        AND t.status = 'completed'
+        AND t.transaction_type = 'purchase'
+        AND t.story_id IS NOT NULL
+      UNION ALL
+      SELECT f.story_id, 0.75
+      FROM public.story_follows f
+      WHERE f.user_id = v_user_id
+      UNION ALL
+      SELECT r.story_id, 0.5
+      FROM public.chapter_reads r
+      WHERE r.user_id = v_user_id
+    ) sig
+    GROUP BY sig.story_id
+  ),
+  seen AS (
+    SELECT sd.story_id FROM seeds sd
+    UNION
+    SELECT s.id FROM public.stories s WHERE s.author_id = v_user_id
+  ),
+  contributions AS (
+    SELECT sim.similar_story_id AS candidate_id, sd.story_id AS seed_id, sd.weight * sim.similarity AS contribution
+    FROM seeds sd
+    JOIN public.story_similarity sim ON sim.story_id = sd.story_id
+    UNION ALL
+    SELECT s.id, sd.story_id, sd.weight * 0.25
+    FROM seeds sd
+    JOIN public.stories seed_story ON seed_story.id = sd.story_id
+    JOIN public.stories s ON s.category_id = seed_story.category_id AND s.published = true
+  ),
+  per_seed AS (
+    SELECT co.candidate_id, co.seed_id, sum(co.contribution) AS contribution
+    FROM contributions co
+    WHERE co.candidate_id NOT IN (SELECT se.story_id FROM seen se)
+    GROUP BY co.candidate_id, co.seed_id
+  ),
+  scored AS (
+    SELECT DISTINCT ON (ps.candidate_id)
+      ps.candidate_id,
+      ps.seed_id AS because_id,
+      sum(ps.contribution) OVER (PARTITION BY ps.candidate_id) AS score
+    FROM per_seed ps
+    ORDER BY ps.candidate_id, ps.contribution DESC, ps.seed_id
+  )
+  SELECT
+    st.id,
+    st.title,
+    st.description,
+    st.cover_image_url,
+    st.category_id,
+    c.name,
+    st.price_per_chapter,
+    st.min_chapter_price,
+    st.max_chapter_price,
+    st.total_chapters,
+    st.is_anonymous,
+    st.impact_percentage,
+    st.created_at,
+    st.author_handle::TEXT,
+    st.author_name,
+    COALESCE(sc.score, 0)::REAL,
+    because.id,
+    because.title
+  FROM public.public_stories st
+  LEFT JOIN scored sc ON sc.candidate_id = st.id
+  LEFT JOIN public.public_stories because ON because.id = sc.because_id AND because.published = true
+  LEFT JOIN public.story_engagement e ON e.story_id = st.id
+  LEFT JOIN public.categories c ON c.id = st.category_id
+  WHERE st.published = true
+    AND st.id NOT IN (SELECT se.story_id FROM seen se)
+  ORDER BY COALESCE(sc.score, 0) DESC, COALESCE(e.trending_score, 0) DESC, st.created_at DESC, st.id
+  LIMIT v_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_story_similarity() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recommend_stories(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recommend_stories(INTEGER) TO authenticated;
+
+-- Refresh hourly where pg_cron is loaded (it is on Supabase). Elsewhere,
+-- call refresh_story_similarity() from your own scheduler.
+DO $$
+BEGIN
+  IF current_setting('shared_preload_libraries', true) LIKE '%pg_cron%' THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'refresh-story-similarity',
+      '0 * * * *',
+      'SELECT public.refresh_story_similarity()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,428 @@
+-- Story tags
+-- A story has one category, which says little about what it is about. Stories
+-- can now carry up to 10 tags: themes (resilience, motherhood), regions and
+-- languages. Curated tags are the ones the platform suggests and Discover
+-- offers as filters; authors can also add their own, which are created the
+-- first time they are used. Tags are matched by slug, so "Motherhood" and
+-- "motherhood" are the same tag.
+--
+-- Authors tag their stories through set_story_tags(). Admins rename tags,
+-- change their kind and curation directly, and fold duplicates together with
+-- merge_tags(). search_stories() filters by tag slugs, and tag names are part
+-- of the search document.
+
+CREATE OR REPLACE FUNCTION public.tag_slug(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(lower(trim(p_name)), '[^[:alnum:]]+', '-', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Tags don't record who created them: anyone can read them, and the creator
+-- of a tag first used on an anonymous story is its author.
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 2 AND 40),
+  slug TEXT GENERATED ALWAYS AS (public.tag_slug(name)) STORED,
+  kind TEXT NOT NULL DEFAULT 'theme' CHECK (kind IN ('theme', 'region', 'language')),
+  curated BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tags_slug_not_empty CHECK (slug <> '')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_slug ON public.tags(slug);
+
+CREATE TABLE IF NOT EXISTS public.story_tags (
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (story_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_tags_tag ON public.story_tags(tag_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "tags_select_all" ON public.tags
+  FOR SELECT USING (true);
+
+CREATE POLICY "tags_insert_admin" ON public.tags
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "tags_update_admin" ON public.tags
+  FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE POLICY "tags_delete_admin" ON public.tags
+  FOR DELETE USING (public.is_admin());
+
+-- Tags of the stories the caller can see. There are no write policies: tags
+-- are set through set_story_tags()
+CREATE POLICY "story_tags_select_visible" ON public.story_tags
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.public_stories ps WHERE ps.id = story_tags.story_id)
+  );
+
+INSERT INTO public.tags (name, kind, curated) VALUES
+('Resilience', 'theme', true),
+('Entrepreneurship', 'theme', true),
+('Motherhood', 'theme', true),
+('Healing', 'theme', true),
+('Faith', 'theme', true),
+('Community', 'theme', true),
+('Gauteng', 'region', true),
+('KwaZulu-Natal', 'region', true),
+('Western Cape', 'region', true),
+('Eastern Cape', 'region', true),
+('Limpopo', 'region', true),
+('English', 'language', true),
+('isiZulu', 'language', true),
+('isiXhosa', 'language', true),
+('Afrikaans', 'language', true),
+('Sesotho', 'language', true)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Every tag with the number of published stories carrying it
+CREATE OR REPLACE VIEW public.tag_summaries AS
+SELECT
+  t.id,
+  t.name,
+  t.slug,
+  t.kind,
+  t.curated,
+  t.created_at,
+  count(s.id)::INTEGER AS story_count
+FROM public.tags t
+LEFT JOIN public.story_tags st ON st.tag_id = t.id
+LEFT JOIN public.stories s ON s.id = st.story_id AND s.published = true
+GROUP BY t.id;
+
+GRANT SELECT ON public.tag_summaries TO anon, authenticated;
+
+-- Replace a story's tags. Names are trimmed and matched by slug; new ones are
+-- created as uncurated themes.
+CREATE OR REPLACE FUNCTION public.set_story_tags(p_story_id UUID, p_tags TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_names TEXT[];
+  v_slugs TEXT[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stories WHERE id = p_story_id AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the author can tag this story' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT
+    COALESCE(array_agg(n.name ORDER BY n.slug), '{}'),
+    COALESCE(array_agg(n.slug ORDER BY n.slug), '{}')
+  INTO v_names, v_slugs
+  FROM (
+    SELECT DISTINCT ON (public.tag_slug(raw))
+      regexp_replace(trim(raw), '\s+', ' ', 'g') AS name,
+      public.tag_slug(raw) AS slug
+    FROM unnest(COALESCE(p_tags, '{}')) AS raw
+    WHERE trim(raw) <> ''
+    ORDER BY public.tag_slug(raw), raw
+  ) n;
+
+  IF cardinality(v_names) > 10 THEN
+    RAISE EXCEPTION 'A story can have at most 10 tags' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_names, v_slugs) AS n(name, slug)
+    WHERE char_length(n.name) NOT BETWEEN 2 AND 40 OR n.slug = ''
+  ) THEN
+    RAISE EXCEPTION 'Tags must be 2 to 40 characters and include a letter or number' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.tags (name)
+  SELECT n.name
+  FROM unnest(v_names) AS n(name)
+  ON CONFLICT (slug) DO NOTHING;
+
+  DELETE FROM public.story_tags st
+  USING public.tags t
+  WHERE st.story_id = p_story_id
+    AND t.id = st.tag_id
+    AND NOT (t.slug = ANY(v_slugs));
+
+  INSERT INTO public.story_tags (story_id, tag_id)
+  SELECT p_story_id, t.id
+  FROM public.tags t
+  WHERE t.slug = ANY(v_slugs)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- Move every story from one tag to another and delete the first. The merged
+-- tag stays curated if either was.
+CREATE OR REPLACE FUNCTION public.merge_tags(p_source_id UUID, p_target_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_source_curated BOOLEAN;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge tags' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a tag into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT curated INTO v_source_curated FROM public.tags WHERE id = p_source_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM public.tags WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Tag not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.story_tags (story_id, tag_id, created_at)
+  SELECT st.story_id, p_target_id, st.created_at
+  FROM public.story_tags st
+  WHERE st.tag_id = p_source_id
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.tags SET curated = curated OR v_source_curated
+  WHERE id = p_target_id;
+
+  DELETE FROM public.tags WHERE id = p_source_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- The search document gains the story's tag names, weighted like its
+-- category
+CREATE OR REPLACE FUNCTION public.refresh_story_search(p_story_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO public.story_search (story_id, document, body, updated_at)
+  SELECT
+    s.id,
+    setweight(to_tsvector('english', COALESCE(s.title, '')), 'A')
+      || setweight(to_tsvector('english', COALESCE(s.description, '')), 'B')
+      || setweight(to_tsvector('english', concat_ws(' ', c.name, tg.names)), 'C')
+      || setweight(to_tsvector('english', COALESCE(f.text, '')), 'D'),
+    concat_ws(E'\n\n', NULLIF(s.description, ''), f.text),
+    now()
+  FROM public.stories s
+  LEFT JOIN public.categories c ON c.id = s.category_id
+  LEFT JOIN LATERAL (
+    SELECT string_agg(t.name, ' ') AS names
+    FROM public.story_tags st
+    JOIN public.tags t ON t.id = st.tag_id
+    WHERE st.story_id = s.id
+  ) tg ON true
+  LEFT JOIN LATERAL (
+    -- Markdown markers would only clutter the snippets
+    SELECT string_agg(
+             regexp_replace(ch.content, '\[!WARNING\]|[#>*_]+', ' ', 'g'),
+             E'\n\n' ORDER BY ch.chapter_number
+           ) AS text
+    FROM public.chapters ch
+    WHERE ch.story_id = s.id
+      AND ch.published = true
+      AND ch.is_free = true
+  ) f ON true
+  WHERE s.id = p_story_id
+  ON CONFLICT (story_id) DO UPDATE
+  SET document = EXCLUDED.document,
+      body = EXCLUDED.body,
+      updated_at = EXCLUDED.updated_at;
+$$ LANGUAGE sql SECURITY DEFINER
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_story_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'stories' THEN
+    PERFORM public.refresh_story_search(NEW.id);
+  ELSIF TG_TABLE_NAME = 'categories' THEN
+    PERFORM public.refresh_story_search(s.id)
+    FROM public.stories s
+    WHERE s.category_id = NEW.id;
+  ELSIF TG_TABLE_NAME = 'tags' THEN
+    PERFORM public.refresh_story_search(st.story_id)
+    FROM public.story_tags st
+    WHERE st.tag_id = NEW.id;
+  ELSE
+    -- chapters and story_tags
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+      PERFORM public.refresh_story_search(OLD.story_id);
+    END IF;
+
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.story_id IS DISTINCT FROM OLD.story_id) THEN
+      PERFORM public.refresh_story_search(NEW.story_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+DROP TRIGGER IF EXISTS story_tags_sync_search ON public.story_tags;
+CREATE TRIGGER story_tags_sync_search
+  AFTER INSERT OR DELETE ON public.story_tags
+  FOR EACH ROW EXECUTE FUNCTION public.sync_story_search();
+
+DROP TRIGGER IF EXISTS tags_sync_search ON public.tags;
+CREATE TRIGGER tags_sync_search
+  AFTER UPDATE OF name ON public.tags
+  FOR EACH ROW EXECUTE FUNCTION public.sync_story_search();
+
+-- search_stories() gains a tag filter: only stories carrying every one of
+-- the given tag slugs match
+DROP FUNCTION IF EXISTS public.search_stories(TEXT, UUID, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_stories(
+  p_query TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0,
+  p_tags TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  cover_image_url TEXT,
+  category_id UUID,
+  category_name TEXT,
+  price_per_chapter INTEGER,
+  min_chapter_price INTEGER,
+  max_chapter_price INTEGER,
+  total_chapters INTEGER,
+  is_anonymous BOOLEAN,
+  impact_percentage INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_handle TEXT,
+  author_name TEXT,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_query TSQUERY;
+  v_tag_ids UUID[];
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+BEGIN
+  IF p_sort IS NULL OR p_sort NOT IN (
+    'relevance', 'newest', 'trending', 'popular', 'most_supported', 'price_low', 'price_high'
+  ) THEN
+    RAISE EXCEPTION 'Unknown sort %', p_sort USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_query), '') IS NOT NULL THEN
+    v_query := websearch_to_tsquery('english', p_query);
+
+    -- Only stop words ("the", "and"): nothing can match
+    IF numnode(v_query) = 0 THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF cardinality(p_tags) > 0 THEN
+    SELECT array_agg(t.id) INTO v_tag_ids
+    FROM public.tags t
+    WHERE t.slug = ANY(p_tags);
+
+    -- An unknown tag matches nothing
+    IF COALESCE(cardinality(v_tag_ids), 0) < (SELECT count(DISTINCT x) FROM unnest(p_tags) AS x) THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      ps.id,
+      ps.title,
+      ps.description,
+      ps.cover_image_url,
+      ps.category_id,
+      c.name AS category_name,
+      ps.price_per_chapter,
+      ps.min_chapter_price,
+      ps.max_chapter_price,
+      ps.total_chapters,
+      ps.is_anonymous,
+      ps.impact_percentage,
+      ps.created_at,
+      ps.author_handle::TEXT,
+      ps.author_name,
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank_cd(ss.document, v_query) END::REAL AS rank,
+      ss.body,
+      COALESCE(e.trending_score, 0) AS trending_score,
+      COALESCE(e.popular_score, 0) AS popular_score,
+      COALESCE(e.supporters, 0) AS supporters,
+      COALESCE(e.impact_raised, 0) AS impact_raised
+    FROM public.public_stories ps
+    LEFT JOIN public.story_search ss ON ss.story_id = ps.id
+    LEFT JOIN public.story_engagement e ON e.story_id = ps.id
+    LEFT JOIN public.categories c ON c.id = ps.category_id
+    WHERE ps.published = true
+      AND (p_category_id IS NULL OR ps.category_id = p_category_id)
+      AND (v_query IS NULL OR ss.document @@ v_query)
+      AND (v_tag_ids IS NULL OR (
+        SELECT count(*) FROM public.story_tags st
+        WHERE st.story_id = ps.id AND st.tag_id = ANY(v_tag_ids)
+      ) = cardinality(v_tag_ids))
+  ),
+  ordered AS (
+    SELECT
+      m.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+          CASE WHEN p_sort = 'trending' THEN m.trending_score END DESC,
+          CASE WHEN p_sort = 'popular' THEN m.popular_score END DESC,
+          CASE WHEN p_sort = 'most_supported' THEN m.supporters END DESC,
+          CASE WHEN p_sort = 'most_supported' THEN m.impact_raised END DESC,
+          CASE WHEN p_sort = 'price_low' THEN m.min_chapter_price END ASC,
+          CASE WHEN p_sort = 'price_high' THEN m.max_chapter_price END DESC NULLS LAST,
+          m.created_at DESC,
+          m.id
+      ) AS position
+    FROM matches m
+  )
+  SELECT
+    o.id,
+    o.title,
+    o.description,
+    o.cover_image_url,
+    o.category_id,
+    o.category_name,
+    o.price_per_chapter,
+    o.min_chapter_price,
+    o.max_chapter_price,
+    o.total_chapters,
+    o.is_anonymous,
+    o.impact_percentage,
+    o.created_at,
+    o.author_handle,
+    o.author_name,
+    o.rank,
+    CASE
+      WHEN v_query IS NULL OR o.body IS NULL OR o.body = '' THEN NULL
+      ELSE ts_headline(
+        'english', o.body, v_query,
+        format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "', chr(2), chr(3))
+      )
+    END,
+    o.total_count
+  FROM ordered o
+  WHERE o.position > v_offset
+    AND o.position <= v_offset + v_limit
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_story_tags(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_story_tags(UUID, TEXT[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.merge_tags(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_tags(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_stories(TEXT, UUID, TEXT, INTEGER, INTEGER, TEXT[]) TO anon, authenticated;
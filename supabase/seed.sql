@@ -0,0 +1,63 @@
+-- Seed data for local and preview databases: the story categories and a few
+-- published demo stories to browse. Safe to run more than once.
+-- `supabase db reset` runs this after the migrations; the policy tests run it
+-- too, so they always have content to read.
+
+INSERT INTO public.categories (name, description) VALUES
+('Survivor Stories', 'Stories of resilience and overcoming challenges'),
+('Life Lessons', 'Wisdom and insights from lived experiences'),
+('Fiction & Novels', 'Creative fiction and storytelling'),
+('Poetry & Reflections', 'Poetry and personal reflections')
+ON CONFLICT (name) DO NOTHING;
+
+-- Demo authors. They have no password, so nobody can sign in as them; the
+-- on_auth_user_created trigger gives each one a profile.
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+('00000000-0000-4000-a000-000000000001', 'maya@demo.local', '{"display_name": "Maya Torres"}'),
+('00000000-0000-4000-a000-000000000002', 'dana.whitfield@demo.local', '{"display_name": "Dana Whitfield"}')
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE public.profiles
+SET is_author = true,
+    bio = 'Writing about the years it took to find my way home.'
+WHERE user_id = '00000000-0000-4000-a000-000000000001';
+
+UPDATE public.profiles
+SET is_author = true,
+    is_anonymous = true,
+    pseudonym = 'Quiet Oak',
+    wallet_address = '0x00000000000000000000000000000000000a0a02',
+    bio = 'Poems from the other side of a hard decade.'
+WHERE user_id = '00000000-0000-4000-a000-000000000002';
+
+INSERT INTO public.author_profiles (user_id, pseudonym, total_stories_published, total_chapters_published) VALUES
+('00000000-0000-4000-a000-000000000001', NULL, 1, 3),
+('00000000-0000-4000-a000-000000000002', 'Quiet Oak', 1, 2)
+ON CONFLICT (user_id) DO NOTHING;
+
+INSERT INTO public.stories (id, author_id, title, description, category_id, price_per_chapter, total_chapters, published, is_anonymous, impact_percentage)
+SELECT s.id, s.author_id, s.title, s.description, c.id, s.price_per_chapter, s.total_chapters, true, s.is_anonymous, s.impact_percentage
+FROM (VALUES
+  ('00000000-0000-4000-b000-000000000001'::uuid, '00000000-0000-4000-a000-000000000001'::uuid,
+   'The Long Way Home', 'A year of shelters, second chances and the people who made the difference.',
+   'Survivor Stories', 5, 3, false, 15),
+  ('00000000-0000-4000-b000-000000000002'::uuid, '00000000-0000-4000-a000-000000000002'::uuid,
+   'Small Lights', 'Short poems written one night at a time.',
+   'Poetry & Reflections', 3, 2, true, 20)
+) AS s(id, author_id, title, description, category_name, price_per_chapter, total_chapters, is_anonymous, impact_percentage)
+JOIN public.categories c ON c.name = s.category_name
+ON CONFLICT (id) DO NOTHING;
+
+-- The first chapter of each story is free
+INSERT INTO public.chapters (id, story_id, chapter_number, title, content, is_free, published) VALUES
+('00000000-0000-4000-c000-000000000001', '00000000-0000-4000-b000-000000000001', 1, 'The Last Bus',
+ 'The last bus left at 11:40. I knew because I had missed it three nights running, and each time the driver looked at me like he already knew how the story ended.', true, true),
+('00000000-0000-4000-c000-000000000002', '00000000-0000-4000-b000-000000000001', 2, 'Cots and Coffee',
+ 'The shelter smelled of coffee and floor polish. A woman called Ruth handed me a blanket and asked my name, and for the first time in weeks somebody wrote it down.', false, true),
+('00000000-0000-4000-c000-000000000003', '00000000-0000-4000-b000-000000000001', 3, 'A Key of My Own',
+ 'The key was cheap and bent at the tip. I held it so tightly on the walk over that it left a mark in my palm for the rest of the day.', false, true),
+('00000000-0000-4000-c000-000000000004', '00000000-0000-4000-b000-000000000002', 1, 'Porch Light',
+ 'Someone left the porch light on. / I do not know them. / I stood in it anyway.', true, true),
+('00000000-0000-4000-c000-000000000005', '00000000-0000-4000-b000-000000000002', 2, 'Inventory',
+ 'One coat, two letters, / a phone that only takes calls, / and the morning.', false, true)
+ON CONFLICT (id) DO NOTHING;
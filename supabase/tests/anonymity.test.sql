@@ -0,0 +1,244 @@
+-- anonymity: nothing a reader can query names the person behind an anonymous
+-- story, not even after paying its author
+
+BEGIN;
+
+-- Every public table and view the current role can read, as JSON, keeping
+-- only the rows that mention p_filter when one is given. Returns the names
+-- of the relations whose output contains any of the secrets.
+CREATE FUNCTION tests.find_leaks(p_secrets TEXT[], p_filter TEXT DEFAULT NULL)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_relation TEXT;
+  v_output TEXT;
+  v_secret TEXT;
+  v_leaks TEXT[] := '{}';
+BEGIN
+  FOR v_relation IN
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+      AND c.relkind IN ('r', 'v', 'm')
+      AND has_table_privilege(c.oid, 'SELECT')
+    ORDER BY c.relname
+  LOOP
+    EXECUTE format(
+      'SELECT lower(coalesce(jsonb_agg(t)::text, %L)) FROM public.%I t WHERE $1 IS NULL OR to_jsonb(t)::text LIKE %L || $1 || %L',
+      '', v_relation, '%', '%'
+    ) INTO v_output USING p_filter;
+
+    FOREACH v_secret IN ARRAY p_secrets LOOP
+      IF position(lower(v_secret) IN v_output) > 0 THEN
+        v_leaks := v_leaks || v_relation;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_leaks;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('60000000-0000-4000-a000-000000000001', 'Rosa Mendes');
+  PERFORM tests.create_user('60000000-0000-4000-a000-000000000002', 'Reader');
+
+  INSERT INTO public.platform_settings (key, value)
+  VALUES ('anonymous_payout_address', '0x00000000000000000000000000000000000000e1');
+
+  -- A named author who published one story anonymously
+  UPDATE public.profiles
+  SET is_author = true,
+      wallet_address = '0x0000000000000000000000000000000000006001'
+  WHERE user_id = '60000000-0000-4000-a000-000000000001';
+
+  INSERT INTO public.stories (id, author_id, title, published, is_anonymous, price_per_chapter, total_chapters)
+  VALUES ('60000000-0000-4000-b000-000000000001', '60000000-0000-4000-a000-000000000001', 'Unsigned', true, true, 4, 1);
+
+  INSERT INTO public.chapters (id, story_id, chapter_number, title, content, is_free, published)
+  VALUES ('60000000-0000-4000-c000-000000000001', '60000000-0000-4000-b000-000000000001', 1, 'One', 'One', false, true);
+END $$;
+
+-- The anonymous author tags their story with a tag nobody used before
+DO $$
+BEGIN
+  PERFORM tests.authenticate_as('00000000-0000-4000-a000-000000000002');
+  PERFORM public.set_story_tags('00000000-0000-4000-b000-000000000002', ARRAY['Quiet Rebellion']);
+  PERFORM tests.clear_authentication();
+END $$;
+
+-- The reader buys a chapter from each anonymous story and tips both authors
+DO $$
+BEGIN
+  PERFORM tests.authenticate_as('60000000-0000-4000-a000-000000000002');
+
+  PERFORM public.pay_story_author(
+    '00000000-0000-4000-b000-000000000002', 3, 'purchase', 'anonymity-purchase-1',
+    '00000000-0000-4000-c000-000000000005'
+  );
+  PERFORM public.pay_story_author('00000000-0000-4000-b000-000000000002', 2, 'tip', 'anonymity-tip-1');
+
+  PERFORM public.pay_story_author(
+    '60000000-0000-4000-b000-000000000001', 4, 'purchase', 'anonymity-purchase-2',
+    '60000000-0000-4000-c000-000000000001'
+  );
+  PERFORM public.pay_story_author('60000000-0000-4000-b000-000000000001', 2, 'tip', 'anonymity-tip-2');
+
+  PERFORM tests.clear_authentication();
+END $$;
+
+-- The payments reached the real authors
+DO $$
+BEGIN
+  ASSERT (
+    SELECT count(*) FROM public.transactions
+    WHERE from_user_id = '60000000-0000-4000-a000-000000000002'
+      AND to_user_id = '00000000-0000-4000-a000-000000000002'
+  ) = 2, 'payments did not reach the anonymous author';
+
+  ASSERT (
+    SELECT count(*) FROM public.transactions
+    WHERE from_user_id = '60000000-0000-4000-a000-000000000002'
+      AND to_user_id = '60000000-0000-4000-a000-000000000001'
+  ) = 2, 'payments did not reach the author of the anonymous story';
+END $$;
+
+-- An anonymous profile never shows its user id, real name or wallet anywhere
+DO $$
+DECLARE
+  v_secrets TEXT[] := ARRAY[
+    '00000000-0000-4000-a000-000000000002',
+    'Dana Whitfield',
+    '0x00000000000000000000000000000000000a0a02'
+  ];
+  v_anon TEXT[];
+  v_reader TEXT[];
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+  v_anon := tests.find_leaks(v_secrets);
+
+  PERFORM tests.authenticate_as('60000000-0000-4000-a000-000000000002');
+  v_reader := tests.find_leaks(v_secrets);
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT cardinality(v_anon) = 0, format('anonymous author exposed to visitors by %s', v_anon);
+  ASSERT cardinality(v_reader) = 0, format('anonymous author exposed to a paying reader by %s', v_reader);
+END $$;
+
+-- Nothing about an anonymous story links it to its author, even when the same
+-- author publishes other stories under their own name
+DO $$
+DECLARE
+  v_secrets TEXT[] := ARRAY[
+    '60000000-0000-4000-a000-000000000001',
+    'Rosa Mendes',
+    '0x0000000000000000000000000000000000006001'
+  ];
+  v_anon TEXT[];
+  v_reader TEXT[];
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+  v_anon := tests.find_leaks(v_secrets, '60000000-0000-4000-b000-000000000001');
+
+  PERFORM tests.authenticate_as('60000000-0000-4000-a000-000000000002');
+  v_reader := tests.find_leaks(v_secrets, '60000000-0000-4000-b000-000000000001');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT cardinality(v_anon) = 0, format('anonymous story exposed its author to visitors by %s', v_anon);
+  ASSERT cardinality(v_reader) = 0, format('anonymous story exposed its author to a paying reader by %s', v_reader);
+END $$;
+
+-- Anonymous stories are listed under a pen name and handle
+DO $$
+DECLARE
+  v_story RECORD;
+  v_pen_name TEXT;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  SELECT * INTO v_story FROM public.public_stories WHERE id = '00000000-0000-4000-b000-000000000002';
+  SELECT pseudonym INTO v_pen_name FROM public.anonymous_authors WHERE handle = v_story.author_handle;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_story.author_id IS NULL, 'public_stories shows the author id of an anonymous story';
+  ASSERT v_story.author_name = 'Quiet Oak', 'public_stories does not show the pen name';
+  ASSERT v_pen_name = 'Quiet Oak', 'the author handle does not lead to the pen name';
+END $$;
+
+-- BDAG for an anonymous story goes to the payout relay, not the author's wallet
+DO $$
+DECLARE
+  v_anonymous TEXT;
+  v_named TEXT;
+BEGIN
+  UPDATE public.profiles
+  SET wallet_address = '0x2222222222222222222222222222222222222222'
+  WHERE user_id = '00000000-0000-4000-a000-000000000001';
+
+  PERFORM tests.authenticate_as_anon();
+
+  v_anonymous := public.get_story_payout_address('60000000-0000-4000-b000-000000000001');
+  v_named := public.get_story_payout_address('00000000-0000-4000-b000-000000000001');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_anonymous = '0x00000000000000000000000000000000000000e1', 'anonymous story is not paid through the relay';
+  ASSERT v_named = '0x2222222222222222222222222222222222222222', 'named story is not paid to the author''s wallet';
+END $$;
+
+-- Paying a guessed recipient directly would confirm who wrote a story
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('60000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    PERFORM public.process_credit_transaction(
+      '60000000-0000-4000-a000-000000000002', '60000000-0000-4000-a000-000000000001',
+      1, 'tip', 'anonymity-guess-1', '60000000-0000-4000-b000-000000000001', NULL
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'reader paid a guessed author directly';
+END $$;
+
+-- The reader still sees their own payments, without the recipient
+DO $$
+DECLARE
+  v_payments INTEGER;
+  v_recipients INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('60000000-0000-4000-a000-000000000002');
+
+  SELECT count(*), count(to_user_id) INTO v_payments, v_recipients
+  FROM public.transaction_history
+  WHERE from_user_id = '60000000-0000-4000-a000-000000000002';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_payments = 4, 'reader cannot see their payments';
+  ASSERT v_recipients = 0, 'transaction_history shows the recipient of an anonymous story payment';
+END $$;
+
+-- The author sees who paid them
+DO $$
+DECLARE
+  v_received INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('00000000-0000-4000-a000-000000000002');
+  SELECT count(*) INTO v_received FROM public.transaction_history WHERE to_user_id = '00000000-0000-4000-a000-000000000002';
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_received = 2, 'anonymous author cannot see payments to them';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,306 @@
+-- Indexed BDAG purchase events only unlock a chapter when they paid the
+-- story's author, and paid the story's own impact share to its beneficiary or
+-- the impact treasury; readers cannot complete
+-- payments themselves, nor claim someone else's
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('11000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('11000000-0000-4000-a000-000000000002', 'Buyer');
+  PERFORM tests.create_user('11000000-0000-4000-a000-000000000003', 'Front-runner');
+  PERFORM tests.create_user('11000000-0000-4000-a000-000000000004', 'No wallet saved');
+
+  UPDATE public.profiles SET wallet_address = '0x1100000000000000000000000000000000000001'
+  WHERE user_id = '11000000-0000-4000-a000-000000000001';
+  UPDATE public.profiles SET wallet_address = '0x1100000000000000000000000000000000000002'
+  WHERE user_id = '11000000-0000-4000-a000-000000000002';
+
+  INSERT INTO public.stories (id, author_id, title, published, price_per_chapter, impact_percentage) VALUES
+  ('11000000-0000-4000-b000-000000000001', '11000000-0000-4000-a000-000000000001', 'Paid in BDAG', true, 5, 10);
+
+  INSERT INTO public.chapters (id, story_id, title, content, published) VALUES
+  ('11000000-0000-4000-c000-000000000001', '11000000-0000-4000-b000-000000000001', 'One', 'One', true),
+  ('11000000-0000-4000-c000-000000000002', '11000000-0000-4000-b000-000000000001', 'Two', 'Two', true);
+END $$;
+
+-- An event that paid someone else, skimmed the impact share or sent it back
+-- to the buyer is refused
+DO $$
+DECLARE
+  v_wrong_author BOOLEAN := false;
+  v_wrong_impact BOOLEAN := false;
+  v_wrong_recipient BOOLEAN := false;
+  v_recorded INTEGER;
+BEGIN
+  SET LOCAL ROLE service_role;
+
+  BEGIN
+    PERFORM public.index_bdag_purchase(
+      '0x1100000000000000000000000000000000000000000000000000000000000001',
+      '0x1100000000000000000000000000000000000002', '0x1100000000000000000000000000000000000002',
+      '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+      '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000001', 5, 0.50, 0.25
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_wrong_author := true;
+  END;
+
+  BEGIN
+    PERFORM public.index_bdag_purchase(
+      '0x1100000000000000000000000000000000000000000000000000000000000002',
+      '0x1100000000000000000000000000000000000002', '0x1100000000000000000000000000000000000001',
+      '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+      '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000001', 5, 0, 0.25
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_wrong_impact := true;
+  END;
+
+  BEGIN
+    PERFORM public.index_bdag_purchase(
+      '0x1100000000000000000000000000000000000000000000000000000000000006',
+      '0x1100000000000000000000000000000000000002', '0x1100000000000000000000000000000000000001',
+      '0x1100000000000000000000000000000000000002', '0x11000000000000000000000000000000000000ff',
+      '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000001', 5, 0.50, 0.25
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_wrong_recipient := true;
+  END;
+
+  RESET ROLE;
+
+  SELECT count(*) INTO v_recorded
+  FROM public.transactions
+  WHERE story_id = '11000000-0000-4000-b000-000000000001';
+
+  ASSERT v_wrong_author, 'a purchase paying the buyer''s own wallet was recorded';
+  ASSERT v_wrong_impact, 'a purchase without the story''s impact share was recorded';
+  ASSERT v_wrong_recipient, 'a purchase paying the impact share to the buyer was recorded';
+  ASSERT v_recorded = 0, format('%s refused purchases were recorded', v_recorded);
+END $$;
+
+-- A reader can record a pending payment but cannot complete it themselves
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+  v_status TEXT;
+  v_access BOOLEAN;
+BEGIN
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000002');
+
+  PERFORM public.start_blockchain_payment(
+    '0x1100000000000000000000000000000000000000000000000000000000000004',
+    '11000000-0000-4000-b000-000000000001', 5, 'purchase', '11000000-0000-4000-c000-000000000002'
+  );
+
+  BEGIN
+    PERFORM public.record_blockchain_payment(
+      '0x1100000000000000000000000000000000000000000000000000000000000004',
+      '11000000-0000-4000-b000-000000000001', 5, 'purchase', '11000000-0000-4000-c000-000000000002', 0
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  v_access := public.has_chapter_access('11000000-0000-4000-c000-000000000002');
+  PERFORM tests.clear_authentication();
+
+  SELECT status INTO v_status
+  FROM public.transactions
+  WHERE blockchain_tx_hash = '0x1100000000000000000000000000000000000000000000000000000000000004';
+
+  ASSERT v_blocked, 'a reader completed their own BDAG payment';
+  ASSERT v_status = 'pending', format('the payment was left %s', v_status);
+  ASSERT NOT v_access, 'an unindexed payment unlocked the chapter';
+END $$;
+
+-- A hash that is already recorded cannot be claimed again by someone else
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+  v_owner UUID;
+BEGIN
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    PERFORM public.start_blockchain_payment(
+      '0x1100000000000000000000000000000000000000000000000000000000000004',
+      '11000000-0000-4000-b000-000000000001', 5, 'purchase', '11000000-0000-4000-c000-000000000002'
+    );
+  EXCEPTION WHEN unique_violation THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  SELECT from_user_id INTO v_owner
+  FROM public.transactions
+  WHERE blockchain_tx_hash = '0x1100000000000000000000000000000000000000000000000000000000000004';
+
+  ASSERT v_blocked, 'a second reader claimed a recorded transaction hash';
+  ASSERT v_owner = '11000000-0000-4000-a000-000000000002', 'the pending payment changed hands';
+END $$;
+
+-- The author's own address and impact share are recorded and unlock the chapter
+DO $$
+DECLARE
+  v_transaction RECORD;
+  v_access BOOLEAN;
+BEGIN
+  SET LOCAL ROLE service_role;
+
+  PERFORM public.index_bdag_purchase(
+    '0x1100000000000000000000000000000000000000000000000000000000000003',
+    '0x1100000000000000000000000000000000000002', '0x1100000000000000000000000000000000000001',
+    '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+    '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000001', 5, 0.50, 0.25
+  );
+
+  RESET ROLE;
+
+  SELECT status, author_amount, impact_amount INTO v_transaction
+  FROM public.transactions
+  WHERE blockchain_tx_hash = '0x1100000000000000000000000000000000000000000000000000000000000003';
+
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000002');
+  v_access := public.has_chapter_access('11000000-0000-4000-c000-000000000001');
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_transaction.status = 'completed' AND v_transaction.author_amount = 4.25
+    AND v_transaction.impact_amount = 0.50, format('the purchase was recorded as %s', v_transaction);
+  ASSERT v_access, 'the indexed purchase did not unlock the chapter';
+END $$;
+
+-- A whole-story event has to pay the bundle price; the buyer still needs
+-- chapter two, which costs 5
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+  v_access BOOLEAN;
+BEGIN
+  SET LOCAL ROLE service_role;
+
+  BEGIN
+    PERFORM public.index_bdag_purchase(
+      '0x1100000000000000000000000000000000000000000000000000000000000005',
+      '0x1100000000000000000000000000000000000002', '0x1100000000000000000000000000000000000001',
+      '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+      '11000000-0000-4000-b000-000000000001', NULL, 1, 0.10, 0
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_blocked := true;
+  END;
+
+  RESET ROLE;
+
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000002');
+  v_access := public.has_chapter_access('11000000-0000-4000-c000-000000000002');
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'an underpaid story purchase was recorded';
+  ASSERT NOT v_access, 'an underpaid story purchase unlocked the story';
+END $$;
+
+-- A pending payment started with someone else's hash goes to the wallet that
+-- actually paid
+DO $$
+DECLARE
+  v_buyer UUID;
+  v_buyer_access BOOLEAN;
+  v_front_runner_access BOOLEAN;
+BEGIN
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000003');
+  PERFORM public.start_blockchain_payment(
+    '0x1100000000000000000000000000000000000000000000000000000000000007',
+    '11000000-0000-4000-b000-000000000001', 5, 'purchase', '11000000-0000-4000-c000-000000000002'
+  );
+  PERFORM tests.clear_authentication();
+
+  SET LOCAL ROLE service_role;
+  PERFORM public.index_bdag_purchase(
+    '0x1100000000000000000000000000000000000000000000000000000000000007',
+    '0x1100000000000000000000000000000000000002', '0x1100000000000000000000000000000000000001',
+    '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+    '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000002', 5, 0.50, 0.25
+  );
+  RESET ROLE;
+
+  SELECT from_user_id INTO v_buyer
+  FROM public.transactions
+  WHERE blockchain_tx_hash = '0x1100000000000000000000000000000000000000000000000000000000000007';
+
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000002');
+  v_buyer_access := public.has_chapter_access('11000000-0000-4000-c000-000000000002');
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000003');
+  v_front_runner_access := public.has_chapter_access('11000000-0000-4000-c000-000000000002');
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_buyer = '11000000-0000-4000-a000-000000000002', 'the purchase was booked to the front-runner';
+  ASSERT v_buyer_access, 'the paying wallet did not get the chapter';
+  ASSERT NOT v_front_runner_access, 'the front-runner got the chapter';
+END $$;
+
+-- A wallet no profile uses is matched to the reader who started the payment
+-- for the same chapter, and skipped otherwise
+DO $$
+DECLARE
+  v_access BOOLEAN;
+  v_other_chapter BOOLEAN := false;
+  v_unclaimed BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000004');
+  PERFORM public.start_blockchain_payment(
+    '0x1100000000000000000000000000000000000000000000000000000000000008',
+    '11000000-0000-4000-b000-000000000001', 5, 'purchase', '11000000-0000-4000-c000-000000000001'
+  );
+  PERFORM public.start_blockchain_payment(
+    '0x1100000000000000000000000000000000000000000000000000000000000009',
+    '11000000-0000-4000-b000-000000000001', 5, 'purchase', '11000000-0000-4000-c000-000000000001'
+  );
+  PERFORM tests.clear_authentication();
+
+  SET LOCAL ROLE service_role;
+
+  PERFORM public.index_bdag_purchase(
+    '0x1100000000000000000000000000000000000000000000000000000000000008',
+    '0x1100000000000000000000000000000000000004', '0x1100000000000000000000000000000000000001',
+    '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+    '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000001', 5, 0.50, 0.25
+  );
+
+  BEGIN
+    PERFORM public.index_bdag_purchase(
+      '0x1100000000000000000000000000000000000000000000000000000000000009',
+      '0x1100000000000000000000000000000000000004', '0x1100000000000000000000000000000000000001',
+      '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+      '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000002', 5, 0.50, 0.25
+    );
+  EXCEPTION WHEN no_data_found THEN
+    v_other_chapter := true;
+  END;
+
+  BEGIN
+    PERFORM public.index_bdag_purchase(
+      '0x110000000000000000000000000000000000000000000000000000000000000a',
+      '0x1100000000000000000000000000000000000004', '0x1100000000000000000000000000000000000001',
+      '0x11000000000000000000000000000000000000ff', '0x11000000000000000000000000000000000000ff',
+      '11000000-0000-4000-b000-000000000001', '11000000-0000-4000-c000-000000000001', 5, 0.50, 0.25
+    );
+  EXCEPTION WHEN no_data_found THEN
+    v_unclaimed := true;
+  END;
+
+  RESET ROLE;
+
+  PERFORM tests.authenticate_as('11000000-0000-4000-a000-000000000004');
+  v_access := public.has_chapter_access('11000000-0000-4000-c000-000000000001');
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_access, 'the reader who started the payment did not get the chapter';
+  ASSERT v_other_chapter, 'a pending payment for another chapter matched the event';
+  ASSERT v_unclaimed, 'an event nobody can be matched to was recorded';
+END $$;
+
+ROLLBACK;
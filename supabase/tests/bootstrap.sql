@@ -0,0 +1,92 @@
+-- The parts of a Supabase database the migrations depend on, for running them
+-- against a plain local Postgres: the API roles and a minimal auth schema.
+-- Only what the migrations and tests touch is stubbed.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    CREATE ROLE anon NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    CREATE ROLE authenticated NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+    CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+  END IF;
+END $$;
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT,
+  raw_user_meta_data JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Same lookup as Supabase: the sub claim of the request's JWT. Tests sign in
+-- with set_config('request.jwt.claim.sub', <user id>, true).
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS UUID AS $$
+  SELECT NULLIF(
+    COALESCE(
+      current_setting('request.jwt.claim.sub', true),
+      NULLIF(current_setting('request.jwt.claims', true), '')::jsonb ->> 'sub'
+    ),
+    ''
+  )::uuid;
+$$ LANGUAGE sql STABLE;
+
+GRANT USAGE ON SCHEMA public, auth TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION auth.uid() TO anon, authenticated, service_role;
+
+-- Supabase grants the API roles everything on public objects and leaves
+-- access control to RLS and explicit REVOKEs
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+
+-- Test helpers. They switch role for the rest of the transaction, so each test
+-- runs inside BEGIN ... ROLLBACK.
+CREATE SCHEMA IF NOT EXISTS tests;
+GRANT USAGE ON SCHEMA tests TO anon, authenticated, service_role;
+
+-- Act as a signed-in user
+CREATE OR REPLACE FUNCTION tests.authenticate_as(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+  SET LOCAL ROLE authenticated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Act as a visitor who is not signed in
+CREATE OR REPLACE FUNCTION tests.authenticate_as_anon()
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', '', true);
+  SET LOCAL ROLE anon;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Back to the superuser that set up the fixtures
+CREATE OR REPLACE FUNCTION tests.clear_authentication()
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', '', true);
+  RESET ROLE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A user with a profile and 100 credits
+CREATE OR REPLACE FUNCTION tests.create_user(p_user_id UUID, p_name TEXT)
+RETURNS UUID AS $$
+BEGIN
+  INSERT INTO auth.users (id, email, raw_user_meta_data)
+  VALUES (p_user_id, p_user_id::text || '@test.local', jsonb_build_object('display_name', p_name));
+
+  INSERT INTO public.user_credits (user_id, balance) VALUES (p_user_id, 100);
+
+  RETURN p_user_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,95 @@
+-- chapter_drafts: only the author saves and reads drafts of their story
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('70000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('70000000-0000-4000-a000-000000000002', 'Reader');
+
+  INSERT INTO public.stories (id, author_id, title, published)
+  VALUES ('70000000-0000-4000-b000-000000000001', '70000000-0000-4000-a000-000000000001', 'Work in progress', false);
+
+  INSERT INTO public.chapters (id, story_id, chapter_number, title, content)
+  VALUES ('70000000-0000-4000-c000-000000000001', '70000000-0000-4000-b000-000000000001', 1, 'One', 'One');
+END $$;
+
+-- Saving again replaces the draft instead of adding another
+DO $$
+DECLARE
+  v_new INTEGER;
+  v_existing INTEGER;
+  v_content TEXT;
+BEGIN
+  PERFORM tests.authenticate_as('70000000-0000-4000-a000-000000000001');
+
+  PERFORM public.save_chapter_draft('70000000-0000-4000-b000-000000000001', NULL, 'Two', 'First try');
+  PERFORM public.save_chapter_draft('70000000-0000-4000-b000-000000000001', NULL, 'Two', 'Second try');
+  PERFORM public.save_chapter_draft('70000000-0000-4000-b000-000000000001', '70000000-0000-4000-c000-000000000001', 'One', '## One');
+  PERFORM public.save_chapter_draft('70000000-0000-4000-b000-000000000001', '70000000-0000-4000-c000-000000000001', 'One', '## One, again');
+
+  SELECT count(*), max(content) INTO v_new, v_content
+  FROM public.chapter_drafts
+  WHERE story_id = '70000000-0000-4000-b000-000000000001' AND chapter_id IS NULL;
+
+  SELECT count(*) INTO v_existing
+  FROM public.chapter_drafts
+  WHERE chapter_id = '70000000-0000-4000-c000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_new = 1, 'saving a new chapter draft twice kept two drafts';
+  ASSERT v_content = 'Second try', 'the draft was not replaced';
+  ASSERT v_existing = 1, 'saving a chapter draft twice kept two drafts';
+END $$;
+
+-- Other users cannot read or write the author's drafts
+DO $$
+DECLARE
+  v_visible INTEGER;
+  v_blocked BOOLEAN := false;
+  v_inserted BOOLEAN := true;
+BEGIN
+  PERFORM tests.authenticate_as('70000000-0000-4000-a000-000000000002');
+
+  SELECT count(*) INTO v_visible FROM public.chapter_drafts WHERE story_id = '70000000-0000-4000-b000-000000000001';
+
+  BEGIN
+    PERFORM public.save_chapter_draft('70000000-0000-4000-b000-000000000001', NULL, 'Mine now', 'Hijacked');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  BEGIN
+    INSERT INTO public.chapter_drafts (story_id, author_id, title, content)
+    VALUES ('70000000-0000-4000-b000-000000000001', '70000000-0000-4000-a000-000000000002', 'Mine now', 'Hijacked');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_inserted := false;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_visible = 0, 'another user can read the author''s drafts';
+  ASSERT v_blocked, 'another user saved a draft of the author''s story';
+  ASSERT NOT v_inserted, 'another user inserted a draft directly';
+END $$;
+
+-- A draft cannot be attached to a chapter of a different story
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('70000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    PERFORM public.save_chapter_draft('70000000-0000-4000-b000-000000000001', '00000000-0000-4000-c000-000000000001', 'One', 'One');
+  EXCEPTION WHEN no_data_found THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'draft was saved against another story''s chapter';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,127 @@
+-- Chapter numbers and stories.total_chapters are kept by the database:
+-- new chapters go last, deletes close the gap and reorder_chapters() renumbers
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('a0000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('a0000000-0000-4000-a000-000000000002', 'Reader');
+
+  INSERT INTO public.stories (id, author_id, title, published)
+  VALUES ('a0000000-0000-4000-b000-000000000001', 'a0000000-0000-4000-a000-000000000001', 'In order', true);
+END $$;
+
+-- New chapters are numbered after the last one, and only published chapters
+-- count towards total_chapters
+DO $$
+DECLARE
+  v_numbers INTEGER[];
+  v_total INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('a0000000-0000-4000-a000-000000000001');
+
+  INSERT INTO public.chapters (id, story_id, title, content, published) VALUES
+  ('a0000000-0000-4000-c000-000000000001', 'a0000000-0000-4000-b000-000000000001', 'One', 'One', true);
+  INSERT INTO public.chapters (id, story_id, title, content, published) VALUES
+  ('a0000000-0000-4000-c000-000000000002', 'a0000000-0000-4000-b000-000000000001', 'Two', 'Two', true);
+  INSERT INTO public.chapters (id, story_id, title, content, published) VALUES
+  ('a0000000-0000-4000-c000-000000000003', 'a0000000-0000-4000-b000-000000000001', 'Three', 'Three', false);
+
+  SELECT array_agg(chapter_number ORDER BY title) INTO v_numbers
+  FROM public.chapters WHERE story_id = 'a0000000-0000-4000-b000-000000000001';
+  SELECT total_chapters INTO v_total
+  FROM public.stories WHERE id = 'a0000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  -- Ordered by title: One, Three, Two
+  ASSERT v_numbers = ARRAY[1, 3, 2], format('new chapters were numbered %s', v_numbers);
+  ASSERT v_total = 2, format('total_chapters is %s, expected the 2 published chapters', v_total);
+END $$;
+
+-- Deleting a chapter closes the gap
+DO $$
+DECLARE
+  v_three INTEGER;
+  v_total INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('a0000000-0000-4000-a000-000000000001');
+
+  DELETE FROM public.chapters WHERE id = 'a0000000-0000-4000-c000-000000000002';
+
+  SELECT chapter_number INTO v_three
+  FROM public.chapters WHERE id = 'a0000000-0000-4000-c000-000000000003';
+  SELECT total_chapters INTO v_total
+  FROM public.stories WHERE id = 'a0000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_three = 2, format('chapter three is number %s after deleting two', v_three);
+  ASSERT v_total = 1, 'total_chapters did not drop when a published chapter was deleted';
+END $$;
+
+-- The author can reorder, but only with every chapter listed once
+DO $$
+DECLARE
+  v_one INTEGER;
+  v_three INTEGER;
+  v_rejected BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('a0000000-0000-4000-a000-000000000001');
+
+  PERFORM public.reorder_chapters(
+    'a0000000-0000-4000-b000-000000000001',
+    ARRAY['a0000000-0000-4000-c000-000000000003', 'a0000000-0000-4000-c000-000000000001']::UUID[]
+  );
+
+  BEGIN
+    PERFORM public.reorder_chapters(
+      'a0000000-0000-4000-b000-000000000001',
+      ARRAY['a0000000-0000-4000-c000-000000000001', 'a0000000-0000-4000-c000-000000000001']::UUID[]
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_rejected := true;
+  END;
+
+  SELECT chapter_number INTO v_one FROM public.chapters WHERE id = 'a0000000-0000-4000-c000-000000000001';
+  SELECT chapter_number INTO v_three FROM public.chapters WHERE id = 'a0000000-0000-4000-c000-000000000003';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_three = 1 AND v_one = 2, format('reordered to %s and %s', v_three, v_one);
+  ASSERT v_rejected, 'a reorder that lists a chapter twice was accepted';
+END $$;
+
+-- Nobody else can reorder, and clients cannot write total_chapters
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+  v_total_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('a0000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    PERFORM public.reorder_chapters(
+      'a0000000-0000-4000-b000-000000000001',
+      ARRAY['a0000000-0000-4000-c000-000000000001', 'a0000000-0000-4000-c000-000000000003']::UUID[]
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.authenticate_as('a0000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    UPDATE public.stories SET total_chapters = 50 WHERE id = 'a0000000-0000-4000-b000-000000000001';
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_total_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'a reader reordered another author''s chapters';
+  ASSERT v_total_blocked, 'the author overwrote total_chapters';
+END $$;
+
+ROLLBACK;
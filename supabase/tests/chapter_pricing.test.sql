@@ -0,0 +1,212 @@
+-- Chapters are free, cost the story price or cost their own price, and
+-- purchases are only accepted at that price
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('b0000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('b0000000-0000-4000-a000-000000000002', 'Reader');
+
+  INSERT INTO public.stories (id, author_id, title, published, price_per_chapter)
+  VALUES ('b0000000-0000-4000-b000-000000000001', 'b0000000-0000-4000-a000-000000000001', 'Priced', true, 4);
+
+  INSERT INTO public.chapters (id, story_id, title, content, published, price_mode, price) VALUES
+  ('b0000000-0000-4000-c000-000000000001', 'b0000000-0000-4000-b000-000000000001', 'Inherit', 'Inherit', true, 'inherit', NULL),
+  ('b0000000-0000-4000-c000-000000000002', 'b0000000-0000-4000-b000-000000000001', 'Custom', 'Custom', true, 'custom', 7),
+  ('b0000000-0000-4000-c000-000000000003', 'b0000000-0000-4000-b000-000000000001', 'Free', 'Free', true, 'free', NULL);
+
+  -- Older clients only set is_free
+  INSERT INTO public.chapters (id, story_id, title, content, published, is_free)
+  VALUES ('b0000000-0000-4000-c000-000000000004', 'b0000000-0000-4000-b000-000000000001', 'Legacy', 'Legacy', true, true);
+END $$;
+
+-- is_free follows the price mode, and a custom price needs an amount
+DO $$
+DECLARE
+  v_free BOOLEAN[];
+  v_legacy_mode TEXT;
+  v_rejected BOOLEAN := false;
+BEGIN
+  SELECT array_agg(is_free ORDER BY id) INTO v_free
+  FROM public.chapters WHERE story_id = 'b0000000-0000-4000-b000-000000000001';
+  SELECT price_mode INTO v_legacy_mode
+  FROM public.chapters WHERE id = 'b0000000-0000-4000-c000-000000000004';
+
+  BEGIN
+    UPDATE public.chapters SET price_mode = 'custom'
+    WHERE id = 'b0000000-0000-4000-c000-000000000001';
+  EXCEPTION WHEN check_violation THEN
+    v_rejected := true;
+  END;
+
+  ASSERT v_free = ARRAY[false, false, true, true], format('is_free is %s', v_free);
+  ASSERT v_legacy_mode = 'free', format('a chapter inserted as free has price mode %s', v_legacy_mode);
+  ASSERT v_rejected, 'a custom price mode was saved without a price';
+END $$;
+
+-- Readers see each chapter's price and the story's price range
+DO $$
+DECLARE
+  v_prices INTEGER[];
+  v_story RECORD;
+BEGIN
+  PERFORM tests.authenticate_as('b0000000-0000-4000-a000-000000000002');
+
+  SELECT array_agg(price ORDER BY id) INTO v_prices
+  FROM public.chapter_previews WHERE story_id = 'b0000000-0000-4000-b000-000000000001';
+  SELECT min_chapter_price, max_chapter_price, full_price INTO v_story
+  FROM public.public_stories WHERE id = 'b0000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_prices = ARRAY[4, 7, 0, 0], format('chapter prices are %s', v_prices);
+  ASSERT v_story.min_chapter_price = 4 AND v_story.max_chapter_price = 7,
+    format('price range is %s to %s', v_story.min_chapter_price, v_story.max_chapter_price);
+  ASSERT v_story.full_price = 11, format('full price is %s', v_story.full_price);
+END $$;
+
+-- A purchase at the wrong price is refused, in credits and in BDAG
+DO $$
+DECLARE
+  v_credits_rejected BOOLEAN := false;
+  v_bdag_rejected BOOLEAN := false;
+  v_free_rejected BOOLEAN := false;
+  v_story_rejected BOOLEAN := false;
+  v_bdag_story_rejected BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('b0000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    PERFORM public.pay_story_author(
+      'b0000000-0000-4000-b000-000000000001', 4, 'purchase', 'pricing-cheap',
+      'b0000000-0000-4000-c000-000000000002'
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_credits_rejected := true;
+  END;
+
+  BEGIN
+    PERFORM public.start_blockchain_payment(
+      '0xb000000000000000000000000000000000000000000000000000000000000001',
+      'b0000000-0000-4000-b000-000000000001', 1, 'purchase',
+      'b0000000-0000-4000-c000-000000000001'
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_bdag_rejected := true;
+  END;
+
+  BEGIN
+    PERFORM public.pay_story_author(
+      'b0000000-0000-4000-b000-000000000001', 4, 'purchase', 'pricing-free',
+      'b0000000-0000-4000-c000-000000000003'
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_free_rejected := true;
+  END;
+
+  -- Without a chapter the purchase opens the whole story
+  BEGIN
+    PERFORM public.pay_story_author(
+      'b0000000-0000-4000-b000-000000000001', 1, 'purchase', 'pricing-story', NULL
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_story_rejected := true;
+  END;
+
+  BEGIN
+    PERFORM public.start_blockchain_payment(
+      '0xb000000000000000000000000000000000000000000000000000000000000002',
+      'b0000000-0000-4000-b000-000000000001', 1, 'purchase', NULL
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_bdag_story_rejected := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_credits_rejected, 'a custom-priced chapter was bought at the story price';
+  ASSERT v_bdag_rejected, 'a BDAG payment below the chapter price was recorded';
+  ASSERT v_free_rejected, 'a free chapter was charged for';
+  ASSERT v_story_rejected, 'a whole story was bought below the bundle price';
+  ASSERT v_bdag_story_rejected, 'a BDAG payment below the bundle price was recorded';
+END $$;
+
+-- At the right price the chapter unlocks and drops out of the bundle
+DO $$
+DECLARE
+  v_bundle_before INTEGER;
+  v_bundle_after INTEGER;
+  v_access BOOLEAN;
+BEGIN
+  PERFORM tests.authenticate_as('b0000000-0000-4000-a000-000000000002');
+
+  v_bundle_before := public.story_bundle_price('b0000000-0000-4000-b000-000000000001');
+
+  PERFORM public.pay_story_author(
+    'b0000000-0000-4000-b000-000000000001', 7, 'purchase', 'pricing-custom',
+    'b0000000-0000-4000-c000-000000000002'
+  );
+
+  v_bundle_after := public.story_bundle_price('b0000000-0000-4000-b000-000000000001');
+  v_access := public.has_chapter_access('b0000000-0000-4000-c000-000000000002');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_bundle_before = 11, format('bundle cost %s before buying, expected 4 + 7', v_bundle_before);
+  ASSERT v_bundle_after = 4, format('bundle cost %s after buying the custom chapter', v_bundle_after);
+  ASSERT v_access, 'the reader cannot open the chapter they paid for';
+END $$;
+
+-- However a story-wide purchase is written, it only grants the story once it
+-- has paid the bundle price
+DO $$
+DECLARE
+  v_rejected BOOLEAN := false;
+  v_granted INTEGER;
+BEGIN
+  -- Skip the price check on insert, as a path that forgot it would
+  ALTER TABLE public.transactions DISABLE TRIGGER transactions_check_chapter_price;
+
+  BEGIN
+    INSERT INTO public.transactions (from_user_id, to_user_id, story_id, chapter_id, amount, transaction_type, status)
+    VALUES (
+      'b0000000-0000-4000-a000-000000000002', 'b0000000-0000-4000-a000-000000000001',
+      'b0000000-0000-4000-b000-000000000001', NULL, 1, 'purchase', 'completed'
+    );
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_rejected := true;
+  END;
+
+  ALTER TABLE public.transactions ENABLE TRIGGER transactions_check_chapter_price;
+
+  SELECT count(*) INTO v_granted
+  FROM public.entitlements
+  WHERE user_id = 'b0000000-0000-4000-a000-000000000002' AND chapter_id IS NULL;
+
+  ASSERT v_rejected, 'an underpaid story purchase was granted';
+  ASSERT v_granted = 0, 'an underpaid story purchase opened the story';
+END $$;
+
+-- Nobody else can ask what the reader's bundle costs, which would show what
+-- they bought
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  BEGIN
+    PERFORM public.story_bundle_price(
+      'b0000000-0000-4000-b000-000000000001', 'b0000000-0000-4000-a000-000000000002'
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'an anonymous visitor priced another user''s bundle';
+END $$;
+
+ROLLBACK;
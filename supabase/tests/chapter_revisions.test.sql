@@ -0,0 +1,120 @@
+-- chapter_revisions: every edit is kept, only the author sees or restores
+-- them, and buyers read whatever the chapter says now
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('80000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('80000000-0000-4000-a000-000000000002', 'Buyer');
+
+  INSERT INTO public.stories (id, author_id, title, published)
+  VALUES ('80000000-0000-4000-b000-000000000001', '80000000-0000-4000-a000-000000000001', 'Revised', true);
+
+  INSERT INTO public.entitlements (user_id, story_id, chapter_id, source)
+  VALUES ('80000000-0000-4000-a000-000000000002', '80000000-0000-4000-b000-000000000001', NULL, 'purchase');
+END $$;
+
+-- Creating and editing a chapter records a revision each time; publishing
+-- does not
+DO $$
+DECLARE
+  v_count INTEGER;
+  v_latest RECORD;
+BEGIN
+  PERFORM tests.authenticate_as('80000000-0000-4000-a000-000000000001');
+
+  INSERT INTO public.chapters (id, story_id, chapter_number, title, content)
+  VALUES ('80000000-0000-4000-c000-000000000001', '80000000-0000-4000-b000-000000000001', 1, 'One', 'First draft');
+
+  UPDATE public.chapters SET content = E'## Second\n\nSecond **draft** here'
+  WHERE id = '80000000-0000-4000-c000-000000000001';
+
+  UPDATE public.chapters SET published = true
+  WHERE id = '80000000-0000-4000-c000-000000000001';
+
+  SELECT count(*) INTO v_count
+  FROM public.chapter_revisions
+  WHERE chapter_id = '80000000-0000-4000-c000-000000000001';
+
+  SELECT author_id, word_count INTO v_latest
+  FROM public.chapter_revisions
+  WHERE chapter_id = '80000000-0000-4000-c000-000000000001'
+    AND content LIKE '## Second%';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_count = 2, format('expected 2 revisions, found %s', v_count);
+  ASSERT v_latest.author_id = '80000000-0000-4000-a000-000000000001', 'revision does not record its author';
+  ASSERT v_latest.word_count = 4, format('expected 4 words, counted %s', v_latest.word_count);
+END $$;
+
+-- Readers, even buyers, cannot see or restore revisions
+DO $$
+DECLARE
+  v_visible INTEGER;
+  v_blocked BOOLEAN := false;
+  v_revision UUID;
+BEGIN
+  SELECT id INTO v_revision
+  FROM public.chapter_revisions
+  WHERE chapter_id = '80000000-0000-4000-c000-000000000001' AND content = 'First draft';
+
+  PERFORM tests.authenticate_as('80000000-0000-4000-a000-000000000002');
+
+  SELECT count(*) INTO v_visible
+  FROM public.chapter_revisions
+  WHERE chapter_id = '80000000-0000-4000-c000-000000000001';
+
+  BEGIN
+    PERFORM public.restore_chapter_revision(v_revision);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_visible = 0, 'a reader can see the chapter''s revisions';
+  ASSERT v_blocked, 'a reader restored a revision';
+END $$;
+
+-- Restoring records a new revision, and the buyer reads the restored text
+DO $$
+DECLARE
+  v_revision UUID;
+  v_restored_id UUID;
+  v_restored RECORD;
+  v_count INTEGER;
+  v_read TEXT;
+BEGIN
+  SELECT id INTO v_revision
+  FROM public.chapter_revisions
+  WHERE chapter_id = '80000000-0000-4000-c000-000000000001' AND content = 'First draft';
+
+  PERFORM tests.authenticate_as('80000000-0000-4000-a000-000000000001');
+
+  v_restored_id := public.restore_chapter_revision(v_revision);
+
+  SELECT * INTO v_restored
+  FROM public.chapter_revisions
+  WHERE id = v_restored_id;
+
+  SELECT count(*) INTO v_count
+  FROM public.chapter_revisions
+  WHERE chapter_id = '80000000-0000-4000-c000-000000000001';
+
+  PERFORM tests.authenticate_as('80000000-0000-4000-a000-000000000002');
+
+  SELECT content INTO v_read
+  FROM public.chapters
+  WHERE id = '80000000-0000-4000-c000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_restored.restored_from = v_revision, 'the restore does not point back at the revision it restored';
+  ASSERT v_restored.content = 'First draft', 'the restore recorded the wrong text';
+  ASSERT v_count = 3, 'restoring rewrote history instead of adding a revision';
+  ASSERT v_read = 'First draft', 'the buyer does not see the restored chapter';
+END $$;
+
+ROLLBACK;
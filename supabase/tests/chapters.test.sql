@@ -0,0 +1,121 @@
+-- chapters: paid chapters are only readable with access, and only the author
+-- can write them. Uses the demo stories from seed.sql.
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('20000000-0000-4000-a000-000000000001', 'Reader');
+  PERFORM tests.create_user('20000000-0000-4000-a000-000000000002', 'Buyer');
+
+  INSERT INTO public.entitlements (user_id, story_id, chapter_id, source)
+  VALUES ('20000000-0000-4000-a000-000000000002', '00000000-0000-4000-b000-000000000001',
+          '00000000-0000-4000-c000-000000000002', 'purchase');
+END $$;
+
+-- Anonymous visitors read free chapters, and only a teaser of paid ones
+DO $$
+DECLARE
+  v_free INTEGER;
+  v_paid INTEGER;
+  v_preview RECORD;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  SELECT count(*) INTO v_free FROM public.chapters WHERE id = '00000000-0000-4000-c000-000000000001';
+  SELECT count(*) INTO v_paid FROM public.chapters WHERE id = '00000000-0000-4000-c000-000000000002';
+  SELECT has_access, content INTO v_preview
+  FROM public.chapter_previews
+  WHERE id = '00000000-0000-4000-c000-000000000002';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_free = 1, 'anonymous visitor cannot read a free chapter';
+  ASSERT v_paid = 0, 'anonymous visitor can read a paid chapter';
+  ASSERT NOT v_preview.has_access, 'chapter_previews grants access to a paid chapter';
+  ASSERT length(v_preview.content) <= 300, 'chapter_previews shows more than the teaser';
+END $$;
+
+-- A reader without an entitlement cannot read a paid chapter; a buyer can
+DO $$
+DECLARE
+  v_reader INTEGER;
+  v_buyer INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('20000000-0000-4000-a000-000000000001');
+  SELECT count(*) INTO v_reader FROM public.chapters WHERE id = '00000000-0000-4000-c000-000000000002';
+
+  PERFORM tests.authenticate_as('20000000-0000-4000-a000-000000000002');
+  SELECT count(*) INTO v_buyer FROM public.chapters WHERE id = '00000000-0000-4000-c000-000000000002';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_reader = 0, 'reader without access can read a paid chapter';
+  ASSERT v_buyer = 1, 'buyer cannot read the chapter they bought';
+END $$;
+
+-- A reader cannot add or edit chapters of someone else's story
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+  v_rows INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('20000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    INSERT INTO public.chapters (story_id, chapter_number, title, content, published)
+    VALUES ('00000000-0000-4000-b000-000000000001', 99, 'Not mine', 'Not mine', true);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  UPDATE public.chapters
+  SET content = 'Rewritten'
+  WHERE id = '00000000-0000-4000-c000-000000000002';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'reader added a chapter to another author''s story';
+  ASSERT v_rows = 0, 'reader edited another author''s chapter';
+END $$;
+
+-- Readers cannot give themselves access
+DO $$
+DECLARE
+  v_insert_blocked BOOLEAN := false;
+  v_purchase_blocked BOOLEAN := false;
+  v_grant_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('20000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    INSERT INTO public.entitlements (user_id, story_id, chapter_id, source)
+    VALUES ('20000000-0000-4000-a000-000000000001', '00000000-0000-4000-b000-000000000001', NULL, 'purchase');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_insert_blocked := true;
+  END;
+
+  BEGIN
+    INSERT INTO public.purchases (user_id, story_id, chapter_id)
+    VALUES ('20000000-0000-4000-a000-000000000001', '00000000-0000-4000-b000-000000000001', NULL);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_purchase_blocked := true;
+  END;
+
+  BEGIN
+    PERFORM public.grant_story_entitlement(
+      '20000000-0000-4000-a000-000000000001', '00000000-0000-4000-b000-000000000001'
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_grant_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_insert_blocked, 'reader inserted their own entitlement';
+  ASSERT v_purchase_blocked, 'reader inserted their own purchase';
+  ASSERT v_grant_blocked, 'reader granted themselves access to another author''s story';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,109 @@
+-- credit_ledger_entries: welcome credits go through the journal, so
+-- reconcile_user_credits() only reports counters that drifted from it
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('12000000-0000-4000-a000-000000000001', 'New reader');
+
+  -- Start from an empty balance, as a freshly signed-up user does
+  DELETE FROM public.user_credits WHERE user_id = '12000000-0000-4000-a000-000000000001';
+END $$;
+
+-- Welcome credits are issued once, with a balanced journal entry
+DO $$
+DECLARE
+  v_balance DECIMAL;
+  v_unbalanced INTEGER;
+  v_mismatches INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('12000000-0000-4000-a000-000000000001');
+  PERFORM public.add_welcome_credits('12000000-0000-4000-a000-000000000001');
+  PERFORM public.add_welcome_credits('12000000-0000-4000-a000-000000000001');
+  PERFORM tests.clear_authentication();
+
+  SELECT balance INTO v_balance
+  FROM public.user_credits
+  WHERE user_id = '12000000-0000-4000-a000-000000000001';
+
+  SELECT count(*) INTO v_unbalanced FROM public.ledger_unbalanced_transactions;
+
+  SET LOCAL ROLE service_role;
+  SELECT count(*) INTO v_mismatches
+  FROM public.reconcile_user_credits()
+  WHERE user_id = '12000000-0000-4000-a000-000000000001';
+  RESET ROLE;
+
+  ASSERT v_balance = 50, format('welcome credits left a balance of %s', v_balance);
+  ASSERT v_unbalanced = 0, format('%s journal transactions do not balance', v_unbalanced);
+  ASSERT v_mismatches = 0, 'reconciliation reported drift for welcome credits';
+END $$;
+
+-- Nobody can claim welcome credits on another user's behalf
+DO $$
+DECLARE
+  v_anon_blocked BOOLEAN := false;
+  v_other_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.create_user('12000000-0000-4000-a000-000000000002', 'Other reader');
+
+  PERFORM tests.authenticate_as_anon();
+
+  BEGIN
+    PERFORM public.add_welcome_credits('12000000-0000-4000-a000-000000000002');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_anon_blocked := true;
+  END;
+
+  PERFORM tests.authenticate_as('12000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    PERFORM public.add_welcome_credits('12000000-0000-4000-a000-000000000002');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_other_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_anon_blocked, 'an anonymous visitor issued welcome credits';
+  ASSERT v_other_blocked, 'a user issued welcome credits to someone else';
+END $$;
+
+-- A counter changed outside the journal is reported, and applying the
+-- report restores the journal balance
+DO $$
+DECLARE
+  v_report RECORD;
+  v_balance DECIMAL;
+  v_remaining INTEGER;
+BEGIN
+  UPDATE public.user_credits
+  SET balance = balance + 5
+  WHERE user_id = '12000000-0000-4000-a000-000000000001';
+
+  SET LOCAL ROLE service_role;
+
+  SELECT * INTO v_report
+  FROM public.reconcile_user_credits()
+  WHERE user_id = '12000000-0000-4000-a000-000000000001';
+
+  PERFORM public.reconcile_user_credits(p_apply => true);
+
+  SELECT count(*) INTO v_remaining
+  FROM public.reconcile_user_credits()
+  WHERE user_id = '12000000-0000-4000-a000-000000000001';
+
+  RESET ROLE;
+
+  SELECT balance INTO v_balance
+  FROM public.user_credits
+  WHERE user_id = '12000000-0000-4000-a000-000000000001';
+
+  ASSERT v_report.stored_balance = 55 AND v_report.journal_balance = 50,
+    format('reconciliation reported %s', v_report);
+  ASSERT v_balance = 50, format('applying the report left a balance of %s', v_balance);
+  ASSERT v_remaining = 0, 'drift remained after applying the report';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,181 @@
+-- profiles: private to their owner, public fields through public_profiles,
+-- and balances, earnings and the admin flag are never set by clients
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('30000000-0000-4000-a000-000000000001', 'Reader');
+  PERFORM tests.create_user('30000000-0000-4000-a000-000000000002', 'Other reader');
+END $$;
+
+-- Signing up creates the profile
+DO $$
+BEGIN
+  ASSERT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = '30000000-0000-4000-a000-000000000001' AND display_name = 'Reader'
+  ), 'no profile was created on sign up';
+END $$;
+
+-- Other users' profile rows, with their wallet and balance, are hidden
+DO $$
+DECLARE
+  v_own INTEGER;
+  v_other INTEGER;
+BEGIN
+  UPDATE public.profiles
+  SET wallet_address = '0x1111111111111111111111111111111111111111',
+      wallet_data = '{"account": "0x1111111111111111111111111111111111111111"}'
+  WHERE user_id = '30000000-0000-4000-a000-000000000002';
+
+  PERFORM tests.authenticate_as('30000000-0000-4000-a000-000000000001');
+
+  SELECT count(*) INTO v_own FROM public.profiles WHERE user_id = '30000000-0000-4000-a000-000000000001';
+  SELECT count(*) INTO v_other FROM public.profiles WHERE user_id = '30000000-0000-4000-a000-000000000002';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_own = 1, 'user cannot read their own profile';
+  ASSERT v_other = 0, 'user can read another user''s profile row';
+END $$;
+
+-- public_profiles shows names to everyone, and wallet addresses only for authors
+DO $$
+DECLARE
+  v_reader RECORD;
+  v_author RECORD;
+BEGIN
+  UPDATE public.profiles
+  SET wallet_address = '0x2222222222222222222222222222222222222222'
+  WHERE user_id = '00000000-0000-4000-a000-000000000001';
+
+  PERFORM tests.authenticate_as_anon();
+
+  SELECT * INTO v_reader FROM public.public_profiles WHERE user_id = '30000000-0000-4000-a000-000000000002';
+  SELECT * INTO v_author FROM public.public_profiles WHERE user_id = '00000000-0000-4000-a000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_reader.display_name = 'Other reader', 'public_profiles hides display names';
+  ASSERT v_reader.wallet_address IS NULL, 'public_profiles exposes a reader''s wallet address';
+  ASSERT v_author.wallet_address = '0x2222222222222222222222222222222222222222', 'public_profiles hides an author''s payout address';
+END $$;
+
+-- public_profiles has no private columns
+DO $$
+BEGIN
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'public_profiles'
+      AND column_name IN ('wallet_balance', 'wallet_data', 'is_admin')
+  ), 'public_profiles exposes a private column';
+END $$;
+
+-- A user cannot give themselves credits or earnings
+DO $$
+DECLARE
+  v_balance_blocked BOOLEAN := false;
+  v_earnings_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('30000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    UPDATE public.profiles
+    SET wallet_balance = 1000000
+    WHERE user_id = '30000000-0000-4000-a000-000000000001';
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_balance_blocked := true;
+  END;
+
+  BEGIN
+    UPDATE public.profiles
+    SET total_earnings = 1000000
+    WHERE user_id = '30000000-0000-4000-a000-000000000001';
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_earnings_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_balance_blocked, 'user changed their own wallet_balance';
+  ASSERT v_earnings_blocked, 'user changed their own total_earnings';
+END $$;
+
+-- A user cannot edit another user's profile
+DO $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('30000000-0000-4000-a000-000000000001');
+
+  UPDATE public.profiles
+  SET display_name = 'Hijacked'
+  WHERE user_id = '30000000-0000-4000-a000-000000000002';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_rows = 0, 'user edited another user''s profile';
+END $$;
+
+-- A user cannot make themselves an admin
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('30000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    UPDATE public.profiles
+    SET is_admin = true
+    WHERE user_id = '30000000-0000-4000-a000-000000000001';
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'user made themselves an admin';
+END $$;
+
+-- Only the user themselves can set their wallet address
+DO $$
+DECLARE
+  v_anon_blocked BOOLEAN := false;
+  v_other_blocked BOOLEAN := false;
+  v_wallet TEXT;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  BEGIN
+    PERFORM public.update_user_wallet_address(
+      '30000000-0000-4000-a000-000000000002', '0x3000000000000000000000000000000000000001'
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_anon_blocked := true;
+  END;
+
+  PERFORM tests.authenticate_as('30000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    PERFORM public.update_user_wallet_address(
+      '30000000-0000-4000-a000-000000000002', '0x3000000000000000000000000000000000000001'
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_other_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  SELECT wallet_address INTO v_wallet
+  FROM public.profiles
+  WHERE user_id = '30000000-0000-4000-a000-000000000002';
+
+  ASSERT v_anon_blocked, 'an anonymous visitor set a user''s wallet address';
+  ASSERT v_other_blocked, 'user set another user''s wallet address';
+  ASSERT v_wallet = '0x1111111111111111111111111111111111111111', format('the wallet was changed to %s', v_wallet);
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,44 @@
+#!/usr/bin/env bash
+# Build a throwaway database from supabase/migrations and seed.sql, then run
+# every *.test.sql file in this directory against it.
+#
+# Connects with the usual PGHOST, PGPORT, PGUSER and PGPASSWORD variables. The
+# user must be a superuser: the bootstrap creates the Supabase roles.
+
+set -euo pipefail
+
+tests_dir="$(cd "$(dirname "$0")" && pwd)"
+supabase_dir="$(dirname "$tests_dir")"
+admin_db="${PGDATABASE:-postgres}"
+test_db="policy_tests_$$"
+
+psql_admin() { psql -X -q -v ON_ERROR_STOP=1 -d "$admin_db" "$@"; }
+psql_test() { psql -X -q -v ON_ERROR_STOP=1 -d "$test_db" "$@"; }
+
+cleanup() { psql_admin -c "DROP DATABASE IF EXISTS $test_db" > /dev/null; }
+trap cleanup EXIT
+
+psql_admin -c "CREATE DATABASE $test_db"
+psql_test -f "$tests_dir/bootstrap.sql"
+
+# Each migration runs in its own transaction, as `supabase db push` does
+for migration in "$supabase_dir"/migrations/*.sql; do
+  echo "migrate $(basename "$migration")"
+  psql_test -1 -f "$migration"
+done
+
+# Twice, to check the seed is safe to re-run
+psql_test -1 -f "$supabase_dir/seed.sql"
+psql_test -1 -f "$supabase_dir/seed.sql"
+
+failed=0
+for test_file in "$tests_dir"/*.test.sql; do
+  if psql_test -f "$test_file"; then
+    echo "ok   $(basename "$test_file")"
+  else
+    echo "FAIL $(basename "$test_file")"
+    failed=1
+  fi
+done
+
+exit $failed
@@ -0,0 +1,150 @@
+-- Scheduled chapters stay hidden until publish_scheduled_chapters() runs past
+-- their time, and followers are notified once when they go live
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('90000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('90000000-0000-4000-a000-000000000002', 'Follower');
+  PERFORM tests.create_user('90000000-0000-4000-a000-000000000003', 'Passer-by');
+
+  INSERT INTO public.stories (id, author_id, title, published)
+  VALUES ('90000000-0000-4000-b000-000000000001', '90000000-0000-4000-a000-000000000001', 'Serial', true);
+
+  INSERT INTO public.chapters (id, story_id, chapter_number, title, content, is_free, published, publish_at)
+  VALUES ('90000000-0000-4000-c000-000000000001', '90000000-0000-4000-b000-000000000001', 1,
+          'Next week', 'Coming soon', true, false, now() + interval '1 hour');
+END $$;
+
+-- A reader can follow a published story, but not on someone else's behalf
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000002');
+
+  INSERT INTO public.story_follows (user_id, story_id)
+  VALUES ('90000000-0000-4000-a000-000000000002', '90000000-0000-4000-b000-000000000001');
+
+  BEGIN
+    INSERT INTO public.story_follows (user_id, story_id)
+    VALUES ('90000000-0000-4000-a000-000000000003', '90000000-0000-4000-b000-000000000001');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'a reader made someone else follow a story';
+END $$;
+
+-- Readers cannot run the job themselves
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    PERFORM public.publish_scheduled_chapters(now() + interval '1 day');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'a reader ran the publishing job';
+END $$;
+
+-- Before its time the chapter is hidden and the job leaves it alone
+DO $$
+DECLARE
+  v_published INTEGER;
+  v_visible INTEGER;
+BEGIN
+  v_published := public.publish_scheduled_chapters(now());
+
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000002');
+  SELECT count(*) INTO v_visible FROM public.chapter_previews WHERE id = '90000000-0000-4000-c000-000000000001';
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_published = 0, 'the job published a chapter before its time';
+  ASSERT v_visible = 0, 'a scheduled chapter is visible before its time';
+END $$;
+
+-- After its time the job publishes it, once, and notifies the follower only
+DO $$
+DECLARE
+  v_published INTEGER;
+  v_again INTEGER;
+  v_chapter RECORD;
+  v_visible INTEGER;
+  v_follower INTEGER;
+  v_passer_by INTEGER;
+  v_author INTEGER;
+BEGIN
+  v_published := public.publish_scheduled_chapters(now() + interval '2 hours');
+  v_again := public.publish_scheduled_chapters(now() + interval '2 hours');
+
+  SELECT published, publish_at INTO v_chapter
+  FROM public.chapters WHERE id = '90000000-0000-4000-c000-000000000001';
+
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000003');
+  SELECT count(*) INTO v_visible FROM public.chapter_previews WHERE id = '90000000-0000-4000-c000-000000000001';
+  SELECT count(*) INTO v_passer_by FROM public.notifications;
+
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000002');
+  SELECT count(*) INTO v_follower FROM public.notifications
+  WHERE chapter_id = '90000000-0000-4000-c000-000000000001' AND type = 'chapter_published';
+
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000001');
+  SELECT count(*) INTO v_author FROM public.notifications;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_published = 1, 'the job did not publish the chapter when it was due';
+  ASSERT v_again = 0, 'the job published the chapter twice';
+  ASSERT v_chapter.published AND v_chapter.publish_at IS NULL, 'the published chapter is still scheduled';
+  ASSERT v_visible = 1, 'the chapter is not visible after it went live';
+  ASSERT v_follower = 1, format('expected 1 notification for the follower, found %s', v_follower);
+  ASSERT v_passer_by = 0, 'a reader who does not follow the story was notified';
+  ASSERT v_author = 0, 'the author was notified of their own chapter';
+END $$;
+
+-- Republishing does not notify again, and readers can only mark their own
+-- notifications read
+DO $$
+DECLARE
+  v_count INTEGER;
+  v_rows INTEGER;
+  v_blocked BOOLEAN := false;
+BEGIN
+  UPDATE public.chapters SET published = false WHERE id = '90000000-0000-4000-c000-000000000001';
+  UPDATE public.chapters SET published = true WHERE id = '90000000-0000-4000-c000-000000000001';
+
+  SELECT count(*) INTO v_count FROM public.notifications
+  WHERE chapter_id = '90000000-0000-4000-c000-000000000001';
+
+  PERFORM tests.authenticate_as('90000000-0000-4000-a000-000000000003');
+
+  UPDATE public.notifications SET read_at = now()
+  WHERE chapter_id = '90000000-0000-4000-c000-000000000001';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  BEGIN
+    INSERT INTO public.notifications (user_id, type, story_id, chapter_id)
+    VALUES ('90000000-0000-4000-a000-000000000002', 'chapter_published',
+            '90000000-0000-4000-b000-000000000001', '90000000-0000-4000-c000-000000000001');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_count = 1, 'republishing the chapter notified the follower again';
+  ASSERT v_rows = 0, 'a reader marked someone else''s notification read';
+  ASSERT v_blocked, 'a reader created a notification';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,137 @@
+-- stories: published stories are public through public_stories, drafts and
+-- writes belong to the author
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('40000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('40000000-0000-4000-a000-000000000002', 'Reader');
+
+  INSERT INTO public.stories (id, author_id, title, published)
+  VALUES ('40000000-0000-4000-b000-000000000001', '40000000-0000-4000-a000-000000000001', 'Draft', false);
+END $$;
+
+-- Drafts are only visible to their author
+DO $$
+DECLARE
+  v_author INTEGER;
+  v_reader INTEGER;
+  v_anon INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000001');
+  SELECT count(*) INTO v_author FROM public.public_stories WHERE id = '40000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000002');
+  SELECT count(*) INTO v_reader FROM public.public_stories WHERE id = '40000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.authenticate_as_anon();
+  SELECT count(*) INTO v_anon FROM public.public_stories WHERE id = '40000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_author = 1, 'author cannot see their draft';
+  ASSERT v_reader = 0, 'reader can see another author''s draft';
+  ASSERT v_anon = 0, 'anonymous visitor can see a draft';
+END $$;
+
+-- Readers see published stories through public_stories; the stories rows
+-- themselves, with the author's user id, are only for the author
+DO $$
+DECLARE
+  v_projected INTEGER;
+  v_rows INTEGER;
+  v_own INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+  SELECT count(*) INTO v_projected FROM public.public_stories WHERE id = '00000000-0000-4000-b000-000000000001';
+  SELECT count(*) INTO v_rows FROM public.stories WHERE id = '00000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000001');
+  SELECT count(*) INTO v_own FROM public.stories WHERE id = '40000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_projected = 1, 'anonymous visitor cannot see a published story';
+  ASSERT v_rows = 0, 'anonymous visitor can read story rows directly';
+  ASSERT v_own = 1, 'author cannot read their own story row';
+END $$;
+
+-- A user cannot publish a story under someone else's name
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    INSERT INTO public.stories (author_id, title, published)
+    VALUES ('40000000-0000-4000-a000-000000000001', 'Not mine', true);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'user created a story for another author';
+END $$;
+
+-- Only the author can edit or delete a story
+DO $$
+DECLARE
+  v_updated INTEGER;
+  v_deleted INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000002');
+
+  UPDATE public.stories SET title = 'Hijacked' WHERE id = '00000000-0000-4000-b000-000000000001';
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  DELETE FROM public.stories WHERE id = '00000000-0000-4000-b000-000000000001';
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_updated = 0, 'reader edited another author''s story';
+  ASSERT v_deleted = 0, 'reader deleted another author''s story';
+END $$;
+
+-- An author cannot hand their story to someone else
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    UPDATE public.stories
+    SET author_id = '40000000-0000-4000-a000-000000000002'
+    WHERE id = '40000000-0000-4000-b000-000000000001';
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'author reassigned their story to another user';
+END $$;
+
+-- The author can delete their own chapters and stories
+DO $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  INSERT INTO public.chapters (story_id, chapter_number, title, content)
+  VALUES ('40000000-0000-4000-b000-000000000001', 1, 'One', 'One');
+
+  PERFORM tests.authenticate_as('40000000-0000-4000-a000-000000000001');
+
+  DELETE FROM public.chapters WHERE story_id = '40000000-0000-4000-b000-000000000001';
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_deleted = 1, 'author cannot delete their own chapter';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,128 @@
+-- Reads, purchases and tips rank stories as trending, popular and most
+-- supported, and neither the reads nor the totals are visible to clients
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('d0000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('d0000000-0000-4000-a000-000000000002', 'First reader');
+  PERFORM tests.create_user('d0000000-0000-4000-a000-000000000003', 'Second reader');
+
+  INSERT INTO public.stories (id, author_id, title, published, price_per_chapter, impact_percentage) VALUES
+  ('d0000000-0000-4000-b000-000000000001', 'd0000000-0000-4000-a000-000000000001', 'Gloamhaven Paid', true, 4, 50),
+  ('d0000000-0000-4000-b000-000000000002', 'd0000000-0000-4000-a000-000000000001', 'Gloamhaven Read', true, 4, 0);
+
+  INSERT INTO public.chapters (id, story_id, title, content, published, price_mode) VALUES
+  ('d0000000-0000-4000-c000-000000000001', 'd0000000-0000-4000-b000-000000000001', 'Paid', 'Paid', true, 'inherit'),
+  ('d0000000-0000-4000-c000-000000000002', 'd0000000-0000-4000-b000-000000000002', 'Free', 'Free', true, 'free'),
+  ('d0000000-0000-4000-c000-000000000003', 'd0000000-0000-4000-b000-000000000002', 'Paid', 'Paid', true, 'inherit');
+END $$;
+
+-- Reads are counted once a day, only for chapters the reader can open
+DO $$
+DECLARE
+  v_reads INTEGER;
+  v_locked_rejected BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('d0000000-0000-4000-a000-000000000002');
+  PERFORM public.record_chapter_read('d0000000-0000-4000-c000-000000000002');
+  PERFORM public.record_chapter_read('d0000000-0000-4000-c000-000000000002');
+
+  BEGIN
+    PERFORM public.record_chapter_read('d0000000-0000-4000-c000-000000000003');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_locked_rejected := true;
+  END;
+
+  PERFORM tests.authenticate_as('d0000000-0000-4000-a000-000000000003');
+  PERFORM public.record_chapter_read('d0000000-0000-4000-c000-000000000002');
+
+  -- Authors and signed-out visitors are not counted
+  PERFORM tests.authenticate_as('d0000000-0000-4000-a000-000000000001');
+  PERFORM public.record_chapter_read('d0000000-0000-4000-c000-000000000003');
+  PERFORM tests.authenticate_as_anon();
+  PERFORM public.record_chapter_read('d0000000-0000-4000-c000-000000000002');
+
+  PERFORM tests.clear_authentication();
+
+  SELECT count(*) INTO v_reads
+  FROM public.chapter_reads WHERE story_id IN ('d0000000-0000-4000-b000-000000000001', 'd0000000-0000-4000-b000-000000000002');
+
+  ASSERT v_reads = 2, format('%s reads were recorded, expected one per reader', v_reads);
+  ASSERT v_locked_rejected, 'a read of a locked chapter was recorded';
+END $$;
+
+-- A purchase and a tip outweigh two reads for trending and support, but two
+-- readers make the other story more popular. Reads outside the window are
+-- ignored.
+DO $$
+DECLARE
+  v_trending UUID[];
+  v_popular UUID[];
+  v_supported UUID[];
+BEGIN
+  INSERT INTO public.chapter_reads (user_id, chapter_id, story_id, read_on) VALUES
+  ('d0000000-0000-4000-a000-000000000002', 'd0000000-0000-4000-c000-000000000001',
+   'd0000000-0000-4000-b000-000000000001', current_date - 40),
+  ('d0000000-0000-4000-a000-000000000003', 'd0000000-0000-4000-c000-000000000001',
+   'd0000000-0000-4000-b000-000000000001', current_date - 40);
+
+  PERFORM tests.authenticate_as('d0000000-0000-4000-a000-000000000002');
+  PERFORM public.pay_story_author(
+    'd0000000-0000-4000-b000-000000000001', 4, 'purchase', 'engagement-purchase',
+    'd0000000-0000-4000-c000-000000000001'
+  );
+  PERFORM public.pay_story_author(
+    'd0000000-0000-4000-b000-000000000001', 2, 'tip', 'engagement-tip'
+  );
+  PERFORM tests.clear_authentication();
+
+  PERFORM public.refresh_story_engagement();
+
+  PERFORM tests.authenticate_as_anon();
+
+  SELECT array_agg(id) INTO v_trending
+  FROM public.search_stories('gloamhaven', NULL, 'trending');
+  SELECT array_agg(id) INTO v_popular
+  FROM public.search_stories('gloamhaven', NULL, 'popular');
+  SELECT array_agg(id) INTO v_supported
+  FROM public.search_stories('gloamhaven', NULL, 'most_supported');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_trending = ARRAY['d0000000-0000-4000-b000-000000000001', 'd0000000-0000-4000-b000-000000000002']::UUID[],
+    format('trending order is %s', v_trending);
+  ASSERT v_popular = ARRAY['d0000000-0000-4000-b000-000000000002', 'd0000000-0000-4000-b000-000000000001']::UUID[],
+    format('popular order is %s', v_popular);
+  ASSERT v_supported = ARRAY['d0000000-0000-4000-b000-000000000001', 'd0000000-0000-4000-b000-000000000002']::UUID[],
+    format('most supported order is %s', v_supported);
+END $$;
+
+-- Clients can read neither the reads nor the totals
+DO $$
+DECLARE
+  v_reads_blocked BOOLEAN := false;
+  v_totals_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('d0000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    PERFORM 1 FROM public.chapter_reads;
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_reads_blocked := true;
+  END;
+
+  BEGIN
+    PERFORM 1 FROM public.story_engagement;
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_totals_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_reads_blocked, 'a reader could list chapter reads';
+  ASSERT v_totals_blocked, 'a reader could read story engagement totals';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,142 @@
+-- recommend_stories() ranks unseen stories by co-purchases and shared
+-- categories, says which story led to each one, and never exposes the
+-- similarity data itself
+
+BEGIN;
+
+DO $$
+DECLARE
+  v_buyer UUID;
+BEGIN
+  PERFORM tests.create_user('e0000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('e0000000-0000-4000-a000-000000000002', 'First buyer');
+  PERFORM tests.create_user('e0000000-0000-4000-a000-000000000003', 'Second buyer');
+  PERFORM tests.create_user('e0000000-0000-4000-a000-000000000004', 'Third buyer');
+  PERFORM tests.create_user('e0000000-0000-4000-a000-000000000005', 'Reader');
+
+  INSERT INTO public.categories (id, name, description) VALUES
+  ('e0000000-0000-4000-d000-000000000001', 'Recommendation Tests X', 'Test'),
+  ('e0000000-0000-4000-d000-000000000002', 'Recommendation Tests Y', 'Test'),
+  ('e0000000-0000-4000-d000-000000000003', 'Recommendation Tests Z', 'Test');
+
+  -- A is what the reader bought; B is bought by the same readers, C by only
+  -- one of them, D shares A's category and O is the reader's own story
+  INSERT INTO public.stories (id, author_id, title, category_id, published, price_per_chapter) VALUES
+  ('e0000000-0000-4000-b000-000000000001', 'e0000000-0000-4000-a000-000000000001', 'A', 'e0000000-0000-4000-d000-000000000001', true, 2),
+  ('e0000000-0000-4000-b000-000000000002', 'e0000000-0000-4000-a000-000000000001', 'B', 'e0000000-0000-4000-d000-000000000002', true, 2),
+  ('e0000000-0000-4000-b000-000000000003', 'e0000000-0000-4000-a000-000000000001', 'C', 'e0000000-0000-4000-d000-000000000003', true, 2),
+  ('e0000000-0000-4000-b000-000000000004', 'e0000000-0000-4000-a000-000000000001', 'D', 'e0000000-0000-4000-d000-000000000001', true, 2),
+  ('e0000000-0000-4000-b000-000000000005', 'e0000000-0000-4000-a000-000000000005', 'O', 'e0000000-0000-4000-d000-000000000001', true, 2);
+
+  INSERT INTO public.chapters (id, story_id, title, content, published) VALUES
+  ('e0000000-0000-4000-c000-000000000001', 'e0000000-0000-4000-b000-000000000001', 'A', 'A', true),
+  ('e0000000-0000-4000-c000-000000000002', 'e0000000-0000-4000-b000-000000000002', 'B', 'B', true),
+  ('e0000000-0000-4000-c000-000000000003', 'e0000000-0000-4000-b000-000000000003', 'C', 'C', true);
+
+  FOREACH v_buyer IN ARRAY ARRAY[
+    'e0000000-0000-4000-a000-000000000002',
+    'e0000000-0000-4000-a000-000000000003',
+    'e0000000-0000-4000-a000-000000000004',
+    'e0000000-0000-4000-a000-000000000005'
+  ]::UUID[] LOOP
+    PERFORM tests.authenticate_as(v_buyer);
+    PERFORM public.pay_story_author(
+      'e0000000-0000-4000-b000-000000000001', 2, 'purchase', 'recommend-a-' || v_buyer,
+      'e0000000-0000-4000-c000-000000000001'
+    );
+  END LOOP;
+
+  FOREACH v_buyer IN ARRAY ARRAY[
+    'e0000000-0000-4000-a000-000000000002',
+    'e0000000-0000-4000-a000-000000000003'
+  ]::UUID[] LOOP
+    PERFORM tests.authenticate_as(v_buyer);
+    PERFORM public.pay_story_author(
+      'e0000000-0000-4000-b000-000000000002', 2, 'purchase', 'recommend-b-' || v_buyer,
+      'e0000000-0000-4000-c000-000000000002'
+    );
+  END LOOP;
+
+  PERFORM tests.authenticate_as('e0000000-0000-4000-a000-000000000004');
+  PERFORM public.pay_story_author(
+    'e0000000-0000-4000-b000-000000000003', 2, 'purchase', 'recommend-c',
+    'e0000000-0000-4000-c000-000000000003'
+  );
+
+  PERFORM tests.clear_authentication();
+  PERFORM public.refresh_story_similarity();
+END $$;
+
+-- Only pairs with at least two buyers in common are similar
+DO $$
+DECLARE
+  v_pairs TEXT[];
+BEGIN
+  SELECT array_agg(a.title || b.title || ':' || round(sim.similarity::NUMERIC, 2) ORDER BY a.title, b.title)
+  INTO v_pairs
+  FROM public.story_similarity sim
+  JOIN public.stories a ON a.id = sim.story_id
+  JOIN public.stories b ON b.id = sim.similar_story_id
+  WHERE a.author_id = 'e0000000-0000-4000-a000-000000000001';
+
+  -- Two shared buyers, with four buyers of A and two of B: 2 / sqrt(8)
+  ASSERT v_pairs = ARRAY['AB:0.71', 'BA:0.71'], format('similar pairs are %s', v_pairs);
+END $$;
+
+-- The co-purchased story comes first, then the one in the same category,
+-- then the rest; bought and own stories are left out
+DO $$
+DECLARE
+  v_ids UUID[];
+  v_because UUID[];
+BEGIN
+  PERFORM tests.authenticate_as('e0000000-0000-4000-a000-000000000005');
+
+  SELECT array_agg(id), array_agg(because_story_id) INTO v_ids, v_because
+  FROM public.recommend_stories(24)
+  WHERE id::TEXT LIKE 'e0000000-%';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_ids = ARRAY[
+    'e0000000-0000-4000-b000-000000000002',
+    'e0000000-0000-4000-b000-000000000004',
+    'e0000000-0000-4000-b000-000000000003'
+  ]::UUID[], format('recommended %s', v_ids);
+  ASSERT v_because = ARRAY[
+    'e0000000-0000-4000-b000-000000000001',
+    'e0000000-0000-4000-b000-000000000001',
+    NULL
+  ]::UUID[], format('recommended because of %s', v_because);
+END $$;
+
+-- Signed-out visitors get no recommendations, and nobody can read the
+-- similarity view
+DO $$
+DECLARE
+  v_anon_blocked BOOLEAN := false;
+  v_similarity_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  BEGIN
+    PERFORM public.recommend_stories();
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_anon_blocked := true;
+  END;
+
+  PERFORM tests.authenticate_as('e0000000-0000-4000-a000-000000000005');
+
+  BEGIN
+    PERFORM 1 FROM public.story_similarity;
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_similarity_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_anon_blocked, 'a signed-out visitor got recommendations';
+  ASSERT v_similarity_blocked, 'a reader could read co-purchase similarity';
+END $$;
+
+ROLLBACK;
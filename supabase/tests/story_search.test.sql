@@ -0,0 +1,96 @@
+-- search_stories() finds published stories by title, description, category
+-- and free chapter text, ranks and pages them, and never matches paid text
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('c0000000-0000-4000-a000-000000000001', 'Author');
+
+  INSERT INTO public.categories (id, name, description)
+  VALUES ('c0000000-0000-4000-d000-000000000001', 'Marshwiggle Memoirs', 'Search test');
+
+  INSERT INTO public.stories (id, author_id, title, description, category_id, published, created_at) VALUES
+  ('c0000000-0000-4000-b000-000000000001', 'c0000000-0000-4000-a000-000000000001',
+   'The Quillfeather Years', 'A childhood by the sea', 'c0000000-0000-4000-d000-000000000001', true, now() - interval '1 day'),
+  ('c0000000-0000-4000-b000-000000000002', 'c0000000-0000-4000-a000-000000000001',
+   'Harbour Lights', 'Growing up with a quillfeather in every drawer', NULL, true, now()),
+  ('c0000000-0000-4000-b000-000000000003', 'c0000000-0000-4000-a000-000000000001',
+   'Unfinished Quillfeather', 'Still a draft', NULL, false, now());
+
+  INSERT INTO public.chapters (id, story_id, title, content, published, price_mode) VALUES
+  ('c0000000-0000-4000-c000-000000000001', 'c0000000-0000-4000-b000-000000000002',
+   'Free', 'We walked to the lighthouse at the end of the bramblewick road.', true, 'free'),
+  ('c0000000-0000-4000-c000-000000000002', 'c0000000-0000-4000-b000-000000000002',
+   'Paid', 'Nobody knew about the tinderbox buried under the pier.', true, 'inherit');
+END $$;
+
+-- Titles, descriptions, categories and free chapters all match; titles rank
+-- first, and unpublished stories and paid chapters never match
+DO $$
+DECLARE
+  v_title UUID[];
+  v_category UUID[];
+  v_chapter UUID[];
+  v_paid INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  SELECT array_agg(id ORDER BY rank DESC) INTO v_title
+  FROM public.search_stories('quillfeather');
+  SELECT array_agg(id) INTO v_category
+  FROM public.search_stories('marshwiggle');
+  SELECT array_agg(id) INTO v_chapter
+  FROM public.search_stories('bramblewick');
+  SELECT count(*) INTO v_paid
+  FROM public.search_stories('tinderbox');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_title = ARRAY['c0000000-0000-4000-b000-000000000001', 'c0000000-0000-4000-b000-000000000002']::UUID[],
+    format('a title and description search found %s', v_title);
+  ASSERT v_category = ARRAY['c0000000-0000-4000-b000-000000000001']::UUID[],
+    format('a category search found %s', v_category);
+  ASSERT v_chapter = ARRAY['c0000000-0000-4000-b000-000000000002']::UUID[],
+    format('a free chapter search found %s', v_chapter);
+  ASSERT v_paid = 0, 'a search matched the text of a paid chapter';
+END $$;
+
+-- The index follows edits, snippets mark the matched words and results page
+DO $$
+DECLARE
+  v_renamed INTEGER;
+  v_snippet TEXT;
+  v_page RECORD;
+  v_bad_sort BOOLEAN := false;
+BEGIN
+  UPDATE public.categories SET name = 'Fenlight Memoirs'
+  WHERE id = 'c0000000-0000-4000-d000-000000000001';
+
+  PERFORM tests.authenticate_as('c0000000-0000-4000-a000-000000000001');
+
+  UPDATE public.chapters SET price_mode = 'free'
+  WHERE id = 'c0000000-0000-4000-c000-000000000002';
+
+  SELECT count(*) INTO v_renamed FROM public.search_stories('fenlight');
+  SELECT snippet INTO v_snippet FROM public.search_stories('tinderbox');
+  SELECT id, total_count INTO v_page
+  FROM public.search_stories('quillfeather', NULL, 'newest', 1, 1);
+
+  BEGIN
+    PERFORM public.search_stories('quillfeather', NULL, 'loudest');
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_bad_sort := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_renamed = 1, 'renaming a category did not update the index';
+  ASSERT v_snippet LIKE '%' || chr(2) || 'tinderbox' || chr(3) || '%',
+    format('the snippet was %s', v_snippet);
+  ASSERT v_page.id = 'c0000000-0000-4000-b000-000000000001' AND v_page.total_count = 2,
+    format('the second page held %s of %s', v_page.id, v_page.total_count);
+  ASSERT v_bad_sort, 'an unknown sort was accepted';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,177 @@
+-- Authors tag their own stories, tags are shared by slug, search filters by
+-- them and only admins can rename or merge them
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('f0000000-0000-4000-a000-000000000001', 'Author');
+  PERFORM tests.create_user('f0000000-0000-4000-a000-000000000002', 'Reader');
+  PERFORM tests.create_user('f0000000-0000-4000-a000-000000000003', 'Admin');
+
+  UPDATE public.profiles SET is_admin = true
+  WHERE user_id = 'f0000000-0000-4000-a000-000000000003';
+
+  INSERT INTO public.stories (id, author_id, title, published) VALUES
+  ('f0000000-0000-4000-b000-000000000001', 'f0000000-0000-4000-a000-000000000001', 'Tagged One', true),
+  ('f0000000-0000-4000-b000-000000000002', 'f0000000-0000-4000-a000-000000000001', 'Tagged Two', true);
+END $$;
+
+-- Curated tags are reused whatever their case, new ones are created, and
+-- retagging replaces the old tags
+DO $$
+DECLARE
+  v_first TEXT[];
+  v_second TEXT[];
+  v_created RECORD;
+  v_curated INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('f0000000-0000-4000-a000-000000000001');
+
+  PERFORM public.set_story_tags('f0000000-0000-4000-b000-000000000001',
+    ARRAY['resilience', 'Motherhood', '  Quillstone   Valley ', 'Quillstone-Valley']);
+  SELECT array_agg(t.slug ORDER BY t.slug) INTO v_first
+  FROM public.story_tags st JOIN public.tags t ON t.id = st.tag_id
+  WHERE st.story_id = 'f0000000-0000-4000-b000-000000000001';
+
+  PERFORM public.set_story_tags('f0000000-0000-4000-b000-000000000001', ARRAY['Resilience', 'Quillstone Valley']);
+  PERFORM public.set_story_tags('f0000000-0000-4000-b000-000000000002', ARRAY['Single Mothers', 'Resilience']);
+  SELECT array_agg(t.slug ORDER BY t.slug) INTO v_second
+  FROM public.story_tags st JOIN public.tags t ON t.id = st.tag_id
+  WHERE st.story_id = 'f0000000-0000-4000-b000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  SELECT name, kind, curated INTO v_created
+  FROM public.tags WHERE slug = 'quillstone-valley';
+  SELECT count(*) INTO v_curated FROM public.tags WHERE slug IN ('resilience', 'motherhood');
+
+  ASSERT v_first = ARRAY['motherhood', 'quillstone-valley', 'resilience'], format('first tags were %s', v_first);
+  ASSERT v_second = ARRAY['quillstone-valley', 'resilience'], format('retagged to %s', v_second);
+  ASSERT v_created.name = 'Quillstone Valley' AND v_created.kind = 'theme' AND NOT v_created.curated,
+    format('the new tag was saved as %s', v_created);
+  ASSERT v_curated = 2, 'a curated tag was duplicated';
+END $$;
+
+-- Only the author can tag, within the limits, and never by writing rows
+DO $$
+DECLARE
+  v_reader_blocked BOOLEAN := false;
+  v_insert_blocked BOOLEAN := false;
+  v_too_many BOOLEAN := false;
+  v_blank BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('f0000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    PERFORM public.set_story_tags('f0000000-0000-4000-b000-000000000001', ARRAY['Spam']);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_reader_blocked := true;
+  END;
+
+  BEGIN
+    INSERT INTO public.story_tags (story_id, tag_id)
+    SELECT 'f0000000-0000-4000-b000-000000000001', id FROM public.tags WHERE slug = 'faith';
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_insert_blocked := true;
+  END;
+
+  PERFORM tests.authenticate_as('f0000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    PERFORM public.set_story_tags('f0000000-0000-4000-b000-000000000002',
+      ARRAY['t1', 't2', 't3', 't4', 't5', 't6', 't7', 't8', 't9', 't10', 't11']);
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_too_many := true;
+  END;
+
+  BEGIN
+    PERFORM public.set_story_tags('f0000000-0000-4000-b000-000000000002', ARRAY['!!!']);
+  EXCEPTION WHEN invalid_parameter_value THEN
+    v_blank := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_reader_blocked, 'a reader tagged someone else''s story';
+  ASSERT v_insert_blocked, 'a reader wrote story_tags directly';
+  ASSERT v_too_many, 'a story was given 11 tags';
+  ASSERT v_blank, 'a tag with no letters or numbers was accepted';
+END $$;
+
+-- Search filters by every given tag and finds stories by tag name
+DO $$
+DECLARE
+  v_resilience INTEGER;
+  v_both UUID[];
+  v_unknown INTEGER;
+  v_text UUID[];
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  SELECT count(*) INTO v_resilience
+  FROM public.search_stories(NULL, NULL, 'newest', 50, 0, ARRAY['resilience'])
+  WHERE id::TEXT LIKE 'f0000000-%';
+  SELECT array_agg(id) INTO v_both
+  FROM public.search_stories(NULL, NULL, 'newest', 50, 0, ARRAY['resilience', 'single-mothers']);
+  SELECT count(*) INTO v_unknown
+  FROM public.search_stories(NULL, NULL, 'newest', 50, 0, ARRAY['resilience', 'no-such-tag']);
+  SELECT array_agg(id) INTO v_text
+  FROM public.search_stories('quillstone');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_resilience = 2, format('%s stories tagged resilience', v_resilience);
+  ASSERT v_both = ARRAY['f0000000-0000-4000-b000-000000000002']::UUID[], format('both tags matched %s', v_both);
+  ASSERT v_unknown = 0, 'an unknown tag matched stories';
+  ASSERT v_text = ARRAY['f0000000-0000-4000-b000-000000000001']::UUID[], format('a tag name search found %s', v_text);
+END $$;
+
+-- Only admins rename and merge tags; a merge keeps every story tagged
+DO $$
+DECLARE
+  v_renamed_rows INTEGER;
+  v_merge_blocked BOOLEAN := false;
+  v_tagged UUID[];
+  v_source_left INTEGER;
+  v_name TEXT;
+BEGIN
+  PERFORM tests.authenticate_as('f0000000-0000-4000-a000-000000000001');
+
+  UPDATE public.tags SET name = 'Hijacked' WHERE slug = 'quillstone-valley';
+  GET DIAGNOSTICS v_renamed_rows = ROW_COUNT;
+
+  BEGIN
+    PERFORM public.merge_tags(
+      (SELECT id FROM public.tags WHERE slug = 'single-mothers'),
+      (SELECT id FROM public.tags WHERE slug = 'motherhood')
+    );
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_merge_blocked := true;
+  END;
+
+  PERFORM tests.authenticate_as('f0000000-0000-4000-a000-000000000003');
+
+  UPDATE public.tags SET name = 'Quillstone Vale' WHERE slug = 'quillstone-valley';
+  PERFORM public.merge_tags(
+    (SELECT id FROM public.tags WHERE slug = 'single-mothers'),
+    (SELECT id FROM public.tags WHERE slug = 'motherhood')
+  );
+
+  PERFORM tests.clear_authentication();
+
+  SELECT array_agg(st.story_id ORDER BY st.story_id) INTO v_tagged
+  FROM public.story_tags st JOIN public.tags t ON t.id = st.tag_id
+  WHERE t.slug = 'motherhood';
+  SELECT count(*) INTO v_source_left FROM public.tags WHERE slug = 'single-mothers';
+  SELECT name INTO v_name FROM public.tags WHERE slug = 'quillstone-vale';
+
+  ASSERT v_renamed_rows = 0, 'an author renamed a tag';
+  ASSERT v_merge_blocked, 'an author merged tags';
+  ASSERT v_tagged = ARRAY['f0000000-0000-4000-b000-000000000002']::UUID[],
+    format('motherhood is on %s after the merge', v_tagged);
+  ASSERT v_source_left = 0, 'the merged tag was not deleted';
+  ASSERT v_name = 'Quillstone Vale', 'the admin could not rename a tag';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,94 @@
+-- transactions: only the sender and the recipient see a transaction, and
+-- clients can only record one through the credit functions
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('50000000-0000-4000-a000-000000000001', 'Reader');
+  PERFORM tests.create_user('50000000-0000-4000-a000-000000000002', 'Bystander');
+END $$;
+
+-- The reader buys a chapter from the demo author
+DO $$
+BEGIN
+  PERFORM tests.authenticate_as('50000000-0000-4000-a000-000000000001');
+
+  PERFORM public.pay_story_author(
+    '00000000-0000-4000-b000-000000000001',
+    5,
+    'purchase',
+    'test-purchase-1',
+    '00000000-0000-4000-c000-000000000002'
+  );
+
+  PERFORM tests.clear_authentication();
+END $$;
+
+-- Both participants see it, nobody else does
+DO $$
+DECLARE
+  v_sender INTEGER;
+  v_recipient INTEGER;
+  v_bystander INTEGER;
+  v_anon INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('50000000-0000-4000-a000-000000000001');
+  SELECT count(*) INTO v_sender FROM public.transactions WHERE idempotency_key = 'test-purchase-1';
+
+  PERFORM tests.authenticate_as('00000000-0000-4000-a000-000000000001');
+  SELECT count(*) INTO v_recipient FROM public.transactions WHERE idempotency_key = 'test-purchase-1';
+
+  PERFORM tests.authenticate_as('50000000-0000-4000-a000-000000000002');
+  SELECT count(*) INTO v_bystander FROM public.transactions WHERE idempotency_key = 'test-purchase-1';
+
+  PERFORM tests.authenticate_as_anon();
+  SELECT count(*) INTO v_anon FROM public.transactions;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_sender = 1, 'sender cannot see their transaction';
+  ASSERT v_recipient = 1, 'recipient cannot see their transaction';
+  ASSERT v_bystander = 0, 'another user can see the transaction';
+  ASSERT v_anon = 0, 'anonymous visitor can see transactions';
+END $$;
+
+-- A completed purchase row would grant an entitlement, so clients cannot
+-- insert one directly
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('50000000-0000-4000-a000-000000000002');
+
+  BEGIN
+    INSERT INTO public.transactions (from_user_id, to_user_id, story_id, chapter_id, amount, transaction_type, status)
+    VALUES ('50000000-0000-4000-a000-000000000002', '00000000-0000-4000-a000-000000000001',
+            '00000000-0000-4000-b000-000000000001', '00000000-0000-4000-c000-000000000003', 0, 'purchase', 'completed');
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'user inserted a transaction directly';
+END $$;
+
+-- Purchase history is private too
+DO $$
+DECLARE
+  v_entitlements INTEGER;
+  v_purchases INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('50000000-0000-4000-a000-000000000002');
+
+  SELECT count(*) INTO v_entitlements FROM public.entitlements WHERE user_id = '50000000-0000-4000-a000-000000000001';
+  SELECT count(*) INTO v_purchases FROM public.purchases WHERE user_id = '50000000-0000-4000-a000-000000000001';
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_entitlements = 0, 'user can see another reader''s entitlements';
+  ASSERT v_purchases = 0, 'user can see another reader''s purchases';
+END $$;
+
+ROLLBACK;
@@ -0,0 +1,127 @@
+-- user_credits: readers only ever touch their own balance
+
+BEGIN;
+
+DO $$
+BEGIN
+  PERFORM tests.create_user('10000000-0000-4000-a000-000000000001', 'Reader');
+  PERFORM tests.create_user('10000000-0000-4000-a000-000000000002', 'Other reader');
+END $$;
+
+-- A reader cannot update another user's credits
+DO $$
+DECLARE
+  v_rows INTEGER;
+  v_balance DECIMAL;
+BEGIN
+  PERFORM tests.authenticate_as('10000000-0000-4000-a000-000000000001');
+
+  UPDATE public.user_credits
+  SET balance = 1000000
+  WHERE user_id = '10000000-0000-4000-a000-000000000002';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  SELECT balance INTO v_balance
+  FROM public.user_credits
+  WHERE user_id = '10000000-0000-4000-a000-000000000002';
+
+  ASSERT v_rows = 0, 'reader updated another user''s user_credits';
+  ASSERT v_balance = 100, 'another user''s balance changed';
+END $$;
+
+-- A reader cannot create a credits row for someone else
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM tests.authenticate_as('10000000-0000-4000-a000-000000000001');
+
+  BEGIN
+    INSERT INTO public.user_credits (user_id, balance)
+    VALUES ('00000000-0000-4000-a000-000000000001', 1000000);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'reader inserted user_credits for another user';
+END $$;
+
+-- A reader cannot see another user's balance, or change their own
+DO $$
+DECLARE
+  v_visible INTEGER;
+  v_rows INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('10000000-0000-4000-a000-000000000001');
+
+  SELECT count(*) INTO v_visible FROM public.user_credits;
+
+  UPDATE public.user_credits
+  SET balance = 1000000
+  WHERE user_id = '10000000-0000-4000-a000-000000000001';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_visible = 1, 'reader can see other users'' credits';
+  ASSERT v_rows = 0, 'reader changed their own balance';
+END $$;
+
+-- A new user can open their own account, but only with a zero balance
+DO $$
+DECLARE
+  v_blocked BOOLEAN := false;
+BEGIN
+  INSERT INTO auth.users (id, email) VALUES ('10000000-0000-4000-a000-000000000003', 'new@test.local');
+
+  PERFORM tests.authenticate_as('10000000-0000-4000-a000-000000000003');
+
+  BEGIN
+    INSERT INTO public.user_credits (user_id, balance)
+    VALUES ('10000000-0000-4000-a000-000000000003', 500);
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+
+  INSERT INTO public.user_credits (user_id) VALUES ('10000000-0000-4000-a000-000000000003');
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_blocked, 'new user opened an account with credits in it';
+END $$;
+
+-- Anonymous visitors cannot change anyone's credits
+DO $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as_anon();
+
+  UPDATE public.user_credits SET balance = 0;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_rows = 0, 'anonymous visitor updated user_credits';
+END $$;
+
+-- The journal is append-only, even for its own user
+DO $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  PERFORM tests.authenticate_as('10000000-0000-4000-a000-000000000001');
+
+  DELETE FROM public.credit_ledger_entries;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+  PERFORM tests.clear_authentication();
+
+  ASSERT v_rows = 0, 'reader deleted credit ledger entries';
+END $$;
+
+ROLLBACK;